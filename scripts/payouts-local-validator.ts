@@ -0,0 +1,217 @@
+/**
+ * Season Payouts Against a Local Validator
+ *
+ * Runs a week's prizes end to end - allocation, signing, sending and
+ * settling - against `solana-test-validator` and a local Supabase
+ * (`npx supabase start`), with a throwaway PLAY mint:
+ *
+ * 1. Create a test mint and a treasury funded with SOL and test PLAY
+ * 2. Seed a finalized board with three winners (fresh wallets)
+ * 3. Allocate the board's prizes and run processSeasonPayouts twice -
+ *    the second run must send nothing
+ * 4. Check every prize is paid and each winner holds exactly their prize
+ *
+ * The seeded rows are deleted afterwards. Refuses to run unless both the
+ * RPC and Supabase are local, or if the ledger already has prizes waiting
+ * to be sent (they would be paid with the test mint).
+ *
+ * Usage: solana-test-validator --reset (in another terminal), then
+ *   npm run payouts:local
+ * Reads .env.local; PAYOUT_RPC_URL defaults to http://127.0.0.1:8899.
+ */
+
+import { config } from 'dotenv';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+  createMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from '@solana/spl-token';
+
+config({ path: '.env.local' });
+
+const RPC_URL = process.env.PAYOUT_RPC_URL || 'http://127.0.0.1:8899';
+const DECIMALS = 6;
+const PAYOUT_TABLE = '1:100,2:50,3:25';
+const TREASURY_PLAY = 1_000;
+
+function isLocal(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    return ['127.0.0.1', 'localhost', '0.0.0.0'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function airdrop(connection: Connection, to: PublicKey, sol: number) {
+  const signature = await connection.requestAirdrop(to, sol * LAMPORTS_PER_SOL);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+}
+
+// A Monday well before any real season, so the board can't clash with one
+function testWeekStart(): string {
+  const weeks = Math.floor(Math.random() * 1000);
+  return new Date(Date.UTC(1970, 0, 5) + weeks * 7 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+async function main() {
+  if (!isLocal(RPC_URL) || !isLocal(process.env.NEXT_PUBLIC_SUPABASE_URL)) {
+    throw new Error(
+      'PAYOUT_RPC_URL and NEXT_PUBLIC_SUPABASE_URL must both point at localhost ' +
+      '(solana-test-validator and `npx supabase start`)'
+    );
+  }
+
+  const connection = new Connection(RPC_URL, 'confirmed');
+  await connection.getVersion().catch(() => {
+    throw new Error(`No validator at ${RPC_URL} - start solana-test-validator first`);
+  });
+
+  // Step 1: Test mint and funded treasury
+  const treasury = Keypair.generate();
+  await airdrop(connection, treasury.publicKey, 10);
+
+  const mint = await createMint(connection, treasury, treasury.publicKey, null, DECIMALS);
+  const treasuryAta = await getOrCreateAssociatedTokenAccount(
+    connection,
+    treasury,
+    mint,
+    treasury.publicKey
+  );
+  await mintTo(
+    connection,
+    treasury,
+    mint,
+    treasuryAta.address,
+    treasury,
+    BigInt(TREASURY_PLAY) * BigInt(10 ** DECIMALS)
+  );
+  console.log(`Treasury ${treasury.publicKey.toBase58()} holds ${TREASURY_PLAY} test PLAY (${mint.toBase58()})`);
+
+  // The payout modules read their config on import
+  process.env.PAYOUT_RPC_URL = RPC_URL;
+  process.env.PAYOUT_PLAY_MINT = mint.toBase58();
+  process.env.TREASURY_SECRET_KEY = JSON.stringify(Array.from(treasury.secretKey));
+
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  const { allocateSeasonPrizes, getPayoutsByStatus, getPayoutsForBoard } = await import(
+    '@/lib/supabase/seasons'
+  );
+  const { parsePayoutTable, processSeasonPayouts } = await import('@/lib/season/payouts');
+
+  const waiting = [
+    ...(await getPayoutsByStatus('pending', 1)),
+    ...(await getPayoutsByStatus('sending', 1)),
+  ];
+  if (waiting.length > 0) {
+    throw new Error('The ledger already has prizes waiting to be sent - use a fresh local database');
+  }
+
+  const supabase = createServiceClient();
+  const winners = [Keypair.generate(), Keypair.generate(), Keypair.generate()];
+  let boardId: string | null = null;
+  let profileIds: string[] = [];
+
+  try {
+    // Step 2: Seed a finalized board
+    const { data: profiles, error: profileError } = await supabase
+      .from('user_profiles')
+      .insert(winners.map((w, i) => ({
+        wallet_address: w.publicKey.toBase58(),
+        display_name: `Payout test ${i + 1}`,
+      })))
+      .select('id, wallet_address');
+    assert(!profileError && profiles, `Failed to seed profiles: ${profileError?.message}`);
+    profileIds = profiles.map((p) => p.id as string);
+
+    const weekStart = testWeekStart();
+    const weekEnd = new Date(new Date(`${weekStart}T00:00:00Z`).getTime() + 6 * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+
+    const { data: board, error: boardError } = await supabase
+      .from('leaderboards')
+      .insert({
+        week_start: weekStart,
+        week_end: weekEnd,
+        leaderboard_type: 'global',
+        is_finalized: true,
+        finalized_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+    assert(!boardError && board, `Failed to seed board: ${boardError?.message}`);
+    boardId = board.id as string;
+
+    const { error: snapshotError } = await supabase.from('leaderboard_snapshots').insert(
+      winners.map((w, i) => ({
+        leaderboard_id: boardId,
+        profile_id: profiles.find((p) => p.wallet_address === w.publicKey.toBase58())!.id,
+        rank: i + 1,
+        total_points: 30 - i * 10,
+        packs_opened: 1,
+        picks_made: 5,
+        correct_picks: 3 - i,
+      }))
+    );
+    assert(!snapshotError, `Failed to seed snapshot: ${snapshotError?.message}`);
+
+    // Step 3: Allocate and pay (twice - the second run must be a no-op)
+    const tiers = parsePayoutTable(PAYOUT_TABLE);
+    assert(tiers, 'Invalid test payout table');
+
+    const allocated = await allocateSeasonPrizes(boardId, tiers);
+    assert(allocated === winners.length, `Expected ${winners.length} prizes, allocated ${allocated}`);
+
+    const first = await processSeasonPayouts();
+    console.log('First run:', first);
+    assert(first, 'Treasury not configured');
+    assert(
+      first.paid === winners.length && first.errors.length === 0,
+      `Expected ${winners.length} prizes paid in the first run`
+    );
+
+    const second = await processSeasonPayouts();
+    console.log('Second run:', second);
+    assert(second && second.paid === 0 && second.inFlight === 0, 'Second run sent prizes again');
+
+    // Step 4: Ledger and balances
+    const payouts = await getPayoutsForBoard(boardId);
+    assert(payouts.length === winners.length, 'Ledger is missing prizes');
+
+    for (const payout of payouts) {
+      assert(payout.status === 'paid', `Prize ${payout.prize_position} is ${payout.status}`);
+
+      const account = await getAccount(
+        connection,
+        getAssociatedTokenAddressSync(mint, new PublicKey(payout.wallet_address))
+      );
+      const expected = BigInt(Math.round(Number(payout.amount) * 10 ** DECIMALS));
+      assert(
+        account.amount === expected,
+        `Winner ${payout.prize_position} holds ${account.amount}, expected ${expected}`
+      );
+      console.log(`Prize ${payout.prize_position}: ${payout.amount} PLAY paid (${payout.signature})`);
+    }
+
+    console.log('Season payouts OK');
+  } finally {
+    if (boardId) await supabase.from('leaderboards').delete().eq('id', boardId);
+    if (profileIds.length > 0) await supabase.from('user_profiles').delete().in('id', profileIds);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
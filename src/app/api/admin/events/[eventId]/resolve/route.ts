@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { reResolveEvent } from '@/lib/supabase/resolution';
+import { getAdminWallet } from '@/lib/auth/admin';
+import type { ProvisionalOutcome } from '@/types';
+
+const VALID_OUTCOMES: ProvisionalOutcome[] = ['a', 'b', 'draw', 'void'];
+
+// POST /api/admin/events/[eventId]/resolve
+// Re-resolves a settled event (venue reversed or corrected its outcome).
+// Rescores every pick, including ones already revealed, and records an audit row.
+// Body: { outcome: 'a' | 'b' | 'draw' | 'void', reason? }
+// Auth: wallet JWT (Bearer) for a wallet listed in ADMIN_WALLETS
+export async function POST(
+  request: Request,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const admin = getAdminWallet(request);
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { outcome, reason } = body as {
+      outcome?: ProvisionalOutcome;
+      reason?: string;
+    };
+
+    if (!outcome || !VALID_OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { error: `outcome must be one of: ${VALID_OUTCOMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await reResolveEvent(params.eventId, outcome, admin, reason);
+
+    if ('error' in result) {
+      const status =
+        result.code === 'EVENT_NOT_FOUND' ? 404 :
+        result.code === 'EVENT_NOT_RESOLVED' ? 409 : 500;
+
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error in POST /api/admin/events/[eventId]/resolve:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { updatePackTypeOdds } from '@/lib/supabase/packTypes';
+import { getAdminWallet } from '@/lib/auth/admin';
+import { parseDropRates, RARITY_ORDER, type DropRates } from '@/lib/rarity';
+
+// PUT /api/admin/pack-types/[slug]/odds
+// Sets a pack type's drop table and pity threshold.
+// Body: { dropRates?: { common, uncommon, rare, epic, legendary } | null, pityThreshold?: number | null }
+// dropRates must cover every rarity and sum to 1; null restores the default rates.
+// Auth: wallet JWT (Bearer) for a wallet listed in ADMIN_WALLETS
+export async function PUT(
+  request: Request,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const admin = getAdminWallet(request);
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { dropRates, pityThreshold } = body as {
+      dropRates?: unknown;
+      pityThreshold?: unknown;
+    };
+
+    let parsedRates: DropRates | null | undefined;
+    if (dropRates !== undefined) {
+      parsedRates = dropRates === null ? null : parseDropRates(dropRates);
+      if (parsedRates === null && dropRates !== null) {
+        return NextResponse.json(
+          {
+            error: `dropRates needs a rate between 0 and 1 for each of ${RARITY_ORDER.join(', ')}, summing to 1`,
+            code: 'INVALID_DROP_RATES',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      pityThreshold !== undefined &&
+      pityThreshold !== null &&
+      (typeof pityThreshold !== 'number' || !Number.isInteger(pityThreshold) || pityThreshold < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'pityThreshold must be a positive whole number or null', code: 'INVALID_PITY_THRESHOLD' },
+        { status: 400 }
+      );
+    }
+
+    const packType = await updatePackTypeOdds(params.slug, {
+      dropRates: parsedRates,
+      pityThreshold: pityThreshold as number | null | undefined,
+    });
+
+    if (!packType) {
+      return NextResponse.json(
+        { error: `Unknown pack type: ${params.slug}`, code: 'PACK_TYPE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Odds for pack type ${params.slug} updated by ${admin}`);
+
+    return NextResponse.json({ success: true, packType });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/pack-types/[slug]/odds:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getPoolHealthReport, getRarityFallbackStats } from '@/lib/supabase/poolHealth';
+import { getAdminWallet } from '@/lib/auth/admin';
+
+// GET /api/admin/pools/health?days=7
+// Reports each active pool's dealable events per rarity bin, when it runs
+// out as events start and its upcoming starts, plus how often dealt cards
+// fell back from the rarity they rolled over the last `days` days.
+// Auth: wallet JWT (Bearer) for a wallet listed in ADMIN_WALLETS
+export async function GET(request: Request) {
+  try {
+    const admin = getAdminWallet(request);
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') ?? '7', 10);
+
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      return NextResponse.json(
+        { error: 'days must be between 1 and 90' },
+        { status: 400 }
+      );
+    }
+
+    const [pools, fallbacks] = await Promise.all([
+      getPoolHealthReport(),
+      getRarityFallbackStats(days),
+    ]);
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      pools,
+      fallbacks: { days, packTypes: fallbacks },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/admin/pools/health:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { refreshProfileStats, rebuildAllProfileStats } from '@/lib/supabase/profile';
+import { getAdminWallet } from '@/lib/auth/admin';
+
+// POST /api/admin/profiles/stats
+// Backfill: rebuilds profile totals, streaks and category stats from user_picks.
+// Body: { profileIds?: string[] } (omit to rebuild every profile)
+// Auth: wallet JWT (Bearer) for a wallet listed in ADMIN_WALLETS
+export async function POST(request: Request) {
+  try {
+    const admin = getAdminWallet(request);
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { profileIds } = body as { profileIds?: unknown };
+
+    if (
+      profileIds !== undefined &&
+      (!Array.isArray(profileIds) || !profileIds.every((id) => typeof id === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'profileIds must be an array of profile IDs' },
+        { status: 400 }
+      );
+    }
+
+    const startTime = Date.now();
+    const updated = profileIds
+      ? await refreshProfileStats(profileIds as string[])
+      : await rebuildAllProfileStats();
+
+    if (updated === null) {
+      return NextResponse.json(
+        { error: 'Failed to rebuild profile stats' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`Profile stats rebuilt for ${updated} profiles by ${admin}`);
+
+    return NextResponse.json({
+      success: true,
+      profilesUpdated: updated,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/profiles/stats:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
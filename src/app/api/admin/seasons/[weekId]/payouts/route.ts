@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getPayoutManifest } from '@/lib/season/payouts';
+import { getAdminWallet } from '@/lib/auth/admin';
+
+// GET /api/admin/seasons/[weekId]/payouts
+// Payout manifest for a week (YYYY-WW): the PLAY transfers from the
+// treasury to each prize winner, with ledger status and signatures.
+// Auth: wallet JWT (Bearer) for a wallet listed in ADMIN_WALLETS
+export async function GET(
+  request: Request,
+  { params }: { params: { weekId: string } }
+) {
+  try {
+    const admin = getAdminWallet(request);
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const manifest = await getPayoutManifest(params.weekId);
+
+    if (!manifest) {
+      return NextResponse.json(
+        { error: `No leaderboard for week ${params.weekId}`, code: 'SEASON_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(manifest);
+  } catch (error) {
+    console.error('Error in GET /api/admin/seasons/[weekId]/payouts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
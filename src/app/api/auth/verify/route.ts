@@ -1,24 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import nacl from 'tweetnacl';
 import bs58 from 'bs58';
-import crypto from 'crypto';
 import { createServiceClient } from '@/lib/supabase/server';
+import { createJWT } from '@/lib/auth/jwt';
 
 const JWT_SECRET = process.env.JWT_SECRET;
 
-function createJWT(payload: Record<string, unknown>): string {
-  if (!JWT_SECRET) throw new Error('JWT_SECRET not configured');
-
-  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
-  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
-  const signature = crypto
-    .createHmac('sha256', JWT_SECRET)
-    .update(`${header}.${body}`)
-    .digest('base64url');
-
-  return `${header}.${body}.${signature}`;
-}
-
 export async function POST(request: NextRequest) {
   if (!JWT_SECRET) {
     return NextResponse.json(
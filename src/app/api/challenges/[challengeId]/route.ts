@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import { getPacksByIds } from '@/lib/supabase/packs';
+import { fetchProfileById } from '@/lib/supabase/profile';
+import { getChallenge, compareChallengePacks } from '@/lib/supabase/challenges';
+
+// GET /api/challenges/[challengeId]?anonymousId=xxx
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Returns the challenge's events, both players and - once the opponent has
+// committed - both packs side by side with the pick-by-pick comparison.
+// The creator's picks stay hidden from everyone else until then.
+export async function GET(
+  request: Request,
+  { params }: { params: { challengeId: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const anonymousId = searchParams.get('anonymousId');
+
+    const auth = await resolveCaller(request, { anonymousId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const challenge = await getChallenge(params.challengeId);
+    if (!challenge) {
+      return NextResponse.json(
+        { error: 'Challenge not found', code: 'CHALLENGE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const viewerId = auth.caller.profile.id;
+    const role =
+      viewerId === challenge.creator_profile_id
+        ? 'creator'
+        : viewerId === challenge.opponent_profile_id
+          ? 'opponent'
+          : 'viewer';
+
+    const [creator, opponent, packs] = await Promise.all([
+      fetchProfileById(challenge.creator_profile_id),
+      challenge.opponent_profile_id ? fetchProfileById(challenge.opponent_profile_id) : null,
+      getPacksByIds(
+        [challenge.creator_pack_id, challenge.opponent_pack_id].filter(
+          (id): id is string => !!id
+        )
+      ),
+    ]);
+
+    const creatorPack = packs.find((p) => p.id === challenge.creator_pack_id) ?? null;
+    const opponentPack = packs.find((p) => p.id === challenge.opponent_pack_id) ?? null;
+    const showCreatorPack = role === 'creator' || !!opponentPack;
+
+    return NextResponse.json({
+      challenge: {
+        id: challenge.id,
+        events: challenge.events,
+        createdAt: challenge.created_at,
+        acceptedAt: challenge.accepted_at,
+        expiresAt: challenge.expires_at,
+      },
+      role,
+      creator: {
+        displayName: creator?.display_name || 'Anonymous',
+        pack: showCreatorPack ? creatorPack : null,
+      },
+      opponent: challenge.opponent_profile_id
+        ? {
+            displayName: opponent?.display_name || 'Anonymous',
+            pack: opponentPack,
+          }
+        : null,
+      comparison: creatorPack && opponentPack
+        ? compareChallengePacks(challenge, creatorPack, opponentPack)
+        : null,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/challenges/[challengeId]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
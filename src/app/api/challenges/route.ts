@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import { getPackById, getPackDraft } from '@/lib/supabase/packs';
+import { createChallenge, getChallenge, getChallengeForPack } from '@/lib/supabase/challenges';
+
+// POST /api/challenges
+// Body: { anonymousId?: string, profileId?: string, packId: string }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited); pack owner only
+// Returns the pack's challenge, creating one for a committed pack. A
+// challenge pack returns the challenge it was played in.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, packId } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      packId?: string;
+    };
+
+    if (!packId) {
+      return NextResponse.json(
+        { error: 'packId is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const pack = await getPackById(packId);
+    if (!pack || pack.profile_id !== auth.caller.profile.id) {
+      return NextResponse.json(
+        { error: 'Pack not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await getChallengeForPack(pack.id);
+    if (existing) {
+      return NextResponse.json({ challengeId: existing.id });
+    }
+
+    const draft = await getPackDraft(pack.id);
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Pack was not dealt by the server', code: 'DRAFT_NOT_FOUND' },
+        { status: 409 }
+      );
+    }
+
+    // A challenge pack whose link hasn't landed yet - not a new challenge
+    if (draft.challenge_id) {
+      const challenge = await getChallenge(draft.challenge_id);
+      return challenge
+        ? NextResponse.json({ challengeId: challenge.id })
+        : NextResponse.json({ error: 'Challenge not found' }, { status: 404 });
+    }
+
+    const challenge = await createChallenge(pack, draft);
+    if (!challenge) {
+      return NextResponse.json(
+        { error: 'Failed to create challenge' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ challengeId: challenge.id });
+  } catch (error) {
+    console.error('Error in POST /api/challenges:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
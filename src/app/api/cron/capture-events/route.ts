@@ -0,0 +1,187 @@
+/**
+ * Cron Job: Capture Events from Venues
+ *
+ * Pulls open markets from every enabled venue adapter and turns them into
+ * playable events.
+ *
+ * Flow (per venue):
+ * 1. Page through adapter.fetchMarkets() and keep markets passing isValidMarket()
+ * 2. Upsert each market as an event (adapter.toEvent) plus its venue tokens
+ * 3. Assign unpooled events to the venue's matching active pool (category + period window)
+ *
+ * Vercel Cron: Set up in vercel.json with schedule "0 6 * * *" (daily)
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+
+import { NextResponse } from 'next/server';
+import { createSyncLog, completeSyncLog } from '@/lib/supabase/events';
+import {
+  getActivePools,
+  findPoolForEvent,
+  assignEventsToPool,
+} from '@/lib/supabase/pools';
+import { venueRegistry } from '@/lib/adapters';
+import { getEnabledVenueIds } from '@/lib/adapters/config';
+import { fetchAllMarkets, captureMarket } from '@/lib/capture';
+import type { DBPool } from '@/lib/pools';
+import type { Event } from '@/types';
+
+// Verify cron secret for security
+function verifyCronSecret(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In development, allow requests without secret
+  if (process.env.NODE_ENV === 'development') {
+    return true;
+  }
+
+  // In production, require CRON_SECRET
+  if (!cronSecret) {
+    console.warn('CRON_SECRET not set - cron endpoint is unprotected');
+    return true;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+interface CaptureError {
+  market_id: string;
+  venue?: string;
+  error: string;
+}
+
+interface VenueCaptureResult {
+  venue: string;
+  captured: number;
+  created: number;
+  assigned: number;
+  pools: Record<string, number>;
+  errors: CaptureError[];
+}
+
+/**
+ * Capture all markets for one venue, logged as its own sync run
+ */
+async function captureVenue(venue: string): Promise<VenueCaptureResult> {
+  const result: VenueCaptureResult = {
+    venue,
+    captured: 0,
+    created: 0,
+    assigned: 0,
+    pools: {},
+    errors: [],
+  };
+
+  // Create sync log entry
+  const logId = await createSyncLog('event_capture', venue);
+
+  try {
+    const adapter = venueRegistry.getOrNull(venue);
+    if (!adapter) {
+      throw new Error(`No adapter for venue: ${venue}`);
+    }
+
+    // Step 1: Fetch and filter markets
+    const markets = (await fetchAllMarkets(adapter)).filter((m) => adapter.isValidMarket(m));
+    console.log(`Capturing ${markets.length} markets from ${venue}`);
+
+    const pools = await getActivePools(venue);
+    const eventsByPool = new Map<string, { pool: DBPool; eventIds: string[] }>();
+
+    // Step 2: Upsert events + tokens (with concurrency limit)
+    const BATCH_SIZE = 10;
+    for (let i = 0; i < markets.length; i += BATCH_SIZE) {
+      const batch = markets.slice(i, i + BATCH_SIZE);
+
+      const results = await Promise.all(
+        batch.map(async (market) => ({ market, captured: await captureMarket(adapter, market) }))
+      );
+
+      for (const { market, captured } of results) {
+        if ('error' in captured) {
+          result.errors.push({ market_id: market.venueMarketId, venue, error: captured.error });
+          continue;
+        }
+
+        result.captured++;
+        if (captured.created) result.created++;
+
+        const pool = findPoolForEvent(pools, captured.event as Event);
+        if (pool) {
+          const entry = eventsByPool.get(pool.id) ?? { pool, eventIds: [] };
+          entry.eventIds.push(captured.event.id);
+          eventsByPool.set(pool.id, entry);
+        }
+      }
+    }
+
+    // Step 3: Assign unpooled events to their pools
+    for (const { pool, eventIds } of Array.from(eventsByPool.values())) {
+      const assigned = await assignEventsToPool(eventIds, pool);
+      result.assigned += assigned;
+      result.pools[pool.slug] = assigned;
+    }
+  } catch (error) {
+    console.error(`Error capturing events for ${venue}:`, error);
+    result.errors.push({
+      market_id: 'global',
+      venue,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  // Complete sync log
+  if (logId) {
+    await completeSyncLog(logId, result.captured, result.errors);
+  }
+
+  return result;
+}
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    // Venues run one after another to stay within each API's rate limit
+    const venues: VenueCaptureResult[] = [];
+    for (const venue of getEnabledVenueIds()) {
+      venues.push(await captureVenue(venue));
+    }
+
+    const errors = venues.flatMap((v) => v.errors);
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      captured: venues.reduce((sum, v) => sum + v.captured, 0),
+      created: venues.reduce((sum, v) => sum + v.created, 0),
+      assigned: venues.reduce((sum, v) => sum + v.assigned, 0),
+      venues: venues.map(({ errors: _errors, ...stats }) => ({ ...stats, failed: _errors.length })),
+      failed: errors.length,
+      errors: errors.length > 0 ? errors : undefined,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error in capture events cron:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: Request) {
+  return GET(request);
+}
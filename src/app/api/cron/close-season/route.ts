@@ -0,0 +1,148 @@
+/**
+ * Cron Job: Close Season
+ *
+ * Each week is a season with PLAY prizes for the top of the board.
+ *
+ * Flow:
+ * 1. Freeze the final standings of every week that has ended (the week
+ *    that was getCurrentWeekId() until Sunday midnight UTC, plus any a
+ *    missed run left behind) - once every pick in its packs is resolved
+ *    or void, or SEASON_CLOSE_GRACE_DAYS after it ended
+ * 2. Allocate prizes from the payout table (SEASON_PAYOUT_TABLE) into the
+ *    season_payouts ledger - once per frozen week
+ * 3. Send pending prizes from the treasury (needs TREASURY_SECRET_KEY;
+ *    without it prizes are only allocated, see the admin payout manifest)
+ *    and settle transfers earlier runs left in flight
+ *
+ * Every step is idempotent, so the job runs hourly and retries whatever
+ * didn't finish.
+ *
+ * Vercel Cron: Set up in vercel.json with schedule "15 * * * *" (hourly)
+ *
+ * Security: Protected by CRON_SECRET header (refused outside development
+ * when it isn't set)
+ */
+
+import { NextResponse } from 'next/server';
+import { createSyncLog, completeSyncLog } from '@/lib/supabase/events';
+import { getLeaderboardsToClose, finalizeLeaderboard } from '@/lib/supabase/leaderboard';
+import { getBoardsAwaitingPayouts, allocateSeasonPrizes } from '@/lib/supabase/seasons';
+import { getPayoutTable, processSeasonPayouts } from '@/lib/season/payouts';
+
+// Verify cron secret for security
+function verifyCronSecret(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In development, allow requests without secret
+  if (process.env.NODE_ENV === 'development') {
+    return true;
+  }
+
+  // In production, require CRON_SECRET - this job pays out prizes, so it
+  // refuses to run unprotected
+  if (!cronSecret) {
+    console.error('CRON_SECRET not set - refusing to close seasons');
+    return false;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+interface SeasonError {
+  leaderboard_id?: string;
+  payout_id?: string;
+  error: string;
+}
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const errors: SeasonError[] = [];
+  const closed: string[] = [];
+  const allocated: { leaderboard_id: string; week_start: string; prizes: number }[] = [];
+
+  // Create sync log entry
+  const logId = await createSyncLog('season_close');
+
+  try {
+    // Step 1: Freeze ended weeks
+    for (const leaderboardId of await getLeaderboardsToClose()) {
+      const players = await finalizeLeaderboard(leaderboardId);
+      if (players === null) {
+        errors.push({ leaderboard_id: leaderboardId, error: 'Failed to finalize leaderboard' });
+      } else {
+        closed.push(leaderboardId);
+      }
+    }
+
+    // Step 2: Allocate prizes
+    const tiers = getPayoutTable();
+    if (!tiers) {
+      errors.push({ error: 'Invalid SEASON_PAYOUT_TABLE - prizes not allocated' });
+    } else {
+      for (const board of await getBoardsAwaitingPayouts()) {
+        const prizes = await allocateSeasonPrizes(board.id, tiers);
+        if (prizes === null) {
+          errors.push({ leaderboard_id: board.id, error: 'Failed to allocate prizes' });
+        } else {
+          console.log(`Allocated ${prizes} prizes for week of ${board.week_start}`);
+          allocated.push({ leaderboard_id: board.id, week_start: board.week_start, prizes });
+        }
+      }
+    }
+
+    // Step 3: Pay
+    const payouts = await processSeasonPayouts();
+    if (payouts) {
+      errors.push(...payouts.errors);
+    }
+
+    // Complete sync log
+    if (logId) {
+      await completeSyncLog(logId, payouts?.paid ?? 0, errors);
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      closed: closed.length,
+      allocated: allocated.length > 0 ? allocated : undefined,
+      payouts: payouts
+        ? {
+            paid: payouts.paid,
+            failed: payouts.failed,
+            retrying: payouts.retrying,
+            in_flight: payouts.inFlight,
+          }
+        : 'treasury not configured',
+      errors: errors.length > 0 ? errors : undefined,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error in close season cron:', error);
+
+    if (logId) {
+      await completeSyncLog(logId, 0, [
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+      ]);
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,144 @@
+/**
+ * Cron Job: Pool Health
+ *
+ * Checks every active pool can keep honouring the drop rates, and
+ * rebalances the ones that can't.
+ *
+ * Flow:
+ * 1. Report each active pool's events per rarity bin, when it runs out
+ *    and its upcoming starts (getPoolHealthReport)
+ * 2. For pools with empty rarity bins, pull matching events from the
+ *    capture pipeline: already-captured events that missed the pool first,
+ *    then the venue's open markets (refillPoolBins)
+ * 3. Include the last week's rarity fallbacks per pack type
+ *
+ * Vercel Cron: Set up in vercel.json with schedule "30 0,6,12,18 * * *" (every 6 hours)
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+
+import { NextResponse } from 'next/server';
+import { createSyncLog, completeSyncLog } from '@/lib/supabase/events';
+import { getPoolHealthReport, getRarityFallbackStats } from '@/lib/supabase/poolHealth';
+import { fetchAllMarkets, refillPoolBins, type PoolRefillResult } from '@/lib/capture';
+import { venueRegistry } from '@/lib/adapters';
+import type { VenueMarket } from '@/lib/adapters';
+
+// Verify cron secret for security
+function verifyCronSecret(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In development, allow requests without secret
+  if (process.env.NODE_ENV === 'development') {
+    return true;
+  }
+
+  // In production, require CRON_SECRET
+  if (!cronSecret) {
+    console.warn('CRON_SECRET not set - cron endpoint is unprotected');
+    return true;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+interface RebalanceError {
+  pool: string;
+  error: string;
+}
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const errors: RebalanceError[] = [];
+  const refills: PoolRefillResult[] = [];
+
+  // Create sync log entry
+  const logId = await createSyncLog('pool_health');
+
+  try {
+    // Step 1: Report
+    const before = await getPoolHealthReport();
+
+    // Step 2: Refill empty bins, fetching each venue's markets once
+    const marketsByVenue = new Map<string, VenueMarket[]>();
+
+    for (const { pool, emptyBins } of before.filter((health) => health.emptyBins.length > 0)) {
+      try {
+        const adapter = venueRegistry.getOrNull(pool.venue);
+        if (!adapter) {
+          throw new Error(`No adapter for venue: ${pool.venue}`);
+        }
+
+        let markets = marketsByVenue.get(pool.venue);
+        if (!markets) {
+          markets = (await fetchAllMarkets(adapter)).filter((m) => adapter.isValidMarket(m));
+          marketsByVenue.set(pool.venue, markets);
+        }
+
+        const refill = await refillPoolBins(adapter, markets, pool, emptyBins);
+        console.log(
+          `Refilled ${pool.slug} (${emptyBins.join(', ')}): ${refill.fromCaptured} captured, ${refill.fromVenue} from venue`
+        );
+        refills.push(refill);
+        errors.push(...refill.errors.map((error) => ({ pool: pool.slug, error })));
+      } catch (error) {
+        console.error(`Error refilling pool ${pool.slug}:`, error);
+        errors.push({
+          pool: pool.slug,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Step 3: Report again after refilling, with the week's fallbacks
+    const [pools, fallbacks] = await Promise.all([
+      refills.length > 0 ? getPoolHealthReport() : before,
+      getRarityFallbackStats(7),
+    ]);
+
+    const added = refills.reduce((sum, r) => sum + r.fromCaptured + r.fromVenue, 0);
+
+    // Complete sync log
+    if (logId) {
+      await completeSyncLog(logId, added, errors);
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      pools: pools.map(({ pool, ...health }) => ({ pool: pool.slug, venue: pool.venue, ...health })),
+      refills: refills.length > 0 ? refills : undefined,
+      events_added: added,
+      fallbacks,
+      errors: errors.length > 0 ? errors : undefined,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error in pool health cron:', error);
+
+    if (logId) {
+      await completeSyncLog(logId, 0, [
+        { pool: 'global', error: error instanceof Error ? error.message : 'Unknown error' },
+      ]);
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,127 @@
+/**
+ * Cron Job: Rank Leaderboards
+ *
+ * Weekly leaderboard entries are kept up to date by database triggers as
+ * packs are opened and resolved; this job turns them into ranks.
+ *
+ * Flow:
+ * 1. Re-rank the current week's board (previous_rank keeps each player's
+ *    last different rank, for movement arrows)
+ * 2. Close every board whose week has ended and whose picks have all
+ *    resolved (or whose grace period has passed): final ranking, frozen
+ *    snapshot (leaderboard_snapshots), best weekly rank/points on profiles
+ *
+ * Vercel Cron: Set up in vercel.json with schedule "0 * * * *" (hourly)
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+
+import { NextResponse } from 'next/server';
+import { createSyncLog, completeSyncLog } from '@/lib/supabase/events';
+import {
+  getOrCreateWeeklyLeaderboard,
+  rankLeaderboard,
+  getLeaderboardsToClose,
+  finalizeLeaderboard,
+} from '@/lib/supabase/leaderboard';
+
+// Verify cron secret for security
+function verifyCronSecret(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In development, allow requests without secret
+  if (process.env.NODE_ENV === 'development') {
+    return true;
+  }
+
+  // In production, require CRON_SECRET
+  if (!cronSecret) {
+    console.warn('CRON_SECRET not set - cron endpoint is unprotected');
+    return true;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+interface RankingError {
+  leaderboard_id: string;
+  error: string;
+}
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const errors: RankingError[] = [];
+  const closed: { leaderboard_id: string; players: number }[] = [];
+
+  // Create sync log entry
+  const logId = await createSyncLog('leaderboard_rank');
+
+  try {
+    // Step 1: Re-rank the current week
+    const currentId = await getOrCreateWeeklyLeaderboard();
+    let rankedPlayers: number | null = null;
+
+    if (currentId) {
+      rankedPlayers = await rankLeaderboard(currentId);
+      if (rankedPlayers === null) {
+        errors.push({ leaderboard_id: currentId, error: 'Failed to rank leaderboard' });
+      }
+    } else {
+      errors.push({ leaderboard_id: 'current', error: 'Failed to get current leaderboard' });
+    }
+
+    // Step 2: Close ended weeks
+    for (const leaderboardId of await getLeaderboardsToClose()) {
+      const players = await finalizeLeaderboard(leaderboardId);
+      if (players === null) {
+        errors.push({ leaderboard_id: leaderboardId, error: 'Failed to finalize leaderboard' });
+      } else {
+        console.log(`Closed leaderboard ${leaderboardId} with ${players} players`);
+        closed.push({ leaderboard_id: leaderboardId, players });
+      }
+    }
+
+    // Complete sync log
+    if (logId) {
+      await completeSyncLog(logId, (rankedPlayers ?? 0) + closed.length, errors);
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      current_leaderboard: currentId,
+      ranked_players: rankedPlayers ?? 0,
+      closed: closed.length,
+      closed_leaderboards: closed.length > 0 ? closed : undefined,
+      errors: errors.length > 0 ? errors : undefined,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error in rank leaderboards cron:', error);
+
+    if (logId) {
+      await completeSyncLog(logId, 0, [
+        { leaderboard_id: 'global', error: error instanceof Error ? error.message : 'Unknown error' },
+      ]);
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -1,19 +1,28 @@
 /**
  * Cron Job: Resolve Events
  *
- * This endpoint should be called periodically (e.g., every 5 minutes)
- * to check for resolved events and update picks.
+ * This endpoint should be called at least as often as the dispute window
+ * (RESOLUTION_DISPUTE_WINDOW_MINUTES) to check for resolved events and
+ * update picks, so results are scored soon after their window closes.
  *
  * Flow:
  * 1. Update events that have started to 'active' status
  * 2. Get events with status='active' that have venue market IDs
  * 3. For each event, use the appropriate venue adapter to check resolution
- * 4. If resolved:
- *    - Update events table (status='resolved', winning_outcome)
- *    - Resolve all picks for that event
- *    - Recalculate pack totals
+ * 4. If the venue reports a new result: hold it as 'pending_resolution'
+ *    (provisional_outcome) until the dispute window has passed. If the venue
+ *    withdraws it in the meantime, the event goes back to 'active'.
+ * 5. Once the window has passed with the same result:
+ *    - Voided: close picks as void (0 points), then mark event 'cancelled'
+ *    - Resolved: resolve all picks for that event, recalculate pack totals,
+ *      then update events table (status='resolved', winning_outcome)
+ *    The event row is written last: clients get it pushed via Realtime and
+ *    fetch the already-scored picks.
+ * 6. Web Push: "Card N is ready to reveal" to players whose pack became
+ *    revealable, and on Sundays the weekly rank summary (both respect the
+ *    player's notification preferences)
  *
- * Vercel Cron: Set up in vercel.json with schedule "0 0 * * *" (daily)
+ * Vercel Cron: Set up in vercel.json with schedule "0 * * * *" (hourly)
  *
  * Security: Protected by CRON_SECRET header
  */
@@ -27,11 +36,22 @@ import {
 import {
   resolveEvent,
   resolvePicksForEvent,
+  voidEvent,
+  voidPicksForEvent,
   updateActiveEvents,
+  markEventProvisional,
+  clearProvisionalResolution,
+  isDisputeWindowOpen,
+  DISPUTE_WINDOW_MS,
 } from '@/lib/supabase/resolution';
+import {
+  snapshotRevealStatus,
+  notifyReadyReveals,
+  sendWeeklyRankSummaries,
+} from '@/lib/push/notifications';
 import { venueRegistry } from '@/lib/adapters';
-import { getActiveVenueId } from '@/lib/adapters/config';
-import type { Event } from '@/types';
+import { getEnabledVenueIds } from '@/lib/adapters/config';
+import type { Event, ProvisionalOutcome } from '@/types';
 
 // Verify cron secret for security
 function verifyCronSecret(request: Request): boolean {
@@ -63,9 +83,12 @@ interface ResolutionResult {
   title: string;
   venue: string;
   resolved: boolean;
+  voided?: boolean;
+  provisional?: boolean;
   winning_outcome?: string;
   picks_resolved?: number;
   points_awarded?: number;
+  reveal_notifications?: number;
 }
 
 /**
@@ -103,10 +126,91 @@ async function processEventResolution(event: Event): Promise<{
     const resolution = await adapter.checkResolution(marketId);
 
     if (!resolution.resolved) {
+      // Venue withdrew a provisional result (e.g. disputed) - back to active
+      if (event.status === 'pending_resolution') {
+        console.log(`[${venue}] Provisional result withdrawn: ${event.title}`);
+        await clearProvisionalResolution(event.id);
+      }
+
       // Not resolved yet
       return { success: true, resolved: false };
     }
 
+    if (!resolution.voided && !resolution.winningOutcome) {
+      return { success: false, resolved: false, error: 'Resolved but no winning outcome' };
+    }
+
+    const outcome: ProvisionalOutcome = resolution.winningOutcome ?? 'void';
+
+    // Hold new (or changed) results until the dispute window has passed
+    if (DISPUTE_WINDOW_MS > 0) {
+      if (event.status !== 'pending_resolution' || event.provisional_outcome !== outcome) {
+        console.log(`[${venue}] Event provisionally resolved: ${event.title} - ${outcome}`);
+
+        const marked = await markEventProvisional(event.id, outcome);
+        if (!marked) {
+          return { success: false, resolved: false, error: 'Failed to mark event provisional' };
+        }
+
+        return {
+          success: true,
+          resolved: false,
+          result: {
+            event_id: event.id,
+            title: event.title,
+            venue,
+            resolved: false,
+            provisional: true,
+            winning_outcome: outcome,
+          },
+        };
+      }
+
+      if (isDisputeWindowOpen(event)) {
+        return { success: true, resolved: false };
+      }
+    }
+
+    // Voided market: close out picks with no points and no penalty
+    if (resolution.voided) {
+      console.log(`[${venue}] Event voided: ${event.title}`);
+
+      // Picks first: clients are pushed the event update and then fetch the picks
+      const revealsBefore = await snapshotRevealStatus(event.id);
+      const stats = await voidPicksForEvent(event.id);
+
+      // Any pick left open keeps the event unsettled, so the next run retries it
+      if (stats.picksSkipped > 0) {
+        return {
+          success: false,
+          resolved: false,
+          error: `${stats.picksSkipped} picks could not be voided - event left unsettled`,
+        };
+      }
+
+      const eventVoided = await voidEvent(event.id);
+      if (!eventVoided) {
+        return { success: false, resolved: false, error: 'Failed to void event' };
+      }
+
+      const pushed = await notifyReadyReveals(revealsBefore);
+
+      return {
+        success: true,
+        resolved: true,
+        result: {
+          event_id: event.id,
+          title: event.title,
+          venue,
+          resolved: true,
+          voided: true,
+          picks_resolved: stats.picksResolved,
+          points_awarded: 0,
+          reveal_notifications: pushed?.sent ?? 0,
+        },
+      };
+    }
+
     if (!resolution.winningOutcome) {
       return { success: false, resolved: false, error: 'Resolved but no winning outcome' };
     }
@@ -114,14 +218,28 @@ async function processEventResolution(event: Event): Promise<{
     // Event is resolved! Update everything
     console.log(`[${venue}] Event resolved: ${event.title} - Winner: ${resolution.winningOutcome}`);
 
-    // 1. Update the event in the database
+    // 1. Resolve all picks for this event
+    const revealsBefore = await snapshotRevealStatus(event.id);
+    const stats = await resolvePicksForEvent(event.id, resolution.winningOutcome);
+
+    // Any pick left unscored keeps the event unresolved, so the next run retries it
+    if (stats.picksSkipped > 0) {
+      return {
+        success: false,
+        resolved: false,
+        error: `${stats.picksSkipped} picks could not be scored - event left unresolved`,
+      };
+    }
+
+    // 2. Update the event in the database - last, because this row change is
+    //    what's pushed to clients (Realtime) and they then fetch the scored picks
     const eventUpdated = await resolveEvent(event.id, resolution.winningOutcome);
     if (!eventUpdated) {
       return { success: false, resolved: false, error: 'Failed to update event' };
     }
 
-    // 2. Resolve all picks for this event
-    const stats = await resolvePicksForEvent(event.id, resolution.winningOutcome);
+    // 3. Tell players whose next card just became revealable
+    const pushed = await notifyReadyReveals(revealsBefore);
 
     return {
       success: true,
@@ -134,6 +252,7 @@ async function processEventResolution(event: Event): Promise<{
         winning_outcome: resolution.winningOutcome,
         picks_resolved: stats.picksResolved,
         points_awarded: stats.totalPointsAwarded,
+        reveal_notifications: pushed?.sent ?? 0,
       },
     };
   } catch (error) {
@@ -154,6 +273,7 @@ export async function GET(request: Request) {
   const startTime = Date.now();
   const errors: ResolutionError[] = [];
   const resolved: ResolutionResult[] = [];
+  const provisional: ResolutionResult[] = [];
   let checkedCount = 0;
 
   // Create sync log entry
@@ -166,14 +286,15 @@ export async function GET(request: Request) {
       console.log(`Activated ${activatedCount} events`);
     }
 
-    // Step 2: Get active events that need resolution check
-    const allEvents = await getEventsToResolve();
-
-    // Filter to only process events from the active venue
-    const activeVenue = getActiveVenueId();
-    const events = allEvents.filter(e => (e.venue ?? 'polymarket') === activeVenue);
+    // Step 2: Get active events that need resolution check (every enabled venue)
+    const venueEvents = await Promise.all(
+      getEnabledVenueIds().map((venue) => getEventsToResolve(venue))
+    );
+    const events = venueEvents.flat();
 
     if (events.length === 0) {
+      const rankSummary = await sendWeeklyRankSummaries();
+
       if (logId) {
         await completeSyncLog(logId, 0);
       }
@@ -183,6 +304,7 @@ export async function GET(request: Request) {
         checked: 0,
         resolved: 0,
         activated: activatedCount,
+        rank_summaries: rankSummary?.sent,
         duration_ms: Date.now() - startTime,
       });
     }
@@ -213,6 +335,8 @@ export async function GET(request: Request) {
         if (result.success) {
           if (result.resolved && result.result) {
             resolved.push(result.result);
+          } else if (result.result?.provisional) {
+            provisional.push(result.result);
           }
         } else {
           errors.push({
@@ -224,6 +348,9 @@ export async function GET(request: Request) {
       }
     }
 
+    // Step 4: Weekly rank summary (Sundays, after today's scoring)
+    const rankSummary = await sendWeeklyRankSummaries();
+
     // Complete sync log
     if (logId) {
       await completeSyncLog(logId, resolved.length, errors);
@@ -233,10 +360,13 @@ export async function GET(request: Request) {
       success: errors.length === 0,
       checked: checkedCount,
       resolved: resolved.length,
+      provisional: provisional.length,
       activated: activatedCount,
+      rank_summaries: rankSummary?.sent,
       failed: errors.length,
       venues: venueDistribution,
       results: resolved.length > 0 ? resolved : undefined,
+      provisional_results: provisional.length > 0 ? provisional : undefined,
       errors: errors.length > 0 ? errors : undefined,
       duration_ms: Date.now() - startTime,
     });
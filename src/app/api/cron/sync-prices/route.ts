@@ -19,7 +19,7 @@ import {
   updateTokenPrice,
 } from '@/lib/supabase/events';
 import { venueRegistry } from '@/lib/adapters';
-import { getActiveVenueId } from '@/lib/adapters/config';
+import { getEnabledVenueIds } from '@/lib/adapters/config';
 import type { Event } from '@/types';
 
 // Verify cron secret for security
@@ -131,12 +131,12 @@ export async function GET(request: Request) {
   const logId = await createSyncLog('price_sync');
 
   try {
-    // Get events that need price sync
-    const allEvents = await getEventsForPriceSync();
-
-    // Filter to only process events from the active venue
-    const activeVenue = getActiveVenueId();
-    const events = allEvents.filter(e => (e.venue ?? 'polymarket') === activeVenue);
+    // Get events that need price sync, per enabled venue so one venue
+    // can't starve the others out of the batch
+    const venueEvents = await Promise.all(
+      getEnabledVenueIds().map((venue) => getEventsForPriceSync(venue))
+    );
+    const events = venueEvents.flat();
 
     if (events.length === 0) {
       if (logId) {
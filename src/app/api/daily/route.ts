@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import { getPackType } from '@/lib/supabase/packTypes';
+import {
+  getDailyDate,
+  isDailyDate,
+  shiftDailyDate,
+  getDailyPack,
+  getOrCreateDailyPack,
+  getDailyEntry,
+  getDailyLeaderboard,
+  getDailyPickDistribution,
+  DAILY_PACK_TYPE,
+} from '@/lib/supabase/daily';
+
+// GET /api/daily?anonymousId=xxx&day=YYYY-MM-DD
+// day: optional - a past UTC day; defaults to today
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Returns the day's daily pack events, the caller's entry, the day's
+// leaderboard and how the community picked each event. Today's pick
+// distribution is only shown once the caller has played.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const anonymousId = searchParams.get('anonymousId');
+    const today = getDailyDate();
+    const day = searchParams.get('day') ?? today;
+
+    if (!isDailyDate(day) || day > today) {
+      return NextResponse.json(
+        { error: `Invalid day: ${day}`, code: 'INVALID_DAY' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+    const { profile } = auth.caller;
+
+    const getTodaysPack = async () => {
+      const packType = await getPackType(DAILY_PACK_TYPE);
+      return packType ? getOrCreateDailyPack(packType) : null;
+    };
+
+    const [dailyPack, entryPackId, leaderboard] = await Promise.all([
+      day === today ? getTodaysPack() : getDailyPack(day),
+      getDailyEntry(profile.id, day),
+      getDailyLeaderboard(day, { profileId: profile.id }),
+    ]);
+
+    // Seeing today's picks first would tip off the ones still to play
+    const showDistribution = !!dailyPack && (day < today || !!entryPackId);
+    const distribution = showDistribution ? await getDailyPickDistribution(dailyPack) : null;
+
+    return NextResponse.json({
+      day,
+      isToday: day === today,
+      previousDay: shiftDailyDate(day, -1),
+      nextDay: day < today ? shiftDailyDate(day, 1) : null,
+      events: dailyPack?.events ?? [],
+      entryPackId,
+      leaderboard,
+      distribution,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/daily:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getEventsById, getPicksForEvents } from '@/lib/supabase/resolution';
-import type { EventStatus, Outcome } from '@/types';
+import { getPackById } from '@/lib/supabase/packs';
+import { getAchievementProfile } from '@/lib/supabase/achievements';
+import type { Achievement, EventStatus, Outcome, PackResolutionStatus } from '@/types';
 
 // Types for event resolution data
 interface EventResolution {
@@ -17,20 +19,38 @@ interface PickResolution {
   points_awarded: number;
 }
 
+// Server-awarded payouts for one pack - the client never computes these
+interface PackResolution {
+  id: string;
+  resolution_status: PackResolutionStatus;
+  total_points: number;   // Pick points + pack bonus
+  pack_bonus: number;
+  correct_picks: number;
+  picks: (PickResolution & {
+    event_id: string;
+    is_void: boolean;
+    resolved_at: string | null;
+    probability_snapshot: number;
+  })[];
+  achievements: Achievement[]; // Unlocks this pack earned (shown as its cards are revealed)
+}
+
 interface SyncResponse {
   events: Record<string, EventResolution>;
   picks?: Record<string, PickResolution[]>;
+  pack?: PackResolution;
 }
 
 // POST /api/events/sync
-// Body: { eventIds: string[], includeUserPicks?: boolean }
-// Returns: { events: { [id]: EventResolution }, picks?: { [eventId]: PickResolution[] } }
+// Body: { eventIds: string[], includeUserPicks?: boolean, packId? }
+// Returns: { events: { [id]: EventResolution }, picks?: { [eventId]: PickResolution[] }, pack?: PackResolution }
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { eventIds, includeUserPicks = false } = body as {
+    const { eventIds, includeUserPicks = false, packId } = body as {
       eventIds: string[];
       includeUserPicks?: boolean;
+      packId?: string;
     };
 
     if (!Array.isArray(eventIds)) {
@@ -82,6 +102,36 @@ export async function POST(request: Request) {
       }
     }
 
+    // Optionally include the pack's server-awarded payouts
+    if (packId) {
+      const pack = await getPackById(packId);
+
+      if (pack) {
+        const picks = pack.picks ?? [];
+        const pickPoints = picks.reduce((sum, p) => sum + (p.points_awarded ?? 0), 0);
+        const owner = pack.profile_id ? await getAchievementProfile(pack.profile_id) : null;
+
+        response.pack = {
+          id: pack.id,
+          resolution_status: pack.resolution_status,
+          total_points: pack.total_points,
+          pack_bonus: Math.round((pack.total_points - pickPoints) * 100) / 100,
+          correct_picks: pack.correct_picks,
+          picks: picks.map((pick) => ({
+            id: pick.id,
+            event_id: pick.event_id,
+            is_resolved: pick.is_resolved,
+            is_correct: pick.is_correct ?? null,
+            is_void: pick.is_void ?? false,
+            points_awarded: pick.points_awarded,
+            resolved_at: pick.resolved_at ?? null,
+            probability_snapshot: pick.probability_snapshot,
+          })),
+          achievements: (owner?.achievements ?? []).filter((a) => a.pack_id === pack.id),
+        };
+      }
+    }
+
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error in /api/events/sync:', error);
@@ -1,16 +1,41 @@
 import { NextResponse } from 'next/server';
-import { getCurrentWeekLeaderboard } from '@/lib/supabase/leaderboard';
+import { getLeaderboard, LEADERBOARD_CATEGORIES } from '@/lib/supabase/leaderboard';
+import type { EventCategory } from '@/types';
 
-// GET /api/leaderboard?limit=10&offset=0&anonymousId=xxx
-// Returns the current week's leaderboard
+// GET /api/leaderboard?period=week&category=sports&limit=10&offset=0&anonymousId=xxx
+// period: week (default) | month | all | a past week's ID (YYYY-WW)
+// category: optional - ranks on pick points for that category's events only
+// Returns the leaderboard for the period
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') ?? '10', 10);
     const offset = parseInt(searchParams.get('offset') ?? '0', 10);
     const anonymousId = searchParams.get('anonymousId') ?? undefined;
+    const period = searchParams.get('period') ?? 'week';
+    const category = searchParams.get('category') ?? undefined;
 
-    const result = await getCurrentWeekLeaderboard(limit, offset, anonymousId);
+    if (category && !LEADERBOARD_CATEGORIES.includes(category as EventCategory)) {
+      return NextResponse.json(
+        { error: `Unknown category: ${category}`, code: 'INVALID_CATEGORY' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getLeaderboard({
+      period,
+      category: category as EventCategory | undefined,
+      limit,
+      offset,
+      anonymousId,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: `Unknown period: ${period}`, code: 'INVALID_PERIOD' },
+        { status: 400 }
+      );
+    }
 
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1,203 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import {
+  getLeague,
+  getLeagueMembers,
+  getLeagueLeaderboard,
+  getLeaguePackTypes,
+  updateLeagueSettings,
+  LEAGUE_NAME_MAX_LENGTH,
+  LEAGUE_SEASON_MAX_WEEKS,
+  type LeagueSettingsUpdate,
+} from '@/lib/supabase/leagues';
+
+// GET /api/leagues/[leagueId]?anonymousId=xxx&season=0
+// season: 0 (default) for the current season, -1 for the previous one, ...
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited); members only
+// Returns the league, its members, its leaderboard for the season and the
+// pack types it can count (for the admin settings)
+export async function GET(
+  request: Request,
+  { params }: { params: { leagueId: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const anonymousId = searchParams.get('anonymousId');
+    const season = parseInt(searchParams.get('season') ?? '0', 10);
+
+    if (Number.isNaN(season) || season > 0) {
+      return NextResponse.json(
+        { error: 'season must be 0 or negative', code: 'INVALID_SEASON' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const league = await getLeague(params.leagueId);
+    const members = league ? await getLeagueMembers(league.id) : [];
+    const membership = members.find((m) => m.profileId === auth.caller.profile.id);
+
+    // Non-members can't tell a private league from a missing one
+    if (!league || !membership) {
+      return NextResponse.json(
+        { error: 'League not found', code: 'LEAGUE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const leaderboard = await getLeagueLeaderboard(league, members, {
+      season,
+      profileId: auth.caller.profile.id,
+    });
+
+    if (!leaderboard) {
+      return NextResponse.json(
+        { error: 'Season not found', code: 'INVALID_SEASON' },
+        { status: 404 }
+      );
+    }
+
+    const packTypes = await getLeaguePackTypes();
+
+    return NextResponse.json({
+      league,
+      role: membership.role,
+      members,
+      leaderboard,
+      packTypes: packTypes ?? [],
+    });
+  } catch (error) {
+    console.error('Error in GET /api/leagues/[leagueId]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/leagues/[leagueId]
+// Body: { anonymousId?: string, profileId?: string, name?: string,
+//         countedPackTypes?: string[] | null, seasonLengthWeeks?: number }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited); league admins only
+// Updates the league's settings. countedPackTypes null counts every pack type.
+export async function PATCH(
+  request: Request,
+  { params }: { params: { leagueId: string } }
+) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, name, countedPackTypes, seasonLengthWeeks } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      name?: string;
+      countedPackTypes?: string[] | null;
+      seasonLengthWeeks?: number;
+    };
+
+    const settings: LeagueSettingsUpdate = {};
+
+    if (name !== undefined) {
+      const trimmed = typeof name === 'string' ? name.trim() : '';
+      if (!trimmed || trimmed.length > LEAGUE_NAME_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `name must be 1-${LEAGUE_NAME_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      settings.name = trimmed;
+    }
+
+    if (seasonLengthWeeks !== undefined) {
+      if (
+        !Number.isInteger(seasonLengthWeeks) ||
+        seasonLengthWeeks < 1 ||
+        seasonLengthWeeks > LEAGUE_SEASON_MAX_WEEKS
+      ) {
+        return NextResponse.json(
+          { error: `seasonLengthWeeks must be 1-${LEAGUE_SEASON_MAX_WEEKS}` },
+          { status: 400 }
+        );
+      }
+      settings.seasonLengthWeeks = seasonLengthWeeks;
+    }
+
+    if (countedPackTypes !== undefined) {
+      if (countedPackTypes !== null) {
+        if (!Array.isArray(countedPackTypes) || countedPackTypes.length === 0) {
+          return NextResponse.json(
+            { error: 'countedPackTypes must be null or a non-empty list of pack types' },
+            { status: 400 }
+          );
+        }
+
+        const packTypes = await getLeaguePackTypes();
+        if (!packTypes) {
+          return NextResponse.json(
+            { error: 'Failed to update league' },
+            { status: 500 }
+          );
+        }
+
+        const unknown = countedPackTypes.filter(
+          (slug) => !packTypes.some((packType) => packType.slug === slug)
+        );
+        if (unknown.length > 0) {
+          return NextResponse.json(
+            { error: `Unknown pack types: ${unknown.join(', ')}`, code: 'INVALID_PACK_TYPE' },
+            { status: 400 }
+          );
+        }
+      }
+      settings.countedPackTypes = countedPackTypes && Array.from(new Set(countedPackTypes));
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const league = await getLeague(params.leagueId);
+    const members = league ? await getLeagueMembers(league.id) : [];
+    const membership = members.find((m) => m.profileId === auth.caller.profile.id);
+
+    if (!league || !membership) {
+      return NextResponse.json(
+        { error: 'League not found', code: 'LEAGUE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (membership.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only league admins can change settings', code: 'NOT_LEAGUE_ADMIN' },
+        { status: 403 }
+      );
+    }
+
+    const updated = await updateLeagueSettings(league.id, settings);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Failed to update league' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ league: updated });
+  } catch (error) {
+    console.error('Error in PATCH /api/leagues/[leagueId]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
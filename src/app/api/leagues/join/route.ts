@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import { joinLeague, LEAGUE_MEMBER_LIMIT } from '@/lib/supabase/leagues';
+
+// POST /api/leagues/join
+// Body: { anonymousId?: string, profileId?: string, inviteCode: string }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Joins the league with this invite code (already being a member is fine)
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, inviteCode } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      inviteCode?: string;
+    };
+
+    if (!inviteCode?.trim()) {
+      return NextResponse.json(
+        { error: 'inviteCode is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId }, { createAnonymous: true });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const result = await joinLeague(inviteCode, auth.caller.profile.id);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to join league' },
+        { status: 500 }
+      );
+    }
+
+    if ('error' in result) {
+      return result.error === 'full'
+        ? NextResponse.json(
+            { error: `League is full (${LEAGUE_MEMBER_LIMIT} members)`, code: 'LEAGUE_FULL' },
+            { status: 409 }
+          )
+        : NextResponse.json(
+            { error: 'No league with that invite code', code: 'LEAGUE_NOT_FOUND' },
+            { status: 404 }
+          );
+    }
+
+    return NextResponse.json({ leagueId: result.leagueId });
+  } catch (error) {
+    console.error('Error in POST /api/leagues/join:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import {
+  createLeague,
+  countOwnedLeagues,
+  getLeaguesForProfile,
+  LEAGUES_OWNED_LIMIT,
+  LEAGUE_NAME_MAX_LENGTH,
+} from '@/lib/supabase/leagues';
+
+// GET /api/leagues?anonymousId=xxx
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Returns the leagues the caller belongs to
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const anonymousId = searchParams.get('anonymousId');
+
+    const auth = await resolveCaller(request, { anonymousId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const leagues = await getLeaguesForProfile(auth.caller.profile.id);
+
+    return NextResponse.json({ leagues });
+  } catch (error) {
+    console.error('Error in GET /api/leagues:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/leagues
+// Body: { anonymousId?: string, profileId?: string, name: string }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Creates a league with the caller as its admin
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, name } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      name?: string;
+    };
+
+    const trimmed = name?.trim();
+    if (!trimmed || trimmed.length > LEAGUE_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `name must be 1-${LEAGUE_NAME_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const owned = await countOwnedLeagues(auth.caller.profile.id);
+    if (owned === null) {
+      return NextResponse.json(
+        { error: 'Failed to create league' },
+        { status: 500 }
+      );
+    }
+
+    if (owned >= LEAGUES_OWNED_LIMIT) {
+      return NextResponse.json(
+        { error: `You can create up to ${LEAGUES_OWNED_LIMIT} leagues`, code: 'LEAGUE_LIMIT' },
+        { status: 409 }
+      );
+    }
+
+    const league = await createLeague(trimmed, auth.caller.profile.id);
+    if (!league) {
+      return NextResponse.json(
+        { error: 'Failed to create league' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ league });
+  } catch (error) {
+    console.error('Error in POST /api/leagues:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getPackSeed } from '@/lib/supabase/packSeeds';
+import { PACK_DRAFT_TTL_MS } from '@/lib/supabase/packs';
+
+// GET /api/packs/[packId]/fairness
+// Returns a pool pack's seed commitment and what's needed to replay its
+// deal: the server seed and inputs hashes, client seed, selection inputs
+// and dealt event IDs. The server seed is included once revealed - when the picks
+// are committed, or once the dealt pack can no longer be committed.
+export async function GET(
+  request: Request,
+  { params }: { params: { packId: string } }
+) {
+  try {
+    const seed = await getPackSeed(params.packId);
+
+    if (!seed) {
+      return NextResponse.json(
+        { error: 'This pack was not dealt from a seed commitment', code: 'SEED_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const isExpired =
+      !!seed.dealt_at && Date.parse(seed.dealt_at) + PACK_DRAFT_TTL_MS < Date.now();
+    const isRevealed = !!seed.revealed_at || isExpired;
+
+    return NextResponse.json({
+      packId: seed.id,
+      packTypeSlug: seed.pack_type_slug,
+      serverSeedHash: seed.server_seed_hash,
+      inputsHash: seed.inputs_hash,
+      serverSeed: isRevealed ? seed.server_seed : null,
+      clientSeed: seed.client_seed,
+      inputs: seed.inputs,
+      eventIds: seed.event_ids,
+      committedAt: seed.created_at,
+      dealtAt: seed.dealt_at,
+      revealedAt: seed.revealed_at,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/packs/[packId]/fairness:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
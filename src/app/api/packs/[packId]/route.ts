@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server';
-import {
-  getPackById,
-  updatePackResolution,
-  markPickRevealed,
-} from '@/lib/supabase/packs';
+import { getPackById, markPickRevealed } from '@/lib/supabase/packs';
+import { recalculatePackTotals } from '@/lib/supabase/resolution';
+import { canRevealPosition } from '@/lib/resolution/sequential';
+import { resolveCaller } from '@/lib/auth/caller';
 
 // GET /api/packs/[packId]
 // Returns the pack with its picks
@@ -34,8 +33,10 @@ export async function GET(
 }
 
 // PATCH /api/packs/[packId]
-// Updates pack resolution status or marks picks as revealed
-// Body: { action: 'update_resolution' | 'mark_revealed', data: {...} }
+// Recomputes pack totals server-side or marks the next pick as revealed.
+// Scores are never taken from the client.
+// Body: { action: 'recalculate' | 'mark_revealed', data: {...}, anonymousId? }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited); caller must own the pack
 export async function PATCH(
   request: Request,
   { params }: { params: { packId: string } }
@@ -43,44 +44,74 @@ export async function PATCH(
   try {
     const { packId } = params;
     const body = await request.json();
-    const { action, data } = body as {
-      action: 'update_resolution' | 'mark_revealed';
-      data: Record<string, unknown>;
+    const { action, data, anonymousId } = body as {
+      action: 'recalculate' | 'mark_revealed';
+      data?: Record<string, unknown>;
+      anonymousId?: string;
     };
 
-    if (action === 'update_resolution') {
-      const { status, totalPoints, correctPicks } = data as {
-        status: 'pending' | 'partially_resolved' | 'fully_resolved';
-        totalPoints?: number;
-        correctPicks?: number;
-      };
-
-      const success = await updatePackResolution(
-        packId,
-        status,
-        totalPoints,
-        correctPicks
+    const auth = await resolveCaller(request, { anonymousId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
       );
+    }
+
+    const pack = await getPackById(packId);
+    if (!pack) {
+      return NextResponse.json(
+        { error: 'Pack not found' },
+        { status: 404 }
+      );
+    }
+
+    if (pack.profile_id !== auth.caller.profile.id) {
+      return NextResponse.json(
+        { error: 'Pack belongs to another profile' },
+        { status: 403 }
+      );
+    }
+
+    if (action === 'recalculate') {
+      const success = await recalculatePackTotals(packId);
 
       if (!success) {
         return NextResponse.json(
-          { error: 'Failed to update pack resolution' },
+          { error: 'Failed to recalculate pack totals' },
           { status: 500 }
         );
       }
 
-      return NextResponse.json({ success: true });
+      const updated = await getPackById(packId);
+      return NextResponse.json({ success: true, pack: updated });
     }
 
     if (action === 'mark_revealed') {
-      const { pickId } = data as { pickId: string };
+      const { pickId } = (data ?? {}) as { pickId?: string };
+
+      const pick = pack.picks?.find((p) => p.id === pickId);
+      if (!pick) {
+        return NextResponse.json(
+          { error: 'Pick not found in this pack' },
+          { status: 404 }
+        );
+      }
+
+      // Reveals happen strictly in order, and only once a pick is resolved
+      if (!canRevealPosition(pack, pick.position)) {
+        return NextResponse.json(
+          { error: 'Pick cannot be revealed yet', code: 'REVEAL_OUT_OF_ORDER' },
+          { status: 409 }
+        );
+      }
 
-      const success = await markPickRevealed(pickId);
+      const success = await markPickRevealed(packId, pick.id, pick.position);
 
       if (!success) {
         return NextResponse.json(
           { error: 'Failed to mark pick revealed' },
-          { status: 500 }
+          { status: 409 }
         );
       }
 
@@ -0,0 +1,309 @@
+import { NextResponse } from 'next/server';
+import {
+  createPackDraft,
+  getPendingPackDraft,
+  PACK_DRAFT_TTL_MS,
+  type PackDraft,
+} from '@/lib/supabase/packs';
+import { resolveCaller } from '@/lib/auth/caller';
+import { getPackTypeAvailability } from '@/lib/pools/packTypes';
+import { MAX_CLIENT_SEED_LENGTH } from '@/lib/pools/fairness';
+import { signPackManifest } from '@/lib/pools/manifest';
+import { getScoringRuleset, resolveScoringRulesetId } from '@/lib/supabase/scoring';
+import { reserveChallenge, CHALLENGE_PACK_TYPE } from '@/lib/supabase/challenges';
+import { getOrCreateDailyPack, getDailyEntry, DAILY_PACK_TYPE } from '@/lib/supabase/daily';
+import { haveEventsStarted } from '@/lib/supabase/events';
+import { getPackType } from '@/lib/supabase/packTypes';
+import { claimPackSeed, dealSeededPack, getPackSeed, markPackSeedDealt } from '@/lib/supabase/packSeeds';
+import { recordRarityRolls } from '@/lib/supabase/poolHealth';
+import type { Event } from '@/types';
+
+// POST /api/packs/deal
+// Body: { anonymousId?, profileId?, packTypeSlug, challengeId?, packId?, clientSeed?, isPremium? }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Deals a pack server-side and returns its events with a signed manifest.
+// The manifest must be sent back to POST /api/packs when committing picks.
+// Pool packs deal the pack type's cards_per_pack eligible events with its
+// drop table (and pity guarantee), and only while the pack type is active
+// and inside its availability window. They're provably fair: packId is a
+// seed commitment from POST /api/packs/seed, and the pack is dealt from its
+// server seed, committed inputs and clientSeed (the payment signature for
+// premium packs). A failed deal can be retried with the same clientSeed.
+// A profile has one pending pool pack per pack type and kind (free or
+// premium): while its draft is unexpired, dealing its packId again returns
+// it (with its clientSeed, to resume a paid pack) and any other packId gets
+// 409 DRAFT_PENDING. A commitment of the other kind gets 409
+// PREMIUM_MISMATCH.
+// "challenge" packs are dealt the challenge's events instead of from a pool;
+// the first other player to deal a challenge becomes its opponent.
+// "daily" packs deal the day's shared events, once per profile per UTC day,
+// until any of them starts (409 DAILY_CLOSED).
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const {
+      anonymousId,
+      profileId,
+      packTypeSlug,
+      challengeId,
+      packId: seededPackId,
+      clientSeed,
+      isPremium = false,
+    } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      packTypeSlug?: string;
+      challengeId?: string;
+      packId?: string;
+      clientSeed?: string;
+      isPremium?: boolean;
+    };
+
+    if (!packTypeSlug) {
+      return NextResponse.json(
+        { error: 'packTypeSlug is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+    const { profile } = auth.caller;
+
+    const packType = await getPackType(packTypeSlug);
+    if (!packType) {
+      return NextResponse.json(
+        { error: `Unknown pack type: ${packTypeSlug}`, code: 'PACK_TYPE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    // Challenge packs are never listed, but can always be dealt from a challenge
+    if (
+      packTypeSlug !== CHALLENGE_PACK_TYPE &&
+      (!packType.is_active || getPackTypeAvailability(packType) !== 'open')
+    ) {
+      return NextResponse.json(
+        { error: `${packType.name} is not available right now`, code: 'PACK_TYPE_UNAVAILABLE' },
+        { status: 409 }
+      );
+    }
+
+    let events: Event[];
+    let scoringRulesetId: string | null;
+    let dailyDate: string | undefined;
+    let packId = crypto.randomUUID();
+    let isSeeded = false;
+    let resumedDraft: PackDraft | null = null;
+    let resumedClientSeed: string | null = null;
+
+    if (packTypeSlug === CHALLENGE_PACK_TYPE) {
+      if (!challengeId) {
+        return NextResponse.json(
+          { error: 'challengeId is required for challenge packs' },
+          { status: 400 }
+        );
+      }
+
+      const reserved = await reserveChallenge(challengeId, profile.id);
+      if (!reserved) {
+        return NextResponse.json(
+          { error: 'Failed to deal pack' },
+          { status: 500 }
+        );
+      }
+
+      if ('error' in reserved) {
+        if (reserved.error === 'not_found') {
+          return NextResponse.json(
+            { error: 'Challenge not found', code: 'CHALLENGE_NOT_FOUND' },
+            { status: 404 }
+          );
+        }
+
+        if (reserved.error === 'own_challenge') {
+          return NextResponse.json(
+            { error: 'You cannot accept your own challenge', code: 'CHALLENGE_OWN' },
+            { status: 403 }
+          );
+        }
+
+        if (reserved.error === 'expired') {
+          return NextResponse.json(
+            { error: 'This challenge has expired', code: 'CHALLENGE_EXPIRED' },
+            { status: 409 }
+          );
+        }
+
+        return reserved.error === 'closed'
+          ? NextResponse.json(
+              { error: 'This challenge\'s events have already started', code: 'CHALLENGE_CLOSED' },
+              { status: 409 }
+            )
+          : NextResponse.json(
+              { error: 'Challenge already accepted', code: 'CHALLENGE_TAKEN' },
+              { status: 409 }
+            );
+      }
+
+      events = reserved.challenge.events;
+      scoringRulesetId = reserved.challenge.scoring_ruleset_id;
+    } else if (packTypeSlug === DAILY_PACK_TYPE) {
+      const dailyPack = await getOrCreateDailyPack(packType);
+      if (!dailyPack) {
+        return NextResponse.json(
+          { error: 'No events available for this pack type', code: 'POOL_EMPTY' },
+          { status: 409 }
+        );
+      }
+
+      if (await getDailyEntry(profile.id, dailyPack.day)) {
+        return NextResponse.json(
+          { error: 'You have already played today\'s daily pack', code: 'DAILY_LIMIT_REACHED' },
+          { status: 429 }
+        );
+      }
+
+      const started = await haveEventsStarted(dailyPack.event_ids);
+      if (started === null) {
+        return NextResponse.json(
+          { error: 'Failed to deal pack' },
+          { status: 500 }
+        );
+      }
+      if (started) {
+        return NextResponse.json(
+          { error: 'Today\'s daily pack has closed - its events have started', code: 'DAILY_CLOSED' },
+          { status: 409 }
+        );
+      }
+
+      events = dailyPack.events;
+      dailyDate = dailyPack.day;
+      scoringRulesetId = await resolveScoringRulesetId(packTypeSlug, dailyPack.event_ids);
+    } else {
+      if (
+        !seededPackId ||
+        typeof clientSeed !== 'string' ||
+        clientSeed.length === 0 ||
+        clientSeed.length > MAX_CLIENT_SEED_LENGTH
+      ) {
+        return NextResponse.json(
+          { error: `packId (from POST /api/packs/seed) and a clientSeed of up to ${MAX_CLIENT_SEED_LENGTH} characters are required` },
+          { status: 400 }
+        );
+      }
+
+      const pending = await getPendingPackDraft(profile.id, packTypeSlug, isPremium);
+      if (pending && pending.id !== seededPackId) {
+        return NextResponse.json(
+          { error: 'Finish your open pack before dealing another', code: 'DRAFT_PENDING', packId: pending.id },
+          { status: 409 }
+        );
+      }
+
+      // A free commitment can't be dealt as a paid pack, nor the reverse
+      const committed = await getPackSeed(seededPackId);
+      if (committed && committed.is_premium !== null && committed.is_premium !== isPremium) {
+        return NextResponse.json(
+          {
+            error: `This pack was set up as a ${committed.is_premium ? 'premium' : 'free'} pack`,
+            code: 'PREMIUM_MISMATCH',
+          },
+          { status: 409 }
+        );
+      }
+
+      const seed = pending
+        ? committed
+        : await claimPackSeed(seededPackId, profile.id, packTypeSlug, clientSeed);
+      if (!seed) {
+        return NextResponse.json(
+          { error: 'Seed commitment not found or already dealt', code: 'SEED_NOT_FOUND' },
+          { status: 409 }
+        );
+      }
+
+      if (pending) {
+        resumedDraft = pending;
+        resumedClientSeed = seed.client_seed;
+        events = pending.events;
+      } else {
+        events = await dealSeededPack(seed);
+        isSeeded = true;
+      }
+      packId = seed.id;
+      scoringRulesetId = await resolveScoringRulesetId(packTypeSlug, events.map((e) => e.id));
+    }
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { error: 'No events available for this pack type', code: 'POOL_EMPTY' },
+        { status: 409 }
+      );
+    }
+
+    const issuedAt = new Date();
+    const expiresAt = resumedDraft
+      ? new Date(resumedDraft.expires_at)
+      : new Date(issuedAt.getTime() + PACK_DRAFT_TTL_MS);
+
+    const stored = resumedDraft !== null || await createPackDraft({
+      id: packId,
+      profileId: profile.id,
+      packTypeSlug,
+      events,
+      expiresAt: expiresAt.toISOString(),
+      isPremium: isSeeded && isPremium,
+      ...(packTypeSlug === CHALLENGE_PACK_TYPE && { challengeId }),
+      dailyDate,
+    });
+
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Failed to deal pack' },
+        { status: 500 }
+      );
+    }
+
+    if (isSeeded) {
+      await markPackSeedDealt(packId, events.map((e) => e.id));
+
+      // Count the rolls that fell back to another rarity (pool health)
+      await recordRarityRolls(packTypeSlug, events);
+    }
+
+    const manifest = signPackManifest({
+      packId,
+      profileId: profile.id,
+      packTypeSlug,
+      eventIds: events.map((e) => e.id),
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    // Rules the pack will be scored under (for the jackpot preview)
+    const scoringRuleset = await getScoringRuleset(scoringRulesetId);
+
+    return NextResponse.json({
+      packId,
+      packType,
+      events,
+      manifest,
+      scoringRuleset,
+      expiresAt: expiresAt.toISOString(),
+      ...(resumedDraft && { resumed: true, clientSeed: resumedClientSeed }),
+    });
+  } catch (error) {
+    console.error('Error in POST /api/packs/deal:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
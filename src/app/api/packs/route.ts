@@ -6,19 +6,27 @@ import {
   getWeeklyPackStatus,
   WEEKLY_PACK_LIMIT,
 } from '@/lib/supabase/packs';
-import { fetchProfileByAnonymousId, fetchProfileById } from '@/lib/supabase/profile';
+import { fetchProfileByAnonymousId } from '@/lib/supabase/profile';
+import { resolveCaller } from '@/lib/auth/caller';
 import { verifyPurchaseReceipt } from '@/lib/solana/verify';
 import { verifyTransferPayment } from '@/lib/solana/verifyTransfer';
 import { PREMIUM_PACK_PRICE } from '@/lib/solana/purchase';
+import { verifyPackManifest } from '@/lib/pools/manifest';
+import { getPackSeed } from '@/lib/supabase/packSeeds';
+import { evaluateAchievements } from '@/lib/achievements/engine';
+import { DAILY_PACK_TYPE } from '@/lib/supabase/daily';
 import type { Outcome } from '@/types';
 
 // POST /api/packs
-// Body: { anonymousId, pack, picks }
-// Creates a new pack with its picks
+// Body: { anonymousId, pack, picks, manifest }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Creates a new pack with its picks. The pack must have been dealt by
+// POST /api/packs/deal; odds are taken from the dealt pack, not the client.
+// Returns any achievements the commit unlocked.
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { anonymousId, profileId, pack, picks, premium } = body as {
+    const { anonymousId, profileId, pack, picks, manifest, premium } = body as {
       anonymousId?: string;
       profileId?: string;
       pack: {
@@ -33,10 +41,8 @@ export async function POST(request: Request) {
         position: number;
         pickedOutcome: Outcome;
         pickedAt: string;
-        probabilitySnapshot: number;
-        oppositeProbabilitySnapshot: number;
-        drawProbabilitySnapshot?: number;
       }>;
+      manifest?: string;
       premium?: {
         paymentSignature: string;
         buyerWallet: string;
@@ -46,17 +52,35 @@ export async function POST(request: Request) {
 
     console.log('[PREMIUM API] POST /api/packs - premium:', !!premium, premium ? { sig: premium.paymentSignature?.slice(0, 12), wallet: premium.buyerWallet?.slice(0, 12), amount: premium.amount } : null);
 
-    if (!anonymousId && !profileId) {
+    if (!pack || !picks || !manifest) {
       return NextResponse.json(
-        { error: 'anonymousId or profileId is required' },
+        { error: 'pack, picks and manifest are required' },
         { status: 400 }
       );
     }
 
-    if (!pack || !picks) {
+    const dealt = verifyPackManifest(manifest);
+    if (!dealt || dealt.packId !== pack.id) {
       return NextResponse.json(
-        { error: 'pack and picks are required' },
-        { status: 400 }
+        { error: 'Invalid pack manifest', code: 'MANIFEST_INVALID' },
+        { status: 403 }
+      );
+    }
+
+    // Resolve the caller — wallet JWT or anonymousId, never a bare profileId
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+    const { profile } = auth.caller;
+
+    if (dealt.profileId !== profile.id) {
+      return NextResponse.json(
+        { error: 'Pack was dealt to a different profile', code: 'MANIFEST_INVALID' },
+        { status: 403 }
       );
     }
 
@@ -70,17 +94,6 @@ export async function POST(request: Request) {
       });
     }
 
-    // Get the profile — prefer profileId (wallet-auth), fallback to anonymousId
-    const profile = profileId
-      ? await fetchProfileById(profileId)
-      : await fetchProfileByAnonymousId(anonymousId!);
-    if (!profile) {
-      return NextResponse.json(
-        { error: 'Profile not found. Please ensure profile is initialized first.' },
-        { status: 404 }
-      );
-    }
-
     const isPremium = !!premium;
 
     if (isPremium) {
@@ -113,8 +126,18 @@ export async function POST(request: Request) {
           { status: 402 }
         );
       }
-    } else {
-      // Check weekly pack limit (free packs only)
+
+      // Premium packs must have been dealt with the payment as their client seed
+      const seed = await getPackSeed(pack.id);
+      if (!seed || seed.client_seed !== premium.paymentSignature) {
+        console.error('[PREMIUM API] Pack was not dealt from its payment signature');
+        return NextResponse.json(
+          { error: 'Premium pack was not dealt from its payment', code: 'SEED_MISMATCH' },
+          { status: 403 }
+        );
+      }
+    } else if (pack.packTypeSlug !== DAILY_PACK_TYPE) {
+      // Check weekly pack limit (free packs only - the daily pack has its own)
       const weeklyStatus = await getWeeklyPackStatus(profile.id);
       if (!weeklyStatus.canOpenPack) {
         return NextResponse.json(
@@ -133,7 +156,7 @@ export async function POST(request: Request) {
       {
         id: pack.id,
         profileId: profile.id,
-        anonymousId: anonymousId,
+        anonymousId: auth.caller.kind === 'anonymous' ? auth.caller.anonymousId : undefined,
         packTypeSlug: pack.packTypeSlug,
         openedAt: pack.openedAt,
         ...(isPremium && {
@@ -149,12 +172,17 @@ export async function POST(request: Request) {
         position: pick.position,
         pickedOutcome: pick.pickedOutcome,
         pickedAt: pick.pickedAt,
-        probabilitySnapshot: pick.probabilitySnapshot,
-        oppositeProbabilitySnapshot: pick.oppositeProbabilitySnapshot,
-        drawProbabilitySnapshot: pick.drawProbabilitySnapshot,
       }))
     );
 
+    if ('error' in result && result.code) {
+      console.error('[PREMIUM API] createPackWithPicks rejected:', result.error);
+      return NextResponse.json(
+        { error: result.error, code: result.code, packId: pack.id },
+        { status: result.code === 'DRAFT_NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
     if ('error' in result) {
       console.error('[PREMIUM API] createPackWithPicks failed:', result.error);
       return NextResponse.json(
@@ -163,10 +191,16 @@ export async function POST(request: Request) {
       );
     }
 
+    // Unlocks are returned so the open flow can show them straight away
+    const achievements = await evaluateAchievements(profile.id, 'commit', {
+      packId: result.packId,
+    });
+
     return NextResponse.json({
       success: true,
       packId: result.packId,
       alreadyExists: false,
+      achievements,
     });
   } catch (error) {
     console.error('Error in POST /api/packs:', error);
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import {
+  createPackSeed,
+  getOpenPackSeed,
+  snapshotPackInputs,
+  PACK_SEED_REUSE_MS,
+} from '@/lib/supabase/packSeeds';
+import { getPendingPackDraft } from '@/lib/supabase/packs';
+import { getPackType } from '@/lib/supabase/packTypes';
+import { getPityStatus } from '@/lib/supabase/pity';
+import { PITY_MIN_RARITY } from '@/lib/rarity';
+import { CHALLENGE_PACK_TYPE } from '@/lib/supabase/challenges';
+import { DAILY_PACK_TYPE } from '@/lib/supabase/daily';
+
+// POST /api/packs/seed
+// Body: { anonymousId?, profileId?, packTypeSlug, isPremium? }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Commits to a secret server seed and to the selection inputs (the pack
+// type's eligible pool, drop table, constraints and the caller's pity
+// guarantee) before a pool pack is dealt. Returns the pack ID to deal (and,
+// for premium packs, pay for) and the SHA-256 hashes of both; POST
+// /api/packs/deal then deals the pack from the server seed and a client
+// seed, and the server seed is revealed once the picks are committed
+// (GET /api/packs/[packId]/fairness).
+// A recent unclaimed commitment is returned again rather than a new one,
+// and none is made while the caller has an unexpired pending draft of the
+// pack type (409 DRAFT_PENDING with its packId, to resume it). Free and
+// premium packs are kept apart: only a commitment or draft of the same
+// kind is reused or resumed.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, packTypeSlug, isPremium = false } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      packTypeSlug?: string;
+      isPremium?: boolean;
+    };
+
+    if (!packTypeSlug) {
+      return NextResponse.json(
+        { error: 'packTypeSlug is required' },
+        { status: 400 }
+      );
+    }
+
+    // Challenge and daily packs aren't dealt from a pool
+    if (packTypeSlug === CHALLENGE_PACK_TYPE || packTypeSlug === DAILY_PACK_TYPE) {
+      return NextResponse.json(
+        { error: `${packTypeSlug} packs are not dealt from a seed` },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const packType = await getPackType(packTypeSlug);
+    if (!packType) {
+      return NextResponse.json(
+        { error: `Unknown pack type: ${packTypeSlug}`, code: 'PACK_TYPE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { profile } = auth.caller;
+
+    const pending = await getPendingPackDraft(profile.id, packType.slug, isPremium);
+    if (pending) {
+      return NextResponse.json(
+        { error: 'Finish your open pack before dealing another', code: 'DRAFT_PENDING', packId: pending.id },
+        { status: 409 }
+      );
+    }
+
+    const open = await getOpenPackSeed(
+      profile.id,
+      packType.slug,
+      isPremium,
+      new Date(Date.now() - PACK_SEED_REUSE_MS)
+    );
+    if (open) {
+      return NextResponse.json(open);
+    }
+
+    const pity = await getPityStatus(profile.id, packType);
+    const inputs = await snapshotPackInputs(packType, {
+      ...(pity.isDue && { guaranteeRarity: PITY_MIN_RARITY }),
+    });
+    if (!inputs) {
+      return NextResponse.json(
+        { error: 'No events available for this pack type', code: 'POOL_EMPTY' },
+        { status: 409 }
+      );
+    }
+
+    const commitment = await createPackSeed(profile.id, packType.slug, inputs, isPremium);
+    if (!commitment) {
+      return NextResponse.json(
+        { error: 'Failed to create seed commitment' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(commitment);
+  } catch (error) {
+    console.error('Error in POST /api/packs/seed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
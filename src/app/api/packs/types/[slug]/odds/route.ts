@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getPackType } from '@/lib/supabase/packTypes';
+import { getPityStatus } from '@/lib/supabase/pity';
+import { fetchProfileByAnonymousId } from '@/lib/supabase/profile';
+import { getPackTypeOdds } from '@/lib/pools/packTypes';
+import { PITY_MIN_RARITY } from '@/lib/rarity';
+
+// GET /api/packs/types/[slug]/odds?anonymousId=xxx
+// anonymousId: optional - includes the player's pity counter
+// Returns a pack type's published odds: the chance of each rarity per card
+// and per pack, and its pity timer.
+export async function GET(
+  request: Request,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const anonymousId = searchParams.get('anonymousId');
+
+    const packType = await getPackType(params.slug);
+    if (!packType || !packType.is_active) {
+      return NextResponse.json(
+        { error: `Unknown pack type: ${params.slug}`, code: 'PACK_TYPE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const profile = anonymousId ? await fetchProfileByAnonymousId(anonymousId) : null;
+    const pity = profile ? await getPityStatus(profile.id, packType) : null;
+
+    return NextResponse.json({
+      packType: {
+        slug: packType.slug,
+        name: packType.name,
+        cardsPerPack: packType.cards_per_pack,
+      },
+      odds: getPackTypeOdds(packType),
+      isDefaultTable: !packType.drop_rates,
+      pity: {
+        threshold: packType.pity_threshold ?? null,
+        minRarity: PITY_MIN_RARITY,
+        packsWithoutRare: pity?.packsWithoutRare ?? null,
+        isDue: pity?.isDue ?? false,
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/packs/types/[slug]/odds:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getListedPackTypes } from '@/lib/supabase/packTypes';
+
+// Availability windows depend on the time of the request
+export const dynamic = 'force-dynamic';
+
+// GET /api/packs/types
+// Returns the pack types players can open, in display order. Pack types
+// not open yet are included with availability 'upcoming' (coming soon).
+export async function GET() {
+  try {
+    const packTypes = await getListedPackTypes();
+
+    return NextResponse.json({ packTypes });
+  } catch (error) {
+    console.error('Error in GET /api/packs/types:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server';
 import {
   getOrCreateAnonymousProfile,
-  fetchProfileByAnonymousId,
+  fetchProfileById,
   updateProfileDisplayName,
+  updateNotificationPreferences,
 } from '@/lib/supabase/profile';
+import { resolveCaller } from '@/lib/auth/caller';
+import type { NotificationPreferences } from '@/types';
 
 // GET /api/profile?anonymousId=xxx
 // Returns profile for the given anonymousId, creating one if it doesn't exist
@@ -43,51 +46,74 @@ export async function GET(request: Request) {
 }
 
 // POST /api/profile
-// Body: { anonymousId: string, displayName?: string }
-// Creates or updates a profile
+// Body: { anonymousId?: string, profileId?: string, displayName?: string,
+//         notificationPreferences?: { resolution?: boolean, leaderboard?: boolean } }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Creates or updates the caller's profile
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { anonymousId, displayName } = body as {
-      anonymousId: string;
+    const { anonymousId, profileId, displayName, notificationPreferences } = body as {
+      anonymousId?: string;
+      profileId?: string;
       displayName?: string;
+      notificationPreferences?: Partial<NotificationPreferences>;
     };
 
-    if (!anonymousId) {
+    // Resolves (or creates) the caller's own profile — never another one
+    const auth = await resolveCaller(
+      request,
+      { anonymousId, profileId },
+      { createAnonymous: true }
+    );
+    if ('error' in auth) {
       return NextResponse.json(
-        { error: 'anonymousId is required' },
-        { status: 400 }
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
       );
     }
+    const { profile } = auth.caller;
+    let updated = false;
 
-    // Get or create the profile first
-    const result = await getOrCreateAnonymousProfile(anonymousId);
+    // Update display name if provided
+    if (displayName) {
+      updated = (await updateProfileDisplayName(profile.id, displayName)) || updated;
+    }
 
-    if (!result) {
-      return NextResponse.json(
-        { error: 'Failed to get or create profile' },
-        { status: 500 }
-      );
+    // Update notification preferences if provided (only boolean flags are taken)
+    if (notificationPreferences && typeof notificationPreferences === 'object') {
+      const changes: Partial<NotificationPreferences> = {};
+      if (typeof notificationPreferences.resolution === 'boolean') {
+        changes.resolution = notificationPreferences.resolution;
+      }
+      if (typeof notificationPreferences.leaderboard === 'boolean') {
+        changes.leaderboard = notificationPreferences.leaderboard;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        updated =
+          (await updateNotificationPreferences(
+            profile.id,
+            profile.notification_preferences,
+            changes
+          )) || updated;
+      }
     }
 
-    // Update display name if provided
-    if (displayName) {
-      const updated = await updateProfileDisplayName(result.profileId, displayName);
-      if (updated) {
-        // Fetch updated profile
-        const updatedProfile = await fetchProfileByAnonymousId(anonymousId);
-        if (updatedProfile) {
-          return NextResponse.json({
-            profileId: result.profileId,
-            profile: updatedProfile,
-          });
-        }
+    if (updated) {
+      // Fetch updated profile
+      const updatedProfile = await fetchProfileById(profile.id);
+      if (updatedProfile) {
+        return NextResponse.json({
+          profileId: profile.id,
+          profile: updatedProfile,
+        });
       }
     }
 
     return NextResponse.json({
-      profileId: result.profileId,
-      profile: result.profile,
+      profileId: profile.id,
+      profile,
     });
   } catch (error) {
     console.error('Error in POST /api/profile:', error);
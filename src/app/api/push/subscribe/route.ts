@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { resolveCaller } from '@/lib/auth/caller';
+import { savePushSubscription, deletePushSubscription } from '@/lib/supabase/push';
+import { isPushServiceEndpoint } from '@/lib/push/webpush';
+
+// POST /api/push/subscribe
+// Body: { anonymousId?: string, profileId?: string,
+//         subscription: { endpoint: string, keys: { p256dh: string, auth: string } } }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Stores the browser's push subscription (PushSubscription.toJSON()) for the caller.
+// The endpoint must be on a known push service (FCM, Mozilla, Apple, Windows).
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, subscription } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      subscription?: { endpoint?: string; keys?: { p256dh?: string; auth?: string } };
+    };
+
+    const endpoint = subscription?.endpoint;
+    const p256dh = subscription?.keys?.p256dh;
+    const authSecret = subscription?.keys?.auth;
+
+    if (!endpoint || !p256dh || !authSecret || !isPushServiceEndpoint(endpoint)) {
+      return NextResponse.json(
+        { error: 'A valid push subscription is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const saved = await savePushSubscription(
+      auth.caller.profile.id,
+      { endpoint, p256dh, auth: authSecret },
+      request.headers.get('user-agent')
+    );
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to save subscription' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in POST /api/push/subscribe:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/push/subscribe
+// Body: { anonymousId?: string, profileId?: string, endpoint: string }
+// Auth: wallet JWT (Bearer) or anonymousId (rate limited)
+// Removes one of the caller's push subscriptions
+export async function DELETE(request: Request) {
+  try {
+    const body = await request.json();
+    const { anonymousId, profileId, endpoint } = body as {
+      anonymousId?: string;
+      profileId?: string;
+      endpoint?: string;
+    };
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'endpoint is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await resolveCaller(request, { anonymousId, profileId });
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const deleted = await deletePushSubscription(auth.caller.profile.id, endpoint);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Failed to delete subscription' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in DELETE /api/push/subscribe:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
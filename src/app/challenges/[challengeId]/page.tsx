@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import {
+  ChallengeResults,
+  type ChallengeResultComparison,
+} from '@/components/challenges/ChallengeResults';
+import { useSessionStore, computePackSummary } from '@/stores';
+import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
+import { buildChallengeUrl } from '@/lib/share/utils';
+import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
+import { usePSG1Scroll } from '@/hooks/usePSG1Scroll';
+import { PSG1ScrollIndicator } from '@/components/layout/PSG1ScrollIndicator';
+import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
+import type { Event, UserPack } from '@/types';
+
+interface ChallengePlayer {
+  displayName: string;
+  pack: UserPack | null;
+}
+
+interface ChallengeData {
+  challenge: {
+    id: string;
+    events: Event[];
+    createdAt: string;
+    acceptedAt: string | null;
+    expiresAt: string;
+  };
+  role: 'creator' | 'opponent' | 'viewer';
+  creator: ChallengePlayer;
+  opponent: ChallengePlayer | null;
+  comparison: ChallengeResultComparison | null;
+}
+
+// Summary of a pack for the results screen - resolved picks show their result
+function summarize(pack: UserPack, events: Event[]) {
+  const eventsById = new Map(events.map((e) => [e.id, e]));
+  const picks = (pack.picks ?? []).flatMap((pick) => {
+    const event = eventsById.get(pick.event_id);
+    return event ? [{ ...pick, event, reveal_animation_played: pick.is_resolved }] : [];
+  });
+
+  return computePackSummary({ pack, picks, events, syncedToDb: true });
+}
+
+export default function ChallengePage({ params }: { params: { challengeId: string } }) {
+  const { challengeId } = params;
+  const router = useRouter();
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+  const [data, setData] = useState<ChallengeData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const psg1 = isPSG1();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const handleNavBack = useCallback(() => {
+    router.push('/my-packs');
+  }, [router]);
+
+  usePSG1Navigation({
+    enabled: psg1,
+    itemCount: 0,
+    onBack: handleNavBack,
+  });
+
+  const { scrollPercent, isScrollable } = usePSG1Scroll(psg1, psg1 ? scrollRef : undefined);
+
+  useEffect(() => {
+    async function fetchChallenge() {
+      if (!anonymousId) return;
+
+      try {
+        const response = await authFetch(
+          `/api/challenges/${challengeId}?anonymousId=${encodeURIComponent(anonymousId)}`
+        );
+
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Challenge not found' : 'Failed to load challenge');
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching challenge:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load challenge');
+      }
+    }
+
+    if (isProfileSynced) {
+      fetchChallenge();
+    }
+  }, [anonymousId, isProfileSynced, challengeId]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildChallengeUrl(challengeId));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying challenge link:', err);
+    }
+  };
+
+  const glassCard = 'bg-white/[0.03] rounded-2xl border border-white/[0.06] backdrop-blur-sm p-4';
+  const primaryButton = psg1
+    ? 'block w-full text-center bg-emerald-400 text-black rounded-2xl font-pixel-heading text-balatro-base px-6 py-3'
+    : 'block w-full text-center btn-pixel-gold';
+  const mutedText = psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-sm text-gray-400';
+
+  const renderOpen = (challenge: ChallengeData) => {
+    const { role, creator, opponent } = challenge;
+    const isExpired = new Date(challenge.challenge.expiresAt) <= new Date();
+    const canPlay = !isExpired && (role === 'opponent' || (role === 'viewer' && !opponent));
+
+    return (
+      <>
+        <div className="text-center mb-4">
+          <p className="text-4xl mb-2">⚔️</p>
+          <h2 className={psg1 ? 'text-balatro-lg font-pixel-heading text-white' : 'text-xl font-bold'}>
+            {role === 'creator' ? 'Your challenge' : `${creator.displayName} challenges you`}
+          </h2>
+          <p className={mutedText}>
+            {role === 'creator'
+              ? opponent
+                ? `${opponent.displayName} is drafting your events`
+                : 'Send the link to a friend to draft the same events'
+              : 'Draft the same events at the same odds - best pack wins'}
+          </p>
+        </div>
+
+        {/* The events (picks stay hidden until the opponent commits) */}
+        <div className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}>
+          <div className="space-y-2">
+            {challenge.challenge.events.map((event, index) => {
+              const pick = creator.pack?.picks?.find((p) => p.event_id === event.id);
+              const label = pick
+                ? pick.picked_outcome === 'a'
+                  ? event.outcome_a_label
+                  : pick.picked_outcome === 'b'
+                    ? event.outcome_b_label
+                    : event.outcome_draw_label || 'Draw'
+                : null;
+
+              return (
+                <div key={event.id} className="flex items-center justify-between gap-3">
+                  <span className={psg1 ? 'text-balatro-sm font-pixel-body text-white' : 'text-xs'}>
+                    {index + 1}. {event.title}
+                  </span>
+                  {label && (
+                    <span className={psg1 ? 'text-balatro-sm font-pixel-body text-emerald-400' : 'text-xs font-bold text-game-gold'}>
+                      {label}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {role === 'creator' && !opponent && !isExpired && (
+          <button
+            onClick={handleCopyLink}
+            className={psg1 ? `w-full ${glassCard} text-balatro-base font-pixel-body text-white` : 'w-full btn-pixel-secondary'}
+          >
+            {copied ? 'Link copied!' : 'Copy challenge link'}
+          </button>
+        )}
+
+        {canPlay && (
+          <Link href={`/pack/open/challenge?challenge=${challengeId}`} className={primaryButton}>
+            {role === 'opponent' ? 'Continue challenge' : 'Accept challenge'}
+          </Link>
+        )}
+
+        {role === 'viewer' && opponent && (
+          <p className={`${mutedText} text-center`}>This challenge has already been accepted</p>
+        )}
+
+        {isExpired && !(role === 'viewer' && opponent) && (
+          <p className={`${mutedText} text-center`}>This challenge has expired</p>
+        )}
+      </>
+    );
+  };
+
+  const content = (
+    <>
+      <div className={psg1 ? 'p-4 pb-20' : 'flex-1 flex flex-col p-4 pb-20'}>
+        {error ? (
+          <p className={`${mutedText} text-center py-12`}>{error}</p>
+        ) : !data ? (
+          <p className={`${mutedText} text-center py-12`}>Loading...</p>
+        ) : data.comparison && data.creator.pack && data.opponent?.pack ? (
+          <ChallengeResults
+            events={data.challenge.events}
+            creator={{
+              displayName: data.creator.displayName,
+              summary: summarize(data.creator.pack, data.challenge.events),
+            }}
+            opponent={{
+              displayName: data.opponent.displayName,
+              summary: summarize(data.opponent.pack, data.challenge.events),
+            }}
+            comparison={data.comparison}
+          />
+        ) : (
+          renderOpen(data)
+        )}
+      </div>
+
+      <BottomNav />
+    </>
+  );
+
+  return (
+    <main className="relative flex-1 flex flex-col min-h-screen overflow-hidden">
+      {psg1 ? (
+        <div className="sticky top-0 z-20 bg-game-bg/95 backdrop-blur-sm border-b border-white/10">
+          <div className="flex items-center gap-3 p-4">
+            <h1 className="text-xl font-bold font-pixel-heading">CHALLENGE</h1>
+            <div className="flex-1" />
+            <PSG1BackButton onClick={handleNavBack} />
+          </div>
+        </div>
+      ) : (
+        <Header />
+      )}
+
+      {psg1 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-hide">
+          {content}
+        </div>
+      ) : (
+        content
+      )}
+
+      {psg1 && <PSG1ScrollIndicator scrollPercent={scrollPercent} isScrollable={isScrollable} />}
+    </main>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { LeagueBoard, type LeagueBoardEntry } from '@/components/leagues/LeagueBoard';
+import {
+  DailyDistribution,
+  type DailyEventDistribution,
+} from '@/components/daily/DailyDistribution';
+import { useSessionStore } from '@/stores';
+import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
+import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
+import { usePSG1Scroll } from '@/hooks/usePSG1Scroll';
+import { PSG1ScrollIndicator } from '@/components/layout/PSG1ScrollIndicator';
+import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
+import type { Event } from '@/types';
+
+interface DailyData {
+  day: string;
+  isToday: boolean;
+  previousDay: string;
+  nextDay: string | null;
+  events: Event[];
+  entryPackId: string | null;
+  leaderboard: {
+    entries: LeagueBoardEntry[];
+    totalPlayers: number;
+    userRank?: number;
+    userPoints?: number;
+  };
+  distribution: DailyEventDistribution[] | null;
+}
+
+export default function DailyPage() {
+  const router = useRouter();
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+  const [data, setData] = useState<DailyData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null = today
+  const [day, setDay] = useState<string | null>(null);
+  const psg1 = isPSG1();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const handleNavBack = useCallback(() => {
+    router.push('/game');
+  }, [router]);
+
+  usePSG1Navigation({
+    enabled: psg1,
+    itemCount: 0,
+    onBack: handleNavBack,
+  });
+
+  const { scrollPercent, isScrollable } = usePSG1Scroll(psg1, psg1 ? scrollRef : undefined);
+
+  useEffect(() => {
+    async function fetchDaily() {
+      if (!anonymousId) return;
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        const query = new URLSearchParams({ anonymousId, ...(day && { day }) });
+        const response = await authFetch(`/api/daily?${query}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to load the daily pack');
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching daily pack:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the daily pack');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    if (isProfileSynced) {
+      fetchDaily();
+    }
+  }, [anonymousId, isProfileSynced, day]);
+
+  const glassCard = 'bg-white/[0.03] rounded-2xl border border-white/[0.06] backdrop-blur-sm p-4';
+  const primaryButton = psg1
+    ? 'block w-full text-center bg-emerald-400 text-black rounded-2xl font-pixel-heading text-balatro-base px-6 py-3'
+    : 'block w-full text-center btn-pixel-gold';
+  const mutedText = psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-sm text-gray-400';
+  const sectionTitle = psg1 ? 'text-balatro-base font-pixel-heading text-white mb-3' : 'text-sm font-bold mb-3';
+  const formatDay = (value: string) =>
+    new Date(`${value}T00:00:00.000Z`).toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+
+  const content = (
+    <>
+      <div className={psg1 ? 'p-4 pb-20' : 'flex-1 flex flex-col p-4 pb-20'}>
+        {isLoading && !data ? (
+          <p className={`${mutedText} text-center py-12`}>Loading...</p>
+        ) : error || !data ? (
+          <p className={`${mutedText} text-center py-12`}>{error}</p>
+        ) : (
+          <>
+            {/* Day navigation */}
+            <motion.div
+              className="flex items-center justify-between mb-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <button
+                onClick={() => setDay(data.previousDay)}
+                disabled={isLoading}
+                className={`${psg1 ? 'text-balatro-base font-pixel-body text-gray-400' : 'text-sm text-gray-400'} disabled:opacity-30`}
+              >
+                ◀
+              </button>
+              <div className="text-center">
+                <p className="text-3xl mb-1">📅</p>
+                <h2 className={psg1 ? 'text-balatro-lg font-pixel-heading text-white' : 'text-xl font-bold'}>
+                  {data.isToday ? 'Today\'s Daily Pack' : 'Daily Pack'}
+                </h2>
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+                  {formatDay(data.day)} • same five events for everyone
+                </p>
+              </div>
+              <button
+                onClick={() => setDay(data.nextDay)}
+                disabled={!data.nextDay || isLoading}
+                className={`${psg1 ? 'text-balatro-base font-pixel-body text-gray-400' : 'text-sm text-gray-400'} disabled:opacity-30`}
+              >
+                ▶
+              </button>
+            </motion.div>
+
+            {/* Play or view your entry */}
+            <div className="mb-4">
+              {data.entryPackId ? (
+                <Link href={`/pack/${data.entryPackId}`} className={psg1 ? `block text-center ${glassCard} text-balatro-base font-pixel-body text-white` : 'block w-full text-center btn-pixel-secondary'}>
+                  View your daily pack
+                </Link>
+              ) : data.isToday && data.events.length > 0 ? (
+                <Link href="/pack/open/daily" className={primaryButton}>
+                  Play today&apos;s pack
+                </Link>
+              ) : (
+                <p className={`${mutedText} text-center`}>
+                  {data.isToday ? 'Today\'s pack isn\'t ready yet' : 'You didn\'t play this day'}
+                </p>
+              )}
+            </div>
+
+            {/* Community picks */}
+            {data.events.length > 0 && (
+              <div className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}>
+                <h3 className={sectionTitle}>Community Picks</h3>
+                {data.distribution ? (
+                  <DailyDistribution events={data.events} distribution={data.distribution} />
+                ) : (
+                  <>
+                    <div className="space-y-2 mb-3">
+                      {data.events.map((event, index) => (
+                        <p key={event.id} className={psg1 ? 'text-balatro-sm font-pixel-body text-white' : 'text-xs'}>
+                          {index + 1}. {event.title}
+                        </p>
+                      ))}
+                    </div>
+                    <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>
+                      Play today&apos;s pack to see how everyone else picked
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Leaderboard */}
+            <h3 className={sectionTitle}>
+              Leaderboard • {data.leaderboard.totalPlayers} {data.leaderboard.totalPlayers === 1 ? 'player' : 'players'}
+            </h3>
+            <LeagueBoard entries={data.leaderboard.entries} emptyMessage="Nobody has played this day's pack yet" />
+
+            {data.leaderboard.userRank && (
+              <p className={`${mutedText} text-center mt-3`}>
+                You&apos;re #{data.leaderboard.userRank} with {(data.leaderboard.userPoints ?? 0).toFixed(1)} pts
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      <BottomNav />
+    </>
+  );
+
+  return (
+    <main className="relative flex-1 flex flex-col min-h-screen overflow-hidden">
+      {psg1 ? (
+        <div className="sticky top-0 z-20 bg-game-bg/95 backdrop-blur-sm border-b border-white/10">
+          <div className="flex items-center gap-3 p-4">
+            <h1 className="text-xl font-bold font-pixel-heading">DAILY</h1>
+            <div className="flex-1" />
+            <PSG1BackButton onClick={handleNavBack} />
+          </div>
+        </div>
+      ) : (
+        <Header />
+      )}
+
+      {psg1 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-hide">
+          {content}
+        </div>
+      ) : (
+        content
+      )}
+
+      {psg1 && <PSG1ScrollIndicator scrollPercent={scrollPercent} isScrollable={isScrollable} />}
+    </main>
+  );
+}
@@ -10,8 +10,9 @@ import { BottomNav } from '@/components/layout/BottomNav';
 import { isPSG1 } from '@/lib/platform';
 import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
 import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
-import { PackListItem } from '@/components/packs';
+import { PackListItem, PackTypeList } from '@/components/packs';
 import { useSessionStore, usePackSummaries, useTotalPendingReveals } from '@/stores';
+import type { PackType } from '@/types';
 
 interface WeeklyPackStatus {
   packsOpenedThisWeek: number;
@@ -29,6 +30,7 @@ export default function GameHomePage() {
   const [isHovering, setIsHovering] = useState(false);
   const [hoveredPack, setHoveredPack] = useState<'left' | 'right' | null>(null);
   const [weeklyStatus, setWeeklyStatus] = useState<WeeklyPackStatus | null>(null);
+  const [packTypes, setPackTypes] = useState<PackType[]>([]);
 
   // Get active packs from myPacks store
   const packSummaries = usePackSummaries();
@@ -53,9 +55,10 @@ export default function GameHomePage() {
     monday.setUTCDate(now.getUTCDate() + diff);
     monday.setUTCHours(0, 0, 0, 0);
 
+    // Daily packs have their own limit
     return packSummaries.filter((pack) => {
       const openedAt = new Date(pack.openedAt);
-      return openedAt >= monday;
+      return openedAt >= monday && pack.packTypeSlug !== 'daily';
     }).length;
   })();
 
@@ -80,6 +83,25 @@ export default function GameHomePage() {
     fetchWeeklyStatus();
   }, [anonymousId, isProfileSynced]);
 
+  // Fetch the pack types on offer (the sports pack is shown above them)
+  useEffect(() => {
+    async function fetchPackTypes() {
+      try {
+        const response = await fetch('/api/packs/types');
+        if (response.ok) {
+          const data = await response.json();
+          setPackTypes(data.packTypes ?? []);
+        }
+      } catch (error) {
+        console.error('Error fetching pack types:', error);
+      }
+    }
+
+    fetchPackTypes();
+  }, []);
+
+  const morePackTypes = packTypes.filter((packType) => packType.slug !== 'sports');
+
   // Use the maximum of local count and API count (most restrictive)
   const weeklyLimit = weeklyStatus?.weeklyLimit ?? 2;
   const apiPacksOpened = weeklyStatus?.packsOpenedThisWeek ?? 0;
@@ -98,6 +120,7 @@ export default function GameHomePage() {
   // PSG1 menu items
   const psg1MenuItems = [
     { label: 'Open Packs', icon: '📦', badge: packsRemaining > 0 ? packsRemaining : undefined },
+    { label: 'Daily Pack', icon: '📅' },
     { label: 'My Picks', icon: '📋', badge: pendingReveals > 0 ? pendingReveals : undefined },
     { label: 'Leaderboard', icon: '🏆' },
     { label: 'Profile', icon: '👤' },
@@ -119,9 +142,10 @@ export default function GameHomePage() {
   const handleMenuSelect = useCallback((index: number) => {
     switch (index) {
       case 0: setMenuView('packs'); break;
-      case 1: router.push('/my-packs'); break;
-      case 2: router.push('/leaderboard'); break;
-      case 3: router.push('/profile'); break;
+      case 1: router.push('/daily'); break;
+      case 2: router.push('/my-packs'); break;
+      case 3: router.push('/leaderboard'); break;
+      case 4: router.push('/profile'); break;
     }
   }, [router]);
 
@@ -486,9 +510,20 @@ export default function GameHomePage() {
                 </div>
 
                 <p className="text-xs text-gray-500">
-                  5 events • Make your picks • Win USD
+                  5 events • Make your picks • Win USD •{' '}
+                  <Link href="/pack/odds/sports" className="underline hover:text-gray-300">
+                    Odds
+                  </Link>
                 </p>
 
+                {/* Other pack types (daily, themed, coming soon) */}
+                {morePackTypes.length > 0 && (
+                  <div className="w-full max-w-sm mx-auto mt-6">
+                    <p className="text-xs text-gray-400 mb-3 uppercase tracking-wider">More Packs</p>
+                    <PackTypeList packTypes={morePackTypes} />
+                  </div>
+                )}
+
                 {/* Active Packs Preview */}
                 {hasActivePacks && (
                   <div className="mt-8">
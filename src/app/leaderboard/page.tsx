@@ -14,6 +14,7 @@ import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
 
 interface LeaderboardEntry {
   rank: number;
+  previousRank?: number;
   profileId: string;
   displayName: string;
   totalPoints: number;
@@ -22,19 +23,43 @@ interface LeaderboardEntry {
   isCurrentUser?: boolean;
 }
 
+type PeriodTab = 'week' | 'month' | 'all';
+
 interface LeaderboardData {
   entries: LeaderboardEntry[];
   totalPlayers: number;
   userRank?: number;
   userPoints?: number;
+  weekId?: string;
+  previousWeekId?: string;
+  nextWeekId?: string;
 }
 
+const PERIOD_TABS: { id: PeriodTab; label: string; subtitle: string }[] = [
+  { id: 'week', label: 'Week', subtitle: 'Top players this week' },
+  { id: 'month', label: 'Month', subtitle: 'Top players this month' },
+  { id: 'all', label: 'All Time', subtitle: 'Top players of all time' },
+];
+
+const CATEGORY_TABS: { id: string | null; label: string }[] = [
+  { id: null, label: 'All' },
+  { id: 'sports', label: 'Sports' },
+  { id: 'politics', label: 'Politics' },
+  { id: 'crypto', label: 'Crypto' },
+  { id: 'economy', label: 'Economy' },
+  { id: 'entertainment', label: 'Entertainment' },
+];
+
 export default function LeaderboardPage() {
   const router = useRouter();
   const anonymousId = useSessionStore((state) => state.anonymousId);
   const [data, setData] = useState<LeaderboardData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<PeriodTab>('week');
+  // A past week being browsed (YYYY-WW); null = the current week
+  const [weekId, setWeekId] = useState<string | null>(null);
+  const [category, setCategory] = useState<string | null>(null);
   const psg1 = isPSG1();
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -56,9 +81,16 @@ export default function LeaderboardPage() {
 
       try {
         setIsLoading(true);
-        const response = await fetch(
-          `/api/leaderboard?limit=10&offset=0&anonymousId=${encodeURIComponent(anonymousId)}`
-        );
+        setError(null);
+        const params = new URLSearchParams({
+          limit: '10',
+          offset: '0',
+          period: period === 'week' && weekId ? weekId : period,
+          anonymousId,
+        });
+        if (category) params.set('category', category);
+
+        const response = await fetch(`/api/leaderboard?${params}`);
 
         if (!response.ok) {
           throw new Error('Failed to fetch leaderboard');
@@ -75,10 +107,30 @@ export default function LeaderboardPage() {
     }
 
     fetchLeaderboard();
-  }, [anonymousId]);
+  }, [anonymousId, period, weekId, category]);
 
   const myRank = data?.userRank ?? '-';
   const myPoints = data?.userPoints ?? 0;
+  const activePeriod = PERIOD_TABS.find((tab) => tab.id === period) ?? PERIOD_TABS[0];
+  const isPastWeek = period === 'week' && !!weekId;
+
+  const tabClass = (active: boolean) =>
+    psg1
+      ? `flex-1 py-2 rounded-xl text-balatro-base font-pixel-body transition-colors ${
+          active ? 'bg-emerald-500/[0.12] border border-emerald-500/40 text-emerald-400' : 'bg-white/[0.03] border border-white/[0.06] text-gray-500'
+        }`
+      : `flex-1 py-2 rounded text-sm font-bold transition-colors ${
+          active ? 'border-2 border-game-accent bg-game-accent/10 text-white' : 'border-2 border-card-border text-gray-400'
+        }`;
+
+  const chipClass = (active: boolean) =>
+    psg1
+      ? `shrink-0 px-3 py-1 rounded-full text-balatro-sm font-pixel-body ${
+          active ? 'bg-cyan-400/[0.12] border border-cyan-400/40 text-cyan-400' : 'border border-white/[0.06] text-gray-500'
+        }`
+      : `shrink-0 px-3 py-1 rounded-full text-xs ${
+          active ? 'bg-game-accent text-white' : 'border border-card-border text-gray-400'
+        }`;
 
   const content = (
     <>
@@ -86,8 +138,62 @@ export default function LeaderboardPage() {
         {/* Title */}
         {!psg1 && (
           <div className="text-center mb-6">
-            <h1 className="text-2xl font-bold">Weekly Leaderboard</h1>
-            <p className="text-sm text-gray-400">Top players this week</p>
+            <h1 className="text-2xl font-bold">Leaderboard</h1>
+            <p className="text-sm text-gray-400">
+              {isPastWeek ? `Top players of week ${weekId}` : activePeriod.subtitle}
+            </p>
+          </div>
+        )}
+
+        {/* Period Tabs */}
+        <div className="flex gap-2 mb-3">
+          {PERIOD_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => {
+                setPeriod(tab.id);
+                setWeekId(null);
+              }}
+              className={tabClass(period === tab.id)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Category Tabs */}
+        <div className="flex gap-2 mb-4 overflow-x-auto scrollbar-hide">
+          {CATEGORY_TABS.map((tab) => (
+            <button
+              key={tab.label}
+              onClick={() => setCategory(tab.id)}
+              className={chipClass(category === tab.id)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Week Browser */}
+        {period === 'week' && data?.weekId && (
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={() => data.previousWeekId && setWeekId(data.previousWeekId)}
+              disabled={!data.previousWeekId || isLoading}
+              className={psg1 ? 'px-3 text-balatro-lg font-pixel-body text-gray-400 disabled:opacity-30' : 'px-3 text-lg text-gray-400 disabled:opacity-30'}
+            >
+              ‹
+            </button>
+            <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+              {isPastWeek ? `Week ${data.weekId}` : `This week (${data.weekId})`}
+            </p>
+            <button
+              onClick={() => data.nextWeekId && setWeekId(data.nextWeekId)}
+              disabled={!data.nextWeekId || isLoading}
+              className={psg1 ? 'px-3 text-balatro-lg font-pixel-body text-gray-400 disabled:opacity-30' : 'px-3 text-lg text-gray-400 disabled:opacity-30'}
+            >
+              ›
+            </button>
           </div>
         )}
 
@@ -144,7 +250,9 @@ export default function LeaderboardPage() {
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center">
               <p className="text-4xl mb-4">🏆</p>
-              <p className="text-sm text-gray-400">No players yet this week.</p>
+              <p className="text-sm text-gray-400">
+                {isPastWeek ? 'No players that week.' : 'No players yet.'}
+              </p>
               <p className="text-sm text-gray-500 mt-1">
                 Be the first to open a pack!
               </p>
@@ -199,6 +307,14 @@ export default function LeaderboardPage() {
                         {entry.isCurrentUser && (
                           <span className={psg1 ? 'ml-2 text-balatro-base text-cyan-400' : 'ml-2 text-xs text-game-accent'}>(You)</span>
                         )}
+                        {entry.previousRank !== undefined && entry.previousRank !== entry.rank && (
+                          <span className={`ml-2 ${psg1 ? 'text-balatro-sm' : 'text-xs'} ${
+                            entry.previousRank > entry.rank ? 'text-emerald-400' : 'text-red-400'
+                          }`}>
+                            {entry.previousRank > entry.rank ? '▲' : '▼'}
+                            {Math.abs(entry.previousRank - entry.rank)}
+                          </span>
+                        )}
                       </p>
                       <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>
                         {entry.packsOpened} packs • {(entry.accuracy * 100).toFixed(0)}% accuracy
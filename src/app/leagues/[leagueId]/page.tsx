@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { LeagueBoard, type LeagueBoardEntry } from '@/components/leagues/LeagueBoard';
+import { useSessionStore } from '@/stores';
+import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
+import { buildLeagueInviteUrl } from '@/lib/share/utils';
+import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
+import { usePSG1Scroll } from '@/hooks/usePSG1Scroll';
+import { PSG1ScrollIndicator } from '@/components/layout/PSG1ScrollIndicator';
+import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
+
+interface LeagueData {
+  league: {
+    id: string;
+    name: string;
+    invite_code: string;
+    counted_pack_types: string[] | null;
+    season_length_weeks: number;
+  };
+  role: 'admin' | 'member';
+  members: { profileId: string; displayName: string; role: 'admin' | 'member' }[];
+  leaderboard: {
+    entries: LeagueBoardEntry[];
+    totalPlayers: number;
+    userRank?: number;
+    userPoints?: number;
+    season: { number: number; start: string; end: string };
+  };
+  packTypes: { slug: string; name: string }[];
+}
+
+const SEASON_LENGTHS = [1, 2, 4, 8, 13, 26, 52];
+
+export default function LeaguePage({ params }: { params: { leagueId: string } }) {
+  const { leagueId } = params;
+  const router = useRouter();
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const profileId = useSessionStore((state) => state.profileId);
+  const [data, setData] = useState<LeagueData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // 0 = current season, -1 = the one before, ...
+  const [season, setSeason] = useState(0);
+  const [copied, setCopied] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const psg1 = isPSG1();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const handleNavBack = useCallback(() => {
+    router.push('/profile');
+  }, [router]);
+
+  usePSG1Navigation({
+    enabled: psg1,
+    itemCount: 0,
+    onBack: handleNavBack,
+  });
+
+  const { scrollPercent, isScrollable } = usePSG1Scroll(psg1, psg1 ? scrollRef : undefined);
+
+  const fetchLeague = useCallback(async () => {
+    if (!anonymousId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const query = new URLSearchParams({ anonymousId, season: String(season) });
+      const response = await authFetch(`/api/leagues/${leagueId}?${query}`);
+
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'League not found' : 'Failed to load league');
+      }
+
+      setData(await response.json());
+    } catch (err) {
+      console.error('Error fetching league:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load league');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [anonymousId, leagueId, season]);
+
+  useEffect(() => {
+    fetchLeague();
+  }, [fetchLeague]);
+
+  const handleCopyInvite = async () => {
+    if (!data) return;
+
+    try {
+      await navigator.clipboard.writeText(buildLeagueInviteUrl(data.league.invite_code));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const updateSettings = async (settings: {
+    countedPackTypes?: string[] | null;
+    seasonLengthWeeks?: number;
+  }) => {
+    setIsSaving(true);
+
+    try {
+      const response = await authFetch(`/api/leagues/${leagueId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ anonymousId, profileId, ...settings }),
+      });
+
+      if (response.ok) {
+        setSeason(0);
+        await fetchLeague();
+      }
+    } catch (err) {
+      console.error('Error updating league settings:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Toggle a pack type; counting none isn't allowed, counting all is stored as null
+  const handleTogglePackType = (slug: string) => {
+    if (!data) return;
+
+    const all = data.packTypes.map((packType) => packType.slug);
+    const counted = data.league.counted_pack_types ?? all;
+    const next = counted.includes(slug)
+      ? counted.filter((s) => s !== slug)
+      : [...counted, slug];
+
+    if (next.length === 0) return;
+    updateSettings({ countedPackTypes: next.length === all.length ? null : next });
+  };
+
+  const glassCard = 'bg-white/[0.03] rounded-2xl border border-white/[0.06] backdrop-blur-sm p-4';
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  const seasonInfo = data?.leaderboard.season;
+  const optionClass = (active: boolean) =>
+    psg1
+      ? `px-3 py-1 rounded-xl text-balatro-sm font-pixel-body ${
+          active ? 'bg-emerald-500/[0.12] border border-emerald-500/40 text-emerald-400' : 'bg-white/[0.03] border border-white/[0.06] text-gray-500'
+        }`
+      : `px-3 py-1 rounded text-xs font-bold border-2 ${
+          active ? 'border-game-gold text-game-gold' : 'border-card-border text-gray-400'
+        }`;
+
+  const content = (
+    <>
+      <div className={psg1 ? 'p-4 pb-20' : 'flex-1 flex flex-col p-4 pb-20'}>
+        {isLoading && !data ? (
+          <div className="flex-1 flex items-center justify-center py-12">
+            <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-gray-400'}>Loading...</p>
+          </div>
+        ) : error || !data ? (
+          <div className="flex-1 flex items-center justify-center py-12">
+            <p className={psg1 ? 'text-balatro-base font-pixel-body text-red-400' : 'text-red-400'}>{error}</p>
+          </div>
+        ) : (
+          <>
+            {/* League header */}
+            <motion.div
+              className="text-center mb-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <h2 className={psg1 ? 'text-balatro-lg font-pixel-heading text-white' : 'text-xl font-bold'}>
+                {data.league.name}
+              </h2>
+              <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+                {data.members.length} {data.members.length === 1 ? 'player' : 'players'}
+              </p>
+            </motion.div>
+
+            {/* Invite */}
+            <div className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>Invite code</p>
+                  <p className={psg1 ? 'text-balatro-lg font-pixel-heading text-emerald-400 tracking-widest' : 'text-lg font-bold text-game-gold tracking-widest'}>
+                    {data.league.invite_code}
+                  </p>
+                </div>
+                <button
+                  onClick={handleCopyInvite}
+                  className={psg1
+                    ? `${glassCard} !p-2 text-balatro-base font-pixel-body text-white`
+                    : 'btn-pixel-secondary !py-2'
+                  }
+                >
+                  {copied ? 'Copied!' : 'Copy link'}
+                </button>
+              </div>
+            </div>
+
+            {/* Season navigation */}
+            {seasonInfo && (
+              <div className="flex items-center justify-between mb-3">
+                <button
+                  onClick={() => setSeason((s) => s - 1)}
+                  disabled={seasonInfo.number <= 1 || isLoading}
+                  className={`${psg1 ? 'text-balatro-base font-pixel-body text-gray-400' : 'text-sm text-gray-400'} disabled:opacity-30`}
+                >
+                  ◀
+                </button>
+                <div className="text-center">
+                  <p className={psg1 ? 'text-balatro-base font-pixel-heading text-white' : 'text-sm font-bold'}>
+                    Season {seasonInfo.number}{season === 0 ? ' (current)' : ''}
+                  </p>
+                  <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>
+                    {formatDate(seasonInfo.start)} – {formatDate(seasonInfo.end)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSeason((s) => s + 1)}
+                  disabled={season === 0 || isLoading}
+                  className={`${psg1 ? 'text-balatro-base font-pixel-body text-gray-400' : 'text-sm text-gray-400'} disabled:opacity-30`}
+                >
+                  ▶
+                </button>
+              </div>
+            )}
+
+            {/* Leaderboard */}
+            <LeagueBoard entries={data.leaderboard.entries} />
+
+            {data.leaderboard.userRank && (
+              <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500 text-center mt-3' : 'text-sm text-gray-500 text-center mt-3'}>
+                You&apos;re #{data.leaderboard.userRank} with {(data.leaderboard.userPoints ?? 0).toFixed(1)} pts
+              </p>
+            )}
+
+            {/* Admin settings */}
+            {data.role === 'admin' && (
+              <div className={psg1 ? `${glassCard} mt-4` : 'card-pixel mt-4'}>
+                <h3 className={psg1 ? 'text-balatro-base font-pixel-heading text-white mb-3' : 'text-sm font-bold mb-3'}>League Settings</h3>
+
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500 mb-2' : 'text-xs text-gray-400 mb-2'}>Pack types that count</p>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {data.packTypes.map((packType) => (
+                    <button
+                      key={packType.slug}
+                      onClick={() => handleTogglePackType(packType.slug)}
+                      disabled={isSaving}
+                      className={optionClass(
+                        !data.league.counted_pack_types || data.league.counted_pack_types.includes(packType.slug)
+                      )}
+                    >
+                      {packType.name}
+                    </button>
+                  ))}
+                </div>
+
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500 mb-2' : 'text-xs text-gray-400 mb-2'}>Season length (weeks)</p>
+                <div className="flex flex-wrap gap-2">
+                  {SEASON_LENGTHS.map((weeks) => (
+                    <button
+                      key={weeks}
+                      onClick={() => updateSettings({ seasonLengthWeeks: weeks })}
+                      disabled={isSaving || weeks === data.league.season_length_weeks}
+                      className={optionClass(weeks === data.league.season_length_weeks)}
+                    >
+                      {weeks}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <BottomNav />
+    </>
+  );
+
+  return (
+    <main className="relative flex-1 flex flex-col min-h-screen overflow-hidden">
+      {psg1 ? (
+        <div className="sticky top-0 z-20 bg-game-bg/95 backdrop-blur-sm border-b border-white/10">
+          <div className="flex items-center gap-3 p-4">
+            <h1 className="text-xl font-bold font-pixel-heading">LEAGUE</h1>
+            <div className="flex-1" />
+            <PSG1BackButton onClick={handleNavBack} />
+          </div>
+        </div>
+      ) : (
+        <Header />
+      )}
+
+      {psg1 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-hide">
+          {content}
+        </div>
+      ) : (
+        content
+      )}
+
+      {psg1 && <PSG1ScrollIndicator scrollPercent={scrollPercent} isScrollable={isScrollable} />}
+    </main>
+  );
+}
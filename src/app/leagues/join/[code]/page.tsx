@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { useSessionStore } from '@/stores';
+import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
+
+// Invite links land here: join the league, then open it
+export default function JoinLeaguePage({ params }: { params: { code: string } }) {
+  const { code } = params;
+  const router = useRouter();
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const profileId = useSessionStore((state) => state.profileId);
+  const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+  const [error, setError] = useState<string | null>(null);
+  const hasJoined = useRef(false);
+  const psg1 = isPSG1();
+
+  useEffect(() => {
+    if (!isProfileSynced || !anonymousId || hasJoined.current) return;
+    hasJoined.current = true;
+
+    async function join() {
+      try {
+        const response = await authFetch('/api/leagues/join', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ anonymousId, profileId, inviteCode: code }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error ?? 'Failed to join league');
+          return;
+        }
+
+        router.replace(`/leagues/${data.leagueId}`);
+      } catch (err) {
+        console.error('Error joining league:', err);
+        setError('Failed to join league');
+      }
+    }
+
+    join();
+  }, [isProfileSynced, anonymousId, profileId, code, router]);
+
+  return (
+    <main className="relative flex-1 flex flex-col min-h-screen overflow-hidden">
+      {!psg1 && <Header />}
+
+      <div className="flex-1 flex flex-col items-center justify-center p-4 text-center">
+        {error ? (
+          <>
+            <p className={psg1 ? 'text-balatro-base font-pixel-body text-red-400 mb-4' : 'text-red-400 mb-4'}>{error}</p>
+            <Link
+              href="/profile"
+              className={psg1
+                ? 'bg-emerald-400 text-black rounded-2xl font-pixel-heading text-balatro-base px-6 py-3'
+                : 'btn-pixel-gold'
+              }
+            >
+              Go to Profile
+            </Link>
+          </>
+        ) : (
+          <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-gray-400'}>Joining league...</p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -7,9 +7,16 @@ import { useRouter } from 'next/navigation';
 import { QueueCard } from '@/components/game/QueueCard';
 import { RevealAnimation } from '@/components/animations/RevealAnimation';
 import { PackSummary } from '@/components/game/PackSummary';
-import { useMyPacksStore, useStoredPack, useSessionStore, usePackSummaries } from '@/stores';
+import {
+  useMyPacksStore,
+  useStoredPack,
+  useSessionStore,
+  usePackSummaries,
+  useAchievementToastStore,
+} from '@/stores';
 import { useEventSync } from '@/hooks/useEventSync';
 import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
 import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
 import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
 import type { UserPick, Event } from '@/types';
@@ -21,7 +28,9 @@ export default function QueuePage({ params }: { params: { packId: string } }) {
   // Load pack from myPacks store
   const storedPack = useStoredPack(packId);
   const updatePick = useMyPacksStore((state) => state.updatePick);
+  const showUnlocks = useAchievementToastStore((state) => state.showUnlocks);
   const anonymousId = useSessionStore((state) => state.anonymousId);
+  const profileId = useSessionStore((state) => state.profileId);
   const packSummaries = usePackSummaries();
 
   const [picks, setPicks] = useState<(UserPick & { event: Event })[]>([]);
@@ -33,10 +42,40 @@ export default function QueuePage({ params }: { params: { packId: string } }) {
   const [showSummary, setShowSummary] = useState(false);
   const [summaryDismissed, setSummaryDismissed] = useState(false); // User explicitly dismissed summary
   const [wasAlreadyComplete, setWasAlreadyComplete] = useState(false); // Pack was complete on mount
+  const [isOpeningChallenge, setIsOpeningChallenge] = useState(false);
 
   // Poll for event resolutions
   useEventSync(packId);
 
+  // Challenge a friend with this pack (or open the challenge it was played in)
+  const isChallengePack = storedPack?.pack.pack_type?.slug === 'challenge';
+  // Pool packs are dealt from a seed commitment that can be verified
+  const isSeededPack = !isChallengePack && storedPack?.pack.pack_type?.slug !== 'daily';
+  const handleChallenge = async () => {
+    setIsOpeningChallenge(true);
+
+    try {
+      const response = await authFetch('/api/challenges', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ anonymousId, profileId, packId }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.challengeId) {
+        router.push(`/challenges/${data.challengeId}`);
+      } else {
+        console.error('Failed to open challenge:', response.status, data);
+      }
+    } catch (error) {
+      console.error('Error opening challenge:', error);
+    } finally {
+      setIsOpeningChallenge(false);
+    }
+  };
+
   // Handle "Open Another Pack" click - check availability first
   const handleOpenAnotherPack = async () => {
     setSummaryDismissed(true); // Prevent summary from re-opening
@@ -174,12 +213,21 @@ export default function QueuePage({ params }: { params: { packId: string } }) {
       // Sync to myPacks store (persists to localStorage)
       updatePick(packId, currentRevealingPick.id, { reveal_animation_played: true });
 
+      // Toast achievements this card earned (pack-wide ones after the last card)
+      const stored = useMyPacksStore.getState().packs[packId];
+      const allRevealed = !!stored?.picks.every((p) => p.reveal_animation_played);
+      showUnlocks(
+        (stored?.achievements ?? []).filter((a) =>
+          a.pick_id ? a.pick_id === currentRevealingPick.id : allRevealed
+        )
+      );
+
       setCurrentRevealIndex((prev) => prev + 1);
       setIsRevealing(false);
 
       return null;
     });
-  }, [packId, updatePick]);
+  }, [packId, updatePick, showUnlocks]);
 
   // PSG1 navigation for pick cards
   const psg1 = isPSG1();
@@ -252,7 +300,8 @@ export default function QueuePage({ params }: { params: { packId: string } }) {
 
   // Calculate stats
   const resolvedCount = picks.filter((p) => p.reveal_animation_played).length;
-  const totalPoints = picks.reduce((sum, p) => sum + p.points_awarded, 0);
+  // Server-awarded total (pick points + pack bonus), same number as the leaderboard
+  const totalPoints = storedPack?.pack.total_points ?? 0;
   const correctCount = picks.filter((p) => p.is_correct && p.reveal_animation_played).length;
 
   // Check if next card can be revealed
@@ -374,6 +423,33 @@ export default function QueuePage({ params }: { params: { packId: string } }) {
             </div>
           ))}
 
+          {/* Challenge CTA */}
+          {storedPack?.syncedToDb && (
+            <button
+              onClick={handleChallenge}
+              disabled={isOpeningChallenge}
+              className={psg1
+                ? 'w-full mt-6 py-3 px-6 bg-white/[0.03] border border-white/[0.06] rounded-2xl font-pixel-body text-balatro-base text-white disabled:opacity-50'
+                : 'w-full mt-6 btn-pixel-secondary disabled:opacity-50'
+              }
+            >
+              ⚔️ {isChallengePack ? 'View Challenge' : 'Challenge a Friend'}
+            </button>
+          )}
+
+          {/* Provably fair verifier */}
+          {storedPack?.syncedToDb && isSeededPack && (
+            <Link
+              href={`/pack/${packId}/verify`}
+              className={psg1
+                ? 'block text-center mt-3 font-pixel-body text-balatro-sm text-gray-500 underline'
+                : 'block text-center mt-3 text-xs text-gray-400 underline hover:text-white'
+              }
+            >
+              Verify this pack was dealt fairly
+            </Link>
+          )}
+
           {/* Open Another Pack CTA */}
           <motion.button
             onClick={handleOpenAnotherPack}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { isPSG1 } from '@/lib/platform';
+import { RARITY_CONFIG } from '@/lib/rarity';
+import { dealFairPack, hashServerSeed, hashPackInputs, type FairPackInputs } from '@/lib/pools/fairness';
+import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
+import { usePSG1Scroll } from '@/hooks/usePSG1Scroll';
+import { PSG1ScrollIndicator } from '@/components/layout/PSG1ScrollIndicator';
+import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
+import type { Event } from '@/types';
+
+interface FairnessData {
+  packId: string;
+  packTypeSlug: string;
+  serverSeedHash: string;
+  /** null for packs committed before the inputs were */
+  inputsHash: string | null;
+  serverSeed: string | null;
+  clientSeed: string | null;
+  inputs: FairPackInputs | null;
+  eventIds: string[] | null;
+}
+
+interface Verification {
+  hashMatches: boolean;
+  inputsMatch: boolean | null;
+  cards: Event[];
+  dealMatches: boolean;
+}
+
+export default function VerifyPackPage({ params }: { params: { packId: string } }) {
+  const { packId } = params;
+  const router = useRouter();
+  const [data, setData] = useState<FairnessData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Editable, so the seeds can be checked against your own copies
+  const [serverSeed, setServerSeed] = useState('');
+  const [clientSeed, setClientSeed] = useState('');
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const psg1 = isPSG1();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const handleNavBack = useCallback(() => {
+    router.push(`/pack/${packId}`);
+  }, [router, packId]);
+
+  usePSG1Navigation({
+    enabled: psg1,
+    itemCount: 0,
+    onBack: handleNavBack,
+  });
+
+  const { scrollPercent, isScrollable } = usePSG1Scroll(psg1, psg1 ? scrollRef : undefined);
+
+  useEffect(() => {
+    async function fetchFairness() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await fetch(`/api/packs/${packId}/fairness`);
+        const body = await response.json();
+
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load the pack\'s seeds');
+        }
+
+        setData(body);
+        setServerSeed(body.serverSeed ?? '');
+        setClientSeed(body.clientSeed ?? '');
+      } catch (err) {
+        console.error('Error fetching pack fairness:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the pack\'s seeds');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchFairness();
+  }, [packId]);
+
+  // Replay the deal in the browser from the seeds and recorded inputs
+  const verify = useCallback(async () => {
+    if (!data?.inputs || !data.eventIds || !serverSeed || !clientSeed) return;
+
+    const hash = await hashServerSeed(serverSeed);
+    const inputsHash = data.inputsHash ? await hashPackInputs(data.inputs) : null;
+    const cards = dealFairPack(data.inputs, serverSeed, clientSeed);
+    const dealtIds = data.eventIds;
+
+    setVerification({
+      hashMatches: hash === data.serverSeedHash,
+      inputsMatch: inputsHash === null ? null : inputsHash === data.inputsHash,
+      cards,
+      dealMatches:
+        cards.length === dealtIds.length && cards.every((card, i) => card.id === dealtIds[i]),
+    });
+  }, [data, serverSeed, clientSeed]);
+
+  // Check straight away once the server seed is revealed
+  useEffect(() => {
+    if (data?.serverSeed) verify();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data]);
+
+  const glassCard = 'bg-white/[0.03] rounded-2xl border border-white/[0.06] backdrop-blur-sm p-4';
+  const mutedText = psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-sm text-gray-400';
+  const smallText = psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400';
+  const sectionTitle = psg1 ? 'text-balatro-base font-pixel-heading text-white mb-3' : 'text-sm font-bold mb-3';
+  const inputClass = psg1
+    ? 'w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-3 py-2 font-mono text-balatro-sm text-white'
+    : 'w-full bg-game-bg border-2 border-card-border rounded px-3 py-2 font-mono text-xs';
+  const checkClass = (ok: boolean) =>
+    ok
+      ? psg1 ? 'text-balatro-base font-pixel-body text-emerald-400' : 'text-sm text-green-400'
+      : psg1 ? 'text-balatro-base font-pixel-body text-red-400' : 'text-sm text-red-400';
+
+  const poolTitles = new Map(data?.inputs?.pool.map((event) => [event.id, event.title]) ?? []);
+
+  const content = (
+    <>
+      <div className={psg1 ? 'p-4 pb-20' : 'flex-1 flex flex-col p-4 pb-20'}>
+        {isLoading && !data ? (
+          <p className={`${mutedText} text-center py-12`}>Loading...</p>
+        ) : error || !data ? (
+          <p className={`${mutedText} text-center py-12`}>{error}</p>
+        ) : (
+          <>
+            <motion.div
+              className="text-center mb-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <p className="text-3xl mb-1">🔐</p>
+              <h2 className={psg1 ? 'text-balatro-lg font-pixel-heading text-white' : 'text-xl font-bold'}>
+                Provably Fair
+              </h2>
+              <p className={smallText}>
+                The server committed to its seed before this pack was dealt
+              </p>
+            </motion.div>
+
+            {/* Seeds */}
+            <div className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}>
+              <h3 className={sectionTitle}>Seeds</h3>
+              <div className="space-y-3">
+                <div>
+                  <p className={`${smallText} mb-1`}>Commitment (SHA-256 of the server seed)</p>
+                  <p className={`${inputClass} break-all`}>{data.serverSeedHash}</p>
+                </div>
+                {data.inputsHash && (
+                  <div>
+                    <p className={`${smallText} mb-1`}>Commitment (SHA-256 of the pool, odds and rules)</p>
+                    <p className={`${inputClass} break-all`}>{data.inputsHash}</p>
+                  </div>
+                )}
+                <div>
+                  <p className={`${smallText} mb-1`}>Client seed</p>
+                  <input
+                    value={clientSeed}
+                    onChange={(e) => setClientSeed(e.target.value)}
+                    className={inputClass}
+                    placeholder="Not dealt yet"
+                  />
+                </div>
+                <div>
+                  <p className={`${smallText} mb-1`}>Server seed</p>
+                  <input
+                    value={serverSeed}
+                    onChange={(e) => setServerSeed(e.target.value)}
+                    className={inputClass}
+                    placeholder="Revealed once the picks are committed"
+                  />
+                </div>
+              </div>
+
+              <button
+                onClick={verify}
+                disabled={!data.inputs || !serverSeed || !clientSeed}
+                className={psg1
+                  ? 'w-full mt-4 bg-emerald-400 text-black rounded-2xl font-pixel-heading text-balatro-base px-6 py-3 disabled:opacity-40'
+                  : 'w-full mt-4 btn-pixel-gold disabled:opacity-40'
+                }
+              >
+                Verify
+              </button>
+            </div>
+
+            {/* Result */}
+            {verification && (
+              <div className={psg1 ? glassCard : 'card-pixel'}>
+                <h3 className={sectionTitle}>Result</h3>
+                <p className={checkClass(verification.hashMatches)}>
+                  {verification.hashMatches ? '✓' : '✗'} Server seed matches the commitment
+                </p>
+                {verification.inputsMatch !== null && (
+                  <p className={checkClass(verification.inputsMatch)}>
+                    {verification.inputsMatch ? '✓' : '✗'} Pool, odds and rules match the commitment
+                  </p>
+                )}
+                <p className={`${checkClass(verification.dealMatches)} mb-3`}>
+                  {verification.dealMatches ? '✓' : '✗'} Replayed deal matches the dealt pack
+                </p>
+
+                <div className="space-y-2">
+                  {verification.cards.map((card, index) => {
+                    const rolled = card.rarityInfo?.targetRarity;
+                    const isDealt = data.eventIds?.[index] === card.id;
+
+                    return (
+                      <div key={card.id} className="flex items-start gap-2">
+                        <span className={smallText}>{index + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                          <p className={psg1 ? 'text-balatro-sm font-pixel-body text-white' : 'text-xs'}>
+                            {poolTitles.get(card.id) ?? card.id}
+                          </p>
+                          {rolled && (
+                            <p className={`text-xs ${RARITY_CONFIG[rolled].color}`}>
+                              Rolled {RARITY_CONFIG[rolled].name}
+                            </p>
+                          )}
+                        </div>
+                        <span className={checkClass(isDealt)}>{isDealt ? '✓' : '✗'}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {data.inputs && (
+                  <p className={`${smallText} mt-3`}>
+                    Replayed over the {data.inputs.pool.length} eligible events
+                    {data.inputsHash ? ' committed before the deal' : ' recorded at deal time'}
+                    {data.inputs.guaranteeRarity && `, with a ${data.inputs.guaranteeRarity}-or-better pity guarantee`}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <BottomNav />
+    </>
+  );
+
+  return (
+    <main className="relative flex-1 flex flex-col min-h-screen overflow-hidden">
+      {psg1 ? (
+        <div className="sticky top-0 z-20 bg-game-bg/95 backdrop-blur-sm border-b border-white/10">
+          <div className="flex items-center gap-3 p-4">
+            <h1 className="text-xl font-bold font-pixel-heading">VERIFY</h1>
+            <div className="flex-1" />
+            <PSG1BackButton onClick={handleNavBack} />
+          </div>
+        </div>
+      ) : (
+        <Header />
+      )}
+
+      {psg1 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-hide">
+          {content}
+        </div>
+      ) : (
+        content
+      )}
+
+      {psg1 && <PSG1ScrollIndicator scrollPercent={scrollPercent} isScrollable={isScrollable} />}
+    </main>
+  );
+}
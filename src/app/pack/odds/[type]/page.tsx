@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { useSessionStore } from '@/stores';
+import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
+import { RARITY_CONFIG, type Rarity } from '@/lib/rarity';
+import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
+import { usePSG1Scroll } from '@/hooks/usePSG1Scroll';
+import { PSG1ScrollIndicator } from '@/components/layout/PSG1ScrollIndicator';
+import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
+import type { RarityOdds } from '@/lib/pools/packTypes';
+
+interface OddsData {
+  packType: {
+    slug: string;
+    name: string;
+    cardsPerPack: number;
+  };
+  odds: RarityOdds[];
+  isDefaultTable: boolean;
+  pity: {
+    threshold: number | null;
+    minRarity: Rarity;
+    packsWithoutRare: number | null;
+    isDue: boolean;
+  };
+}
+
+function formatPercent(value: number): string {
+  const percent = value * 100;
+  if (percent > 0 && percent < 0.1) return '<0.1%';
+  return `${percent.toFixed(percent < 10 ? 1 : 0)}%`;
+}
+
+export default function PackOddsPage({ params }: { params: { type: string } }) {
+  const { type } = params;
+  const router = useRouter();
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const [data, setData] = useState<OddsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const psg1 = isPSG1();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const handleNavBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  usePSG1Navigation({
+    enabled: psg1,
+    itemCount: 0,
+    onBack: handleNavBack,
+  });
+
+  const { scrollPercent, isScrollable } = usePSG1Scroll(psg1, psg1 ? scrollRef : undefined);
+
+  useEffect(() => {
+    async function fetchOdds() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const query = anonymousId ? `?anonymousId=${anonymousId}` : '';
+        const response = await authFetch(`/api/packs/types/${type}/odds${query}`);
+
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Unknown pack type' : 'Failed to load odds');
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching pack odds:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load odds');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchOdds();
+  }, [type, anonymousId]);
+
+  const glassCard = 'bg-white/[0.03] rounded-2xl border border-white/[0.06] backdrop-blur-sm p-4';
+  const mutedText = psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-sm text-gray-400';
+  const smallText = psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400';
+  const sectionTitle = psg1 ? 'text-balatro-base font-pixel-heading text-white mb-3' : 'text-sm font-bold mb-3';
+
+  const content = (
+    <>
+      <div className={psg1 ? 'p-4 pb-20' : 'flex-1 flex flex-col p-4 pb-20'}>
+        {isLoading && !data ? (
+          <p className={`${mutedText} text-center py-12`}>Loading...</p>
+        ) : error || !data ? (
+          <p className={`${mutedText} text-center py-12`}>{error}</p>
+        ) : (
+          <>
+            <motion.div
+              className="text-center mb-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <p className="text-3xl mb-1">🎲</p>
+              <h2 className={psg1 ? 'text-balatro-lg font-pixel-heading text-white' : 'text-xl font-bold'}>
+                {data.packType.name} Odds
+              </h2>
+              <p className={smallText}>
+                {data.packType.cardsPerPack} cards per pack
+                {data.isDefaultTable && ' • standard drop rates'}
+              </p>
+            </motion.div>
+
+            {/* Drop table */}
+            <div className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}>
+              <h3 className={sectionTitle}>Drop Rates</h3>
+              <div className={`grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-2 items-center ${psg1 ? 'text-balatro-sm font-pixel-body' : 'text-xs'}`}>
+                <span className="text-gray-500">Rarity</span>
+                <span className="text-gray-500 text-right">Per card</span>
+                <span className="text-gray-500 text-right">Per pack</span>
+                {data.odds.map((odds) => (
+                  <div key={odds.rarity} className="contents">
+                    <div>
+                      <p className={`${RARITY_CONFIG[odds.rarity].color} font-bold`}>{odds.name}</p>
+                      <p className="text-gray-500">
+                        Underdog {formatPercent(odds.minPLow)}–{formatPercent(odds.maxPLow)}
+                      </p>
+                    </div>
+                    <span className="text-right text-white">{formatPercent(odds.perCard)}</span>
+                    <span className="text-right text-white">{formatPercent(odds.perPack)}</span>
+                  </div>
+                ))}
+              </div>
+              <p className={`${smallText} mt-3`}>
+                Per pack is the chance of at least one card of that rarity. When no event of the
+                rolled rarity is available, a more common one is dealt instead.
+              </p>
+            </div>
+
+            {/* Pity timer */}
+            <div className={psg1 ? glassCard : 'card-pixel'}>
+              <h3 className={sectionTitle}>Pity Timer</h3>
+              {data.pity.threshold ? (
+                <>
+                  <p className={psg1 ? 'text-balatro-base font-pixel-body text-white' : 'text-sm'}>
+                    Guaranteed {RARITY_CONFIG[data.pity.minRarity].name.toLowerCase()}-or-better card after{' '}
+                    {data.pity.threshold} {data.pity.threshold === 1 ? 'pack' : 'packs'} in a row without one
+                  </p>
+                  {data.pity.packsWithoutRare !== null && (
+                    <p className={`${psg1 ? 'text-balatro-sm font-pixel-body text-emerald-400' : 'text-xs text-game-gold'} mt-2`}>
+                      {data.pity.isDue
+                        ? 'Your next pack is guaranteed one'
+                        : `${data.pity.packsWithoutRare}/${data.pity.threshold} packs without one`}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className={mutedText}>This pack has no pity timer</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <BottomNav />
+    </>
+  );
+
+  return (
+    <main className="relative flex-1 flex flex-col min-h-screen overflow-hidden">
+      {psg1 ? (
+        <div className="sticky top-0 z-20 bg-game-bg/95 backdrop-blur-sm border-b border-white/10">
+          <div className="flex items-center gap-3 p-4">
+            <h1 className="text-xl font-bold font-pixel-heading">ODDS</h1>
+            <div className="flex-1" />
+            <PSG1BackButton onClick={handleNavBack} />
+          </div>
+        </div>
+      ) : (
+        <Header />
+      )}
+
+      {psg1 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-hide">
+          {content}
+        </div>
+      ) : (
+        content
+      )}
+
+      {psg1 && <PSG1ScrollIndicator scrollPercent={scrollPercent} isScrollable={isScrollable} />}
+    </main>
+  );
+}
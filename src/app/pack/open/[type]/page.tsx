@@ -7,27 +7,29 @@ import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { useUnifiedWalletContext } from '@jup-ag/wallet-adapter';
 import { purchasePremiumPack, PREMIUM_PACK_PRICE } from '@/lib/solana/purchase';
 import { purchaseWithTransfer } from '@/lib/solana/transfer';
-import { v4 as uuidv4 } from 'uuid';
 import { PackSprite } from '@/components/sprites/PackSprite';
 import { SwipeCard } from '@/components/game/SwipeCard';
-import { useCurrentPackStore, useMyPacksStore, useSessionStore } from '@/stores';
+import { useCurrentPackStore, useMyPacksStore, useSessionStore, useAchievementToastStore } from '@/stores';
 import {
   calculateMaxPotentialPoints,
   calculateCombinedProbability,
   formatProbability,
+  getProbabilitySnapshot,
 } from '@/lib/scoring/calculator';
-import { getEventsForPack } from '@/lib/pools';
 import {
   getEventRarity,
   getRarityConfig,
 } from '@/lib/rarity';
+import { generateSeed } from '@/lib/pools/fairness';
 import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
 import { GP, isGamepadButtonPressed } from '@/lib/gamepad';
 import { playSound } from '@/lib/audio';
 import { useHoldToConfirm } from '@/hooks/useHoldToConfirm';
 import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
 import { PixelDissolve } from '@/components/animations/PixelDissolve';
-import type { Event, Outcome, UserPack, UserPick } from '@/types';
+import type { ScoringRuleset } from '@/lib/scoring/rulesets';
+import type { Event, Outcome, PackType, UserPack, UserPick } from '@/types';
 
 type Phase = 'checking' | 'loading' | 'payment' | 'confirming_tx' | 'opening' | 'dissolving' | 'revealing' | 'swiping' | 'confirming' | 'blocked' | 'error';
 
@@ -41,6 +43,8 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
   const router = useRouter();
   const searchParams = useSearchParams();
   const isPremium = searchParams.get('premium') === 'true';
+  // Challenge packs are dealt a friend's events instead of from a pool
+  const challengeId = searchParams.get('challenge');
 
   const [phase, setPhase] = useState<Phase>('loading');
   const [revealedCards, setRevealedCards] = useState<number[]>([]);
@@ -60,42 +64,145 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
   const { connection } = useConnection();
   const { setShowModal } = useUnifiedWalletContext();
 
-  // Generate stable pack ID
-  const packIdRef = useRef<string>(uuidv4());
-  const packId = packIdRef.current;
+  const { setPack, setDraftPick } = useCurrentPackStore();
+  const addPack = useMyPacksStore((state) => state.addPack);
+  const markPackSynced = useMyPacksStore((state) => state.markPackSynced);
+  const removePack = useMyPacksStore((state) => state.removePack);
+  const showUnlocks = useAchievementToastStore((state) => state.showUnlocks);
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const profileId = useSessionStore((state) => state.profileId);
+  const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+
+  // Pack ID and signed manifest are issued by the server when the pack is dealt
+  const [packId, setPackId] = useState<string>('');
+  const [manifest, setManifest] = useState<string | null>(null);
+  const [scoringRuleset, setScoringRuleset] = useState<ScoringRuleset | undefined>(undefined);
+  const [packType, setPackType] = useState<PackType | undefined>(undefined);
+
+  // Provably fair pool packs: the server commits to a seed before dealing
+  const [serverSeedHash, setServerSeedHash] = useState<string | null>(null);
 
-  // Load events from pool (now async - reads from database)
+  // Deal the pack server-side. Pool packs pass their seed commitment and a
+  // client seed. Returns false (and shows the error) if it couldn't be dealt.
+  const dealPack = useCallback(async (seed?: { packId: string; clientSeed: string }) => {
+    try {
+      const response = await authFetch('/api/packs/deal', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          anonymousId,
+          profileId,
+          packTypeSlug: type,
+          ...(challengeId && { challengeId }),
+          ...(seed && { ...seed, isPremium }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.events?.length) {
+        console.error('Failed to deal pack:', response.status, data);
+        setErrorMessage(
+          data.code?.startsWith('CHALLENGE_') ||
+            data.code?.startsWith('PACK_TYPE_') ||
+            data.code === 'DAILY_LIMIT_REACHED' ||
+            data.code === 'DAILY_CLOSED' ||
+            data.code === 'DRAFT_PENDING' ||
+            data.code === 'PREMIUM_MISMATCH'
+            ? data.error
+            : 'No events available in this pool. Please try again later.'
+        );
+        setPhase('error');
+        return false;
+      }
+
+      // A resumed premium pack was already paid for - its client seed is the payment
+      if (isPremium && data.resumed && data.clientSeed) {
+        setPaymentSignature(data.clientSeed);
+        setBuyerWallet(publicKey?.toBase58() ?? null);
+      }
+
+      setPackId(data.packId);
+      setPackType(data.packType ?? undefined);
+      setManifest(data.manifest);
+      setScoringRuleset(data.scoringRuleset ?? undefined);
+      setEvents(data.events);
+      return true;
+    } catch (error) {
+      console.error('Error loading events:', error);
+      setErrorMessage('Failed to load events. Please try again.');
+      setPhase('error');
+      return false;
+    }
+  }, [type, challengeId, anonymousId, profileId, isPremium, publicKey]);
+
+  // Start the pack (needs a synced profile to own the draft)
   const eventsLoadedRef = useRef(false);
   useEffect(() => {
+    if ((!anonymousId && !profileId) || !isProfileSynced) return;
     if (eventsLoadedRef.current) return;
     eventsLoadedRef.current = true;
 
-    async function loadEvents() {
+    async function startPack() {
+      // Challenge and daily packs aren't dealt from a pool
+      if (type === 'challenge' || type === 'daily') {
+        if (await dealPack()) setPhase('checking');
+        return;
+      }
+
       try {
-        const poolEvents = await getEventsForPack(type, 5);
-        if (poolEvents.length === 0) {
-          setErrorMessage('No events available in this pool. Please try again later.');
+        const response = await authFetch('/api/packs/seed', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ anonymousId, profileId, packTypeSlug: type, isPremium }),
+        });
+        const data = await response.json();
+
+        // An unfinished pack of this type is resumed instead of dealing another
+        if (data.code === 'DRAFT_PENDING' && data.packId) {
+          if (await dealPack({ packId: data.packId, clientSeed: generateSeed() })) {
+            setPhase(isPremium ? 'opening' : 'checking');
+          }
+          return;
+        }
+
+        if (!response.ok) {
+          console.error('Failed to commit pack seed:', response.status, data);
+          setErrorMessage(
+            data.code === 'PACK_TYPE_NOT_FOUND'
+              ? data.error
+              : data.code === 'POOL_EMPTY'
+                ? 'No events available in this pool. Please try again later.'
+                : 'Failed to load events. Please try again.'
+          );
           setPhase('error');
           return;
         }
-        setEvents(poolEvents);
-        setPhase('checking');
+
+        setPackId(data.packId);
+        setServerSeedHash(data.serverSeedHash);
+
+        // Premium packs are dealt once paid, seeded with the payment signature
+        if (isPremium) {
+          setPhase('checking');
+          return;
+        }
+
+        if (await dealPack({ packId: data.packId, clientSeed: generateSeed() })) {
+          setPhase('checking');
+        }
       } catch (error) {
-        console.error('Error loading events:', error);
+        console.error('Error committing pack seed:', error);
         setErrorMessage('Failed to load events. Please try again.');
         setPhase('error');
       }
     }
 
-    loadEvents();
-  }, [type]);
-
-  const { setPack, setDraftPick } = useCurrentPackStore();
-  const addPack = useMyPacksStore((state) => state.addPack);
-  const markPackSynced = useMyPacksStore((state) => state.markPackSynced);
-  const anonymousId = useSessionStore((state) => state.anonymousId);
-  const profileId = useSessionStore((state) => state.profileId);
-  const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+    startPack();
+  }, [type, anonymousId, profileId, isProfileSynced, isPremium, dealPack]);
 
   // Check if user can open a pack
   useEffect(() => {
@@ -108,6 +215,12 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
         return;
       }
 
+      // The daily pack has its own once-a-day limit, checked when it's dealt
+      if (type === 'daily') {
+        setPhase('opening');
+        return;
+      }
+
       try {
         const response = await fetch(
           `/api/packs/availability?anonymousId=${encodeURIComponent(anonymousId)}`
@@ -133,7 +246,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
     if (phase === 'checking') {
       checkAvailability();
     }
-  }, [anonymousId, profileId, isProfileSynced, phase, isPremium]);
+  }, [type, anonymousId, profileId, isProfileSynced, phase, isPremium]);
 
   // Initialize pack with mock events
   useEffect(() => {
@@ -311,6 +424,9 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
         'confirmed'
       );
       console.log('[PREMIUM] Transaction confirmed!');
+
+      // Deal the paid pack, with the payment signature as its client seed
+      if (!(await dealPack({ packId, clientSeed: result.signature }))) return;
       playSound('pack_open');
       setPhase('opening');
     } catch (error) {
@@ -321,7 +437,16 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
       setPhase('payment');
       setPaymentLoading(false);
     }
-  }, [publicKey, sendTransaction, connection, packId, setShowModal]);
+  }, [publicKey, sendTransaction, connection, packId, setShowModal, dealPack]);
+
+  // A paid pack whose deal failed is dealt again with the same payment signature
+  const handleRetryDeal = useCallback(async () => {
+    if (!paymentSignature) return;
+    setPhase('confirming_tx');
+    if (!(await dealPack({ packId, clientSeed: paymentSignature }))) return;
+    playSound('pack_open');
+    setPhase('opening');
+  }, [packId, paymentSignature, dealPack]);
 
   // PSG1 gamepad/keyboard navigation for payment phase
   const handlePaymentSelect = useCallback((index: number) => {
@@ -432,12 +557,9 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
       position: number;
       pickedOutcome: Outcome;
       pickedAt: string;
-      probabilitySnapshot: number;
-      oppositeProbabilitySnapshot: number;
-      drawProbabilitySnapshot?: number;
     }>
   ) => {
-    if (!anonymousId && !profileId) return;
+    if ((!anonymousId && !profileId) || !manifest) return;
 
     const hasPremiumData = isPremium && paymentSignature && buyerWallet;
     console.log('[PREMIUM] syncPackToDb called:', { isPremium, paymentSignature: paymentSignature?.slice(0, 12), buyerWallet: buyerWallet?.slice(0, 12), hasPremiumData: !!hasPremiumData });
@@ -448,6 +570,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
         profileId,
         pack: packData,
         picks: picksData,
+        manifest,
         ...(hasPremiumData && {
           premium: {
             paymentSignature,
@@ -458,7 +581,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
       };
       console.log('[PREMIUM] POST /api/packs body has premium?', !!body.premium);
 
-      const response = await fetch('/api/packs', {
+      const response = await authFetch('/api/packs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -471,6 +594,32 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
 
       if (response.ok && result.success) {
         markPackSynced(packData.id);
+        showUnlocks(result.achievements ?? []);
+      } else if (result.code === 'PRICE_DRIFT') {
+        // Odds moved too far since the deal - this pack can't be committed
+        removePack(packData.id);
+        setErrorMessage('The odds moved since this pack was dealt. Please open a new pack.');
+        setPhase('error');
+      } else if (result.code === 'DAILY_LIMIT_REACHED') {
+        // Played today's daily pack from another tab or device
+        removePack(packData.id);
+        setErrorMessage('You have already played today\'s daily pack.');
+        setPhase('error');
+      } else if (result.code === 'DAILY_CLOSED') {
+        // A daily event started before the picks were committed
+        removePack(packData.id);
+        setErrorMessage('Today\'s daily pack has closed - its events have started.');
+        setPhase('error');
+      } else if (result.code === 'PREMIUM_MISMATCH') {
+        // Dealt as the other kind of pack (free vs premium) - resume it there
+        removePack(packData.id);
+        setErrorMessage(result.error);
+        setPhase('error');
+      } else if (result.code === 'CHALLENGE_CLOSED') {
+        // The challenge's events started (or it expired) before the commit
+        removePack(packData.id);
+        setErrorMessage('This challenge has closed - its events have started or it has expired.');
+        setPhase('error');
       } else {
         console.error('Failed to sync pack to database:', response.status, result);
       }
@@ -478,7 +627,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
       console.error('Error syncing pack to database:', error);
       // Pack is still saved locally, will work in local-first mode
     }
-  }, [anonymousId, profileId, markPackSynced, isPremium, paymentSignature, buyerWallet]);
+  }, [anonymousId, profileId, manifest, markPackSynced, removePack, showUnlocks, isPremium, paymentSignature, buyerWallet]);
 
   // Save to myPacks when confirming starts
   useEffect(() => {
@@ -489,18 +638,8 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
       const userPack: UserPack = {
         id: packId,
         user_id: 'anonymous',
-        pack_type_id: type,
-        pack_type: {
-          id: type,
-          slug: type,
-          name: type.charAt(0).toUpperCase() + type.slice(1) + ' Pack',
-          cards_per_pack: 5,
-          eligibility_filters: {},
-          is_active: true,
-          display_order: 0,
-          created_at: now,
-          updated_at: now,
-        },
+        pack_type_id: packType?.id ?? type,
+        pack_type: packType,
         opened_at: now,
         resolution_status: 'pending',
         current_reveal_index: 0,
@@ -519,23 +658,12 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
       // Create UserPick objects with events
       const userPicks: (UserPick & { event: Event })[] = pickedEvents.map(
         ({ event, outcome }, index) => {
-          const probability =
-            outcome === 'a'
-              ? event.outcome_a_probability
-              : outcome === 'b'
-                ? event.outcome_b_probability
-                : event.outcome_draw_probability ?? 0;
-          const oppositeProbability =
-            outcome === 'a'
-              ? event.outcome_b_probability
-              : outcome === 'b'
-                ? event.outcome_a_probability
-                : 1 - (event.outcome_draw_probability ?? 0);
-
-          // Snapshot draw probability if the event supports draw
-          const drawProbabilitySnapshot = event.supports_draw
-            ? event.outcome_draw_probability
-            : undefined;
+          // Local copy only - the server recomputes snapshots from the dealt pack
+          const {
+            probabilitySnapshot,
+            oppositeProbabilitySnapshot,
+            drawProbabilitySnapshot,
+          } = getProbabilitySnapshot(event, outcome);
 
           return {
             id: `${packId}-pick-${index + 1}`,
@@ -545,8 +673,8 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
             position: index + 1,
             picked_outcome: outcome,
             picked_at: now,
-            probability_snapshot: probability,
-            opposite_probability_snapshot: oppositeProbability,
+            probability_snapshot: probabilitySnapshot,
+            opposite_probability_snapshot: oppositeProbabilitySnapshot,
             draw_probability_snapshot: drawProbabilitySnapshot,
             is_resolved: false,
             is_correct: undefined,
@@ -575,13 +703,10 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
           position: pick.position,
           pickedOutcome: pick.picked_outcome,
           pickedAt: pick.picked_at,
-          probabilitySnapshot: pick.probability_snapshot,
-          oppositeProbabilitySnapshot: pick.opposite_probability_snapshot,
-          drawProbabilitySnapshot: pick.draw_probability_snapshot,
         }))
       );
     }
-  }, [phase, packId, pickedEvents, type, addPack, events, syncPackToDb, isPremium, paymentSignature, buyerWallet]);
+  }, [phase, packId, packType, pickedEvents, type, addPack, events, syncPackToDb, isPremium, paymentSignature, buyerWallet]);
 
   // Calculate jackpot potential
   const jackpotData = pickedEvents.length === events.length
@@ -594,7 +719,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
                 ? event.outcome_b_probability
                 : event.outcome_draw_probability ?? 0,
         }));
-        const maxPoints = calculateMaxPotentialPoints(picks);
+        const maxPoints = calculateMaxPotentialPoints(picks, scoringRuleset);
         const combinedProb = calculateCombinedProbability(picks);
         return { maxPoints, combinedProb };
       })()
@@ -636,6 +761,14 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
               <div className="text-6xl mb-6">😕</div>
               <h2 className="text-2xl font-bold mb-4">Oops!</h2>
               <p className="text-gray-400 mb-6">{errorMessage}</p>
+              {isPremium && paymentSignature && events.length === 0 && (
+                <button
+                  onClick={handleRetryDeal}
+                  className="w-full btn-pixel-gold mb-3"
+                >
+                  Try Again
+                </button>
+              )}
               <button
                 onClick={() => router.push('/')}
                 className="w-full btn-pixel"
@@ -771,6 +904,12 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
               </p>
             )}
 
+            {serverSeedHash && (
+              <p className="mt-2 max-w-sm text-center text-[10px] text-gray-600 break-all">
+                Provably fair • seed commitment {serverSeedHash}
+              </p>
+            )}
+
             {psg1 && (
               <div className="mt-4 flex items-center justify-center gap-6">
                 <span className="text-xs text-gray-500">[A] Back</span>
@@ -918,7 +1057,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
               animate={{ opacity: 1 }}
               transition={{ delay: 0.5 }}
             >
-              {revealedCards.length} / 5 cards
+              {revealedCards.length} / {events.length} cards
             </motion.p>
             {psg1 && (
               <motion.p
@@ -1128,7 +1267,7 @@ export default function PackOpeningPage({ params }: { params: { type: string } }
                 animate={{ opacity: 1 }}
                 transition={{ delay: 0.7 }}
               >
-                If you nail all 5 picks!
+                If you nail all {events.length} picks!
               </motion.p>
 
               <motion.p
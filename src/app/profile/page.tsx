@@ -11,12 +11,21 @@ import { usePSG1Navigation } from '@/hooks/usePSG1Navigation';
 import { usePSG1Scroll } from '@/hooks/usePSG1Scroll';
 import { PSG1ScrollIndicator } from '@/components/layout/PSG1ScrollIndicator';
 import { PSG1BackButton } from '@/components/layout/PSG1BackButton';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { BadgeGrid } from '@/components/achievements/BadgeGrid';
+import { LeaguesCard } from '@/components/leagues/LeaguesCard';
+import { ACHIEVEMENTS } from '@/lib/achievements/catalogue';
+import { authFetch } from '@/lib/api';
+import type { NotificationPreferences } from '@/types';
 
 export default function ProfilePage() {
   const router = useRouter();
   const profile = useSessionStore((state) => state.profile);
   const anonymousId = useSessionStore((state) => state.anonymousId);
   const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+  const profileId = useSessionStore((state) => state.profileId);
+  const setProfile = useSessionStore((state) => state.setProfile);
+  const push = usePushNotifications();
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [weeklyRank, setWeeklyRank] = useState<number | null>(null);
   const psg1 = isPSG1();
@@ -60,6 +69,33 @@ export default function ProfilePage() {
     }
   }, [anonymousId, isProfileSynced]);
 
+  const handleTogglePreference = async (key: keyof NotificationPreferences) => {
+    const current = profile?.notification_preferences?.[key] ?? true;
+
+    try {
+      const response = await authFetch('/api/profile', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          anonymousId,
+          profileId,
+          notificationPreferences: { [key]: !current },
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.profile) {
+          setProfile(data.profile);
+        }
+      }
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+    }
+  };
+
   const handleResetData = () => {
     // Clear all localStorage data
     localStorage.removeItem('polydraft-session');
@@ -178,6 +214,91 @@ export default function ProfilePage() {
           </div>
         </motion.div>
 
+        {/* Achievements */}
+        <motion.div
+          className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.32 }}
+        >
+          <div className="flex items-center justify-between mb-3">
+            <h3 className={psg1 ? 'text-balatro-base font-pixel-heading text-white' : 'text-sm font-bold'}>Achievements</h3>
+            <span className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+              {profile?.achievements?.length ?? 0}/{ACHIEVEMENTS.length}
+            </span>
+          </div>
+          <BadgeGrid unlocked={profile?.achievements ?? []} />
+        </motion.div>
+
+        {/* Leagues */}
+        <motion.div
+          className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.34 }}
+        >
+          <LeaguesCard />
+        </motion.div>
+
+        {/* Notifications */}
+        {push.isSupported && (
+          <motion.div
+            className={psg1 ? `${glassCard} mb-4` : 'card-pixel mb-4'}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+          >
+            <h3 className={psg1 ? 'text-balatro-base font-pixel-heading text-white mb-3' : 'text-sm font-bold mb-3'}>Notifications</h3>
+            {push.isSubscribed ? (
+              <div className="space-y-2">
+                {([
+                  ['resolution', 'Cards ready to reveal'],
+                  ['leaderboard', 'Weekly rank summary'],
+                ] as const).map(([key, label]) => {
+                  const enabled = profile?.notification_preferences?.[key] ?? true;
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => handleTogglePreference(key)}
+                      className="w-full flex items-center justify-between"
+                    >
+                      <span className={psg1 ? 'text-balatro-base font-pixel-body text-gray-400' : 'text-sm text-gray-300'}>{label}</span>
+                      <span className={enabled
+                        ? (psg1 ? 'text-balatro-base font-pixel-body text-emerald-400' : 'text-sm font-bold text-game-gold')
+                        : (psg1 ? 'text-balatro-base font-pixel-body text-gray-600' : 'text-sm text-gray-500')
+                      }>
+                        {enabled ? 'ON' : 'OFF'}
+                      </span>
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={push.unsubscribe}
+                  disabled={push.isBusy}
+                  className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-600 pt-1' : 'text-xs text-gray-500 pt-1'}
+                >
+                  Turn off on this device
+                </button>
+              </div>
+            ) : push.permission === 'denied' ? (
+              <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>
+                Notifications are blocked in your browser settings
+              </p>
+            ) : (
+              <button
+                onClick={push.subscribe}
+                disabled={push.isBusy || !isProfileSynced}
+                className={psg1
+                  ? `w-full ${glassCard} text-balatro-base font-pixel-body text-white`
+                  : 'w-full btn-pixel-secondary'
+                }
+              >
+                {push.isBusy ? 'Enabling...' : 'Notify me when cards are ready'}
+              </button>
+            )}
+          </motion.div>
+        )}
+
         {/* Recent Activity */}
         <motion.div
           className={psg1 ? glassCard : 'card-pixel'}
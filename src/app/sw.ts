@@ -28,4 +28,55 @@ const serwist = new Serwist({
   },
 });
 
+// ============================================
+// Web Push (sent by the resolve-events cron, see src/lib/push)
+// ============================================
+
+interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag?: string;
+}
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload: PushPayload;
+  try {
+    payload = event.data.json() as PushPayload;
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/icon-192x192.png',
+      data: { url: payload.url },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL((event.notification.data as { url?: string } | null)?.url ?? '/', self.location.origin).href;
+
+  // Focus an open window (navigating it to the page) before opening a new one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async (windows) => {
+      for (const client of windows) {
+        if ('focus' in client) {
+          const focused = await client.focus();
+          return focused.navigate(url);
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
 serwist.addEventListeners();
@@ -5,12 +5,20 @@ import { useSessionStore } from '@/stores/session';
 import { useWalletAuthStore } from '@/stores/walletAuth';
 import { SolanaWalletProvider } from '@/providers/WalletProvider';
 import { WalletGate } from '@/components/auth/WalletGate';
+import { AchievementToast } from '@/components/achievements/AchievementToast';
+import { useResolutionPush } from '@/hooks/useResolutionPush';
 import { isPSG1 } from '@/lib/platform';
 
 interface ProvidersProps {
   children: ReactNode;
 }
 
+// Keeps the myPacks store live while the app is open
+function ResolutionPushListener() {
+  useResolutionPush();
+  return null;
+}
+
 function SessionInitializer({ children }: { children: ReactNode }) {
   const initialize = useSessionStore((state) => state.initialize);
   const isInitialized = useSessionStore((state) => state.isInitialized);
@@ -97,7 +105,13 @@ function SessionInitializer({ children }: { children: ReactNode }) {
     );
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      <ResolutionPushListener />
+      {children}
+      <AchievementToast />
+    </>
+  );
 }
 
 export function Providers({ children }: ProvidersProps) {
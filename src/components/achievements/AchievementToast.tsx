@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAchievementToastStore } from '@/stores/achievements';
+import { getAchievement } from '@/lib/achievements/catalogue';
+import { isPSG1 } from '@/lib/platform';
+
+// How long each unlock stays on screen
+const TOAST_DURATION_MS = 4000;
+
+/**
+ * Shows queued achievement unlocks one at a time
+ * Mounted once for the whole app; pages queue unlocks through
+ * useAchievementToastStore().showUnlocks.
+ */
+export function AchievementToast() {
+  const current = useAchievementToastStore((state) => state.queue[0]);
+  const dismissToast = useAchievementToastStore((state) => state.dismissToast);
+  const psg1 = isPSG1();
+
+  useEffect(() => {
+    if (!current) return;
+
+    const timer = setTimeout(dismissToast, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [current, dismissToast]);
+
+  const achievement = current ? getAchievement(current.id) : undefined;
+
+  // Retired achievements have nothing to show
+  useEffect(() => {
+    if (current && !achievement) dismissToast();
+  }, [current, achievement, dismissToast]);
+
+  return (
+    <AnimatePresence>
+      {current && achievement && (
+        <motion.div
+          key={current.id}
+          initial={{ opacity: 0, y: -40, scale: 0.9 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          exit={{ opacity: 0, y: -20, scale: 0.9 }}
+          className="fixed top-4 left-4 right-4 z-[60] md:left-1/2 md:-translate-x-1/2 md:max-w-[398px]"
+          onClick={dismissToast}
+        >
+          <div className={psg1
+            ? 'bg-white/[0.03] border border-emerald-400/50 rounded-2xl backdrop-blur-sm p-4 shadow-lg max-w-sm mx-auto'
+            : 'bg-game-primary border-2 border-game-gold rounded-xl p-4 shadow-lg max-w-sm mx-auto'
+          }>
+            <div className="flex items-center gap-3">
+              <motion.span
+                className="text-3xl"
+                initial={{ rotate: -20, scale: 0.5 }}
+                animate={{ rotate: 0, scale: 1 }}
+                transition={{ type: 'spring', stiffness: 300, damping: 12 }}
+              >
+                {achievement.icon}
+              </motion.span>
+              <div className="flex-1">
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>Achievement unlocked</p>
+                <p className={psg1 ? 'font-pixel-heading text-balatro-base text-emerald-400' : 'font-bold text-game-gold'}>{achievement.name}</p>
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-sm text-gray-300'}>{achievement.description}</p>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
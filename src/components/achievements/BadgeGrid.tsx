@@ -0,0 +1,50 @@
+'use client';
+
+import { ACHIEVEMENTS } from '@/lib/achievements/catalogue';
+import { isPSG1 } from '@/lib/platform';
+import type { Achievement } from '@/types';
+
+interface BadgeGridProps {
+  unlocked: Achievement[];
+}
+
+/**
+ * Every achievement in the catalogue - unlocked ones in colour with the
+ * date, locked ones greyed out with what it takes
+ */
+export function BadgeGrid({ unlocked }: BadgeGridProps) {
+  const psg1 = isPSG1();
+  const unlockedById = new Map(unlocked.map((a) => [a.id, a]));
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {ACHIEVEMENTS.map((achievement) => {
+        const unlock = unlockedById.get(achievement.id);
+
+        return (
+          <div
+            key={achievement.id}
+            title={achievement.description}
+            className={`text-center p-2 ${psg1
+              ? `rounded-2xl border ${unlock ? 'border-emerald-400/50 bg-white/[0.06]' : 'border-white/[0.06]'}`
+              : `rounded-lg border-2 ${unlock ? 'border-game-gold bg-game-gold/10' : 'border-card-border'}`
+            }`}
+          >
+            <div className={`text-2xl ${unlock ? '' : 'grayscale opacity-30'}`}>{achievement.icon}</div>
+            <p className={unlock
+              ? (psg1 ? 'text-balatro-sm font-pixel-heading text-white mt-1' : 'text-xs font-bold mt-1')
+              : (psg1 ? 'text-balatro-sm font-pixel-body text-gray-600 mt-1' : 'text-xs text-gray-500 mt-1')
+            }>
+              {achievement.name}
+            </p>
+            <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-600' : 'text-[10px] text-gray-500'}>
+              {unlock
+                ? new Date(unlock.unlocked_at).toLocaleDateString()
+                : achievement.description}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
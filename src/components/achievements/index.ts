@@ -0,0 +1,2 @@
+export { AchievementToast } from './AchievementToast';
+export { BadgeGrid } from './BadgeGrid';
@@ -88,6 +88,7 @@ export function RevealAnimation({ pick, onComplete }: RevealAnimationProps) {
     : 'Unknown';
 
   const isWin = pick.is_correct === true;
+  const isVoid = pick.is_void === true;
 
   // Random consolation message
   const consolation =
@@ -107,6 +108,11 @@ export function RevealAnimation({ pick, onComplete }: RevealAnimationProps) {
       timers.push(setTimeout(() => setPhase('celebration'), 3500));
       timers.push(setTimeout(() => setPhase('points'), 5500));
       timers.push(setTimeout(() => onCompleteRef.current(), 7000));
+    } else if (isVoid) {
+      // VOID timing: no celebration, just the void card
+      timers.push(setTimeout(() => setPhase('burst'), 1200));
+      timers.push(setTimeout(() => setPhase('reveal'), 2000));
+      timers.push(setTimeout(() => onCompleteRef.current(), 3500));
     } else {
       // LOSE timing: 4-5 seconds total
       timers.push(setTimeout(() => setPhase('burst'), 1200));
@@ -256,8 +262,51 @@ export function RevealAnimation({ pick, onComplete }: RevealAnimationProps) {
         </motion.div>
       )}
 
+      {/* === PHASE: REVEAL (VOID) === */}
+      {phase === 'reveal' && isVoid && (
+        <motion.div
+          className="relative w-72 rounded-2xl p-6 flex flex-col items-center border-4 bg-gradient-to-b from-gray-800/80 to-gray-900/80 border-gray-500 border-dashed"
+          initial={{ scale: 0, rotateY: -180, opacity: 0 }}
+          animate={{ scale: 1, rotateY: 0, opacity: 1 }}
+          transition={{
+            type: 'spring',
+            stiffness: 200,
+            damping: 20,
+            duration: 0.8,
+          }}
+        >
+          <motion.div
+            className="text-6xl mb-4"
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ delay: 0.3, type: 'spring', stiffness: 400, damping: 15 }}
+          >
+            🚫
+          </motion.div>
+
+          <motion.p
+            className="text-3xl font-black mb-4 text-gray-300"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.4 }}
+          >
+            VOID
+          </motion.p>
+
+          <p className="text-sm text-gray-400 text-center">
+            Market cancelled — no points, no penalty
+          </p>
+
+          {/* Your pick info */}
+          <div className="w-full border-t border-white/20 pt-3 mt-4">
+            <p className="text-xs text-gray-400 text-center mb-1">Your pick:</p>
+            <p className="text-sm font-bold text-center text-gray-300">{pickedLabel}</p>
+          </div>
+        </motion.div>
+      )}
+
       {/* === PHASE: REVEAL === */}
-      {phase === 'reveal' && (
+      {phase === 'reveal' && !isVoid && (
         <motion.div
           className={`relative w-72 rounded-2xl p-6 flex flex-col items-center border-4 ${
             isWin
@@ -403,7 +452,7 @@ export function RevealAnimation({ pick, onComplete }: RevealAnimationProps) {
       )}
 
       {/* === PHASE: CELEBRATION (LOSE) - Consolation === */}
-      {phase === 'celebration' && !isWin && (
+      {phase === 'celebration' && !isWin && !isVoid && (
         <motion.div className="relative flex flex-col items-center">
           {/* Subtle particles */}
           <Confetti
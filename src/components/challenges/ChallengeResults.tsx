@@ -0,0 +1,136 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { PickChip } from '@/components/packs/PickChip';
+import { isPSG1 } from '@/lib/platform';
+import type { PackSummary } from '@/stores/myPacks';
+import type { Event } from '@/types';
+
+export interface ChallengeResultSide {
+  displayName: string;
+  summary: PackSummary;
+}
+
+export interface ChallengeResultComparison {
+  positions: {
+    position: number;
+    eventId: string;
+    creatorPoints: number;
+    opponentPoints: number;
+    winner: 'creator' | 'opponent' | 'tie' | null;
+  }[];
+  creatorPoints: number;
+  opponentPoints: number;
+  creatorPositionsWon: number;
+  opponentPositionsWon: number;
+  winner: 'creator' | 'opponent' | 'tie' | null;
+  isComplete: boolean;
+}
+
+interface ChallengeResultsProps {
+  events: Event[];
+  creator: ChallengeResultSide;
+  opponent: ChallengeResultSide;
+  comparison: ChallengeResultComparison;
+}
+
+/**
+ * Two challenge packs side by side: pack totals on top, then each
+ * position's picks and points, with the position's winner highlighted
+ */
+export function ChallengeResults({ events, creator, opponent, comparison }: ChallengeResultsProps) {
+  const psg1 = isPSG1();
+  const eventsById = new Map(events.map((e) => [e.id, e]));
+
+  const headline = !comparison.isComplete
+    ? 'In progress'
+    : comparison.winner === 'tie'
+      ? 'It\'s a tie!'
+      : `${comparison.winner === 'creator' ? creator.displayName : opponent.displayName} wins!`;
+
+  const sideClass = (won: boolean) =>
+    psg1
+      ? `flex-1 text-center p-3 rounded-2xl border ${won ? 'border-emerald-400/50 bg-emerald-500/[0.06]' : 'border-white/[0.06] bg-white/[0.03]'}`
+      : `flex-1 text-center p-3 rounded-lg border-2 ${won ? 'border-game-gold bg-game-gold/10' : 'border-card-border'}`;
+
+  const pointsClass = (won: boolean) =>
+    won
+      ? (psg1 ? 'text-balatro-base font-pixel-heading text-emerald-400' : 'text-sm font-bold text-game-gold')
+      : (psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-sm text-gray-400');
+
+  return (
+    <div>
+      {/* Headline */}
+      <motion.p
+        className={`text-center mb-4 ${psg1 ? 'text-balatro-lg font-pixel-heading text-white' : 'text-xl font-black text-game-gold'}`}
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+      >
+        {headline}
+      </motion.p>
+
+      {/* Pack totals */}
+      <div className="flex gap-3 mb-4">
+        {([
+          ['creator', creator, comparison.creatorPoints, comparison.creatorPositionsWon],
+          ['opponent', opponent, comparison.opponentPoints, comparison.opponentPositionsWon],
+        ] as const).map(([side, player, points, positionsWon]) => (
+          <div key={side} className={sideClass(comparison.winner === side)}>
+            <p className={psg1 ? 'text-balatro-base font-pixel-body text-white truncate' : 'text-sm font-bold truncate'}>
+              {player.displayName}
+            </p>
+            <p className={psg1 ? 'text-balatro-lg font-pixel-heading text-emerald-400' : 'text-2xl font-black text-game-gold'}>
+              {points.toFixed(1)}
+            </p>
+            <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+              {player.summary.resolvedCount}/{player.summary.totalPicks} resolved • {positionsWon} won
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Pick by pick */}
+      <div className="space-y-2">
+        {comparison.positions.map((result, index) => {
+          const event = eventsById.get(result.eventId);
+          const creatorPick = creator.summary.pickPreviews.find((p) => p.eventId === result.eventId);
+          const opponentPick = opponent.summary.pickPreviews.find((p) => p.eventId === result.eventId);
+
+          return (
+            <motion.div
+              key={result.eventId}
+              className={psg1
+                ? 'p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]'
+                : 'p-3 rounded border-2 border-card-border'
+              }
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-400 mb-2' : 'text-xs text-gray-400 mb-2'}>
+                {result.position}. {event?.title ?? 'Event'}
+              </p>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  {creatorPick && <PickChip pick={creatorPick} />}
+                  <span className={pointsClass(result.winner === 'creator')}>
+                    {result.creatorPoints.toFixed(1)}
+                  </span>
+                </div>
+                <span className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-600' : 'text-xs text-gray-500'}>
+                  {result.winner === null ? 'vs' : result.winner === 'tie' ? 'tie' : result.winner === 'creator' ? '◀' : '▶'}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className={pointsClass(result.winner === 'opponent')}>
+                    {result.opponentPoints.toFixed(1)}
+                  </span>
+                  {opponentPick && <PickChip pick={opponentPick} />}
+                </div>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ChallengeResults } from './ChallengeResults';
@@ -0,0 +1,82 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { isPSG1 } from '@/lib/platform';
+import type { Event } from '@/types';
+
+export interface DailyEventDistribution {
+  eventId: string;
+  totalPicks: number;
+  a: number;
+  b: number;
+  draw: number;
+}
+
+interface DailyDistributionProps {
+  events: Event[];
+  distribution: DailyEventDistribution[];
+}
+
+/**
+ * How the community picked each of the day's events - one bar per outcome
+ */
+export function DailyDistribution({ events, distribution }: DailyDistributionProps) {
+  const psg1 = isPSG1();
+  const eventsById = new Map(events.map((e) => [e.id, e]));
+
+  const labelClass = psg1 ? 'text-balatro-sm font-pixel-body text-gray-400' : 'text-xs text-gray-400';
+  const barTrack = psg1 ? 'h-2 rounded-full bg-white/[0.06] overflow-hidden' : 'h-2 rounded bg-card-border overflow-hidden';
+  const barFill = psg1 ? 'h-full bg-emerald-400' : 'h-full bg-game-gold';
+
+  return (
+    <div className="space-y-3">
+      {distribution.map((result, index) => {
+        const event = eventsById.get(result.eventId);
+        if (!event) return null;
+
+        const outcomes = [
+          { label: event.outcome_a_label, picks: result.a },
+          { label: event.outcome_b_label, picks: result.b },
+          ...(event.supports_draw ? [{ label: event.outcome_draw_label || 'Draw', picks: result.draw }] : []),
+        ];
+
+        return (
+          <motion.div
+            key={result.eventId}
+            className={psg1
+              ? 'p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]'
+              : 'p-3 rounded border-2 border-card-border'
+            }
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            <p className={psg1 ? 'text-balatro-sm font-pixel-body text-white mb-2' : 'text-xs font-bold mb-2'}>
+              {index + 1}. {event.title}
+            </p>
+            <div className="space-y-1.5">
+              {outcomes.map((outcome) => {
+                const share = result.totalPicks > 0 ? outcome.picks / result.totalPicks : 0;
+
+                return (
+                  <div key={outcome.label}>
+                    <div className="flex items-center justify-between">
+                      <span className={labelClass}>{outcome.label}</span>
+                      <span className={labelClass}>{Math.round(share * 100)}%</span>
+                    </div>
+                    <div className={barTrack}>
+                      <div className={barFill} style={{ width: `${share * 100}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className={`${labelClass} mt-2`}>
+              {result.totalPicks} {result.totalPicks === 1 ? 'pick' : 'picks'}
+            </p>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
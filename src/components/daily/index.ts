@@ -0,0 +1 @@
+export { DailyDistribution } from './DailyDistribution';
@@ -42,6 +42,9 @@ export function QueueCard({
   // Determine if this is the "chest ready" state
   const isChestReady = isNext && pick.is_resolved && !isRevealed;
 
+  // Voided market - shown as a neutral VOID card, never a loss
+  const isVoid = !!pick.is_void;
+
   // Determine card state
   let stateClasses = '';
   let statusIcon = '';
@@ -49,7 +52,11 @@ export function QueueCard({
 
   if (psg1) {
     if (isRevealed) {
-      if (pick.is_correct) {
+      if (isVoid) {
+        stateClasses = 'border-gray-500 bg-white/[0.04]';
+        statusIcon = '⊘';
+        statusText = 'VOID';
+      } else if (pick.is_correct) {
         stateClasses = 'border-emerald-400 bg-emerald-400/10';
         statusIcon = '✓';
         statusText = 'WIN';
@@ -77,7 +84,11 @@ export function QueueCard({
     }
   } else {
     if (isRevealed) {
-      if (pick.is_correct) {
+      if (isVoid) {
+        stateClasses = 'border-gray-500 bg-gray-500/10';
+        statusIcon = '⊘';
+        statusText = 'VOID';
+      } else if (pick.is_correct) {
         stateClasses = 'border-game-success bg-game-success/10';
         statusIcon = '✓';
         statusText = 'WIN';
@@ -247,16 +258,20 @@ export function QueueCard({
             w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0
             ${psg1
               ? isRevealed
-                ? pick.is_correct
-                  ? 'bg-emerald-400 text-black'
-                  : 'bg-red-400 text-white'
+                ? isVoid
+                  ? 'bg-gray-500 text-white'
+                  : pick.is_correct
+                    ? 'bg-emerald-400 text-black'
+                    : 'bg-red-400 text-white'
                 : isNext
                   ? 'bg-emerald-400 text-black'
                   : 'bg-white/[0.06] text-white'
               : isRevealed
-                ? pick.is_correct
-                  ? 'bg-game-success text-black'
-                  : 'bg-game-failure text-white'
+                ? isVoid
+                  ? 'bg-gray-500 text-white'
+                  : pick.is_correct
+                    ? 'bg-game-success text-black'
+                    : 'bg-game-failure text-white'
                 : isNext
                   ? 'bg-game-gold text-black'
                   : 'bg-game-secondary text-white'
@@ -291,12 +306,17 @@ export function QueueCard({
             >
               <span
                 className={psg1
-                  ? `text-balatro-sm font-pixel-body ${pick.is_correct ? 'text-emerald-400' : 'text-red-400'}`
-                  : `text-xs font-bold ${pick.is_correct ? 'text-game-success' : 'text-game-failure'}`
+                  ? `text-balatro-sm font-pixel-body ${isVoid ? 'text-gray-400' : pick.is_correct ? 'text-emerald-400' : 'text-red-400'}`
+                  : `text-xs font-bold ${isVoid ? 'text-gray-400' : pick.is_correct ? 'text-game-success' : 'text-game-failure'}`
                 }
               >
                 {statusText}
               </span>
+              {isVoid && (
+                <span className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>
+                  Market cancelled
+                </span>
+              )}
               {pick.is_correct && (
                 <span className={psg1 ? 'text-balatro-sm font-pixel-body text-emerald-400' : 'text-xs text-game-gold font-bold'}>
                   +${pick.points_awarded.toFixed(2)}
@@ -325,18 +345,22 @@ export function QueueCard({
             className={psg1
               ? `text-balatro-sm font-pixel-body uppercase ${
                   isRevealed
-                    ? pick.is_correct
-                      ? 'text-emerald-400'
-                      : 'text-red-400'
+                    ? isVoid
+                      ? 'text-gray-400'
+                      : pick.is_correct
+                        ? 'text-emerald-400'
+                        : 'text-red-400'
                     : isNext && pick.is_resolved
                       ? 'text-emerald-400'
                       : 'text-gray-600'
                 }`
               : `text-xs font-bold uppercase ${
                   isRevealed
-                    ? pick.is_correct
-                      ? 'text-game-success'
-                      : 'text-game-failure'
+                    ? isVoid
+                      ? 'text-gray-400'
+                      : pick.is_correct
+                        ? 'text-game-success'
+                        : 'text-game-failure'
                     : isNext && pick.is_resolved
                       ? 'text-game-gold'
                       : 'text-gray-500'
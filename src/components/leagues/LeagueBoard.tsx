@@ -0,0 +1,95 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { isPSG1 } from '@/lib/platform';
+
+export interface LeagueBoardEntry {
+  rank: number;
+  profileId: string;
+  displayName: string;
+  totalPoints: number;
+  packsOpened: number;
+  accuracy: number;
+  isCurrentUser?: boolean;
+}
+
+interface LeagueBoardProps {
+  entries: LeagueBoardEntry[];
+  emptyMessage?: string;
+}
+
+/**
+ * Ranked rows of a league leaderboard
+ */
+export function LeagueBoard({
+  entries,
+  emptyMessage = 'No packs opened this season yet',
+}: LeagueBoardProps) {
+  const psg1 = isPSG1();
+
+  if (entries.length === 0) {
+    return (
+      <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500 text-center py-6' : 'text-sm text-gray-500 text-center py-6'}>
+        {emptyMessage}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, index) => (
+        <motion.div
+          key={entry.profileId}
+          className={`${psg1 ? 'p-4 rounded-xl' : 'p-3 rounded'} ${
+            psg1
+              ? entry.isCurrentUser
+                ? 'bg-cyan-400/[0.06] border border-cyan-400/30'
+                : 'bg-white/[0.03] border border-white/[0.06]'
+              : entry.isCurrentUser
+                ? 'border-2 border-game-accent bg-game-accent/10'
+                : 'border-2 border-card-border'
+          }`}
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: index * 0.05 }}
+        >
+          <div className="flex items-center gap-3">
+            {/* Rank */}
+            <div
+              className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
+                entry.rank === 1
+                  ? 'bg-yellow-500 text-black'
+                  : entry.rank === 2
+                    ? 'bg-gray-300 text-black'
+                    : entry.rank === 3
+                      ? 'bg-amber-600 text-white'
+                      : 'bg-game-secondary text-white'
+              }`}
+            >
+              {entry.rank}
+            </div>
+
+            {/* User info */}
+            <div className="flex-1">
+              <p className={psg1 ? 'font-pixel-body text-balatro-lg text-white' : 'font-bold text-sm'}>
+                {entry.displayName}
+                {entry.isCurrentUser && (
+                  <span className={psg1 ? 'ml-2 text-balatro-base text-cyan-400' : 'ml-2 text-xs text-game-accent'}>(You)</span>
+                )}
+              </p>
+              <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>
+                {entry.packsOpened} packs • {(entry.accuracy * 100).toFixed(0)}% accuracy
+              </p>
+            </div>
+
+            {/* Points */}
+            <div className="text-right">
+              <p className={psg1 ? 'text-balatro-lg font-pixel-heading text-emerald-400' : 'font-bold text-game-gold'}>{entry.totalPoints.toFixed(1)}</p>
+              <p className={psg1 ? 'text-balatro-base font-pixel-body text-gray-500' : 'text-xs text-gray-500'}>pts</p>
+            </div>
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
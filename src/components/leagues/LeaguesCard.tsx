@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSessionStore } from '@/stores';
+import { isPSG1 } from '@/lib/platform';
+import { authFetch } from '@/lib/api';
+
+interface LeagueListItem {
+  id: string;
+  name: string;
+  role: 'admin' | 'member';
+  memberCount: number;
+}
+
+/**
+ * The caller's leagues, with forms to create one or join by invite code
+ */
+export function LeaguesCard() {
+  const router = useRouter();
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const profileId = useSessionStore((state) => state.profileId);
+  const isProfileSynced = useSessionStore((state) => state.isProfileSynced);
+  const [leagues, setLeagues] = useState<LeagueListItem[]>([]);
+  const [name, setName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const psg1 = isPSG1();
+
+  const fetchLeagues = useCallback(async () => {
+    if (!anonymousId) return;
+
+    try {
+      const response = await authFetch(`/api/leagues?anonymousId=${encodeURIComponent(anonymousId)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setLeagues(data.leagues ?? []);
+      }
+    } catch (err) {
+      console.error('Error fetching leagues:', err);
+    }
+  }, [anonymousId]);
+
+  useEffect(() => {
+    if (isProfileSynced) {
+      fetchLeagues();
+    }
+  }, [isProfileSynced, fetchLeagues]);
+
+  // Create or join, then open the league
+  const submit = async (url: string, payload: Record<string, string>) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ anonymousId, profileId, ...payload }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Something went wrong');
+        return;
+      }
+
+      router.push(`/leagues/${data.league?.id ?? data.leagueId}`);
+    } catch (err) {
+      console.error('Error submitting league form:', err);
+      setError('Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const glassCard = 'bg-white/[0.03] rounded-2xl border border-white/[0.06] backdrop-blur-sm p-4';
+  const inputClass = psg1
+    ? 'flex-1 min-w-0 bg-white/[0.03] border border-white/[0.06] rounded-xl px-3 py-2 text-balatro-base font-pixel-body text-white'
+    : 'flex-1 min-w-0 bg-game-secondary border-2 border-card-border rounded-lg px-3 py-2 text-sm';
+  const buttonClass = psg1
+    ? `${glassCard} !p-2 text-balatro-base font-pixel-body text-white disabled:opacity-50`
+    : 'btn-pixel-secondary !py-2 disabled:opacity-50';
+
+  return (
+    <>
+      <h3 className={psg1 ? 'text-balatro-base font-pixel-heading text-white mb-3' : 'text-sm font-bold mb-3'}>Leagues</h3>
+
+      {leagues.length > 0 ? (
+        <div className="space-y-2 mb-3">
+          {leagues.map((league) => (
+            <Link
+              key={league.id}
+              href={`/leagues/${league.id}`}
+              className="flex items-center justify-between"
+            >
+              <span className={psg1 ? 'text-balatro-base font-pixel-body text-white' : 'text-sm font-bold'}>
+                {league.name}
+              </span>
+              <span className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+                {league.memberCount} {league.memberCount === 1 ? 'player' : 'players'}
+                {league.role === 'admin' ? ' · admin' : ''}
+              </span>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500 mb-3' : 'text-xs text-gray-500 mb-3'}>
+          Start a private league and invite your friends
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={40}
+            placeholder="League name"
+            className={inputClass}
+          />
+          <button
+            onClick={() => submit('/api/leagues', { name })}
+            disabled={isBusy || !isProfileSynced || !name.trim()}
+            className={buttonClass}
+          >
+            Create
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+            maxLength={8}
+            placeholder="Invite code"
+            className={inputClass}
+          />
+          <button
+            onClick={() => submit('/api/leagues/join', { inviteCode })}
+            disabled={isBusy || !isProfileSynced || !inviteCode.trim()}
+            className={buttonClass}
+          >
+            Join
+          </button>
+        </div>
+        {error && (
+          <p className={psg1 ? 'text-balatro-sm font-pixel-body text-red-400' : 'text-xs text-red-400'}>{error}</p>
+        )}
+      </div>
+    </>
+  );
+}
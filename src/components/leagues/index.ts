@@ -0,0 +1,2 @@
+export { LeaguesCard } from './LeaguesCard';
+export { LeagueBoard } from './LeagueBoard';
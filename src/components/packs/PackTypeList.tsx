@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { PackSprite } from '@/components/sprites/PackSprite';
+import { isPSG1 } from '@/lib/platform';
+import { getPackTypeAvailability } from '@/lib/pools/packTypes';
+import type { PackType } from '@/types';
+
+interface PackTypeListProps {
+  packTypes: PackType[];
+}
+
+// The daily pack opens from its own page (leaderboard + community picks)
+function getPackTypeHref(packType: PackType): string {
+  return packType.slug === 'daily' ? '/daily' : `/pack/open/${packType.slug}`;
+}
+
+function formatCountdown(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Pack types from pack_types in display order. Open ones link to their
+ * pack; ones not open yet show a "coming soon" countdown.
+ */
+export function PackTypeList({ packTypes }: PackTypeListProps) {
+  const psg1 = isPSG1();
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep countdowns ticking, and open packs whose window starts
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const visible = packTypes.filter((packType) => getPackTypeAvailability(packType, now) !== 'ended');
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {visible.map((packType, index) => {
+        const isOpen = getPackTypeAvailability(packType, now) === 'open';
+        const cardClass = psg1
+          ? 'flex items-center gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]'
+          : 'flex items-center gap-3 p-3 rounded border-2 border-card-border text-left';
+
+        const body = (
+          <>
+            <div className={isOpen ? '' : 'opacity-40'}>
+              <PackSprite type="default" size="sm" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className={psg1 ? 'text-balatro-base font-pixel-heading text-white truncate' : 'text-sm font-bold truncate'}>
+                {packType.name}
+              </p>
+              {packType.description && (
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>
+                  {packType.description}
+                </p>
+              )}
+              <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500 mt-1' : 'text-xs text-gray-500 mt-1'}>
+                {packType.cards_per_pack} events
+                {isOpen && packType.available_until && (
+                  <> • ends in {formatCountdown(new Date(packType.available_until).getTime() - now.getTime())}</>
+                )}
+              </p>
+            </div>
+            {!isOpen && packType.available_from && (
+              <div className="text-right">
+                <p className={psg1 ? 'text-balatro-sm font-pixel-body text-gray-500' : 'text-xs text-gray-400'}>Coming soon</p>
+                <p className={psg1 ? 'text-balatro-base font-pixel-heading text-emerald-400' : 'text-sm font-bold text-game-gold'}>
+                  {formatCountdown(new Date(packType.available_from).getTime() - now.getTime())}
+                </p>
+              </div>
+            )}
+          </>
+        );
+
+        return (
+          <motion.div
+            key={packType.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            {isOpen ? (
+              <Link href={getPackTypeHref(packType)} className={cardClass}>
+                {body}
+              </Link>
+            ) : (
+              <div className={cardClass}>{body}</div>
+            )}
+            <Link
+              href={`/pack/odds/${packType.slug}`}
+              className={psg1 ? 'block text-right text-balatro-sm font-pixel-body text-gray-500 mt-1' : 'block text-right text-xs text-gray-500 hover:text-gray-300 mt-1'}
+            >
+              View odds
+            </Link>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
@@ -25,7 +25,13 @@ export function PickChip({ pick }: PickChipProps) {
   let icon = '';
 
   if (isRevealed) {
-    if (isCorrect) {
+    if (pick.isVoid) {
+      // Voided market - neutral, no win or loss
+      bgClass = psg1 ? 'bg-white/[0.06]' : 'bg-card-border/50';
+      textClass = psg1 ? 'text-gray-400' : 'text-gray-300';
+      borderClass = 'border-gray-500';
+      icon = '⊘';
+    } else if (isCorrect) {
       bgClass = psg1 ? 'bg-emerald-400/20' : 'bg-game-success/20';
       textClass = psg1 ? 'text-emerald-400' : 'text-game-success';
       borderClass = psg1 ? 'border-emerald-400' : 'border-game-success';
@@ -1,3 +1,4 @@
 export { PackList } from './PackList';
 export { PackListItem } from './PackListItem';
 export { PickChip } from './PickChip';
+export { PackTypeList } from './PackTypeList';
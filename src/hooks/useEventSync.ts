@@ -2,33 +2,19 @@
 
 import { useEffect, useRef, useCallback } from 'react';
 import { useMyPacksStore } from '@/stores/myPacks';
+import { useRealtimeStore } from '@/stores/realtime';
+import { fetchPackResolution } from '@/lib/resolution/sync';
 
-// Polling interval in milliseconds (30 seconds)
+// Fallback polling interval in milliseconds (30 seconds)
+// Only used while the realtime push channel is down (see useResolutionPush)
 const POLL_INTERVAL = 30000;
 
-interface EventResolution {
-  id: string;
-  status: 'active' | 'resolved';
-  winning_outcome: 'a' | 'b' | null;
-  resolved_at: string | null;
-}
-
-interface SyncResponse {
-  events: Record<string, EventResolution>;
-}
-
-// Calculate USD won based on betting odds
-// $1 bet at given probability = $1 / probability payout
-function calculateWinnings(probabilitySnapshot: number): number {
-  // Betting odds: $1 / probability
-  // 50% = $2.00 payout, 25% = $4.00 payout, 10% = $10.00 payout
-  const payout = 1 / probabilitySnapshot;
-  return Math.round(payout * 100) / 100; // Round to 2 decimals
-}
-
+// Payouts are awarded by the server (resolve-events cron); this hook only
+// mirrors them into the store so reveals match the leaderboard.
 export function useEventSync(packId: string) {
   const storedPack = useMyPacksStore((state) => state.packs[packId]);
-  const resolvePicksForEvent = useMyPacksStore((state) => state.resolvePicksForEvent);
+  const reconcilePack = useMyPacksStore((state) => state.reconcilePack);
+  const isPushLive = useRealtimeStore((state) => state.isResolutionPushLive);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const isMountedRef = useRef(true);
 
@@ -36,69 +22,43 @@ export function useEventSync(packId: string) {
   const picks = storedPack?.picks ?? [];
   const unresolvedPicks = picks.filter((pick) => !pick.is_resolved);
   const unresolvedEventIds = unresolvedPicks.map((pick) => pick.event_id);
+  const hasPack = !!storedPack;
 
   const syncEvents = useCallback(async () => {
     // Re-read from store to get latest state
     const currentPack = useMyPacksStore.getState().packs[packId];
-    if (!currentPack) return;
+    if (!currentPack || currentPack.picks.length === 0) return;
 
-    const currentUnresolved = currentPack.picks.filter((p) => !p.is_resolved);
-    if (currentUnresolved.length === 0) return;
-
-    const eventIds = currentUnresolved.map((p) => p.event_id);
+    // Sync every pick so server corrections (re-resolutions) reach resolved picks too
+    const eventIds = currentPack.picks.map((p) => p.event_id);
 
     try {
-      const response = await fetch('/api/events/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ eventIds }),
-      });
-
-      if (!response.ok) {
-        console.error('Failed to sync events:', response.status);
-        return;
-      }
-
-      const data: SyncResponse = await response.json();
+      const data = await fetchPackResolution(packId, eventIds);
 
-      if (!isMountedRef.current) return;
+      if (!isMountedRef.current || !data) return;
 
-      // Process resolved events
-      for (const [eventId, eventData] of Object.entries(data.events)) {
-        if (eventData.status === 'resolved' && eventData.winning_outcome) {
-          // Find the pick for this event
-          const pick = currentUnresolved.find((p) => p.event_id === eventId);
-          if (pick) {
-            const isCorrect = pick.picked_outcome === eventData.winning_outcome;
-            const pointsAwarded = isCorrect ? calculateWinnings(pick.probability_snapshot) : 0;
-
-            // Update the store
-            resolvePicksForEvent(packId, eventId, {
-              winningOutcome: eventData.winning_outcome,
-              resolvedAt: eventData.resolved_at || new Date().toISOString(),
-              isCorrect,
-              pointsAwarded,
-            });
-          }
-        }
-      }
+      reconcilePack(packId, data);
     } catch (error) {
       console.error('Error syncing events:', error);
     }
-  }, [packId, resolvePicksForEvent]);
+  }, [packId, reconcilePack]);
 
-  // Set up polling
+  // Reconcile once when the pack is opened (picks up server corrections)
+  useEffect(() => {
+    if (hasPack) {
+      syncEvents();
+    }
+  }, [hasPack, syncEvents]);
+
+  // Set up fallback polling
   useEffect(() => {
     isMountedRef.current = true;
 
-    // Don't poll if no pack or all events are resolved
-    if (!storedPack || unresolvedEventIds.length === 0) {
+    // Don't poll if no pack, all events are resolved, or updates are pushed
+    if (!storedPack || unresolvedEventIds.length === 0 || isPushLive) {
       return;
     }
 
-    // Initial sync
-    syncEvents();
-
     // Set up interval
     intervalRef.current = setInterval(syncEvents, POLL_INTERVAL);
 
@@ -109,11 +69,11 @@ export function useEventSync(packId: string) {
         intervalRef.current = null;
       }
     };
-  }, [syncEvents, storedPack, unresolvedEventIds.length]);
+  }, [syncEvents, storedPack, unresolvedEventIds.length, isPushLive]);
 
   return {
     unresolvedCount: unresolvedEventIds.length,
-    isPolling: unresolvedEventIds.length > 0,
+    isPolling: unresolvedEventIds.length > 0 && !isPushLive,
     syncNow: syncEvents, // Manual trigger for testing
   };
 }
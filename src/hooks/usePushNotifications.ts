@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSessionStore } from '@/stores';
+import { authFetch } from '@/lib/api';
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+export type PushPermission = NotificationPermission | 'unsupported';
+
+// PushManager wants the VAPID key as raw bytes
+function vapidKeyToBytes(base64url: string): ArrayBuffer {
+  const base64 = (base64url + '='.repeat((4 - (base64url.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    !!VAPID_PUBLIC_KEY &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Web Push subscription for this device
+ *
+ * Subscribes through the service worker registered by PWARegister and
+ * stores the subscription on the player's profile, so the resolve-events
+ * cron can notify them of ready reveals and their weekly rank.
+ */
+export function usePushNotifications() {
+  const anonymousId = useSessionStore((state) => state.anonymousId);
+  const profileId = useSessionStore((state) => state.profileId);
+  const [permission, setPermission] = useState<PushPermission>('unsupported');
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    setPermission(Notification.permission);
+    navigator.serviceWorker.ready
+      .then((registration) => registration.pushManager.getSubscription())
+      .then((subscription) => setIsSubscribed(!!subscription))
+      .catch((error) => console.error('Error reading push subscription:', error));
+  }, []);
+
+  const subscribe = useCallback(async () => {
+    if (!isPushSupported() || isBusy) return false;
+    setIsBusy(true);
+
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return false;
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: vapidKeyToBytes(VAPID_PUBLIC_KEY as string),
+        }));
+
+      const response = await authFetch('/api/push/subscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ anonymousId, profileId, subscription: subscription.toJSON() }),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to save push subscription:', response.status);
+        return false;
+      }
+
+      setIsSubscribed(true);
+      return true;
+    } catch (error) {
+      console.error('Error subscribing to push:', error);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [anonymousId, profileId, isBusy]);
+
+  const unsubscribe = useCallback(async () => {
+    if (!isPushSupported() || isBusy) return false;
+    setIsBusy(true);
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await authFetch('/api/push/subscribe', {
+          method: 'DELETE',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ anonymousId, profileId, endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+
+      setIsSubscribed(false);
+      return true;
+    } catch (error) {
+      console.error('Error unsubscribing from push:', error);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [anonymousId, profileId, isBusy]);
+
+  return {
+    isSupported: permission !== 'unsupported',
+    permission,
+    isSubscribed,
+    isBusy,
+    subscribe,
+    unsubscribe,
+  };
+}
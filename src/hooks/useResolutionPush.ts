@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useMyPacksStore } from '@/stores/myPacks';
+import { useRealtimeStore } from '@/stores/realtime';
+import { getSupabase } from '@/lib/supabase/client';
+import { fetchPackResolution } from '@/lib/resolution/sync';
+
+// Supabase Realtime caps `in` filters at 100 values - larger sets are
+// watched over several channels
+const MAX_EVENTS_PER_CHANNEL = 100;
+
+/**
+ * Reconcile every stored pack that has an unresolved pick on one of the events
+ */
+async function syncPacksForEvents(eventIds: Set<string>) {
+  const { packs, reconcilePack } = useMyPacksStore.getState();
+
+  for (const [packId, storedPack] of Object.entries(packs)) {
+    const affected = storedPack.picks.some(
+      (p) => !p.is_resolved && eventIds.has(p.event_id)
+    );
+    if (!affected) continue;
+
+    try {
+      const data = await fetchPackResolution(
+        packId,
+        storedPack.picks.map((p) => p.event_id)
+      );
+      if (data) {
+        reconcilePack(packId, data);
+      }
+    } catch (error) {
+      console.error('Error syncing pack after resolution push:', packId, error);
+    }
+  }
+}
+
+/**
+ * Push resolutions into the myPacks store
+ *
+ * Subscribes to Supabase Realtime updates on the events behind the player's
+ * unresolved picks. When one resolves (or is voided) the affected packs are
+ * reconciled with the server, which updates the pack pages, my-packs and
+ * the BottomNav reveal badge. useEventSync polls only while this is down
+ * (push counts as live once every channel has subscribed).
+ */
+export function useResolutionPush() {
+  const packs = useMyPacksStore((state) => state.packs);
+  const setPushLive = useRealtimeStore((state) => state.setResolutionPushLive);
+
+  // Stable key so the channel is only rebuilt when the watched set changes
+  const watchedKey = useMemo(() => {
+    const eventIds = new Set<string>();
+    for (const storedPack of Object.values(packs)) {
+      for (const pick of storedPack.picks) {
+        if (!pick.is_resolved) eventIds.add(pick.event_id);
+      }
+    }
+    return Array.from(eventIds).sort().join(',');
+  }, [packs]);
+
+  useEffect(() => {
+    if (!watchedKey) {
+      setPushLive(false);
+      return;
+    }
+
+    const eventIds = watchedKey.split(',');
+    const supabase = getSupabase();
+    const subscribed = new Set<number>();
+    const channelKey = Date.now();
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < eventIds.length; i += MAX_EVENTS_PER_CHANNEL) {
+      chunks.push(eventIds.slice(i, i + MAX_EVENTS_PER_CHANNEL));
+    }
+
+    const channels = chunks.map((chunk, index) =>
+      supabase
+        .channel(`pack-resolutions:${channelKey}:${index}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'events',
+            filter: `id=in.(${chunk.join(',')})`,
+          },
+          (payload: { new: { id?: string; status?: string } }) => {
+            const { id, status } = payload.new;
+            if (!id || (status !== 'resolved' && status !== 'cancelled')) return;
+
+            syncPacksForEvents(new Set([id]));
+          }
+        )
+        .subscribe((status: string) => {
+          if (status === 'SUBSCRIBED') {
+            subscribed.add(index);
+
+            // Catch up on anything that resolved while we weren't listening
+            syncPacksForEvents(new Set(chunk));
+          } else {
+            subscribed.delete(index);
+          }
+
+          setPushLive(subscribed.size === chunks.length);
+        })
+    );
+
+    return () => {
+      setPushLive(false);
+      for (const channel of channels) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [watchedKey, setPushLive]);
+}
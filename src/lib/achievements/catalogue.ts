@@ -0,0 +1,128 @@
+/**
+ * Achievement Catalogue
+ *
+ * Every achievement is data: what it's called, when it's checked and the
+ * criteria that unlock it. The engine (./engine.ts) knows how to evaluate
+ * each criteria type - adding an achievement of an existing type is just a
+ * new entry here. Safe to import on the client (badge grid, toasts).
+ */
+
+import type { Rarity } from '../rarity';
+
+// ============================================
+// Types
+// ============================================
+
+/** When an achievement is evaluated */
+export type AchievementTrigger = 'commit' | 'resolution';
+
+export type AchievementCriteria =
+  /** Lifetime packs opened */
+  | { type: 'packs_opened'; count: number }
+  /** Packs opened in one week (UTC, Monday-Sunday) */
+  | { type: 'packs_in_week'; count: number }
+  /** A correct pick, optionally on a card of a rarity or at odds under a probability */
+  | { type: 'correct_pick'; rarity?: Rarity; maxProbability?: number }
+  /** Every (non-void) pick in a pack correct */
+  | { type: 'perfect_pack' }
+  /** Consecutive correct picks, in resolution order */
+  | { type: 'streak'; length: number }
+  /** Lifetime correct picks */
+  | { type: 'correct_picks'; count: number };
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  trigger: AchievementTrigger;
+  criteria: AchievementCriteria;
+}
+
+// ============================================
+// Catalogue
+// ============================================
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_pack',
+    name: 'Fresh Pack',
+    description: 'Open your first pack',
+    icon: '📦',
+    trigger: 'commit',
+    criteria: { type: 'packs_opened', count: 1 },
+  },
+  {
+    id: 'ten_packs_week',
+    name: 'Pack Rat',
+    description: 'Open 10 packs in a week',
+    icon: '🐀',
+    trigger: 'commit',
+    criteria: { type: 'packs_in_week', count: 10 },
+  },
+  {
+    id: 'first_correct',
+    name: 'Called It',
+    description: 'Get your first pick right',
+    icon: '✅',
+    trigger: 'resolution',
+    criteria: { type: 'correct_pick' },
+  },
+  {
+    id: 'first_legendary_correct',
+    name: 'Legend',
+    description: 'Get a legendary card right',
+    icon: '👑',
+    trigger: 'resolution',
+    criteria: { type: 'correct_pick', rarity: 'legendary' },
+  },
+  {
+    id: 'longshot',
+    name: 'Longshot',
+    description: 'Hit a pick with under 5% odds',
+    icon: '🎯',
+    trigger: 'resolution',
+    criteria: { type: 'correct_pick', maxProbability: 0.05 },
+  },
+  {
+    id: 'perfect_pack',
+    name: 'Perfect Pack',
+    description: 'Get every pick in a pack right',
+    icon: '💎',
+    trigger: 'resolution',
+    criteria: { type: 'perfect_pack' },
+  },
+  {
+    id: 'streak_5',
+    name: 'On Fire',
+    description: '5 correct picks in a row',
+    icon: '🔥',
+    trigger: 'resolution',
+    criteria: { type: 'streak', length: 5 },
+  },
+  {
+    id: 'streak_10',
+    name: 'Unstoppable',
+    description: '10 correct picks in a row',
+    icon: '⚡',
+    trigger: 'resolution',
+    criteria: { type: 'streak', length: 10 },
+  },
+  {
+    id: 'correct_50',
+    name: 'Sharp',
+    description: '50 correct picks',
+    icon: '🧠',
+    trigger: 'resolution',
+    criteria: { type: 'correct_picks', count: 50 },
+  },
+];
+
+const ACHIEVEMENTS_BY_ID = new Map(ACHIEVEMENTS.map((a) => [a.id, a]));
+
+/**
+ * Look up an achievement by ID (undefined if it's been retired)
+ */
+export function getAchievement(id: string): AchievementDefinition | undefined {
+  return ACHIEVEMENTS_BY_ID.get(id);
+}
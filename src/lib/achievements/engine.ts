@@ -0,0 +1,181 @@
+/**
+ * Achievement Engine
+ *
+ * Evaluates the catalogue for a profile when something happens:
+ * - 'commit': a pack was committed (POST /api/packs)
+ * - 'resolution': picks were scored or voided (resolve-events cron)
+ *
+ * Only achievements for that trigger which the profile hasn't unlocked are
+ * checked. Unlocks are attributed to the pack / pick that earned them where
+ * there is one, so the reveal flow can show the toast when that card flips.
+ */
+
+import { ACHIEVEMENTS, type AchievementCriteria, type AchievementTrigger } from './catalogue';
+import { getEventRarity } from '../rarity';
+import { getCurrentWeekStart } from '../supabase/leaderboard';
+import { getPacksByIds } from '../supabase/packs';
+import {
+  unlockAchievements,
+  getAchievementProfile,
+  countPacksOpened,
+  type AchievementUnlock,
+} from '../supabase/achievements';
+import type { Achievement, UserPick } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AchievementContext {
+  /** The pack that was just committed */
+  packId?: string;
+  /** Picks that were just scored or voided, with their new state */
+  picks?: UserPick[];
+}
+
+/** What earned an unlock (empty when nothing in particular did) */
+type AchievementSource = Pick<AchievementUnlock, 'pack_id' | 'pick_id'>;
+
+interface AchievementFacts {
+  context: AchievementContext;
+  longestStreak: number;
+  totalCorrectPicks: number;
+  packsOpened: () => Promise<number>;
+  packsThisWeek: () => Promise<number>;
+  perfectPackIds: () => Promise<string[]>;
+}
+
+// ============================================
+// Criteria
+// ============================================
+
+// Load a fact at most once per evaluation
+function lazy<T>(load: () => Promise<T>): () => Promise<T> {
+  let value: Promise<T> | null = null;
+  return () => (value ??= load());
+}
+
+function correctPicks(context: AchievementContext): UserPick[] {
+  return (context.picks ?? []).filter((p) => p.is_resolved && p.is_correct && !p.is_void);
+}
+
+function fromPick(pick: UserPick | undefined): AchievementSource {
+  return pick ? { pack_id: pick.user_pack_id, pick_id: pick.id } : {};
+}
+
+function fromPack(packId: string | undefined): AchievementSource {
+  return packId ? { pack_id: packId } : {};
+}
+
+/**
+ * Check one criteria against the facts
+ * Returns what earned it if met, null if not.
+ */
+async function checkCriteria(
+  criteria: AchievementCriteria,
+  facts: AchievementFacts
+): Promise<AchievementSource | null> {
+  switch (criteria.type) {
+    case 'packs_opened':
+      return (await facts.packsOpened()) >= criteria.count
+        ? fromPack(facts.context.packId)
+        : null;
+
+    case 'packs_in_week':
+      return (await facts.packsThisWeek()) >= criteria.count
+        ? fromPack(facts.context.packId)
+        : null;
+
+    case 'correct_pick': {
+      const pick = correctPicks(facts.context).find((p) =>
+        (!criteria.rarity ||
+          getEventRarity(p.probability_snapshot, p.opposite_probability_snapshot) === criteria.rarity) &&
+        (criteria.maxProbability === undefined || p.probability_snapshot < criteria.maxProbability)
+      );
+      return pick ? fromPick(pick) : null;
+    }
+
+    case 'perfect_pack': {
+      const [packId] = await facts.perfectPackIds();
+      return packId ? fromPack(packId) : null;
+    }
+
+    case 'streak': {
+      if (facts.longestStreak < criteria.length) return null;
+      const picks = correctPicks(facts.context);
+      return fromPick(picks[picks.length - 1]);
+    }
+
+    case 'correct_picks': {
+      if (facts.totalCorrectPicks < criteria.count) return null;
+      const picks = correctPicks(facts.context);
+      return fromPick(picks[picks.length - 1]);
+    }
+  }
+}
+
+/**
+ * Packs among the context's picks that are fully resolved with every
+ * non-void pick correct
+ */
+async function findPerfectPacks(context: AchievementContext): Promise<string[]> {
+  const packIds = Array.from(new Set((context.picks ?? []).map((p) => p.user_pack_id)));
+  const packs = await getPacksByIds(packIds);
+
+  return packs
+    .filter((pack) => {
+      const picks = (pack.picks ?? []).filter((p) => !p.is_void);
+      return (
+        pack.resolution_status === 'fully_resolved' &&
+        picks.length > 0 &&
+        picks.every((p) => p.is_correct)
+      );
+    })
+    .map((pack) => pack.id);
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Evaluate the catalogue for a trigger and record any new unlocks
+ * Returns the unlocks that are new. Never throws - achievements must not
+ * break committing or resolving.
+ */
+export async function evaluateAchievements(
+  profileId: string,
+  trigger: AchievementTrigger,
+  context: AchievementContext = {}
+): Promise<Achievement[]> {
+  try {
+    const profile = await getAchievementProfile(profileId);
+    if (!profile) return [];
+
+    const unlocked = new Set(profile.achievements.map((a) => a.id));
+    const candidates = ACHIEVEMENTS.filter((a) => a.trigger === trigger && !unlocked.has(a.id));
+    if (candidates.length === 0) return [];
+
+    const facts: AchievementFacts = {
+      context,
+      longestStreak: profile.longestStreak,
+      totalCorrectPicks: profile.totalCorrectPicks,
+      packsOpened: lazy(() => countPacksOpened(profileId)),
+      packsThisWeek: lazy(() => countPacksOpened(profileId, getCurrentWeekStart())),
+      perfectPackIds: lazy(() => findPerfectPacks(context)),
+    };
+
+    const unlocks: AchievementUnlock[] = [];
+    for (const achievement of candidates) {
+      const source = await checkCriteria(achievement.criteria, facts);
+      if (source) {
+        unlocks.push({ id: achievement.id, ...source });
+      }
+    }
+
+    return unlockAchievements(profileId, unlocks);
+  } catch (error) {
+    console.error('Error evaluating achievements:', profileId, trigger, error);
+    return [];
+  }
+}
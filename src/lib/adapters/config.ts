@@ -13,6 +13,12 @@ import type { VenueId } from './types';
 
 const ACTIVE_VENUE_ID = (process.env.NEXT_PUBLIC_VENUE || 'polymarket') as VenueId;
 
+// Venues live at the same time (comma-separated). Defaults to the active venue only.
+const LIVE_VENUE_IDS = (process.env.NEXT_PUBLIC_VENUES || ACTIVE_VENUE_ID)
+  .split(',')
+  .map((v) => v.trim())
+  .filter(Boolean) as VenueId[];
+
 // ============================================
 // Venue Config Interface
 // ============================================
@@ -146,6 +152,8 @@ export const venueConfigs: Record<string, VenueConfig> = {
 
 /**
  * Get the active venue ID from environment
+ * This is the primary venue (theming, defaults). Other venues may also be
+ * live - see getEnabledVenueIds().
  */
 export function getActiveVenueId(): VenueId {
   if (!venueConfigs[ACTIVE_VENUE_ID]) {
@@ -177,14 +185,31 @@ export function getVenueConfig(venueId: VenueId): VenueConfig | null {
  * Get all enabled venue configs
  */
 export function getEnabledVenues(): VenueConfig[] {
-  return Object.values(venueConfigs).filter((config) => config.enabled);
+  return Object.values(venueConfigs).filter((config) => isVenueEnabled(config.venueId));
+}
+
+/**
+ * Get the IDs of all enabled venues (the active venue always comes first)
+ */
+export function getEnabledVenueIds(): VenueId[] {
+  const activeVenueId = getActiveVenueId();
+  const others = getEnabledVenues()
+    .map((config) => config.venueId)
+    .filter((venueId) => venueId !== activeVenueId);
+
+  return isVenueEnabled(activeVenueId) ? [activeVenueId, ...others] : others;
 }
 
 /**
- * Check if a venue is enabled (only active venue is enabled)
+ * Check if a venue is enabled
+ * A venue is enabled when it is live (NEXT_PUBLIC_VENUES, or the active venue)
+ * and its config is enabled.
  */
 export function isVenueEnabled(venueId: VenueId): boolean {
-  return venueId === getActiveVenueId();
+  const config = venueConfigs[venueId];
+  if (!config?.enabled) return false;
+
+  return venueId === getActiveVenueId() || LIVE_VENUE_IDS.includes(venueId);
 }
 
 /**
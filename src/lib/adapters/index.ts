@@ -26,6 +26,7 @@ export {
   venueConfigs,
   getVenueConfig,
   getEnabledVenues,
+  getEnabledVenueIds,
   isVenueEnabled,
   getVenueRules,
   getVenueFeatures,
@@ -136,8 +136,17 @@ export function determineResolution(market: KalshiMarket): VenueResolution {
     return { resolved: false };
   }
 
+  // Voided market - settled with no winner
+  if (market.result === 'void') {
+    return {
+      resolved: true,
+      voided: true,
+      resolvedAt: market.settlement_time,
+    };
+  }
+
   // Check result field
-  if (!market.result || market.result === 'void') {
+  if (!market.result) {
     return { resolved: false };
   }
 
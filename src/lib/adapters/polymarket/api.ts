@@ -29,11 +29,15 @@ export interface GammaMarket {
   archived: boolean;
   resolutionSource?: string;
   endDate?: string;
+  // Sports markets: kick-off, e.g. '2024-11-10 18:00:00+00'
+  gameStartTime?: string;
   description?: string;
   image?: string;
   category?: string;
   tags?: string[];
   clobTokenIds?: string;
+  // UMA oracle state: 'proposed', 'disputed', 'resolved'... ('resolved' = final)
+  umaResolutionStatus?: string;
 }
 
 export interface ClobPrice {
@@ -153,7 +153,7 @@ export const polymarketAdapter = new PolymarketAdapter();
 // Conditional Registration
 // ============================================
 
-// Only register if Polymarket is the active venue
+// Only register if Polymarket is enabled (active or listed in NEXT_PUBLIC_VENUES)
 if (isVenueEnabled('polymarket')) {
   venueRegistry.register(polymarketAdapter);
   console.log('[Polymarket] Adapter registered');
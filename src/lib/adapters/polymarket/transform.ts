@@ -13,6 +13,14 @@ import { type GammaMarket, parseOutcomePrices, parseClobTokenIds } from './api';
 // Market Transformation
 // ============================================
 
+/**
+ * Normalize a Gamma timestamp to ISO 8601 (undefined if missing or unparseable)
+ */
+function toIsoTime(time: string | undefined): string | undefined {
+  const ms = time ? Date.parse(time) : NaN;
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
 /**
  * Transform a GammaMarket to VenueMarket format
  */
@@ -76,6 +84,7 @@ export function transformGammaToVenueMarket(market: GammaMarket): VenueMarket {
     isArchived: market.archived,
 
     endDate: market.endDate,
+    gameStartTime: toIsoTime(market.gameStartTime),
     volume: parseFloat(market.volume) || undefined,
 
     category: categorizeMarket(market),
@@ -126,6 +135,7 @@ export function transformVenueMarketToEvent(market: VenueMarket): Partial<Event>
     // Metadata
     category: market.category,
     volume: market.volume,
+    event_start_at: market.gameStartTime,
     resolution_deadline_at: market.endDate,
   };
 }
@@ -180,6 +190,13 @@ export function determineResolution(market: GammaMarket): VenueResolution {
     };
   }
 
+  // The oracle settled the market with no winner (e.g. cancelled or
+  // unknown - UMA splits the payout). Only the final UMA status counts:
+  // prices alone can sit at an even split while the market is settling.
+  if (market.umaResolutionStatus?.toLowerCase() === 'resolved') {
+    return { resolved: true, voided: true };
+  }
+
   // Market is closed but no clear winner (edge case)
   // This might happen during settlement process
   return { resolved: false };
@@ -49,6 +49,8 @@ export interface VenueMarket {
   // Dates
   startDate?: string;
   endDate?: string;
+  /** When the game itself starts (sports markets), ISO 8601 */
+  gameStartTime?: string;
 
   // Volume/liquidity
   volume?: number;
@@ -88,6 +90,8 @@ export interface VenuePriceUpdate {
 
 export interface VenueResolution {
   resolved: boolean;
+  /** Market was cancelled/voided by the venue - there is no winner */
+  voided?: boolean;
   winningOutcome?: Outcome;
   winningPrice?: number;
   resolvedAt?: string;
@@ -0,0 +1,29 @@
+/**
+ * Admin Auth
+ *
+ * Admins are the wallets listed in ADMIN_WALLETS (comma-separated),
+ * authenticated with the same wallet JWT as regular players.
+ */
+
+import { getBearerToken, verifyJWT } from './jwt';
+
+const ADMIN_WALLETS = new Set(
+  (process.env.ADMIN_WALLETS ?? '')
+    .split(',')
+    .map((wallet) => wallet.trim())
+    .filter(Boolean)
+);
+
+/**
+ * Return the admin wallet address for the request, or null if the
+ * caller isn't an authenticated admin
+ */
+export function getAdminWallet(request: Request): string | null {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  const payload = verifyJWT(token);
+  if (!payload || !ADMIN_WALLETS.has(payload.address)) return null;
+
+  return payload.address;
+}
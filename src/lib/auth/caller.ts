@@ -0,0 +1,121 @@
+/**
+ * Caller Identity
+ *
+ * Resolves who is making an API request. Wallet users (PSG1) are
+ * identified by their JWT; anonymous web users by their anonymousId.
+ * Any profileId/anonymousId in the request body is only a claim and
+ * must match the resolved identity.
+ */
+
+import {
+  fetchProfileByAnonymousId,
+  fetchProfileById,
+  getOrCreateAnonymousProfile,
+} from '@/lib/supabase/profile';
+import { verifyJWT, getBearerToken } from './jwt';
+import { checkRateLimit, getClientIp } from './rateLimit';
+import type { UserProfile } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Anonymous callers: max mutating requests per IP per window
+export const ANONYMOUS_RATE_LIMIT = 30;
+export const ANONYMOUS_RATE_WINDOW_MS = 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type Caller =
+  | { kind: 'wallet'; profile: UserProfile; address: string }
+  | { kind: 'anonymous'; profile: UserProfile; anonymousId: string };
+
+export type CallerErrorCode =
+  | 'INVALID_TOKEN'
+  | 'PROFILE_MISMATCH'
+  | 'WALLET_AUTH_REQUIRED'
+  | 'RATE_LIMITED'
+  | 'PROFILE_NOT_FOUND'
+  | 'IDENTITY_REQUIRED';
+
+export type CallerResult =
+  | { caller: Caller }
+  | { error: string; code: CallerErrorCode; status: number };
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Resolve the caller of a request.
+ *
+ * - With a Bearer token: the token's `sub` is the caller's profile.
+ * - Without one: the caller is the anonymous profile for `anonymousId`,
+ *   rate limited per IP. Wallet-linked profiles can never be reached
+ *   this way.
+ */
+export async function resolveCaller(
+  request: Request,
+  claimed: { anonymousId?: string | null; profileId?: string | null },
+  options: { createAnonymous?: boolean } = {}
+): Promise<CallerResult> {
+  const token = getBearerToken(request);
+
+  if (token) {
+    const payload = verifyJWT(token);
+    if (!payload) {
+      return { error: 'Invalid or expired token', code: 'INVALID_TOKEN', status: 401 };
+    }
+
+    if (claimed.profileId && claimed.profileId !== payload.sub) {
+      return { error: 'Token does not match profile', code: 'PROFILE_MISMATCH', status: 403 };
+    }
+
+    const profile = await fetchProfileById(payload.sub);
+    if (!profile) {
+      return { error: 'Profile not found', code: 'PROFILE_NOT_FOUND', status: 404 };
+    }
+
+    return { caller: { kind: 'wallet', profile, address: payload.address } };
+  }
+
+  // Anonymous path
+  const { anonymousId } = claimed;
+  if (!anonymousId) {
+    return claimed.profileId
+      ? { error: 'Wallet authentication required', code: 'WALLET_AUTH_REQUIRED', status: 401 }
+      : { error: 'anonymousId is required', code: 'IDENTITY_REQUIRED', status: 400 };
+  }
+
+  const limit = checkRateLimit(
+    `anon:${getClientIp(request) ?? anonymousId}`,
+    ANONYMOUS_RATE_LIMIT,
+    ANONYMOUS_RATE_WINDOW_MS
+  );
+  if (!limit.allowed) {
+    return { error: 'Too many requests', code: 'RATE_LIMITED', status: 429 };
+  }
+
+  const profile = options.createAnonymous
+    ? (await getOrCreateAnonymousProfile(anonymousId))?.profile ?? null
+    : await fetchProfileByAnonymousId(anonymousId);
+  if (!profile) {
+    return {
+      error: 'Profile not found. Please ensure profile is initialized first.',
+      code: 'PROFILE_NOT_FOUND',
+      status: 404,
+    };
+  }
+
+  if (profile.wallet_address) {
+    return { error: 'Wallet authentication required', code: 'WALLET_AUTH_REQUIRED', status: 401 };
+  }
+
+  if (claimed.profileId && claimed.profileId !== profile.id) {
+    return { error: 'anonymousId does not match profile', code: 'PROFILE_MISMATCH', status: 403 };
+  }
+
+  return { caller: { kind: 'anonymous', profile, anonymousId } };
+}
@@ -0,0 +1,90 @@
+/**
+ * Wallet JWTs
+ *
+ * HS256 tokens minted by /api/auth/verify after a wallet signs the
+ * login nonce. `sub` is the wallet-linked profile ID.
+ */
+
+import crypto from 'crypto';
+
+// ============================================
+// Types
+// ============================================
+
+export interface WalletJWTPayload {
+  sub: string;
+  address: string;
+  iat: number;
+  exp: number;
+}
+
+// ============================================
+// Signing & Verification
+// ============================================
+
+const JWT_SECRET = process.env.JWT_SECRET;
+
+function sign(data: string): string {
+  if (!JWT_SECRET) throw new Error('JWT_SECRET not configured');
+
+  return crypto
+    .createHmac('sha256', JWT_SECRET)
+    .update(data)
+    .digest('base64url');
+}
+
+/**
+ * Mint a signed JWT for the given payload
+ */
+export function createJWT(payload: WalletJWTPayload): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+/**
+ * Verify a JWT's signature and expiry
+ * Returns null if the token is malformed, tampered with or expired
+ */
+export function verifyJWT(token: string): WalletJWTPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, body, signature] = parts;
+
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: WalletJWTPayload;
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (decodedHeader.alg !== 'HS256') return null;
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch {
+    return null;
+  }
+
+  if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+    return null;
+  }
+
+  if (payload.exp <= Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  return payload;
+}
+
+/**
+ * Extract the bearer token from an Authorization header
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+
+  return header.slice('Bearer '.length).trim() || null;
+}
@@ -0,0 +1,61 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window, in-memory limiter. Counters live per server instance,
+ * so this is a cheap brake on abuse rather than a hard global quota.
+ */
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+const windows = new Map<string, Window>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * Count a request against `key` and report whether it is within the limit
+ */
+export function checkRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number
+): RateLimitResult {
+  const now = Date.now();
+  let window = windows.get(key);
+
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    windows.set(key, window);
+  }
+
+  window.count++;
+
+  // Drop stale windows so the map doesn't grow without bound
+  if (windows.size > 10_000) {
+    windows.forEach((w, k) => {
+      if (w.resetAt <= now) windows.delete(k);
+    });
+  }
+
+  return {
+    allowed: window.count <= limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: window.resetAt,
+  };
+}
+
+/**
+ * Best-effort client IP from proxy headers
+ */
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+
+  return request.headers.get('x-real-ip');
+}
@@ -0,0 +1,201 @@
+/**
+ * Event Capture
+ *
+ * Turns venue markets into playable events: paging through a venue's open
+ * markets and upserting them (with their outcome tokens). Used by the
+ * daily capture cron, and by the pool health cron to refill rarity bins
+ * that have run dry.
+ */
+
+import { upsertVenueEvent, upsertEventTokens } from '@/lib/supabase/events';
+import { findPoolForEvent, getUnpooledEvents, assignEventsToPool } from '@/lib/supabase/pools';
+import { getEventRarity } from '@/lib/rarity';
+import type { VenueAdapter, VenueMarket } from '@/lib/adapters';
+import type { DBPool } from '@/lib/pools';
+import type { Event, Rarity } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+// Most new events captured into one rarity bin per refill
+const REFILL_MAX_PER_BIN = 10;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PoolRefillResult {
+  pool: string;
+  bins: Rarity[];
+  /** Already-captured events assigned to the pool */
+  fromCaptured: number;
+  /** Markets newly captured from the venue and assigned to the pool */
+  fromVenue: number;
+  errors: string[];
+}
+
+// ============================================
+// Capture
+// ============================================
+
+/**
+ * Whether a market can be dealt into packs: only until its game starts, so
+ * a market with no start time (just a resolution deadline) never is
+ */
+function isDealable(event: Partial<Event>, now: Date = new Date()): boolean {
+  return !!event.event_start_at && new Date(event.event_start_at) > now;
+}
+
+/**
+ * Page through a venue's open markets, de-duplicated by market ID.
+ * Stops on a short page, or a page with nothing new (cursor-based venues
+ * ignore offset and keep returning the first page).
+ */
+export async function fetchAllMarkets(adapter: VenueAdapter): Promise<VenueMarket[]> {
+  const seen = new Map<string, VenueMarket>();
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const markets = await adapter.fetchMarkets({
+      active: true,
+      closed: false,
+      archived: false,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    });
+
+    let added = 0;
+    for (const market of markets) {
+      if (!seen.has(market.venueMarketId)) {
+        seen.set(market.venueMarketId, market);
+        added++;
+      }
+    }
+
+    if (markets.length < PAGE_SIZE || added === 0) break;
+  }
+
+  return Array.from(seen.values());
+}
+
+/**
+ * Upsert a single market as an event with its tokens
+ */
+export async function captureMarket(
+  adapter: VenueAdapter,
+  market: VenueMarket
+): Promise<{ event: Partial<Event> & { id: string }; created: boolean } | { error: string }> {
+  const event = adapter.toEvent(market);
+
+  // Not-yet-started markets stay 'upcoming' so they can be dealt into packs
+  const status: Event['status'] = isDealable(event) ? 'upcoming' : 'active';
+
+  const result = await upsertVenueEvent({
+    ...event,
+    venue: adapter.venueId,
+    venue_event_id: market.venueMarketId,
+    status,
+  });
+
+  if (!result) {
+    return { error: 'Failed to upsert event' };
+  }
+
+  const tokens = market.outcomes
+    .filter((o) => o.tokenId)
+    .map((o) => ({
+      outcome: o.position,
+      token_id: o.tokenId!,
+      outcome_label: o.label,
+    }));
+
+  if (tokens.length > 0) {
+    const tokensOk = await upsertEventTokens(result.id, tokens, adapter.venueId);
+    if (!tokensOk) {
+      return { error: 'Event saved but tokens failed' };
+    }
+  }
+
+  return { event: { ...event, id: result.id }, created: result.created };
+}
+
+// ============================================
+// Pool Refill
+// ============================================
+
+/**
+ * Get the rarity bin an event falls in, if it's one of the wanted bins
+ */
+function getWantedRarity(
+  event: Pick<Event, 'outcome_a_probability' | 'outcome_b_probability'>,
+  bins: Rarity[]
+): Rarity | null {
+  // Markets without prices yet can't be binned
+  if (typeof event.outcome_a_probability !== 'number' || typeof event.outcome_b_probability !== 'number') {
+    return null;
+  }
+
+  const rarity = getEventRarity(event.outcome_a_probability, event.outcome_b_probability);
+  return bins.includes(rarity) ? rarity : null;
+}
+
+/**
+ * Refill a pool's empty rarity bins
+ * First assigns already-captured upcoming events that belong to the pool
+ * and fall in an empty bin; bins still empty are then filled from the
+ * venue's open markets (up to REFILL_MAX_PER_BIN each), captured the same
+ * way as the capture cron. `markets` are the venue's valid open markets,
+ * fetched once per venue by the caller.
+ */
+export async function refillPoolBins(
+  adapter: VenueAdapter,
+  markets: VenueMarket[],
+  pool: DBPool,
+  bins: Rarity[]
+): Promise<PoolRefillResult> {
+  const result: PoolRefillResult = { pool: pool.slug, bins, fromCaptured: 0, fromVenue: 0, errors: [] };
+  const filled = new Set<Rarity>();
+
+  // Step 1: Already-captured events that missed the pool
+  const captured = (await getUnpooledEvents(pool.venue, pool.pack_type)).filter(
+    (event) => findPoolForEvent([pool], event) && getWantedRarity(event, bins)
+  );
+
+  if (captured.length > 0) {
+    result.fromCaptured = await assignEventsToPool(captured.map((e) => e.id), pool);
+    for (const event of captured) filled.add(getWantedRarity(event, bins)!);
+  }
+
+  const remaining = bins.filter((rarity) => !filled.has(rarity));
+  if (remaining.length === 0) return result;
+
+  // Step 2: New markets from the venue
+  const now = new Date();
+  const perBin = new Map<Rarity, number>();
+  const eventIds: string[] = [];
+
+  for (const market of markets) {
+    const event = adapter.toEvent(market);
+    const rarity = getWantedRarity(event as Event, remaining);
+    if (!rarity || (perBin.get(rarity) ?? 0) >= REFILL_MAX_PER_BIN) continue;
+
+    if (!isDealable(event, now)) continue;
+    if (!findPoolForEvent([pool], event as Event)) continue;
+
+    const capturedMarket = await captureMarket(adapter, market);
+    if ('error' in capturedMarket) {
+      result.errors.push(`${market.venueMarketId}: ${capturedMarket.error}`);
+      continue;
+    }
+
+    eventIds.push(capturedMarket.event.id);
+    perBin.set(rarity, (perBin.get(rarity) ?? 0) + 1);
+  }
+
+  result.fromVenue = await assignEventsToPool(eventIds, pool);
+
+  return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * Provably Fair Pack Tests
+ *
+ * Replays known seed pairs, so a change to the random stream or the
+ * selection that would stop already-dealt packs from verifying fails here.
+ *
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { createFairRandom, dealFairPack, FAIR_RANDOM_STREAM, type FairPackInputs } from './fairness';
+import { DROP_RATES } from '../rarity';
+
+// ============================================
+// Fixtures
+// ============================================
+
+const SERVER_SEED = '9f2c4e6a8b0d1f3e5a7c9b1d3f5e7a9c0b2d4f6e8a1c3e5b7d9f0a2c4e6b8d0f';
+const CLIENT_SEED = 'browser-seed-1';
+
+// Favourites through long shots, so every rarity is in the pool
+const inputs: FairPackInputs = {
+  cardsPerPack: 3,
+  dropRates: DROP_RATES,
+  guaranteeRarity: null,
+  stream: FAIR_RANDOM_STREAM,
+  pool: [0.5, 0.55, 0.62, 0.7, 0.78, 0.85, 0.9, 0.95].map((probability, i) => ({
+    id: `event-${i + 1}`,
+    title: `Event ${i + 1}`,
+    outcome_a_probability: probability,
+    outcome_b_probability: 1 - probability,
+  })),
+};
+
+// ============================================
+// Tests
+// ============================================
+
+describe('createFairRandom', () => {
+  it('draws the first 53 bits of HMAC-SHA256(serverSeed, clientSeed:counter)', () => {
+    const random = createFairRandom(SERVER_SEED, CLIENT_SEED);
+
+    for (let counter = 0; counter < 3; counter++) {
+      const digest = crypto
+        .createHmac('sha256', SERVER_SEED)
+        .update(`${CLIENT_SEED}:${counter}`)
+        .digest();
+      const expected = Number(digest.readBigUInt64BE(0) >> BigInt(11)) / 2 ** 53;
+      assert.equal(random(), expected);
+    }
+  });
+});
+
+describe('dealFairPack', () => {
+  it('replays a known seed pair to the same selection', () => {
+    const dealt = dealFairPack(inputs, SERVER_SEED, CLIENT_SEED);
+
+    assert.deepEqual(
+      dealt.map((e) => [e.id, e.rarityInfo?.targetRarity]),
+      [['event-7', 'rare'], ['event-8', 'rare'], ['event-1', 'common']]
+    );
+  });
+
+  it('replays packs committed before the HMAC stream with the old one', () => {
+    const legacyInputs = { ...inputs, stream: undefined };
+    const dealt = dealFairPack(legacyInputs, SERVER_SEED, CLIENT_SEED);
+
+    assert.deepEqual(
+      dealt.map((e) => [e.id, e.rarityInfo?.targetRarity]),
+      [['event-7', 'rare'], ['event-2', 'common'], ['event-4', 'common']]
+    );
+  });
+});
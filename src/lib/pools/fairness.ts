@@ -0,0 +1,200 @@
+/**
+ * Provably Fair Packs
+ *
+ * Pool packs are dealt with a seeded random source so anyone can check
+ * the deal afterwards (commit-reveal):
+ *
+ * 1. Before the pack is dealt, the server picks a secret server seed,
+ *    snapshots the selection inputs (the eligible pool, drop table, pity
+ *    guarantee and constraints) and publishes the SHA-256 hashes of both
+ *    (the commitment).
+ * 2. The pack is dealt from the server seed combined with a client seed
+ *    the server couldn't know when it committed - a random string from
+ *    the browser, or the payment signature for premium packs. Draw n is
+ *    HMAC-SHA256(key = server seed, message = `${clientSeed}:${n}`), its
+ *    first 53 bits read as a fraction in [0, 1).
+ * 3. Once the picks are committed the server seed is revealed. Hashing it
+ *    and the recorded inputs must give the commitment, and replaying the
+ *    selection over the recorded pool must give the dealt events.
+ *
+ * Uses Web Crypto and @noble/hashes - safe to import on the client (the
+ * verifier page).
+ */
+
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { selectEventsFromPool } from './index';
+import { createSeededRandom, type RandomSource } from './random';
+import type { SelectionConstraints } from './packTypes';
+import type { DropRates } from '@/lib/rarity';
+import type { Event, Rarity } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Longest client seed accepted (a Solana signature is up to 88 characters)
+export const MAX_CLIENT_SEED_LENGTH = 128;
+
+// The random stream packs are dealt from (see createFairRandom)
+export const FAIR_RANDOM_STREAM = 'hmac-sha256';
+
+// ============================================
+// Types
+// ============================================
+
+/** What the replay needs to know about each event in the pool */
+export type FairPoolEvent = Pick<
+  Event,
+  | 'id'
+  | 'title'
+  | 'outcome_a_probability'
+  | 'outcome_b_probability'
+  | 'subcategory'
+  | 'league'
+  | 'event_start_at'
+  | 'resolution_deadline_at'
+  | 'venue_slug'
+>;
+
+/** Everything a seeded pack's selection depends on, recorded at commit time */
+export interface FairPackInputs {
+  cardsPerPack: number;
+  dropRates: DropRates;
+  /** Pity guarantee in force for the deal (null = none) */
+  guaranteeRarity: Rarity | null;
+  /** Selection constraints in force (absent for packs dealt before they existed) */
+  constraints?: SelectionConstraints;
+  /** Random stream dealt from (absent for packs dealt from the old seeded stream) */
+  stream?: typeof FAIR_RANDOM_STREAM;
+  /** The eligible events, ordered by event ID */
+  pool: FairPoolEvent[];
+}
+
+// ============================================
+// Seeds
+// ============================================
+
+/**
+ * Generate a random 256-bit seed as hex
+ */
+export function generateSeed(): string {
+  const bytes = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    'SHA-256',
+    new Uint8Array(new TextEncoder().encode(text))
+  );
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with object keys sorted and undefined values left out, so inputs
+ * hash the same after a round trip through JSONB (which reorders keys)
+ */
+function toCanonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toCanonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${toCanonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash a server seed into its commitment (SHA-256, hex)
+ */
+export async function hashServerSeed(serverSeed: string): Promise<string> {
+  return sha256Hex(serverSeed);
+}
+
+/**
+ * Hash a pack's selection inputs into their commitment (SHA-256 of the
+ * canonical JSON, hex)
+ */
+export async function hashPackInputs(inputs: FairPackInputs): Promise<string> {
+  return sha256Hex(toCanonicalJson(inputs));
+}
+
+/**
+ * The random source a pack is dealt from: draw n is the first 53 bits of
+ * HMAC-SHA256(serverSeed, `${clientSeed}:${n}`) as a fraction in [0, 1)
+ */
+export function createFairRandom(serverSeed: string, clientSeed: string): RandomSource {
+  const key = utf8ToBytes(serverSeed);
+  let counter = 0;
+
+  return () => {
+    const digest = hmac(sha256, key, utf8ToBytes(`${clientSeed}:${counter++}`));
+    const view = new DataView(digest.buffer, digest.byteOffset, digest.byteLength);
+    return (view.getUint32(0) * 2 ** 21 + (view.getUint32(4) >>> 11)) / 2 ** 53;
+  };
+}
+
+// ============================================
+// Replay
+// ============================================
+
+/**
+ * Record the parts of a pool the selection depends on
+ */
+export function toFairPool(events: Event[]): FairPoolEvent[] {
+  return events.map((event) => ({
+    id: event.id,
+    title: event.title,
+    outcome_a_probability: event.outcome_a_probability,
+    outcome_b_probability: event.outcome_b_probability,
+    subcategory: event.subcategory,
+    league: event.league,
+    event_start_at: event.event_start_at,
+    resolution_deadline_at: event.resolution_deadline_at,
+    venue_slug: event.venue_slug,
+  }));
+}
+
+/**
+ * Deal a pack from its seeds and recorded inputs
+ * The same seeds and inputs always give the same events, in the same order,
+ * each with the rarity it rolled (rarityInfo.targetRarity). The server
+ * passes the full events behind inputs.pool so the dealt cards keep every
+ * field; the selection itself only reads the FairPoolEvent fields.
+ */
+export function dealFairPack(
+  inputs: FairPackInputs,
+  serverSeed: string,
+  clientSeed: string,
+  events: Event[] = inputs.pool as Event[]
+): Event[] {
+  return selectEventsFromPool(
+    {
+      id: 'fair',
+      name: 'fair',
+      pack_type: 'fair',
+      min_events_required: inputs.cardsPerPack,
+      events,
+    },
+    inputs.cardsPerPack,
+    {
+      // Packs committed before the HMAC stream replay with the one they were dealt from
+      random: inputs.stream === FAIR_RANDOM_STREAM
+        ? createFairRandom(serverSeed, clientSeed)
+        : createSeededRandom(`${serverSeed}:${clientSeed}`),
+      dropRates: inputs.dropRates,
+      ...(inputs.guaranteeRarity && { guaranteeRarity: inputs.guaranteeRarity }),
+      ...(inputs.constraints && { constraints: inputs.constraints }),
+    }
+  );
+}
@@ -1,13 +1,27 @@
-import type { Event, EventCategory, Rarity, RarityInfo } from '@/types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Event, EventCategory, PackType, Rarity, RarityInfo } from '@/types';
 import {
+  DROP_RATES,
   rollTargetRarity,
+  rollRarityAtLeast,
+  isRarityAtLeast,
   getEventRarity,
   calculatePLow,
   getFallbackRarities,
   distanceToRarityBin,
+  type DropRates,
 } from '@/lib/rarity';
-import { getActiveVenueId } from '@/lib/adapters/config';
+import { getEnabledVenueIds } from '@/lib/adapters/config';
 import { createClient } from '@/lib/supabase/client';
+import type { RandomSource } from './random';
+import {
+  parseEligibilityFilters,
+  isEventEligible,
+  getPackTypeDropRates,
+  parseSelectionConstraints,
+  fitsSelectionConstraints,
+  type SelectionConstraints,
+} from './packTypes';
 
 export interface EventPool {
   id: string;
@@ -17,6 +31,17 @@ export interface EventPool {
   events: Event[];
 }
 
+export interface SelectionOptions {
+  /** Seeded source for a reproducible selection; Math.random by default */
+  random?: RandomSource;
+  /** The pack type's drop table; DROP_RATES by default */
+  dropRates?: DropRates;
+  /** Guarantee at least one card of this rarity or better (pity timer) */
+  guaranteeRarity?: Rarity;
+  /** The pack type's limits on events dealt together */
+  constraints?: SelectionConstraints;
+}
+
 export interface DBPool {
   id: string;
   slug: string;
@@ -25,6 +50,7 @@ export interface DBPool {
   pack_type: string;
   period: string | null;
   min_events_required: number;
+  scoring_ruleset_id?: string | null;
   is_active: boolean;
   starts_at: string | null;
   ends_at: string | null;
@@ -37,6 +63,7 @@ export interface DBEvent {
   title: string;
   category: string;
   subcategory: string | null;
+  league: string | null;
   outcome_a_label: string;
   outcome_b_label: string;
   outcome_a_probability: number;
@@ -62,11 +89,52 @@ export interface DBEvent {
   updated_at: string;
 }
 
+/**
+ * Map an events row to the Event type
+ * Rows without a venue get the given default.
+ */
+function mapDBEvent(e: DBEvent, defaultVenue: string): Event {
+  return {
+    id: e.id,
+    venue: e.venue || defaultVenue,
+    venue_event_id: e.venue_event_id || undefined,
+    venue_slug: e.venue_slug || undefined,
+    polymarket_market_id: e.polymarket_market_id || undefined,
+    polymarket_slug: e.polymarket_slug || undefined,
+    polymarket_id: e.polymarket_id || undefined,
+    volume: e.volume || undefined,
+    title: e.title,
+    image_url: e.image_url || undefined,
+    description: e.description || undefined,
+    category: e.category as EventCategory,
+    subcategory: e.subcategory || undefined,
+    league: e.league || undefined,
+    outcome_a_label: e.outcome_a_label,
+    outcome_b_label: e.outcome_b_label,
+    outcome_a_probability: e.outcome_a_probability,
+    outcome_b_probability: e.outcome_b_probability,
+    outcome_draw_label: e.outcome_draw_label || undefined,
+    outcome_draw_probability: e.outcome_draw_probability || undefined,
+    supports_draw: e.supports_draw,
+    status: e.status as Event['status'],
+    event_start_at: e.event_start_at || undefined,
+    resolution_deadline_at: e.resolution_deadline_at || undefined,
+    is_featured: false,
+    priority_score: 0,
+    created_at: e.created_at,
+    updated_at: e.updated_at,
+  };
+}
+
 /**
  * Get the event pool from database for a specific venue and pack type
+ * Server callers pass their own (service) client; the browser client is the default.
  */
-async function getPoolFromDB(venue: string, packType: string): Promise<EventPool | null> {
-  const supabase = createClient();
+async function getPoolFromDB(
+  venue: string,
+  packType: string,
+  supabase: SupabaseClient = createClient()
+): Promise<EventPool | null> {
 
   console.log('[getPoolFromDB] Fetching pool for:', { venue, packType });
 
@@ -109,35 +177,7 @@ async function getPoolFromDB(venue: string, packType: string): Promise<EventPool
   console.log('[getPoolFromDB] Sample event image_url (raw):', dbEvents[0]?.image_url);
 
   // Map DB events to Event type
-  const mappedEvents: Event[] = dbEvents.map((e) => ({
-    id: e.id,
-    venue: e.venue || venue,
-    venue_event_id: e.venue_event_id || undefined,
-    venue_slug: e.venue_slug || undefined,
-    polymarket_market_id: e.polymarket_market_id || undefined,
-    polymarket_slug: e.polymarket_slug || undefined,
-    polymarket_id: e.polymarket_id || undefined,
-    volume: e.volume || undefined,
-    title: e.title,
-    image_url: e.image_url || undefined,
-    description: e.description || undefined,
-    category: e.category as EventCategory,
-    subcategory: e.subcategory || undefined,
-    outcome_a_label: e.outcome_a_label,
-    outcome_b_label: e.outcome_b_label,
-    outcome_a_probability: e.outcome_a_probability,
-    outcome_b_probability: e.outcome_b_probability,
-    outcome_draw_label: e.outcome_draw_label || undefined,
-    outcome_draw_probability: e.outcome_draw_probability || undefined,
-    supports_draw: e.supports_draw,
-    status: e.status as Event['status'],
-    event_start_at: e.event_start_at || undefined,
-    resolution_deadline_at: e.resolution_deadline_at || undefined,
-    is_featured: false,
-    priority_score: 0,
-    created_at: e.created_at,
-    updated_at: e.updated_at,
-  }));
+  const mappedEvents: Event[] = dbEvents.map((e) => mapDBEvent(e, venue));
 
   console.log('[getPoolFromDB] Sample event image_url (mapped):', mappedEvents[0]?.image_url);
 
@@ -151,21 +191,69 @@ async function getPoolFromDB(venue: string, packType: string): Promise<EventPool
 }
 
 /**
- * Get the event pool for a specific pack type (from active venue)
- * Async version - reads from database
+ * Get the event pool for a specific pack type
+ * Each enabled venue has its own active pool; when several venues are live
+ * their pools are merged so a pack can mix events from different venues.
+ * Every event keeps its own `venue`, so it is priced and resolved by that
+ * venue's adapter.
  */
-export async function getPool(packType: string): Promise<EventPool | null> {
-  const venueId = getActiveVenueId();
-  return getPoolFromDB(venueId, packType);
+export async function getPool(
+  packType: string,
+  supabase?: SupabaseClient
+): Promise<EventPool | null> {
+  const venuePools = await Promise.all(
+    getEnabledVenueIds().map((venueId) => getPoolFromDB(venueId, packType, supabase))
+  );
+  const pools = venuePools.filter((pool): pool is EventPool => pool !== null);
+
+  if (pools.length === 0) return null;
+  if (pools.length === 1) return pools[0];
+
+  return {
+    id: pools.map((p) => p.id).join('+'),
+    name: pools.map((p) => p.name).join(' + '),
+    pack_type: packType,
+    min_events_required: Math.max(...pools.map((p) => p.min_events_required)),
+    events: pools.flatMap((p) => p.events),
+  };
+}
+
+/**
+ * Get events by ID, in the order given
+ * Returns null if any of them couldn't be loaded.
+ */
+export async function getEventsByIds(
+  eventIds: string[],
+  supabase: SupabaseClient = createClient()
+): Promise<Event[] | null> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .in('id', eventIds);
+
+  if (error) {
+    console.error('Error fetching events by ID:', error);
+    return null;
+  }
+
+  const byId = new Map(((data ?? []) as DBEvent[]).map((e) => [e.id, mapDBEvent(e, 'polymarket')]));
+  const events = eventIds.map((id) => byId.get(id));
+
+  if (events.some((event) => !event)) {
+    console.error('Events not found:', eventIds.filter((id) => !byId.has(id)));
+    return null;
+  }
+
+  return events as Event[];
 }
 
 /**
  * Fisher-Yates shuffle algorithm for randomizing arrays
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -174,9 +262,9 @@ function shuffleArray<T>(array: T[]): T[] {
 /**
  * Pick a random element from an array
  */
-function pickRandom<T>(array: T[]): T | null {
+function pickRandom<T>(array: T[], random: RandomSource): T | null {
   if (array.length === 0) return null;
-  return array[Math.floor(Math.random() * array.length)];
+  return array[Math.floor(random() * array.length)];
 }
 
 /**
@@ -236,13 +324,14 @@ function findClosestToRarity(events: Event[], targetRarity: Rarity): Event | nul
  */
 function selectEventForRarity(
   availableEvents: Event[],
-  targetRarity: Rarity
+  targetRarity: Rarity,
+  random: RandomSource
 ): { event: Event; targetRarity: Rarity } | null {
   // Try exact match first
   const matchingEvents = filterEventsByRarity(availableEvents, targetRarity);
 
   if (matchingEvents.length > 0) {
-    const event = pickRandom(matchingEvents);
+    const event = pickRandom(matchingEvents, random);
     if (event) {
       return { event, targetRarity };
     }
@@ -256,7 +345,7 @@ function selectEventForRarity(
 
     const fallbackEvents = filterEventsByRarity(availableEvents, fallbackRarity);
     if (fallbackEvents.length > 0) {
-      const event = pickRandom(fallbackEvents);
+      const event = pickRandom(fallbackEvents, random);
       if (event) {
         return { event, targetRarity };
       }
@@ -274,16 +363,54 @@ function selectEventForRarity(
 
 /**
  * Select events from a pool using rarity-based selection
- * Each card rolls for a target rarity based on drop rates
+ * Each card rolls for a target rarity based on the drop table. A seeded
+ * random source makes the selection reproducible for the same pool.
+ *
+ * With a guaranteed rarity (pity timer), a pack that would otherwise have
+ * no card of that rarity or better gets one in place of a card at a random
+ * position - as long as the pool has an unused event that qualifies.
+ *
+ * With selection constraints, each card is drawn from the events that keep
+ * to them given the cards already dealt; a card is drawn from every unused
+ * event only when none do.
  */
-export function selectEventsFromPool(pool: EventPool, count: number): Event[] {
+export function selectEventsFromPool(
+  pool: EventPool,
+  count: number,
+  options: SelectionOptions = {}
+): Event[] {
+  const { random = Math.random, dropRates = DROP_RATES, guaranteeRarity, constraints } = options;
   const now = new Date().toISOString();
   const selectedEvents: Event[] = [];
   const usedEventIds = new Set<string>();
 
+  // Add rarity info and timestamps to a selected event
+  const toCard = (result: { event: Event; targetRarity: Rarity }): Event => {
+    const eventWithRarity = addRarityInfo(result.event, result.targetRarity);
+
+    return {
+      ...eventWithRarity,
+      category: eventWithRarity.category as EventCategory,
+      created_at: eventWithRarity.created_at || now,
+      updated_at: eventWithRarity.updated_at || now,
+    };
+  };
+
+  // Keep to the constraints while the pool allows it (doesn't use the random source)
+  const withinConstraints = (events: Event[]): Event[] => {
+    if (!constraints) return events;
+
+    const fitting = events.filter((e) => fitsSelectionConstraints(e, selectedEvents, constraints));
+    if (fitting.length === 0) {
+      console.warn(`Pool "${pool.name}" has no event within the selection constraints - relaxing them`);
+      return events;
+    }
+    return fitting;
+  };
+
   for (let i = 0; i < count; i++) {
     // Roll target rarity based on drop rates
-    const targetRarity = rollTargetRarity();
+    const targetRarity = rollTargetRarity(random, dropRates);
 
     // Filter out already selected events
     const availableEvents = pool.events.filter((e) => !usedEventIds.has(e.id));
@@ -294,21 +421,31 @@ export function selectEventsFromPool(pool: EventPool, count: number): Event[] {
     }
 
     // Select event for this rarity
-    const result = selectEventForRarity(availableEvents, targetRarity);
+    const result = selectEventForRarity(withinConstraints(availableEvents), targetRarity, random);
 
     if (result) {
-      const eventWithRarity = addRarityInfo(result.event, result.targetRarity);
+      selectedEvents.push(toCard(result));
+      usedEventIds.add(result.event.id);
+    }
+  }
 
-      // Add timestamps
-      const finalEvent: Event = {
-        ...eventWithRarity,
-        category: eventWithRarity.category as EventCategory,
-        created_at: eventWithRarity.created_at || now,
-        updated_at: eventWithRarity.updated_at || now,
-      };
+  const isGuaranteed = (event: Event) =>
+    !!guaranteeRarity &&
+    isRarityAtLeast(getEventRarity(event.outcome_a_probability, event.outcome_b_probability), guaranteeRarity);
 
-      selectedEvents.push(finalEvent);
-      usedEventIds.add(result.event.id);
+  if (guaranteeRarity && selectedEvents.length > 0 && !selectedEvents.some(isGuaranteed)) {
+    const candidates = pool.events.filter((e) => !usedEventIds.has(e.id) && isGuaranteed(e));
+
+    if (candidates.length === 0) {
+      console.warn(`Pool "${pool.name}" has no ${guaranteeRarity}-or-better event left to guarantee`);
+    } else {
+      const targetRarity = rollRarityAtLeast(guaranteeRarity, random, dropRates);
+      const result = selectEventForRarity(withinConstraints(candidates), targetRarity, random);
+
+      if (result) {
+        const position = Math.floor(random() * selectedEvents.length);
+        selectedEvents[position] = toCard(result);
+      }
     }
   }
 
@@ -319,15 +456,19 @@ export function selectEventsFromPool(pool: EventPool, count: number): Event[] {
  * Select random events from a pool (legacy method without rarity)
  * Kept for backward compatibility
  */
-export function selectEventsFromPoolRandom(pool: EventPool, count: number): Event[] {
+export function selectEventsFromPoolRandom(
+  pool: EventPool,
+  count: number,
+  random: RandomSource = Math.random
+): Event[] {
   if (pool.events.length < count) {
     console.warn(
       `Pool "${pool.name}" has only ${pool.events.length} events, but ${count} were requested`
     );
-    return shuffleArray(pool.events);
+    return shuffleArray(pool.events, random);
   }
 
-  const shuffled = shuffleArray(pool.events);
+  const shuffled = shuffleArray(pool.events, random);
   const now = new Date().toISOString();
 
   return shuffled.slice(0, count).map((event) => ({
@@ -345,8 +486,12 @@ export function selectEventsFromPoolRandom(pool: EventPool, count: number): Even
  *
  * NOTE: This is now an async function that reads from the database
  */
-export async function getEventsForPack(packType: string, count: number = 5): Promise<Event[]> {
-  const pool = await getPool(packType);
+export async function getEventsForPack(
+  packType: string,
+  count: number = 5,
+  supabase?: SupabaseClient
+): Promise<Event[]> {
+  const pool = await getPool(packType, supabase);
 
   if (!pool) {
     console.error(`No pool found for pack type: ${packType}`);
@@ -363,6 +508,79 @@ export async function getEventsForPack(packType: string, count: number = 5): Pro
   return selectEventsFromPool(pool, count);
 }
 
+/**
+ * Get the events a data-driven pack type (a pack_types row) can deal
+ * Draws from the pools of the categories in its eligibility filters (its
+ * own slug's pool if it has none) and keeps the events passing every
+ * filter, ordered by event ID so a seeded selection over them can be
+ * replayed whatever order the pools load in.
+ * Returns an empty list if there are fewer than cards_per_pack.
+ */
+export async function getEligibleEventsForPackType(
+  packType: Pick<PackType, 'slug' | 'eligibility_filters' | 'cards_per_pack'>,
+  supabase?: SupabaseClient
+): Promise<Event[]> {
+  const filters = parseEligibilityFilters(packType.eligibility_filters);
+  const poolTypes = filters.category ?? [packType.slug];
+
+  const pools = (await Promise.all(poolTypes.map((poolType) => getPool(poolType, supabase))))
+    .filter((pool): pool is EventPool => pool !== null)
+    .filter((pool) => pool.events.length >= pool.min_events_required);
+
+  if (pools.length === 0) {
+    console.error(`No valid pool found for pack type: ${packType.slug}`);
+    return [];
+  }
+
+  const now = new Date();
+  const eligibleEvents = pools
+    .flatMap((pool) => pool.events)
+    .filter((event) => isEventEligible(event, filters, now))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  if (eligibleEvents.length < packType.cards_per_pack) {
+    console.error(
+      `Pack type "${packType.slug}" has only ${eligibleEvents.length} eligible events, but ${packType.cards_per_pack} are dealt`
+    );
+    return [];
+  }
+
+  return eligibleEvents;
+}
+
+/**
+ * Get events for a pack of a data-driven pack type
+ * Deals cards_per_pack of its eligible events with the pack type's drop
+ * table and selection constraints.
+ */
+export async function getEventsForPackType(
+  packType: Pick<
+    PackType,
+    'slug' | 'eligibility_filters' | 'cards_per_pack' | 'drop_rates' | 'selection_constraints'
+  >,
+  supabase?: SupabaseClient,
+  options: Pick<SelectionOptions, 'random' | 'guaranteeRarity'> = {}
+): Promise<Event[]> {
+  const eligibleEvents = await getEligibleEventsForPackType(packType, supabase);
+  if (eligibleEvents.length === 0) return [];
+
+  return selectEventsFromPool(
+    {
+      id: packType.slug,
+      name: packType.slug,
+      pack_type: packType.slug,
+      min_events_required: packType.cards_per_pack,
+      events: eligibleEvents,
+    },
+    packType.cards_per_pack,
+    {
+      ...options,
+      dropRates: getPackTypeDropRates(packType),
+      constraints: parseSelectionConstraints(packType.selection_constraints),
+    }
+  );
+}
+
 /**
  * Check if a pack type has a valid pool
  */
@@ -0,0 +1,71 @@
+/**
+ * Pack Manifests
+ *
+ * A manifest is the server's signed record of which events were dealt
+ * into a pack. The client receives it with the dealt events and must
+ * send it back when committing picks, so the pack contents can't be
+ * swapped or re-rolled in the browser.
+ *
+ * Format mirrors our wallet JWTs: base64url(payload).base64url(hmac)
+ */
+
+import crypto from 'crypto';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PackManifest {
+  packId: string;
+  profileId: string;
+  packTypeSlug: string;
+  /** Event IDs in dealt order (position 1..n) */
+  eventIds: string[];
+  issuedAt: string;
+  expiresAt: string;
+}
+
+// ============================================
+// Signing
+// ============================================
+
+const MANIFEST_SECRET = process.env.PACK_MANIFEST_SECRET;
+
+function hmac(data: string): string {
+  if (!MANIFEST_SECRET) throw new Error('PACK_MANIFEST_SECRET not configured');
+
+  return crypto
+    .createHmac('sha256', MANIFEST_SECRET)
+    .update(data)
+    .digest('base64url');
+}
+
+/**
+ * Sign a manifest, returning the opaque token handed to the client
+ */
+export function signPackManifest(manifest: PackManifest): string {
+  const body = Buffer.from(JSON.stringify(manifest)).toString('base64url');
+  return `${body}.${hmac(body)}`;
+}
+
+/**
+ * Verify a manifest token and return its payload
+ * Returns null if the signature is invalid or the token is malformed
+ */
+export function verifyPackManifest(token: string): PackManifest | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(hmac(body));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString()) as PackManifest;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Pack Type Rules
+ *
+ * A pack type (a row of pack_types) decides which pool events it can be
+ * dealt through its eligibility filters, which of them can be dealt
+ * together through its selection constraints, how many cards it deals,
+ * its drop table and when it can be opened. Pure JS - safe to import on
+ * the client.
+ */
+
+import {
+  DROP_RATES,
+  RARITY_CONFIG,
+  RARITY_ORDER,
+  parseDropRates,
+  type DropRates,
+  type Rarity,
+} from '@/lib/rarity';
+import type { Event, EventCategory, PackType } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * pack_types.eligibility_filters, e.g.
+ * { "category": "sports", "league": ["nba", "nfl"], "min_volume": 10000, "resolves_within_days": 3 }
+ * Every filter set must match; string filters match any listed value (case-insensitive).
+ */
+export interface EligibilityFilters {
+  category?: EventCategory[];
+  subcategory?: string[];
+  league?: string[];
+  /** Minimum venue trading volume */
+  min_volume?: number;
+  /** Event must resolve (or start, if it has no deadline) within this many days */
+  resolves_within_days?: number;
+}
+
+/**
+ * pack_types.selection_constraints, e.g.
+ * { "max_per_league": 2, "distinct_start_times": true, "slug_prefix_segments": 4, "max_per_resolution_day": 3 }
+ * Limits on the events dealt together in one pack.
+ */
+export interface SelectionConstraints {
+  /** Most cards sharing a subcategory (case-insensitive) */
+  max_per_subcategory?: number;
+  /** Most cards sharing a league (case-insensitive) */
+  max_per_league?: number;
+  /** No two cards starting at the same time - usually markets on the same game */
+  distinct_start_times?: boolean;
+  /** No two cards whose venue slugs share their first N hyphen-separated parts */
+  slug_prefix_segments?: number;
+  /** Most cards resolving on the same (UTC) day */
+  max_per_resolution_day?: number;
+}
+
+/** The event fields selection constraints read */
+export type ConstrainedEvent = Pick<
+  Event,
+  'subcategory' | 'league' | 'event_start_at' | 'resolution_deadline_at' | 'venue_slug'
+>;
+
+/** One rarity's line in a pack type's published odds */
+export interface RarityOdds {
+  rarity: Rarity;
+  name: string;
+  /** Underdog probability range of the rarity's events */
+  minPLow: number;
+  maxPLow: number;
+  /** Chance each card rolls this rarity */
+  perCard: number;
+  /** Chance a pack rolls at least one card of this rarity */
+  perPack: number;
+}
+
+/**
+ * open = can be opened now; upcoming = before available_from;
+ * ended = past available_until
+ */
+export type PackTypeAvailability = 'open' | 'upcoming' | 'ended';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Eligibility
+// ============================================
+
+function toStringList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) {
+    const strings = value.filter((v): v is string => typeof v === 'string');
+    return strings.length > 0 ? strings : undefined;
+  }
+  return undefined;
+}
+
+function toPositiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? value : undefined;
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Read the eligibility filters stored on a pack type
+ * Unknown keys and malformed values are ignored.
+ */
+export function parseEligibilityFilters(raw: Record<string, unknown> | null | undefined): EligibilityFilters {
+  if (!raw) return {};
+
+  return {
+    category: toStringList(raw.category) as EventCategory[] | undefined,
+    subcategory: toStringList(raw.subcategory),
+    league: toStringList(raw.league),
+    min_volume: toPositiveNumber(raw.min_volume),
+    resolves_within_days: toPositiveNumber(raw.resolves_within_days),
+  };
+}
+
+function matchesAny(value: string | undefined, allowed: string[] | undefined): boolean {
+  if (!allowed) return true;
+  if (!value) return false;
+  return allowed.some((a) => a.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Check an event passes a pack type's eligibility filters
+ */
+export function isEventEligible(
+  event: Event,
+  filters: EligibilityFilters,
+  now: Date = new Date()
+): boolean {
+  if (!matchesAny(event.category, filters.category)) return false;
+  if (!matchesAny(event.subcategory, filters.subcategory)) return false;
+  if (!matchesAny(event.league, filters.league)) return false;
+
+  if (filters.min_volume !== undefined && (event.volume ?? 0) < filters.min_volume) {
+    return false;
+  }
+
+  if (filters.resolves_within_days !== undefined) {
+    const resolvesAt = event.resolution_deadline_at ?? event.event_start_at;
+    if (!resolvesAt) return false;
+    if (new Date(resolvesAt).getTime() > now.getTime() + filters.resolves_within_days * DAY_MS) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// ============================================
+// Selection Constraints
+// ============================================
+
+/**
+ * Read the selection constraints stored on a pack type
+ * Unknown keys and malformed values are ignored.
+ */
+export function parseSelectionConstraints(raw: Record<string, unknown> | null | undefined): SelectionConstraints {
+  if (!raw) return {};
+
+  return {
+    max_per_subcategory: toPositiveInteger(raw.max_per_subcategory),
+    max_per_league: toPositiveInteger(raw.max_per_league),
+    distinct_start_times: raw.distinct_start_times === true || undefined,
+    slug_prefix_segments: toPositiveInteger(raw.slug_prefix_segments),
+    max_per_resolution_day: toPositiveInteger(raw.max_per_resolution_day),
+  };
+}
+
+function countMatching(
+  events: ConstrainedEvent[],
+  key: (event: ConstrainedEvent) => string | undefined,
+  value: string
+): number {
+  return events.filter((event) => key(event) === value).length;
+}
+
+function toLowerCase(value: string | undefined): string | undefined {
+  return value?.toLowerCase();
+}
+
+function getSlugPrefix(event: ConstrainedEvent, segments: number): string | undefined {
+  return event.venue_slug?.toLowerCase().split('-').slice(0, segments).join('-');
+}
+
+function getResolutionDay(event: ConstrainedEvent): string | undefined {
+  const resolvesAt = Date.parse(event.resolution_deadline_at ?? event.event_start_at ?? '');
+  return isNaN(resolvesAt) ? undefined : new Date(resolvesAt).toISOString().slice(0, 10);
+}
+
+/**
+ * Check an event can be dealt alongside the cards already in a pack
+ * Events missing a constrained field (no league, no start time...) are
+ * never limited by that constraint.
+ */
+export function fitsSelectionConstraints(
+  event: ConstrainedEvent,
+  selected: ConstrainedEvent[],
+  constraints: SelectionConstraints
+): boolean {
+  const subcategory = toLowerCase(event.subcategory);
+  if (
+    constraints.max_per_subcategory !== undefined &&
+    subcategory &&
+    countMatching(selected, (e) => toLowerCase(e.subcategory), subcategory) >= constraints.max_per_subcategory
+  ) {
+    return false;
+  }
+
+  const league = toLowerCase(event.league);
+  if (
+    constraints.max_per_league !== undefined &&
+    league &&
+    countMatching(selected, (e) => toLowerCase(e.league), league) >= constraints.max_per_league
+  ) {
+    return false;
+  }
+
+  if (constraints.distinct_start_times && event.event_start_at) {
+    const startsAt = Date.parse(event.event_start_at);
+    if (selected.some((e) => e.event_start_at && Date.parse(e.event_start_at) === startsAt)) {
+      return false;
+    }
+  }
+
+  if (constraints.slug_prefix_segments !== undefined) {
+    const segments = constraints.slug_prefix_segments;
+    const prefix = getSlugPrefix(event, segments);
+    if (prefix && countMatching(selected, (e) => getSlugPrefix(e, segments), prefix) > 0) {
+      return false;
+    }
+  }
+
+  const day = getResolutionDay(event);
+  if (
+    constraints.max_per_resolution_day !== undefined &&
+    day &&
+    countMatching(selected, getResolutionDay, day) >= constraints.max_per_resolution_day
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================
+// Drop Tables
+// ============================================
+
+/**
+ * The drop table a pack type deals with
+ * Pack types without one - or with an invalid one - use the default rates.
+ */
+export function getPackTypeDropRates(packType: Pick<PackType, 'slug' | 'drop_rates'>): DropRates {
+  if (!packType.drop_rates) return DROP_RATES;
+
+  const dropRates = parseDropRates(packType.drop_rates);
+  if (!dropRates) {
+    console.error(`Invalid drop table for pack type "${packType.slug}" - using the default rates`);
+    return DROP_RATES;
+  }
+
+  return dropRates;
+}
+
+/**
+ * The odds a pack type publishes: per card and per pack, rarest first
+ * These are the rolled target rarities; a pool short of a rarity deals
+ * the closest event it has instead.
+ */
+export function getPackTypeOdds(
+  packType: Pick<PackType, 'slug' | 'drop_rates' | 'cards_per_pack'>
+): RarityOdds[] {
+  const dropRates = getPackTypeDropRates(packType);
+
+  return [...RARITY_ORDER].reverse().map((rarity) => ({
+    rarity,
+    name: RARITY_CONFIG[rarity].name,
+    minPLow: RARITY_CONFIG[rarity].minPLow,
+    maxPLow: RARITY_CONFIG[rarity].maxPLow,
+    perCard: dropRates[rarity],
+    perPack: 1 - Math.pow(1 - dropRates[rarity], packType.cards_per_pack),
+  }));
+}
+
+// ============================================
+// Availability
+// ============================================
+
+/**
+ * Where a pack type is in its availability window
+ */
+export function getPackTypeAvailability(
+  packType: Pick<PackType, 'available_from' | 'available_until'>,
+  now: Date = new Date()
+): PackTypeAvailability {
+  if (packType.available_from && new Date(packType.available_from) > now) return 'upcoming';
+  if (packType.available_until && new Date(packType.available_until) <= now) return 'ended';
+  return 'open';
+}
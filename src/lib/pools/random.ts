@@ -0,0 +1,46 @@
+/**
+ * Seeded Randomness
+ *
+ * Pack selection normally draws from Math.random. Packs that everyone must
+ * be dealt identically (the daily pack) draw from a generator seeded with a
+ * string instead, so the same seed over the same pool always selects the
+ * same events. Pure JS - safe to import on the client.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/** A source of uniform numbers in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+// ============================================
+// Generators
+// ============================================
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source from a string seed (mulberry32)
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Push Notifications
+ *
+ * What the resolve-events cron sends:
+ * - "Card N is ready to reveal" when scoring an event flips a pack's
+ *   getRevealStatus().canRevealNext (preference: resolution)
+ * - A weekly rank summary on the last day of the week (preference: leaderboard)
+ */
+
+import { getRevealStatus } from '../resolution/sequential';
+import { getPacksByIds } from '../supabase/packs';
+import { getUnresolvedPicksForEvent } from '../supabase/resolution';
+import {
+  getCurrentWeekId,
+  getCurrentWeekLeaderboard,
+  type LeaderboardEntry,
+} from '../supabase/leaderboard';
+import {
+  sendPushToProfiles,
+  getRankSummaryRecipients,
+  markRankSummarySent,
+  type PushNotification,
+  type PushDeliveryStats,
+} from '../supabase/push';
+
+// Weeks run Monday to Sunday (UTC); the summary goes out on Sunday, from
+// the first resolve-events run at or after 12:00 UTC
+const RANK_SUMMARY_DAY = 0;
+const RANK_SUMMARY_HOUR = 12;
+
+const PACK_BATCH_SIZE = 100;
+const LEADERBOARD_PAGE_SIZE = 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface RevealSnapshot {
+  packId: string;
+  profileId: string;
+  canRevealNext: boolean;
+}
+
+// ============================================
+// Ready Reveals
+// ============================================
+
+async function getRevealSnapshots(packIds: string[]): Promise<RevealSnapshot[]> {
+  const snapshots: RevealSnapshot[] = [];
+
+  for (let i = 0; i < packIds.length; i += PACK_BATCH_SIZE) {
+    const packs = await getPacksByIds(packIds.slice(i, i + PACK_BATCH_SIZE));
+
+    for (const pack of packs) {
+      if (!pack.profile_id) continue;
+
+      snapshots.push({
+        packId: pack.id,
+        profileId: pack.profile_id,
+        canRevealNext: getRevealStatus(pack).canRevealNext,
+      });
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Record the reveal state of every pack with an unresolved pick on the event
+ * Call before scoring the event, then pass the result to notifyReadyReveals.
+ */
+export async function snapshotRevealStatus(eventId: string): Promise<RevealSnapshot[]> {
+  const picks = await getUnresolvedPicksForEvent(eventId);
+  const packIds = Array.from(new Set(picks.map((p) => p.user_pack_id)));
+
+  return getRevealSnapshots(packIds);
+}
+
+/**
+ * Notify the owners of packs whose next card became revealable since the snapshot
+ */
+export async function notifyReadyReveals(before: RevealSnapshot[]): Promise<PushDeliveryStats | null> {
+  const waiting = before.filter((s) => !s.canRevealNext).map((s) => s.packId);
+  if (waiting.length === 0) return null;
+
+  const notifications = new Map<string, PushNotification>();
+
+  for (let i = 0; i < waiting.length; i += PACK_BATCH_SIZE) {
+    const packs = await getPacksByIds(waiting.slice(i, i + PACK_BATCH_SIZE));
+
+    for (const pack of packs) {
+      if (!pack.profile_id) continue;
+
+      const status = getRevealStatus(pack);
+      if (!status.canRevealNext || status.nextRevealPosition === null) continue;
+
+      // One notification per player - a later pack just replaces the text
+      notifications.set(pack.profile_id, {
+        title: 'Ready to reveal',
+        body: `Card ${status.nextRevealPosition} is ready to reveal`,
+        url: `/pack/${pack.id}`,
+        tag: `reveal-${pack.id}`,
+      });
+    }
+  }
+
+  return sendPushToProfiles(notifications, 'resolution');
+}
+
+// ============================================
+// Weekly Rank Summary
+// ============================================
+
+/**
+ * Send this week's rank to every ranked player (once per week)
+ * Returns null when the summary isn't due.
+ */
+export async function sendWeeklyRankSummaries(now: Date = new Date()): Promise<PushDeliveryStats | null> {
+  if (now.getUTCDay() !== RANK_SUMMARY_DAY || now.getUTCHours() < RANK_SUMMARY_HOUR) return null;
+
+  const weekId = getCurrentWeekId();
+  const entries: LeaderboardEntry[] = [];
+  let totalPlayers = 0;
+
+  for (let offset = 0; ; offset += LEADERBOARD_PAGE_SIZE) {
+    const page = await getCurrentWeekLeaderboard(LEADERBOARD_PAGE_SIZE, offset);
+    entries.push(...page.entries);
+    totalPlayers = page.totalPlayers;
+    if (page.entries.length < LEADERBOARD_PAGE_SIZE) break;
+  }
+  if (entries.length === 0) return null;
+
+  const alreadySent = await getRankSummaryRecipients(
+    entries.map((e) => e.profileId),
+    weekId
+  );
+
+  const notifications = new Map<string, PushNotification>();
+  for (const entry of entries) {
+    if (alreadySent.has(entry.profileId)) continue;
+
+    notifications.set(entry.profileId, {
+      title: 'Your week so far',
+      body: `You're #${entry.rank} of ${totalPlayers} with ${entry.totalPoints.toFixed(1)} points`,
+      url: '/leaderboard',
+      tag: `rank-${weekId}`,
+    });
+  }
+
+  const stats = await sendPushToProfiles(notifications, 'leaderboard');
+  if (stats.notifiedProfileIds.length > 0) {
+    await markRankSummarySent(stats.notifiedProfileIds, weekId);
+  }
+
+  return stats;
+}
@@ -0,0 +1,211 @@
+/**
+ * Web Push Delivery
+ *
+ * Sends an encrypted payload to a browser push service. Payloads are
+ * encrypted per RFC 8291 (aes128gcm) and requests are authenticated with
+ * VAPID (RFC 8292), using only Node's crypto.
+ *
+ * Keys: VAPID_PUBLIC_KEY (uncompressed P-256 point) and VAPID_PRIVATE_KEY
+ * (32-byte scalar), both base64url - the same format `web-push
+ * generate-vapid-keys` prints. NEXT_PUBLIC_VAPID_PUBLIC_KEY is the public
+ * key again, for the browser's subscribe call. VAPID_SUBJECT is a mailto:
+ * or https: contact for the push services.
+ */
+
+import crypto from 'crypto';
+
+// ============================================
+// Constants
+// ============================================
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY ?? process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT;
+
+// VAPID tokens are valid for at most 24h; push services reject longer
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+// How long the push service keeps an undelivered message (device offline)
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+// Single record, so the record size only has to exceed the payload
+const RECORD_SIZE = 4096;
+
+// Push services subscriptions may point at (Chrome, Firefox, Safari, Edge);
+// we POST to the endpoint, so anything else could aim us at internal hosts
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.push.apple.com', '.notify.windows.com'];
+
+// ============================================
+// Types
+// ============================================
+
+export interface WebPushSubscription {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface WebPushResult {
+  ok: boolean;
+  status: number;
+  /** The subscription no longer exists (404/410) and should be deleted */
+  gone: boolean;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isWebPushConfigured(): boolean {
+  return !!VAPID_PUBLIC_KEY && !!VAPID_PRIVATE_KEY && !!VAPID_SUBJECT;
+}
+
+/**
+ * Check a subscription endpoint is an https URL on a known push service
+ */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) {
+    return false;
+  }
+
+  return (
+    PUSH_SERVICE_HOSTS.includes(url.hostname) ||
+    PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => url.hostname.endsWith(suffix))
+  );
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Build the VAPID Authorization header for a push service origin
+ */
+function vapidAuthorization(endpoint: string): string {
+  const publicKey = Buffer.from(VAPID_PUBLIC_KEY as string, 'base64url');
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: VAPID_PRIVATE_KEY as string,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+      sub: VAPID_SUBJECT,
+    })
+  ).toString('base64url');
+
+  const signature = crypto
+    .sign('sha256', Buffer.from(`${header}.${claims}`), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363',
+    })
+    .toString('base64url');
+
+  return `vapid t=${header}.${claims}.${signature}, k=${VAPID_PUBLIC_KEY}`;
+}
+
+/**
+ * Encrypt a payload for a subscription (RFC 8291, aes128gcm)
+ */
+function encryptPayload(subscription: WebPushSubscription, payload: string): Buffer {
+  const clientPublicKey = Buffer.from(subscription.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.auth, 'base64url');
+
+  // Fresh server key pair and salt per message
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    clientPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 = padding delimiter for the last (only) record
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  // Header: salt | record size | key id length | key id (server public key)
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+  ]);
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * Send a payload (JSON-serialised) to one subscription
+ * Never throws - network errors come back as status 0.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: unknown,
+  options: { ttlSeconds?: number; urgency?: 'low' | 'normal' | 'high' } = {}
+): Promise<WebPushResult> {
+  if (!isWebPushConfigured()) {
+    console.warn('VAPID keys not configured - skipping web push');
+    return { ok: false, status: 0, gone: false };
+  }
+
+  try {
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: vapidAuthorization(subscription.endpoint),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+        Urgency: options.urgency ?? 'normal',
+      },
+      body: new Uint8Array(encryptPayload(subscription, JSON.stringify(payload))),
+    });
+
+    if (!response.ok) {
+      console.warn(`Web push rejected (${response.status}):`, subscription.endpoint);
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      gone: response.status === 404 || response.status === 410,
+    };
+  } catch (error) {
+    console.error('Error sending web push:', error);
+    return { ok: false, status: 0, gone: false };
+  }
+}
@@ -60,8 +60,11 @@ export const RARITY_CONFIG: Record<Rarity, RarityConfig> = {
   },
 };
 
-// Drop rates for pack generation (must sum to 1.0)
-export const DROP_RATES: Record<Rarity, number> = {
+/** Chance of each target rarity per card (must sum to 1.0) */
+export type DropRates = Record<Rarity, number>;
+
+// Default drop rates for pack generation; pack types can publish their own
+export const DROP_RATES: DropRates = {
   common: 0.59,
   uncommon: 0.25,
   rare: 0.11,
@@ -72,6 +75,12 @@ export const DROP_RATES: Record<Rarity, number> = {
 // Rarity order from most common to most rare (for fallback)
 export const RARITY_ORDER: Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
 
+// Rarity a pity timer guarantees (this or better)
+export const PITY_MIN_RARITY: Rarity = 'rare';
+
+// Allowed rounding error when a drop table is summed
+const DROP_RATES_TOLERANCE = 1e-6;
+
 /**
  * Calculate p_low (underdog probability) from two outcome probabilities
  */
@@ -109,16 +118,49 @@ export function getRarityConfig(rarity: Rarity): RarityConfig {
   return RARITY_CONFIG[rarity];
 }
 
+/**
+ * Check a rarity is at least as rare as another
+ */
+export function isRarityAtLeast(rarity: Rarity, minRarity: Rarity): boolean {
+  return RARITY_ORDER.indexOf(rarity) >= RARITY_ORDER.indexOf(minRarity);
+}
+
+/**
+ * Validate a drop table (e.g. pack_types.drop_rates)
+ * Every rarity needs a rate between 0 and 1, and the rates must sum to 1.
+ * Returns null for an invalid table.
+ */
+export function parseDropRates(raw: unknown): DropRates | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const table = raw as Record<string, unknown>;
+  if (Object.keys(table).some((key) => !RARITY_ORDER.includes(key as Rarity))) return null;
+
+  const rates = {} as DropRates;
+  for (const rarity of RARITY_ORDER) {
+    const rate = table[rarity];
+    if (typeof rate !== 'number' || !isFinite(rate) || rate < 0 || rate > 1) return null;
+    rates[rarity] = rate;
+  }
+
+  const total = RARITY_ORDER.reduce((sum, rarity) => sum + rates[rarity], 0);
+  return Math.abs(total - 1) <= DROP_RATES_TOLERANCE ? rates : null;
+}
+
 /**
  * Roll a target rarity based on drop rates
- * Returns a rarity based on the configured drop rate distribution
+ * Returns a rarity based on the given drop table (the default rates if
+ * omitted). Pass a seeded random source for a reproducible roll.
  */
-export function rollTargetRarity(): Rarity {
-  const roll = Math.random();
+export function rollTargetRarity(
+  random: () => number = Math.random,
+  dropRates: DropRates = DROP_RATES
+): Rarity {
+  const roll = random();
   let cumulative = 0;
 
   for (const rarity of RARITY_ORDER) {
-    cumulative += DROP_RATES[rarity];
+    cumulative += dropRates[rarity];
     if (roll < cumulative) {
       return rarity;
     }
@@ -128,6 +170,33 @@ export function rollTargetRarity(): Rarity {
   return 'common';
 }
 
+/**
+ * Roll a target rarity of at least minRarity
+ * The drop table is renormalized over the qualifying rarities; if they all
+ * have a zero rate, minRarity itself is returned.
+ */
+export function rollRarityAtLeast(
+  minRarity: Rarity,
+  random: () => number = Math.random,
+  dropRates: DropRates = DROP_RATES
+): Rarity {
+  const qualifying = RARITY_ORDER.filter((rarity) => isRarityAtLeast(rarity, minRarity));
+  const total = qualifying.reduce((sum, rarity) => sum + dropRates[rarity], 0);
+  if (total <= 0) return minRarity;
+
+  const roll = random() * total;
+  let cumulative = 0;
+
+  for (const rarity of qualifying) {
+    cumulative += dropRates[rarity];
+    if (roll < cumulative) {
+      return rarity;
+    }
+  }
+
+  return qualifying[qualifying.length - 1];
+}
+
 /**
  * Check if an event matches a target rarity
  */
@@ -177,7 +177,7 @@ export function getPackStatusMessage(pack: UserPack): string {
 
   if (status.isFullyRevealed) {
     const totals = calculatePackTotals(pack.picks ?? []);
-    return `Pack complete! ${totals.correctCount}/5 correct`;
+    return `Pack complete! ${totals.correctCount}/${pack.picks?.length ?? 0} correct`;
   }
 
   if (status.canRevealNext) {
@@ -189,7 +189,7 @@ export function getPackStatusMessage(pack: UserPack): string {
     return `Waiting for event ${nextPending} to resolve...`;
   }
 
-  return `${status.revealedCount}/5 revealed`;
+  return `${status.revealedCount}/${pack.picks?.length ?? 0} revealed`;
 }
 
 /**
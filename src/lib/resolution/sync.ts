@@ -0,0 +1,91 @@
+/**
+ * Pack Resolution Sync
+ *
+ * Fetches a pack's server-awarded results from /api/events/sync and maps
+ * them to the shape the myPacks store reconciles with. Shared by the
+ * realtime listener and the polling fallback.
+ */
+
+import type { ReconcilePackData } from '@/stores/myPacks';
+import type { Achievement } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+interface EventResolution {
+  id: string;
+  status: 'upcoming' | 'active' | 'pending_resolution' | 'resolved' | 'cancelled';
+  winning_outcome: 'a' | 'b' | 'draw' | null;
+  resolved_at: string | null;
+}
+
+interface PackResolution {
+  id: string;
+  resolution_status: 'pending' | 'partially_resolved' | 'fully_resolved';
+  total_points: number;
+  pack_bonus: number;
+  correct_picks: number;
+  picks: {
+    id: string;
+    event_id: string;
+    is_resolved: boolean;
+    is_correct: boolean | null;
+    is_void: boolean;
+    points_awarded: number;
+    resolved_at: string | null;
+    probability_snapshot: number;
+  }[];
+  achievements?: Achievement[];
+}
+
+interface SyncResponse {
+  events: Record<string, EventResolution>;
+  pack?: PackResolution;
+}
+
+// ============================================
+// Fetch
+// ============================================
+
+/**
+ * Fetch the server state of a pack's picks
+ * Returns null if the request fails or the pack isn't on the server.
+ */
+export async function fetchPackResolution(
+  packId: string,
+  eventIds: string[]
+): Promise<ReconcilePackData | null> {
+  if (eventIds.length === 0) return null;
+
+  const response = await fetch('/api/events/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ eventIds, packId }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to sync events:', response.status);
+    return null;
+  }
+
+  const data: SyncResponse = await response.json();
+  if (!data.pack) return null;
+
+  return {
+    totalPoints: data.pack.total_points,
+    correctPicks: data.pack.correct_picks,
+    resolutionStatus: data.pack.resolution_status,
+    picks: data.pack.picks.map((pick) => ({
+      eventId: pick.event_id,
+      isResolved: pick.is_resolved,
+      isCorrect: pick.is_correct,
+      isVoid: pick.is_void,
+      pointsAwarded: pick.points_awarded,
+      resolvedAt: pick.resolved_at,
+      probabilitySnapshot: pick.probability_snapshot,
+      winningOutcome: data.events[pick.event_id]?.winning_outcome ?? null,
+    })),
+    achievements: data.pack.achievements ?? [],
+  };
+}
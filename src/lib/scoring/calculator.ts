@@ -11,8 +11,14 @@
  * - 5% probability = 20x odds = $20 return
  *
  * Pack = $5 total (5 picks x $1 each)
+ *
+ * The numbers above are the default ('standard' v1) ruleset. Every
+ * function takes an optional ScoringRuleset - see ./rulesets.
  */
 
+import type { Event, Outcome } from '@/types';
+import { DEFAULT_SCORING_RULESET, type ScoringRuleset, type ScoringTier } from './rulesets';
+
 export interface ScoringParams {
   /** Probability of the picked outcome at the time of pick (0.0 to 1.0) */
   probabilityAtPick: number;
@@ -24,36 +30,46 @@ export interface ScoringResult {
   points: number;
   multiplier: number;
   tierBonus: number;
-  tier: 'longshot' | 'underdog' | 'slight_underdog' | 'tossup' | 'favorite' | 'heavy_favorite';
+  tier: ScoringTier;
 }
 
-const BASE_POINTS = 1; // $1 bet per pick
-
 /**
  * Get the tier classification based on probability
  */
-export function getTier(probability: number): ScoringResult['tier'] {
-  if (probability < 0.1) return 'longshot';
-  if (probability < 0.25) return 'underdog';
-  if (probability < 0.4) return 'slight_underdog';
-  if (probability < 0.6) return 'tossup';
-  if (probability < 0.75) return 'favorite';
-  return 'heavy_favorite';
+export function getTier(
+  probability: number,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
+): ScoringTier {
+  const rule = ruleset.tiers.find((t) => probability < t.maxProbability);
+  return (rule ?? ruleset.tiers[ruleset.tiers.length - 1]).tier;
 }
 
 /**
  * Get bonus points based on tier (small bonuses for picking underdogs)
  */
-export function getTierBonus(tier: ScoringResult['tier']): number {
-  switch (tier) {
-    case 'longshot':
-      return 0.50; // +$0.50 bonus
-    case 'underdog':
-      return 0.25; // +$0.25 bonus
-    case 'slight_underdog':
-      return 0.10; // +$0.10 bonus
+export function getTierBonus(
+  tier: ScoringTier,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
+): number {
+  return ruleset.tiers.find((t) => t.tier === tier)?.bonus ?? 0;
+}
+
+/**
+ * Get the payout multiplier for a probability under the ruleset's curve
+ */
+export function getMultiplier(
+  probability: number,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
+): number {
+  const inverse = 1 / probability;
+
+  switch (ruleset.multiplier.curve) {
+    case 'capped':
+      return Math.min(inverse, ruleset.multiplier.cap);
+    case 'log':
+      return 1 + ruleset.multiplier.scale * Math.log(inverse);
     default:
-      return 0;
+      return inverse;
   }
 }
 
@@ -71,9 +87,12 @@ export function getTierBonus(tier: ScoringResult['tier']): number {
  * calculatePoints({ probabilityAtPick: 0.75, isCorrect: true })
  * // Returns: { points: 1.33, multiplier: 1.33, tierBonus: 0, tier: 'favorite' }
  */
-export function calculatePoints({ probabilityAtPick, isCorrect }: ScoringParams): ScoringResult {
-  const tier = getTier(probabilityAtPick);
-  const tierBonus = getTierBonus(tier);
+export function calculatePoints(
+  { probabilityAtPick, isCorrect }: ScoringParams,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
+): ScoringResult {
+  const tier = getTier(probabilityAtPick, ruleset);
+  const tierBonus = getTierBonus(tier, ruleset);
 
   if (!isCorrect) {
     return {
@@ -84,11 +103,11 @@ export function calculatePoints({ probabilityAtPick, isCorrect }: ScoringParams)
     };
   }
 
-  // Core multiplier: inverse of probability (like Polymarket)
+  // Core multiplier: inverse of probability by default (like Polymarket)
   // Lower probability = higher reward
-  const multiplier = 1 / probabilityAtPick;
+  const multiplier = getMultiplier(probabilityAtPick, ruleset);
 
-  const basePoints = BASE_POINTS * multiplier;
+  const basePoints = ruleset.baseStake * multiplier;
   const totalPoints = basePoints + tierBonus;
 
   return {
@@ -101,33 +120,42 @@ export function calculatePoints({ probabilityAtPick, isCorrect }: ScoringParams)
 
 /**
  * Calculate pack completion bonus
+ * `totalPicks` counts only scorable picks - voided picks are left out,
+ * so a pack with one void is judged as a 4-pick pack.
  */
-export function calculatePackBonus(correctCount: number, totalPicks: number = 5): number {
-  if (correctCount === totalPicks) {
-    return 5; // Perfect pack! +$5 bonus
-  }
-  if (correctCount === totalPicks - 1) {
-    return 2; // Excellent +$2 bonus
-  }
-  if (correctCount === totalPicks - 2) {
-    return 1; // Good +$1 bonus
+export function calculatePackBonus(
+  correctCount: number,
+  totalPicks: number = 5,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
+): number {
+  // Nothing scorable (or nothing won) = no bonus
+  if (totalPicks <= 0 || correctCount <= 0) {
+    return 0;
   }
-  return 0;
+
+  // Standard: perfect +$5, one miss +$2, two misses +$1
+  const missed = totalPicks - correctCount;
+  return ruleset.packBonuses[missed] ?? 0;
 }
 
 /**
  * Calculate total pack score
  */
-export function calculatePackScore(picks: Array<{ probabilityAtPick: number; isCorrect: boolean }>): {
+export function calculatePackScore(
+  picks: Array<{ probabilityAtPick: number; isCorrect: boolean; isVoid?: boolean }>,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
+): {
   totalPoints: number;
   correctCount: number;
   packBonus: number;
   breakdown: ScoringResult[];
 } {
-  const breakdown = picks.map((pick) => calculatePoints(pick));
+  // Voided picks score nothing and don't count toward the bonus
+  const scorablePicks = picks.filter((pick) => !pick.isVoid);
+  const breakdown = scorablePicks.map((pick) => calculatePoints(pick, ruleset));
   const totalPickPoints = breakdown.reduce((sum, result) => sum + result.points, 0);
   const correctCount = breakdown.filter((r) => r.points > 0).length;
-  const packBonus = calculatePackBonus(correctCount, picks.length);
+  const packBonus = calculatePackBonus(correctCount, scorablePicks.length, ruleset);
 
   return {
     totalPoints: Math.round((totalPickPoints + packBonus) * 100) / 100,
@@ -137,6 +165,41 @@ export function calculatePackScore(picks: Array<{ probabilityAtPick: number; isC
   };
 }
 
+/**
+ * Snapshot the odds for a pick from the event as dealt
+ * The opposite probability for a draw pick is "anything but a draw"
+ */
+export function getProbabilitySnapshot(
+  event: Pick<Event, 'outcome_a_probability' | 'outcome_b_probability' | 'outcome_draw_probability' | 'supports_draw'>,
+  outcome: Outcome
+): {
+  probabilitySnapshot: number;
+  oppositeProbabilitySnapshot: number;
+  drawProbabilitySnapshot?: number;
+} {
+  const drawProbability = event.outcome_draw_probability ?? 0;
+
+  const probabilitySnapshot =
+    outcome === 'a'
+      ? event.outcome_a_probability
+      : outcome === 'b'
+        ? event.outcome_b_probability
+        : drawProbability;
+
+  const oppositeProbabilitySnapshot =
+    outcome === 'a'
+      ? event.outcome_b_probability
+      : outcome === 'b'
+        ? event.outcome_a_probability
+        : 1 - drawProbability;
+
+  return {
+    probabilitySnapshot,
+    oppositeProbabilitySnapshot,
+    drawProbabilitySnapshot: event.supports_draw ? event.outcome_draw_probability : undefined,
+  };
+}
+
 /**
  * Format probability as percentage
  */
@@ -155,7 +218,7 @@ export function formatDecimalOdds(probability: number): string {
 /**
  * Get display color for probability tier
  */
-export function getTierColor(tier: ScoringResult['tier']): string {
+export function getTierColor(tier: ScoringTier): string {
   switch (tier) {
     case 'longshot':
       return '#ef4444'; // red-500
@@ -179,17 +242,18 @@ export function getTierColor(tier: ScoringResult['tier']): string {
  * Useful for showing "jackpot" potential after drafting
  */
 export function calculateMaxPotentialPoints(
-  picks: Array<{ probabilityAtPick: number }>
+  picks: Array<{ probabilityAtPick: number }>,
+  ruleset: ScoringRuleset = DEFAULT_SCORING_RULESET
 ): {
   totalPoints: number;
   breakdown: ScoringResult[];
   packBonus: number;
 } {
   const breakdown = picks.map((pick) =>
-    calculatePoints({ probabilityAtPick: pick.probabilityAtPick, isCorrect: true })
+    calculatePoints({ probabilityAtPick: pick.probabilityAtPick, isCorrect: true }, ruleset)
   );
   const totalPickPoints = breakdown.reduce((sum, result) => sum + result.points, 0);
-  const packBonus = calculatePackBonus(picks.length, picks.length); // Perfect score bonus
+  const packBonus = calculatePackBonus(picks.length, picks.length, ruleset); // Perfect score bonus
 
   return {
     totalPoints: Math.round((totalPickPoints + packBonus) * 100) / 100,
@@ -0,0 +1,139 @@
+/**
+ * Scoring Rulesets
+ *
+ * A ruleset holds every tunable of the scoring model: the stake per pick,
+ * the multiplier curve, the tier bonus table and the pack bonus table.
+ * Rulesets are versioned and immutable in the database (scoring_rulesets);
+ * packs and picks keep the ruleset they were committed under.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type ScoringTier =
+  | 'longshot'
+  | 'underdog'
+  | 'slight_underdog'
+  | 'tossup'
+  | 'favorite'
+  | 'heavy_favorite';
+
+/**
+ * How the payout multiplier grows as the probability drops
+ * - inverse: 1 / p (Polymarket odds)
+ * - capped:  min(1 / p, cap)
+ * - log:     1 + scale * ln(1 / p)
+ */
+export type MultiplierCurve =
+  | { curve: 'inverse' }
+  | { curve: 'capped'; cap: number }
+  | { curve: 'log'; scale: number };
+
+export interface TierRule {
+  tier: ScoringTier;
+  /** Probabilities below this fall in the tier (tiers are checked in order) */
+  maxProbability: number;
+  /** Flat bonus added to a correct pick in this tier */
+  bonus: number;
+}
+
+export interface ScoringRulesetConfig {
+  /** Stake per pick ($1 = one pick is a $1 bet) */
+  baseStake: number;
+  multiplier: MultiplierCurve;
+  /** Ordered from lowest to highest probability */
+  tiers: TierRule[];
+  /** Pack completion bonus by number of missed picks: [perfect, one miss, two misses, ...] */
+  packBonuses: number[];
+}
+
+export interface ScoringRuleset extends ScoringRulesetConfig {
+  /** scoring_rulesets.id - null for the built-in default */
+  id: string | null;
+  slug: string;
+  version: number;
+}
+
+// ============================================
+// Default Ruleset
+// ============================================
+
+/**
+ * 'standard' v1 - the original scoring rules
+ * Also used for picks committed before rulesets existed (no scoring_ruleset_id).
+ */
+export const DEFAULT_SCORING_RULESET: ScoringRuleset = {
+  id: null,
+  slug: 'standard',
+  version: 1,
+  baseStake: 1,
+  multiplier: { curve: 'inverse' },
+  tiers: [
+    { tier: 'longshot', maxProbability: 0.1, bonus: 0.5 },
+    { tier: 'underdog', maxProbability: 0.25, bonus: 0.25 },
+    { tier: 'slight_underdog', maxProbability: 0.4, bonus: 0.1 },
+    { tier: 'tossup', maxProbability: 0.6, bonus: 0 },
+    { tier: 'favorite', maxProbability: 0.75, bonus: 0 },
+    { tier: 'heavy_favorite', maxProbability: 1, bonus: 0 },
+  ],
+  packBonuses: [5, 2, 1],
+};
+
+// ============================================
+// Parsing
+// ============================================
+
+function isMultiplierCurve(value: unknown): value is MultiplierCurve {
+  if (!value || typeof value !== 'object') return false;
+  const curve = value as Record<string, unknown>;
+
+  switch (curve.curve) {
+    case 'inverse':
+      return true;
+    case 'capped':
+      return typeof curve.cap === 'number' && curve.cap >= 1;
+    case 'log':
+      return typeof curve.scale === 'number' && curve.scale > 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build a ruleset from a scoring_rulesets row
+ * Returns null if the stored config is malformed.
+ */
+export function parseScoringRuleset(row: {
+  id: string;
+  slug: string;
+  version: number;
+  config: unknown;
+}): ScoringRuleset | null {
+  const config = row.config as Partial<ScoringRulesetConfig> | null;
+  if (!config) return null;
+
+  const validStake = typeof config.baseStake === 'number' && config.baseStake > 0;
+  const validTiers =
+    Array.isArray(config.tiers) &&
+    config.tiers.length > 0 &&
+    config.tiers.every(
+      (t) => typeof t?.maxProbability === 'number' && typeof t?.bonus === 'number' && !!t?.tier
+    );
+  const validPackBonuses =
+    Array.isArray(config.packBonuses) && config.packBonuses.every((b) => typeof b === 'number');
+
+  if (!validStake || !validTiers || !validPackBonuses || !isMultiplierCurve(config.multiplier)) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    version: row.version,
+    baseStake: config.baseStake as number,
+    multiplier: config.multiplier,
+    tiers: config.tiers as TierRule[],
+    packBonuses: config.packBonuses as number[],
+  };
+}
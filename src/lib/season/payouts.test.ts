@@ -0,0 +1,72 @@
+/**
+ * Season Prize Tests
+ *
+ * The payout table parser and the PLAY-to-raw-units conversion the
+ * transfers are built from.
+ *
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePayoutTable } from './payouts';
+import { toRawAmount } from '../solana/payouts';
+
+describe('parsePayoutTable', () => {
+  it('parses positions and ranges, sorted by position', () => {
+    assert.deepEqual(parsePayoutTable('4-10:100, 1:1000,2:500,3:250'), [
+      { from: 1, to: 1, amount: 1000 },
+      { from: 2, to: 2, amount: 500 },
+      { from: 3, to: 3, amount: 250 },
+      { from: 4, to: 10, amount: 100 },
+    ]);
+  });
+
+  it('accepts decimal amounts', () => {
+    assert.deepEqual(parsePayoutTable('1:12.5,2-3:0.25'), [
+      { from: 1, to: 1, amount: 12.5 },
+      { from: 2, to: 3, amount: 0.25 },
+    ]);
+  });
+
+  it('rejects overlapping positions', () => {
+    assert.equal(parsePayoutTable('1:100,1:50'), null);
+    assert.equal(parsePayoutTable('1-5:100,5-10:50'), null);
+    assert.equal(parsePayoutTable('4-10:100,1-4:500'), null);
+  });
+
+  it('rejects malformed entries and empty tables', () => {
+    for (const table of [
+      '',
+      ' , ',
+      '0:100',
+      '5-3:100',
+      '1:0',
+      '1:-5',
+      '1:1e3',
+      '1:.5',
+      '1-:100',
+      'first:100',
+      '1:100,2',
+    ]) {
+      assert.equal(parsePayoutTable(table), null, table);
+    }
+  });
+});
+
+describe('toRawAmount', () => {
+  it('scales whole and decimal amounts by the mint decimals', () => {
+    assert.equal(toRawAmount(1000, 6), BigInt(1_000_000_000));
+    assert.equal(toRawAmount(12.5, 6), BigInt(12_500_000));
+    assert.equal(toRawAmount(0.25, 0), BigInt(0));
+  });
+
+  it('rounds to the nearest raw unit in decimal, not binary', () => {
+    assert.equal(toRawAmount(1.005, 2), BigInt(101));
+    assert.equal(toRawAmount(2.675, 2), BigInt(268));
+    assert.equal(toRawAmount(0.1 + 0.2, 6), BigInt(300_000));
+    assert.equal(toRawAmount(1.0000004, 6), BigInt(1_000_000));
+    assert.equal(toRawAmount(0.0000005, 6), BigInt(1));
+    assert.equal(toRawAmount(1e-7, 6), BigInt(0));
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Season Prizes
+ *
+ * Each week is a season. Once its board is finalized (frozen snapshot),
+ * prizes are allocated from the payout table to the top players with a
+ * linked wallet, and paid in PLAY from the treasury.
+ *
+ * Payout table: SEASON_PAYOUT_TABLE, comma-separated `position:amount`
+ * or `from-to:amount` entries in whole PLAY, e.g. "1:1000,2:500,3:250,4-10:100".
+ * Positions count prize-eligible players only (wallet linked, points > 0).
+ *
+ * Sending is exactly-once: the transfer is signed first, its signature is
+ * written to the ledger while claiming the row, and only then is it sent.
+ * A row left in 'sending' is checked on-chain before anything is retried.
+ */
+
+import {
+  getPayoutConnection,
+  getPayoutMint,
+  getPayoutMintDecimals,
+  getTreasuryKeypair,
+  getTreasuryAddress,
+  parseWalletAddress,
+  getPrizeTokenAccount,
+  toRawAmount,
+  buildPrizeTransfer,
+  sendPrizeTransfer,
+  getPrizeTransferStatus,
+  waitForPrizeTransfer,
+} from '../solana/payouts';
+import {
+  getSeasonBoard,
+  getPayoutsForBoard,
+  getPayoutsByStatus,
+  claimPayout,
+  markPayoutPaid,
+  releasePayout,
+  failPendingPayout,
+  recordPayoutError,
+  type PayoutTier,
+  type SeasonPayout,
+  type SeasonPayoutStatus,
+} from '../supabase/seasons';
+
+const DEFAULT_PAYOUT_TABLE = '1:1000,2:500,3:250,4-10:100';
+
+// Transfers that expire this many times are marked failed instead of retried
+const MAX_SEND_ATTEMPTS = 3;
+
+// Prizes sent per run (each waits for confirmation)
+const SEND_BATCH_SIZE = 20;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PayoutManifestTransfer {
+  payoutId: string;
+  prizePosition: number;
+  rank: number;
+  profileId: string;
+  wallet: string;
+  /** Winner's PLAY token account (created by the transfer if missing) */
+  destination: string | null;
+  amount: number;
+  status: SeasonPayoutStatus;
+  signature: string | null;
+  error: string | null;
+}
+
+export interface PayoutManifest {
+  weekId: string;
+  leaderboardId: string;
+  finalized: boolean;
+  allocatedAt: string | null;
+  mint: string;
+  treasury: string | null;
+  totalAmount: number;
+  paidAmount: number;
+  transfers: PayoutManifestTransfer[];
+}
+
+export interface PayoutRunStats {
+  paid: number;
+  failed: number;
+  retrying: number;
+  inFlight: number;
+  errors: { payout_id: string; error: string }[];
+}
+
+// ============================================
+// Payout Table
+// ============================================
+
+/**
+ * Parse a payout table, null if malformed or if positions overlap
+ */
+export function parsePayoutTable(table: string): PayoutTier[] | null {
+  const tiers: PayoutTier[] = [];
+
+  for (const part of table.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?:(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    const amount = parseFloat(match[3]);
+    if (from < 1 || to < from || amount <= 0) return null;
+
+    tiers.push({ from, to, amount });
+  }
+
+  tiers.sort((a, b) => a.from - b.from);
+  for (let i = 1; i < tiers.length; i++) {
+    if (tiers[i].from <= tiers[i - 1].to) return null;
+  }
+
+  return tiers.length > 0 ? tiers : null;
+}
+
+/**
+ * The configured payout table (SEASON_PAYOUT_TABLE or the default)
+ */
+export function getPayoutTable(): PayoutTier[] | null {
+  const tiers = parsePayoutTable(process.env.SEASON_PAYOUT_TABLE || DEFAULT_PAYOUT_TABLE);
+  if (!tiers) {
+    console.error('Invalid SEASON_PAYOUT_TABLE:', process.env.SEASON_PAYOUT_TABLE);
+  }
+  return tiers;
+}
+
+// ============================================
+// Manifest
+// ============================================
+
+/**
+ * The list of prize transfers for a week: who gets what, from where, and
+ * how far each one has got. Null if the week has no board.
+ */
+export async function getPayoutManifest(weekId: string): Promise<PayoutManifest | null> {
+  const board = await getSeasonBoard(weekId);
+  if (!board) return null;
+
+  const payouts = await getPayoutsForBoard(board.id);
+
+  const transfers = payouts.map((payout): PayoutManifestTransfer => {
+    const wallet = parseWalletAddress(payout.wallet_address);
+
+    return {
+      payoutId: payout.id,
+      prizePosition: payout.prize_position,
+      rank: payout.rank,
+      profileId: payout.profile_id,
+      wallet: payout.wallet_address,
+      destination: wallet ? getPrizeTokenAccount(wallet).toBase58() : null,
+      amount: Number(payout.amount),
+      status: payout.status,
+      signature: payout.signature,
+      error: payout.error,
+    };
+  });
+
+  return {
+    weekId,
+    leaderboardId: board.id,
+    finalized: board.is_finalized,
+    allocatedAt: board.payouts_allocated_at,
+    mint: getPayoutMint().toBase58(),
+    treasury: getTreasuryAddress(),
+    totalAmount: transfers.reduce((sum, t) => sum + t.amount, 0),
+    paidAmount: transfers
+      .filter((t) => t.status === 'paid')
+      .reduce((sum, t) => sum + t.amount, 0),
+    transfers,
+  };
+}
+
+// ============================================
+// Sending
+// ============================================
+
+/**
+ * Pay out pending prizes, after settling any left in 'sending' by an
+ * earlier run. Returns null if the treasury key isn't configured.
+ */
+export async function processSeasonPayouts(): Promise<PayoutRunStats | null> {
+  const treasury = getTreasuryKeypair();
+  if (!treasury) return null;
+
+  const connection = getPayoutConnection();
+  const stats: PayoutRunStats = { paid: 0, failed: 0, retrying: 0, inFlight: 0, errors: [] };
+
+  // Move a sent transfer's row on according to where it stands on-chain
+  const settle = async (
+    payout: SeasonPayout,
+    signature: string,
+    lastValidBlockHeight: number,
+    wait: boolean
+  ) => {
+    const state = wait
+      ? await waitForPrizeTransfer(connection, signature, lastValidBlockHeight)
+      : await getPrizeTransferStatus(connection, signature, lastValidBlockHeight);
+
+    if (state.status === 'confirmed') {
+      await markPayoutPaid(payout.id, signature);
+      stats.paid++;
+    } else if (state.status === 'failed') {
+      await releasePayout(payout.id, signature, `Transaction failed: ${state.error}`, false);
+      stats.failed++;
+    } else if (state.status === 'expired') {
+      const retry = payout.attempts < MAX_SEND_ATTEMPTS;
+      await releasePayout(payout.id, signature, 'Transaction expired before landing', retry);
+      if (retry) stats.retrying++;
+      else stats.failed++;
+    } else {
+      stats.inFlight++;
+    }
+  };
+
+  // Step 1: Settle transfers an earlier run sent (or crashed while sending)
+  for (const payout of await getPayoutsByStatus('sending')) {
+    if (!payout.signature || payout.last_valid_block_height === null) continue;
+
+    try {
+      await settle(payout, payout.signature, payout.last_valid_block_height, false);
+    } catch (error) {
+      stats.errors.push({
+        payout_id: payout.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Step 2: Send pending prizes
+  const pending = await getPayoutsByStatus('pending', SEND_BATCH_SIZE);
+  if (pending.length === 0) return stats;
+
+  const decimals = await getPayoutMintDecimals(connection);
+
+  for (const payout of pending) {
+    const recipient = parseWalletAddress(payout.wallet_address);
+    if (!recipient) {
+      await failPendingPayout(payout.id, 'Invalid wallet address');
+      stats.failed++;
+      continue;
+    }
+
+    try {
+      const transfer = await buildPrizeTransfer(
+        connection,
+        treasury,
+        recipient,
+        toRawAmount(Number(payout.amount), decimals),
+        decimals
+      );
+
+      // Record the signature before sending - if we crash after this, the
+      // next run finds the row in 'sending' and checks the chain
+      if (!(await claimPayout(payout, transfer.signature, transfer.lastValidBlockHeight))) {
+        continue;
+      }
+
+      let sent = true;
+      try {
+        await sendPrizeTransfer(connection, transfer.transaction);
+      } catch (error) {
+        // Not necessarily fatal (it may still have been forwarded) - the
+        // row stays in 'sending' until the blockhash expires
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await recordPayoutError(payout.id, message);
+        stats.errors.push({ payout_id: payout.id, error: message });
+        sent = false;
+      }
+
+      await settle(
+        { ...payout, attempts: payout.attempts + 1 },
+        transfer.signature,
+        transfer.lastValidBlockHeight,
+        sent
+      );
+    } catch (error) {
+      console.error('Error paying season prize:', payout.id, error);
+      stats.errors.push({
+        payout_id: payout.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return stats;
+}
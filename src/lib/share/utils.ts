@@ -56,3 +56,19 @@ export function getBetFromParams(
     marketId: getString("mid") || undefined,
   };
 }
+
+/**
+ * Build the link that joins a league by its invite code
+ */
+export function buildLeagueInviteUrl(inviteCode: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://polydraft.app";
+  return `${baseUrl}/leagues/join/${encodeURIComponent(inviteCode)}`;
+}
+
+/**
+ * Build the link that invites a friend to a head-to-head challenge
+ */
+export function buildChallengeUrl(challengeId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://polydraft.app";
+  return `${baseUrl}/challenges/${encodeURIComponent(challengeId)}`;
+}
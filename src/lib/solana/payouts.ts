@@ -0,0 +1,247 @@
+/**
+ * Server-side PLAY Prize Transfers
+ *
+ * Signs and sends SPL transfers of PLAY from the treasury to prize winners.
+ * The treasury key only lives on the server (TREASURY_SECRET_KEY).
+ *
+ * RPC and mint are configurable so payouts can be run against a local
+ * validator (`solana-test-validator` plus a test mint) before mainnet:
+ * - PAYOUT_RPC_URL (default: NEXT_PUBLIC_MAINNET_RPC_URL, then mainnet-beta)
+ * - PAYOUT_PLAY_MINT (default: the mainnet PLAY mint)
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  getMint,
+  getAssociatedTokenAddressSync,
+  createTransferCheckedInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+
+/** PLAY token mint on mainnet-beta */
+const PLAY_MINT = 'PLAYs3GSSadH2q2JLS7djp7yzeT75NK78XgrE5YLrfq';
+
+const PAYOUT_RPC =
+  process.env.PAYOUT_RPC_URL ||
+  process.env.NEXT_PUBLIC_MAINNET_RPC_URL ||
+  'https://api.mainnet-beta.solana.com';
+
+export type PrizeTransferStatus = 'confirmed' | 'failed' | 'pending' | 'expired';
+
+export interface PrizeTransfer {
+  transaction: VersionedTransaction;
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+export interface PrizeTransferState {
+  status: PrizeTransferStatus;
+  error?: string;
+}
+
+// ============================================
+// Config
+// ============================================
+
+export function getPayoutMint(): PublicKey {
+  return new PublicKey(process.env.PAYOUT_PLAY_MINT || PLAY_MINT);
+}
+
+export function getPayoutConnection(): Connection {
+  return new Connection(PAYOUT_RPC, 'confirmed');
+}
+
+let _treasury: Keypair | null | undefined;
+
+/**
+ * Treasury keypair from TREASURY_SECRET_KEY (base58, or the JSON byte array
+ * written by `solana-keygen`). Null if unset or malformed.
+ */
+export function getTreasuryKeypair(): Keypair | null {
+  if (_treasury !== undefined) return _treasury;
+
+  const secret = process.env.TREASURY_SECRET_KEY?.trim();
+  _treasury = null;
+  if (!secret) return null;
+
+  try {
+    const bytes = secret.startsWith('[')
+      ? Uint8Array.from(JSON.parse(secret) as number[])
+      : bs58.decode(secret);
+    _treasury = Keypair.fromSecretKey(bytes);
+  } catch (error) {
+    console.error('Invalid TREASURY_SECRET_KEY:', error instanceof Error ? error.message : error);
+  }
+
+  return _treasury;
+}
+
+/**
+ * Treasury address prizes are paid from (the signing key if configured)
+ */
+export function getTreasuryAddress(): string | null {
+  return (
+    getTreasuryKeypair()?.publicKey.toBase58() ??
+    process.env.NEXT_PUBLIC_TREASURY_PUBKEY ??
+    null
+  );
+}
+
+/**
+ * Parse a wallet address, null if it isn't a valid on-curve key
+ */
+export function parseWalletAddress(address: string): PublicKey | null {
+  try {
+    const key = new PublicKey(address);
+    return PublicKey.isOnCurve(key.toBytes()) ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PLAY token account a prize is paid into
+ */
+export function getPrizeTokenAccount(wallet: PublicKey): PublicKey {
+  return getAssociatedTokenAddressSync(getPayoutMint(), wallet);
+}
+
+export async function getPayoutMintDecimals(connection: Connection): Promise<number> {
+  const mint = await getMint(connection, getPayoutMint());
+  return mint.decimals;
+}
+
+/**
+ * Convert a PLAY amount to raw token units, rounded to the nearest unit
+ * The decimal point is shifted in the amount's decimal form, not by
+ * multiplying (1.005 * 100 is 100.49999...).
+ */
+export function toRawAmount(amount: number, decimals: number): bigint {
+  const [mantissa, exponent = '0'] = String(amount).split('e');
+  return BigInt(Math.round(Number(`${mantissa}e${Number(exponent) + decimals}`)));
+}
+
+// ============================================
+// Transfers
+// ============================================
+
+/**
+ * Build and sign a prize transfer (not sent)
+ * The signature is known before sending, so it can be recorded first.
+ * Creates the winner's token account if they don't have one (treasury pays).
+ */
+export async function buildPrizeTransfer(
+  connection: Connection,
+  treasury: Keypair,
+  recipient: PublicKey,
+  rawAmount: bigint,
+  decimals: number
+): Promise<PrizeTransfer> {
+  const mint = getPayoutMint();
+  const treasuryAta = getAssociatedTokenAddressSync(mint, treasury.publicKey);
+  const recipientAta = getAssociatedTokenAddressSync(mint, recipient);
+
+  const instructions = [
+    createAssociatedTokenAccountIdempotentInstruction(
+      treasury.publicKey,  // payer
+      recipientAta,        // associatedToken
+      recipient,           // owner
+      mint                 // mint
+    ),
+    createTransferCheckedInstruction(
+      treasuryAta,          // source
+      mint,                 // mint
+      recipientAta,         // destination
+      treasury.publicKey,   // owner
+      rawAmount,            // amount (raw units)
+      decimals              // decimals
+    ),
+  ];
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+  const message = new TransactionMessage({
+    payerKey: treasury.publicKey,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message();
+
+  const transaction = new VersionedTransaction(message);
+  transaction.sign([treasury]);
+
+  return {
+    transaction,
+    signature: bs58.encode(transaction.signatures[0]),
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Send a signed prize transfer (doesn't wait for confirmation)
+ */
+export async function sendPrizeTransfer(
+  connection: Connection,
+  transaction: VersionedTransaction
+): Promise<void> {
+  await connection.sendRawTransaction(transaction.serialize(), {
+    preflightCommitment: 'confirmed',
+    maxRetries: 5,
+  });
+}
+
+/**
+ * Where a sent transfer stands
+ * 'expired' means it can no longer land: its blockhash is past
+ * lastValidBlockHeight on a finalized block and the signature was never seen.
+ */
+export async function getPrizeTransferStatus(
+  connection: Connection,
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<PrizeTransferState> {
+  const { value } = await connection.getSignatureStatuses([signature], {
+    searchTransactionHistory: true,
+  });
+  const status = value[0];
+
+  if (status) {
+    if (status.err) {
+      return { status: 'failed', error: JSON.stringify(status.err) };
+    }
+    if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
+      return { status: 'confirmed' };
+    }
+    return { status: 'pending' };
+  }
+
+  const blockHeight = await connection.getBlockHeight('finalized');
+  return { status: blockHeight > lastValidBlockHeight ? 'expired' : 'pending' };
+}
+
+/**
+ * Poll a sent transfer until it confirms, fails or runs out of attempts
+ */
+export async function waitForPrizeTransfer(
+  connection: Connection,
+  signature: string,
+  lastValidBlockHeight: number,
+  maxAttempts = 10,
+  delayMs = 2000
+): Promise<PrizeTransferState> {
+  let state: PrizeTransferState = { status: 'pending' };
+
+  for (let i = 0; i < maxAttempts; i++) {
+    state = await getPrizeTransferStatus(connection, signature, lastValidBlockHeight);
+    if (state.status !== 'pending') return state;
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  return state;
+}
@@ -0,0 +1,88 @@
+/**
+ * Supabase Achievement Functions
+ *
+ * Unlocks are stored on user_profiles.achievements; unlock_achievements
+ * appends them atomically, so an achievement can only unlock once.
+ */
+
+import { createServiceClient } from './server';
+import type { Achievement } from '@/types';
+
+/** An unlock to record (unlocked_at is set by the database) */
+export type AchievementUnlock = Omit<Achievement, 'unlocked_at'>;
+
+/**
+ * Record unlocks for a profile, skipping any it already has
+ * Returns the unlocks that were new.
+ */
+export async function unlockAchievements(
+  profileId: string,
+  unlocks: AchievementUnlock[]
+): Promise<Achievement[]> {
+  if (unlocks.length === 0) return [];
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('unlock_achievements', {
+    p_profile_id: profileId,
+    p_unlocks: unlocks,
+  });
+
+  if (error) {
+    console.error('Error unlocking achievements:', profileId, error);
+    return [];
+  }
+
+  return (data as Achievement[] | null) ?? [];
+}
+
+/**
+ * Get a profile's unlocks plus the stats achievements are checked against
+ */
+export async function getAchievementProfile(profileId: string): Promise<{
+  achievements: Achievement[];
+  longestStreak: number;
+  totalCorrectPicks: number;
+} | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('achievements, longest_streak, total_correct_picks')
+    .eq('id', profileId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching profile achievements:', profileId, error);
+    return null;
+  }
+
+  return {
+    achievements: (data.achievements as Achievement[] | null) ?? [],
+    longestStreak: data.longest_streak ?? 0,
+    totalCorrectPicks: data.total_correct_picks ?? 0,
+  };
+}
+
+/**
+ * Count a profile's packs, optionally only those opened since a date
+ */
+export async function countPacksOpened(profileId: string, since?: Date): Promise<number> {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from('user_packs')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', profileId);
+
+  if (since) query = query.gte('opened_at', since.toISOString());
+
+  const { count, error } = await query;
+
+  if (error) {
+    console.error('Error counting packs for achievements:', profileId, error);
+    return 0;
+  }
+
+  return count ?? 0;
+}
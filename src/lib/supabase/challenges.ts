@@ -0,0 +1,346 @@
+/**
+ * Supabase Challenge Functions
+ *
+ * Head-to-head challenges: a committed pack is shared with a friend, who
+ * drafts the same events at the same odds as a "challenge" pack. The
+ * first other player to deal a challenge becomes its opponent; their pack
+ * is linked when they commit. Results compare the two packs pick by pick.
+ */
+
+import { createServiceClient } from './server';
+import { haveEventsStarted } from './events';
+import type { PackDraft } from './packs';
+import type { Event, UserPack, UserPick } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Pack type dealt from a challenge instead of a pool
+export const CHALLENGE_PACK_TYPE = 'challenge';
+
+// How long a challenge can be taken after it's created
+export const CHALLENGE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface Challenge {
+  id: string;
+  creator_profile_id: string;
+  creator_pack_id: string;
+  opponent_profile_id: string | null;
+  opponent_pack_id: string | null;
+  event_ids: string[];
+  events: Event[];
+  scoring_ruleset_id: string | null;
+  created_at: string;
+  accepted_at: string | null;
+  expires_at: string;
+}
+
+export type ChallengeSide = 'creator' | 'opponent';
+
+export interface ChallengePositionResult {
+  position: number;
+  eventId: string;
+  creatorPoints: number;
+  opponentPoints: number;
+  /** Higher points wins the position; null until both picks resolve */
+  winner: ChallengeSide | 'tie' | null;
+}
+
+export interface ChallengeComparison {
+  positions: ChallengePositionResult[];
+  creatorPoints: number;
+  opponentPoints: number;
+  creatorPositionsWon: number;
+  opponentPositionsWon: number;
+  /** Higher pack total wins; null until both packs fully resolve */
+  winner: ChallengeSide | 'tie' | null;
+  isComplete: boolean;
+}
+
+export type ReserveChallengeResult =
+  | { challenge: Challenge }
+  | { error: 'not_found' | 'own_challenge' | 'taken' | 'expired' | 'closed' };
+
+/** Whether a challenge can still be played, and why not */
+export type ChallengeAvailability = 'open' | 'expired' | 'closed';
+
+// ============================================
+// Events
+// ============================================
+
+/**
+ * The creator's events at the odds their picks were committed at
+ * Picks repriced at commit carry the live odds in their snapshots, so the
+ * opponent is dealt exactly what the creator was scored on.
+ */
+export function buildChallengeEvents(draft: PackDraft, picks: UserPick[]): Event[] {
+  const picksByEvent = new Map(picks.map((p) => [p.event_id, p]));
+
+  return draft.event_ids.flatMap((eventId) => {
+    const event = draft.events.find((e) => e.id === eventId);
+    if (!event) return [];
+
+    const pick = picksByEvent.get(eventId);
+    if (!pick) return [event];
+
+    const draw = pick.draw_probability_snapshot ?? event.outcome_draw_probability;
+
+    if (pick.picked_outcome === 'a') {
+      return [{
+        ...event,
+        outcome_a_probability: pick.probability_snapshot,
+        outcome_b_probability: pick.opposite_probability_snapshot,
+        outcome_draw_probability: draw,
+      }];
+    }
+
+    if (pick.picked_outcome === 'b') {
+      return [{
+        ...event,
+        outcome_a_probability: pick.opposite_probability_snapshot,
+        outcome_b_probability: pick.probability_snapshot,
+        outcome_draw_probability: draw,
+      }];
+    }
+
+    return [{ ...event, outcome_draw_probability: pick.probability_snapshot }];
+  });
+}
+
+// ============================================
+// Challenges
+// ============================================
+
+/**
+ * Get a challenge by ID
+ */
+export async function getChallenge(challengeId: string): Promise<Challenge | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .eq('id', challengeId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching challenge:', challengeId, error);
+    return null;
+  }
+
+  return data as Challenge | null;
+}
+
+/**
+ * Get the challenge a pack belongs to (as creator or opponent), null if none
+ */
+export async function getChallengeForPack(packId: string): Promise<Challenge | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .or(`creator_pack_id.eq.${packId},opponent_pack_id.eq.${packId}`)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching challenge for pack:', packId, error);
+    return null;
+  }
+
+  return data as Challenge | null;
+}
+
+/**
+ * Create the challenge for a committed pack
+ * A pack has at most one challenge - an existing one is returned.
+ */
+export async function createChallenge(
+  pack: UserPack,
+  draft: PackDraft
+): Promise<Challenge | null> {
+  const existing = await getChallengeForPack(pack.id);
+  if (existing) return existing;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .insert({
+      creator_profile_id: pack.profile_id,
+      creator_pack_id: pack.id,
+      event_ids: draft.event_ids,
+      events: buildChallengeEvents(draft, pack.picks ?? []),
+      scoring_ruleset_id: pack.scoring_ruleset_id ?? null,
+      expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Created concurrently - return that one
+    if (error.code === '23505') return getChallengeForPack(pack.id);
+    console.error('Error creating challenge:', pack.id, error);
+    return null;
+  }
+
+  return data as Challenge;
+}
+
+/**
+ * Check a challenge can still be played
+ * It's closed once any of its events has started or left upcoming/active
+ * (checked against the live event rows, not the snapshot). Null on error.
+ */
+export async function getChallengeAvailability(
+  challenge: Challenge
+): Promise<ChallengeAvailability | null> {
+  if (new Date(challenge.expires_at) <= new Date()) return 'expired';
+
+  const started = await haveEventsStarted(challenge.event_ids);
+  if (started === null) return null;
+
+  return started ? 'closed' : 'open';
+}
+
+/**
+ * Take a challenge as its opponent
+ * The first other player to deal it becomes the opponent; the opponent can
+ * deal it again until their pack is committed, while the challenge is
+ * still open. Returns null on error.
+ */
+export async function reserveChallenge(
+  challengeId: string,
+  profileId: string
+): Promise<ReserveChallengeResult | null> {
+  const challenge = await getChallenge(challengeId);
+  if (!challenge) return { error: 'not_found' };
+
+  if (challenge.creator_profile_id === profileId) {
+    return { error: 'own_challenge' };
+  }
+
+  if (challenge.opponent_profile_id && challenge.opponent_profile_id !== profileId) {
+    return { error: 'taken' };
+  }
+
+  const availability = await getChallengeAvailability(challenge);
+  if (!availability) return null;
+  if (availability !== 'open') return { error: availability };
+
+  if (challenge.opponent_profile_id === profileId && !challenge.opponent_pack_id) {
+    return { challenge };
+  }
+
+  if (challenge.opponent_profile_id) {
+    return { error: 'taken' };
+  }
+
+  const supabase = createServiceClient();
+
+  // Conditional on no opponent yet, so only one player can take it
+  const { data, error } = await supabase
+    .from('challenges')
+    .update({ opponent_profile_id: profileId })
+    .eq('id', challengeId)
+    .is('opponent_profile_id', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reserving challenge:', challengeId, error);
+    return null;
+  }
+
+  return data ? { challenge: data as Challenge } : { error: 'taken' };
+}
+
+/**
+ * Link the opponent's committed pack to their challenge
+ */
+export async function linkChallengePack(
+  challengeId: string,
+  profileId: string,
+  packId: string
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .update({
+      opponent_pack_id: packId,
+      accepted_at: new Date().toISOString(),
+    })
+    .eq('id', challengeId)
+    .eq('opponent_profile_id', profileId)
+    .is('opponent_pack_id', null)
+    .select('id');
+
+  if (error) {
+    console.error('Error linking challenge pack:', challengeId, packId, error);
+    return false;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+// ============================================
+// Results
+// ============================================
+
+function compareScores(creator: number, opponent: number): ChallengeSide | 'tie' {
+  if (creator > opponent) return 'creator';
+  if (opponent > creator) return 'opponent';
+  return 'tie';
+}
+
+/**
+ * Compare the two packs of a challenge pick by pick
+ * A position is decided once both picks resolve (a void pick scores 0);
+ * the challenge once both packs are fully resolved, on pack totals.
+ */
+export function compareChallengePacks(
+  challenge: Challenge,
+  creatorPack: UserPack,
+  opponentPack: UserPack
+): ChallengeComparison {
+  const creatorPicks = new Map((creatorPack.picks ?? []).map((p) => [p.event_id, p]));
+  const opponentPicks = new Map((opponentPack.picks ?? []).map((p) => [p.event_id, p]));
+
+  const positions = challenge.event_ids.map((eventId, index) => {
+    const creatorPick = creatorPicks.get(eventId);
+    const opponentPick = opponentPicks.get(eventId);
+    const creatorPoints = creatorPick?.points_awarded ?? 0;
+    const opponentPoints = opponentPick?.points_awarded ?? 0;
+    const decided = !!creatorPick?.is_resolved && !!opponentPick?.is_resolved;
+
+    return {
+      position: index + 1,
+      eventId,
+      creatorPoints,
+      opponentPoints,
+      winner: decided ? compareScores(creatorPoints, opponentPoints) : null,
+    };
+  });
+
+  const isComplete =
+    creatorPack.resolution_status === 'fully_resolved' &&
+    opponentPack.resolution_status === 'fully_resolved';
+
+  return {
+    positions,
+    creatorPoints: creatorPack.total_points ?? 0,
+    opponentPoints: opponentPack.total_points ?? 0,
+    creatorPositionsWon: positions.filter((p) => p.winner === 'creator').length,
+    opponentPositionsWon: positions.filter((p) => p.winner === 'opponent').length,
+    winner: isComplete
+      ? compareScores(creatorPack.total_points ?? 0, opponentPack.total_points ?? 0)
+      : null,
+    isComplete,
+  };
+}
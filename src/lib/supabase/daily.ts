@@ -0,0 +1,236 @@
+/**
+ * Supabase Daily Pack Functions
+ *
+ * The daily pack: every UTC day the same events are dealt to every
+ * player. The first deal of the day selects them from the daily pool with
+ * a seed derived from the date and stores them, so later deals - and
+ * changes to the pool - can't change the pack. Only events starting after
+ * the day ends are selected, so everyone drafts before any of them is in
+ * play; should one start early anyway, the day's pack closes (no more
+ * deals or commits). Each profile gets one entry per day, outside the
+ * weekly free pack limit, and the day's entries are ranked on their own
+ * leaderboard (getScopedLeaderboard).
+ */
+
+import { createServiceClient } from './server';
+import { getScopedLeaderboard, type LeaderboardResponse } from './leaderboard';
+import { getPool, selectEventsFromPool } from '@/lib/pools';
+import { createSeededRandom } from '@/lib/pools/random';
+import { getPackTypeDropRates, parseSelectionConstraints } from '@/lib/pools/packTypes';
+import type { Event, PackType } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Pack type dealt from the day's daily pack instead of a pool
+export const DAILY_PACK_TYPE = 'daily';
+
+// Pool the daily events are selected from
+const DAILY_POOL_PACK_TYPE = process.env.DAILY_PACK_POOL || 'sports';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface DailyPack {
+  /** UTC day (YYYY-MM-DD) */
+  day: string;
+  seed: string;
+  event_ids: string[];
+  events: Event[];
+  created_at: string;
+}
+
+export interface DailyEventDistribution {
+  eventId: string;
+  totalPicks: number;
+  a: number;
+  b: number;
+  draw: number;
+}
+
+// ============================================
+// Days
+// ============================================
+
+/**
+ * Get the UTC day (YYYY-MM-DD) a date falls on
+ */
+export function getDailyDate(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Check a value is a UTC day (YYYY-MM-DD)
+ */
+export function isDailyDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00.000Z`));
+}
+
+/**
+ * Shift a UTC day by a number of days
+ */
+export function shiftDailyDate(day: string, offset: number): string {
+  return getDailyDate(new Date(Date.parse(`${day}T00:00:00.000Z`) + offset * DAY_MS));
+}
+
+// ============================================
+// Daily Packs
+// ============================================
+
+/**
+ * Get the stored daily pack for a day, null if none was dealt
+ */
+export async function getDailyPack(day: string): Promise<DailyPack | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('daily_packs')
+    .select('*')
+    .eq('day', day)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching daily pack:', day, error);
+    return null;
+  }
+
+  return data as DailyPack | null;
+}
+
+/**
+ * Get today's daily pack, selecting and storing it on the first deal
+ * The daily pack type sets the card count, drop table and selection
+ * constraints. Only upcoming events with a start time after the end of
+ * the day are eligible. The pool is ordered by event ID before the seeded
+ * selection, so the same pool always gives the same pack whatever order
+ * it loads in.
+ */
+export async function getOrCreateDailyPack(
+  packType: Pick<PackType, 'slug' | 'cards_per_pack' | 'drop_rates' | 'selection_constraints'>
+): Promise<DailyPack | null> {
+  const day = getDailyDate();
+
+  const existing = await getDailyPack(day);
+  if (existing) return existing;
+
+  const supabase = createServiceClient();
+
+  const pool = await getPool(DAILY_POOL_PACK_TYPE, supabase);
+  if (!pool || pool.events.length < pool.min_events_required) {
+    console.error(`No valid pool for the daily pack (pack type: ${DAILY_POOL_PACK_TYPE})`);
+    return null;
+  }
+
+  const dayEnd = Date.parse(`${day}T00:00:00.000Z`) + DAY_MS;
+  const eligible = pool.events.filter(
+    (e) =>
+      e.status === 'upcoming' &&
+      !!e.event_start_at &&
+      new Date(e.event_start_at).getTime() > dayEnd
+  );
+
+  const seed = `daily:${day}`;
+  const events = selectEventsFromPool(
+    { ...pool, events: eligible.sort((a, b) => a.id.localeCompare(b.id)) },
+    packType.cards_per_pack,
+    {
+      random: createSeededRandom(seed),
+      dropRates: getPackTypeDropRates(packType),
+      constraints: parseSelectionConstraints(packType.selection_constraints),
+    }
+  );
+  if (events.length === 0) return null;
+
+  // Another deal may have stored the day's pack first - theirs stands
+  const { error } = await supabase.from('daily_packs').upsert(
+    {
+      day,
+      seed,
+      event_ids: events.map((e) => e.id),
+      events,
+    },
+    { onConflict: 'day', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error('Error storing daily pack:', day, error);
+    return null;
+  }
+
+  return getDailyPack(day);
+}
+
+// ============================================
+// Entries
+// ============================================
+
+/**
+ * Get the pack a profile committed as its daily entry for a day, null if none
+ */
+export async function getDailyEntry(profileId: string, day: string): Promise<string | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('user_packs')
+    .select('id')
+    .eq('profile_id', profileId)
+    .eq('daily_date', day)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching daily entry:', profileId, day, error);
+    return null;
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * Get the leaderboard of a day's daily entries
+ */
+export async function getDailyLeaderboard(
+  day: string,
+  options: { limit?: number; offset?: number; profileId?: string } = {}
+): Promise<LeaderboardResponse> {
+  return getScopedLeaderboard({ period: 'all' }, { dailyDate: day }, options);
+}
+
+/**
+ * How a day's entries picked each of the daily pack's events
+ */
+export async function getDailyPickDistribution(
+  dailyPack: DailyPack
+): Promise<DailyEventDistribution[] | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('get_daily_pick_distribution', {
+    p_day: dailyPack.day,
+  });
+
+  if (error) {
+    console.error('Error fetching daily pick distribution:', dailyPack.day, error);
+    return null;
+  }
+
+  const rows = (data ?? []) as { event_id: string; picked_outcome: string; picks: number }[];
+
+  return dailyPack.event_ids.map((eventId) => {
+    const counts = { a: 0, b: 0, draw: 0 };
+    for (const row of rows) {
+      if (row.event_id !== eventId) continue;
+      if (row.picked_outcome === 'a' || row.picked_outcome === 'b' || row.picked_outcome === 'draw') {
+        counts[row.picked_outcome] += Number(row.picks);
+      }
+    }
+
+    return {
+      eventId,
+      totalPicks: counts.a + counts.b + counts.draw,
+      ...counts,
+    };
+  });
+}
@@ -5,7 +5,10 @@
  */
 
 import { createServiceClient } from './server';
-import type { Event, PolymarketToken, PriceSyncResult, PolymarketEventInput, Outcome } from '@/types';
+import type { Event, PolymarketToken, PriceSyncResult, PolymarketEventInput, Outcome, VenueToken } from '@/types';
+
+// Event statuses a pick can still be made on
+const OPEN_EVENT_STATUSES = ['upcoming', 'active'];
 
 // ============================================
 // Event Fetching
@@ -84,6 +87,39 @@ export async function getEventById(eventId: string): Promise<Event | null> {
   return data;
 }
 
+/**
+ * Check whether any of the events has started: its start time has passed,
+ * or it has left upcoming/active (a missing event counts as started)
+ * Reads the live event rows, not a dealt snapshot. Null on error.
+ */
+export async function haveEventsStarted(eventIds: string[]): Promise<boolean | null> {
+  if (eventIds.length === 0) return false;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, status, event_start_at')
+    .in('id', eventIds);
+
+  if (error) {
+    console.error('Error checking event start:', error);
+    return null;
+  }
+
+  const now = Date.now();
+  const events = (data ?? []) as Pick<Event, 'id' | 'status' | 'event_start_at'>[];
+
+  return (
+    events.length < new Set(eventIds).size ||
+    events.some(
+      (e) =>
+        !OPEN_EVENT_STATUSES.includes(e.status) ||
+        (!!e.event_start_at && new Date(e.event_start_at).getTime() <= now)
+    )
+  );
+}
+
 // ============================================
 // Price Updates
 // ============================================
@@ -173,27 +209,70 @@ export async function getEventTokens(eventId: string): Promise<PolymarketToken[]
   return data ?? [];
 }
 
+/**
+ * Get venue tokens for several events (any venue)
+ */
+export async function getVenueTokensForEvents(eventIds: string[]): Promise<VenueToken[]> {
+  if (eventIds.length === 0) return [];
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('venue_tokens')
+    .select('*')
+    .in('event_id', eventIds);
+
+  if (error) {
+    console.error('Error fetching venue tokens:', error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
 /**
  * Upsert tokens for an event
  */
 export async function upsertEventTokens(
   eventId: string,
-  tokens: Array<{ outcome: 'a' | 'b' | 'draw'; token_id: string }>
+  tokens: Array<{ outcome: Outcome; token_id: string; outcome_label?: string }>,
+  venue: string = 'polymarket'
 ): Promise<boolean> {
   const supabase = createServiceClient();
 
-  const tokenRecords = tokens.map((t) => ({
+  // Polymarket tokens are still read from the legacy table by price sync
+  if (venue === 'polymarket') {
+    const tokenRecords = tokens.map((t) => ({
+      event_id: eventId,
+      outcome: t.outcome,
+      token_id: t.token_id,
+      ...(t.outcome_label && { outcome_label: t.outcome_label }),
+    }));
+
+    const { error } = await supabase
+      .from('polymarket_tokens')
+      .upsert(tokenRecords, { onConflict: 'event_id,outcome' });
+
+    if (error) {
+      console.error('Error upserting event tokens:', error);
+      return false;
+    }
+  }
+
+  const venueTokenRecords = tokens.map((t) => ({
     event_id: eventId,
+    venue,
     outcome: t.outcome,
-    token_id: t.token_id,
+    venue_token_id: t.token_id,
+    ...(t.outcome_label && { outcome_label: t.outcome_label }),
   }));
 
-  const { error } = await supabase
-    .from('polymarket_tokens')
-    .upsert(tokenRecords, { onConflict: 'event_id,outcome' });
+  const { error: venueError } = await supabase
+    .from('venue_tokens')
+    .upsert(venueTokenRecords, { onConflict: 'event_id,outcome' });
 
-  if (error) {
-    console.error('Error upserting event tokens:', error);
+  if (venueError) {
+    console.error('Error upserting venue tokens:', venueError);
     return false;
   }
 
@@ -232,7 +311,10 @@ export async function updateTokenPrice(
 /**
  * Create a sync log entry
  */
-export async function createSyncLog(syncType: string): Promise<string | null> {
+export async function createSyncLog(
+  syncType: string,
+  venue?: string
+): Promise<string | null> {
   const supabase = createServiceClient();
 
   const { data, error } = await supabase
@@ -240,6 +322,7 @@ export async function createSyncLog(syncType: string): Promise<string | null> {
     .insert({
       sync_type: syncType,
       status: 'running',
+      ...(venue && { venue }),
     })
     .select('id')
     .single();
@@ -285,7 +368,7 @@ export async function completeSyncLog(
 // ============================================
 
 /**
- * Get active events that need resolution check
+ * Get active and provisionally resolved events that need resolution check
  * Now venue-aware: checks both new venue_event_id and legacy polymarket_market_id
  */
 export async function getEventsToResolve(venue?: string): Promise<Event[]> {
@@ -294,7 +377,7 @@ export async function getEventsToResolve(venue?: string): Promise<Event[]> {
   let query = supabase
     .from('events')
     .select('*')
-    .eq('status', 'active')
+    .in('status', ['active', 'pending_resolution'])
     .limit(20);
 
   // Filter by venue if specified
@@ -315,6 +398,70 @@ export async function getEventsToResolve(venue?: string): Promise<Event[]> {
   return data ?? [];
 }
 
+// ============================================
+// Venue Event Upsert
+// ============================================
+
+/**
+ * Insert or update an event captured from a venue adapter (see VenueAdapter.toEvent)
+ * Existing events keep their status and pool assignment; only market data is refreshed.
+ */
+export async function upsertVenueEvent(
+  event: Partial<Event> & { venue: string; venue_event_id: string }
+): Promise<{ id: string; created: boolean } | null> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('events')
+    .select('id')
+    .eq('venue', event.venue)
+    .eq('venue_event_id', event.venue_event_id)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error('Error looking up venue event:', lookupError);
+    return null;
+  }
+
+  if (existing) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { status, ...marketData } = event;
+
+    const { error } = await supabase
+      .from('events')
+      .update({
+        ...marketData,
+        last_price_sync_at: now,
+        updated_at: now,
+      })
+      .eq('id', existing.id);
+
+    if (error) {
+      console.error('Error updating venue event:', error);
+      return null;
+    }
+
+    return { id: existing.id, created: false };
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .insert({
+      ...event,
+      last_price_sync_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error inserting venue event:', error);
+    return null;
+  }
+
+  return { id: data.id, created: true };
+}
+
 // ============================================
 // Polymarket Event Upsert
 // ============================================
@@ -0,0 +1,77 @@
+/**
+ * Week Identifier Tests
+ *
+ * Week IDs (YYYY-WW) belong to the year their Monday falls in, so the
+ * weeks around New Year are where they can go wrong.
+ *
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getWeekId, getWeekRange, shiftWeekId } from './leaderboard';
+
+const at = (date: string) => new Date(`${date}T12:00:00.000Z`);
+
+describe('getWeekId', () => {
+  it('gives the days after New Year to the week of the previous Monday', () => {
+    // Monday 2024-12-30 to Sunday 2025-01-05
+    assert.equal(getWeekId(at('2024-12-29')), '2024-52');
+    assert.equal(getWeekId(at('2024-12-30')), '2024-53');
+    assert.equal(getWeekId(at('2025-01-01')), '2024-53');
+    assert.equal(getWeekId(at('2025-01-05')), '2024-53');
+    assert.equal(getWeekId(at('2025-01-06')), '2025-02');
+
+    // Monday 2025-12-29 to Sunday 2026-01-04
+    assert.equal(getWeekId(at('2026-01-01')), '2025-53');
+    assert.equal(getWeekId(at('2026-01-05')), '2026-02');
+  });
+
+  it('starts weeks at Monday 00:00 UTC', () => {
+    assert.equal(getWeekId(new Date('2025-01-05T23:59:59.999Z')), '2024-53');
+    assert.equal(getWeekId(new Date('2025-01-06T00:00:00.000Z')), '2025-02');
+  });
+});
+
+describe('getWeekRange', () => {
+  it('spans Monday 00:00 to Sunday 23:59:59.999 UTC, across the year boundary', () => {
+    assert.deepEqual(getWeekRange('2024-53'), {
+      start: new Date('2024-12-30T00:00:00.000Z'),
+      end: new Date('2025-01-05T23:59:59.999Z'),
+    });
+  });
+
+  it('round-trips every week from 2020 to 2029', () => {
+    const monday = new Date('2019-12-30T00:00:00.000Z');
+    const ids = new Set<string>();
+
+    while (monday.getUTCFullYear() < 2030) {
+      const weekId = getWeekId(monday);
+      assert.ok(!ids.has(weekId), `${weekId} given to two weeks`);
+      ids.add(weekId);
+      assert.equal(getWeekRange(weekId)?.start.getTime(), monday.getTime(), weekId);
+      monday.setUTCDate(monday.getUTCDate() + 7);
+    }
+  });
+
+  it('returns null for IDs getWeekId never gives', () => {
+    // 2025 opened mid-week, inside 2024-53
+    assert.equal(getWeekRange('2025-01'), null);
+    assert.equal(getWeekRange('2024-99'), null);
+    assert.equal(getWeekRange('2024-1'), null);
+    assert.equal(getWeekRange('week'), null);
+  });
+});
+
+describe('shiftWeekId', () => {
+  it('moves across the year boundary in both directions', () => {
+    assert.equal(shiftWeekId('2024-52', 1), '2024-53');
+    assert.equal(shiftWeekId('2024-53', 1), '2025-02');
+    assert.equal(shiftWeekId('2025-02', -1), '2024-53');
+    assert.equal(shiftWeekId('2024-52', 2), '2025-02');
+  });
+
+  it('returns null for an unknown week', () => {
+    assert.equal(shiftWeekId('2025-01', 1), null);
+  });
+});
@@ -1,10 +1,33 @@
 /**
  * Supabase Leaderboard Functions
  *
- * Functions for managing the weekly leaderboard.
+ * Functions for managing the weekly leaderboard, and for ranking players
+ * over a week, month or all time - overall or within one event category.
  */
 
 import { createServiceClient } from './server';
+import type { EventCategory } from '@/types';
+
+// Categories with their own leaderboard (pick-level points on events.category)
+export const LEADERBOARD_CATEGORIES: readonly EventCategory[] = [
+  'sports',
+  'politics',
+  'crypto',
+  'economy',
+  'entertainment',
+];
+
+// PostgREST caps responses (1000 rows by default) - larger reads are paged
+const PAGE_SIZE = 1000;
+
+// How long after a week ends it waits for its picks to resolve before
+// it's closed anyway (picks still open then don't count towards it)
+const DEFAULT_SEASON_CLOSE_GRACE_DAYS = 7;
+const seasonCloseGraceDays = Number(process.env.SEASON_CLOSE_GRACE_DAYS);
+export const SEASON_CLOSE_GRACE_MS =
+  (Number.isFinite(seasonCloseGraceDays) && seasonCloseGraceDays >= 0
+    ? seasonCloseGraceDays
+    : DEFAULT_SEASON_CLOSE_GRACE_DAYS) * 24 * 60 * 60 * 1000;
 
 // ============================================
 // Types
@@ -12,6 +35,8 @@ import { createServiceClient } from './server';
 
 export interface LeaderboardEntry {
   rank: number;
+  /** Rank before the last change (weekly boards only) */
+  previousRank?: number;
   profileId: string;
   displayName: string;
   totalPoints: number;
@@ -25,6 +50,58 @@ export interface LeaderboardResponse {
   totalPlayers: number;
   userRank?: number;
   userPoints?: number;
+  period?: LeaderboardPeriodType;
+  /** Week shown (YYYY-WW) and its neighbours, for weekly boards */
+  weekId?: string;
+  previousWeekId?: string;
+  nextWeekId?: string;
+  category?: EventCategory;
+}
+
+export type LeaderboardPeriodType = 'week' | 'month' | 'all';
+
+export interface PeriodRange {
+  period: LeaderboardPeriodType;
+  /** Week ID (YYYY-WW) for weekly boards */
+  id?: string;
+  start?: Date;
+  end?: Date;
+}
+
+export interface LeaderboardOptions {
+  /** 'week' | 'month' | 'all' or a past week's ID (YYYY-WW); defaults to 'week' */
+  period?: string;
+  /** Rank on picks in this category only */
+  category?: EventCategory;
+  limit?: number;
+  offset?: number;
+  anonymousId?: string;
+}
+
+/** Restricts a leaderboard to some players (e.g. a league's members) or packs */
+export interface LeaderboardScope {
+  /** Only these players; every player if omitted */
+  profileIds?: string[];
+  /** Only packs of these types (pack_types.slug); every type if omitted */
+  packTypes?: string[];
+  /** Only daily packs dealt for this UTC day (YYYY-MM-DD) */
+  dailyDate?: string;
+}
+
+interface ProfileTotals {
+  profileId: string;
+  displayName: string;
+  anonymousId: string;
+  totalPoints: number;
+  packIds: Set<string>;
+  correctPicks: number;
+  totalPicks: number;
+}
+
+interface ProfileRow {
+  id: string;
+  display_name: string;
+  anonymous_id: string;
 }
 
 // ============================================
@@ -32,23 +109,21 @@ export interface LeaderboardResponse {
 // ============================================
 
 /**
- * Get the start of the current week (Monday 00:00:00 UTC)
+ * Get the start of the week containing a date (Monday 00:00:00 UTC)
  */
-export function getCurrentWeekStart(): Date {
-  const now = new Date();
-  const day = now.getUTCDay();
+export function getWeekStart(date: Date): Date {
+  const day = date.getUTCDay();
   const diff = day === 0 ? -6 : 1 - day; // Adjust so Monday is first day
-  const monday = new Date(now);
-  monday.setUTCDate(now.getUTCDate() + diff);
+  const monday = new Date(date);
+  monday.setUTCDate(date.getUTCDate() + diff);
   monday.setUTCHours(0, 0, 0, 0);
   return monday;
 }
 
 /**
- * Get the end of the current week (Sunday 23:59:59 UTC)
+ * Get the end of the week starting at weekStart (Sunday 23:59:59 UTC)
  */
-export function getCurrentWeekEnd(): Date {
-  const weekStart = getCurrentWeekStart();
+function getWeekEnd(weekStart: Date): Date {
   const sunday = new Date(weekStart);
   sunday.setUTCDate(weekStart.getUTCDate() + 6);
   sunday.setUTCHours(23, 59, 59, 999);
@@ -56,10 +131,10 @@ export function getCurrentWeekEnd(): Date {
 }
 
 /**
- * Get a unique identifier for the current week (YYYY-WW format)
+ * Get the identifier of the week containing a date (YYYY-WW format)
  */
-export function getCurrentWeekId(): string {
-  const weekStart = getCurrentWeekStart();
+export function getWeekId(date: Date): string {
+  const weekStart = getWeekStart(date);
   const year = weekStart.getUTCFullYear();
   const startOfYear = new Date(Date.UTC(year, 0, 1));
   const pastDays = Math.floor(
@@ -69,138 +144,605 @@ export function getCurrentWeekId(): string {
   return `${year}-${String(weekNumber).padStart(2, '0')}`;
 }
 
+/**
+ * Get the start and end of a week from its identifier
+ * Returns null if the identifier isn't a week getWeekId can produce.
+ */
+export function getWeekRange(weekId: string): { start: Date; end: Date } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(weekId);
+  if (!match) return null;
+
+  // Week IDs belong to the year their Monday falls in - walk that year's Mondays
+  const year = Number(match[1]);
+  const monday = getWeekStart(new Date(Date.UTC(year, 0, 7)));
+  monday.setUTCDate(monday.getUTCDate() - 7);
+
+  while (monday.getUTCFullYear() <= year) {
+    if (monday.getUTCFullYear() === year && getWeekId(monday) === weekId) {
+      return { start: new Date(monday), end: getWeekEnd(monday) };
+    }
+    monday.setUTCDate(monday.getUTCDate() + 7);
+  }
+
+  return null;
+}
+
+/**
+ * Get the identifier of the week `offset` weeks from weekId
+ */
+export function shiftWeekId(weekId: string, offset: number): string | null {
+  const range = getWeekRange(weekId);
+  if (!range) return null;
+
+  const shifted = new Date(range.start);
+  shifted.setUTCDate(shifted.getUTCDate() + offset * 7);
+  return getWeekId(shifted);
+}
+
+/**
+ * Get the start of the current week (Monday 00:00:00 UTC)
+ */
+export function getCurrentWeekStart(): Date {
+  return getWeekStart(new Date());
+}
+
+/**
+ * Get the end of the current week (Sunday 23:59:59 UTC)
+ */
+export function getCurrentWeekEnd(): Date {
+  return getWeekEnd(getCurrentWeekStart());
+}
+
+/**
+ * Get a unique identifier for the current week (YYYY-WW format)
+ */
+export function getCurrentWeekId(): string {
+  return getWeekId(new Date());
+}
+
+/**
+ * Get the date range of a leaderboard period
+ * - week / a week ID: Monday to Sunday (UTC)
+ * - month: the current calendar month (UTC)
+ * - all: no range
+ * Returns null for an unknown period or a week that hasn't started.
+ */
+export function getPeriodRange(period: string): PeriodRange | null {
+  const now = new Date();
+
+  if (period === 'all') {
+    return { period: 'all' };
+  }
+
+  if (period === 'week') {
+    const start = getCurrentWeekStart();
+    return { period: 'week', id: getCurrentWeekId(), start, end: getWeekEnd(start) };
+  }
+
+  if (period === 'month') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - 1);
+    return { period: 'month', start, end };
+  }
+
+  const range = getWeekRange(period);
+  if (!range || range.start > now) return null;
+
+  return { period: 'week', id: period, start: range.start, end: range.end };
+}
+
 // ============================================
 // Leaderboard Operations
 // ============================================
+// Weekly boards are materialised: triggers on user_packs/user_picks keep
+// leaderboard_entries current as packs are opened and resolved, the
+// rank-leaderboards cron fills in rank/previous_rank, and a week's
+// standings are frozen into leaderboard_snapshots when it closes.
+
+interface WeeklyBoard {
+  id: string;
+  is_finalized: boolean;
+  player_count: number;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the global board for the week starting at weekStart (null if none yet)
+ */
+async function getWeeklyBoard(weekStart: Date): Promise<WeeklyBoard | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('leaderboards')
+    .select('id, is_finalized, player_count')
+    .eq('week_start', toDateString(weekStart))
+    .eq('leaderboard_type', 'global')
+    .is('category_filter', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching weekly leaderboard:', error);
+    return null;
+  }
+
+  return data as WeeklyBoard | null;
+}
 
 /**
  * Get or create the current week's leaderboard
  */
 export async function getOrCreateWeeklyLeaderboard(): Promise<string | null> {
   const supabase = createServiceClient();
-  const weekId = getCurrentWeekId();
-  const weekStart = getCurrentWeekStart();
-  const weekEnd = getCurrentWeekEnd();
 
-  // Try to get existing leaderboard
-  const { data: existing, error: selectError } = await supabase
-    .from('leaderboards')
-    .select('id')
-    .eq('period_type', 'weekly')
-    .eq('period_identifier', weekId)
-    .single();
+  const { data, error } = await supabase.rpc('get_week_leaderboard', {
+    p_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('Error getting weekly leaderboard:', error);
+    return null;
+  }
+
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Recompute ranks on a board (previous_rank keeps each player's last different rank)
+ * Returns the number of ranked players, or null on error.
+ */
+export async function rankLeaderboard(leaderboardId: string): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('rank_leaderboard', {
+    p_leaderboard_id: leaderboardId,
+  });
+
+  if (error) {
+    console.error('Error ranking leaderboard:', leaderboardId, error);
+    return null;
+  }
+
+  return (data as number) ?? 0;
+}
+
+/**
+ * Count the unresolved picks in the packs counting towards a board's week
+ * Returns null on error.
+ */
+export async function countUnresolvedWeekPicks(leaderboardId: string): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('count_unresolved_week_picks', {
+    p_leaderboard_id: leaderboardId,
+  });
 
-  if (existing && !selectError) {
-    return existing.id;
+  if (error) {
+    console.error('Error counting unresolved week picks:', leaderboardId, error);
+    return null;
   }
 
-  // Create new leaderboard
-  const { data: created, error: insertError } = await supabase
+  return (data as number) ?? 0;
+}
+
+/**
+ * Get weekly boards ready to be frozen: the week has ended and every pick
+ * in its packs is resolved (or void), or the grace period has passed
+ */
+export async function getLeaderboardsToClose(now: Date = new Date()): Promise<string[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
     .from('leaderboards')
-    .insert({
-      period_type: 'weekly',
-      period_identifier: weekId,
-      starts_at: weekStart.toISOString(),
-      ends_at: weekEnd.toISOString(),
-      is_active: true,
-      created_at: new Date().toISOString(),
-    })
-    .select('id')
-    .single();
-
-  if (insertError) {
-    // Might have been created by another request, try to get it again
-    const { data: retry } = await supabase
-      .from('leaderboards')
-      .select('id')
-      .eq('period_type', 'weekly')
-      .eq('period_identifier', weekId)
-      .single();
-
-    return retry?.id ?? null;
+    .select('id, week_start, week_end')
+    .eq('leaderboard_type', 'global')
+    .is('category_filter', null)
+    .eq('is_finalized', false)
+    .lt('week_end', toDateString(now))
+    .order('week_start');
+
+  if (error) {
+    console.error('Error fetching leaderboards to close:', error);
+    return [];
   }
 
-  return created?.id ?? null;
+  const ready: string[] = [];
+
+  for (const board of data ?? []) {
+    // week_end is the week's last day - it ends at the following midnight UTC
+    const endedAt = new Date(`${board.week_end}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000;
+    if (now.getTime() - endedAt >= SEASON_CLOSE_GRACE_MS) {
+      ready.push(board.id);
+      continue;
+    }
+
+    const unresolved = await countUnresolvedWeekPicks(board.id);
+    if (unresolved === 0) {
+      ready.push(board.id);
+    } else if (unresolved !== null) {
+      console.log(`Week of ${board.week_start} waiting on ${unresolved} unresolved picks`);
+    }
+  }
+
+  return ready;
 }
 
 /**
- * Get the current week's leaderboard entries
+ * Close a week: final ranking, frozen snapshot and best weekly rank on profiles
+ * Returns the number of players in the snapshot (0 if already closed), or null on error.
  */
-export async function getCurrentWeekLeaderboard(
-  limit: number = 10,
-  offset: number = 0,
+export async function finalizeLeaderboard(leaderboardId: string): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('finalize_leaderboard', {
+    p_leaderboard_id: leaderboardId,
+  });
+
+  if (error) {
+    console.error('Error finalizing leaderboard:', leaderboardId, error);
+    return null;
+  }
+
+  return (data as number) ?? 0;
+}
+
+// ============================================
+// Rankings
+// ============================================
+
+/**
+ * Read every row of a query, a page at a time
+ * Returns null if any page fails.
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>
+): Promise<T[] | null> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching leaderboard rows:', error);
+      return null;
+    }
+
+    const page = (data ?? []) as T[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+function addToTotals(
+  totals: Map<string, ProfileTotals>,
+  profile: ProfileRow,
+  packId: string,
+  points: number,
+  correctPicks: number,
+  picks: number
+) {
+  let entry = totals.get(profile.id);
+  if (!entry) {
+    entry = {
+      profileId: profile.id,
+      displayName: profile.display_name || 'Anonymous',
+      anonymousId: profile.anonymous_id,
+      totalPoints: 0,
+      packIds: new Set(),
+      correctPicks: 0,
+      totalPicks: 0,
+    };
+    totals.set(profile.id, entry);
+  }
+
+  entry.totalPoints += points;
+  entry.packIds.add(packId);
+  entry.correctPicks += correctPicks;
+  entry.totalPicks += picks;
+}
+
+/**
+ * Totals per profile from pack-level points (includes pack bonuses)
+ */
+async function getPackTotals(
+  range: PeriodRange,
+  scope?: LeaderboardScope
+): Promise<Map<string, ProfileTotals> | null> {
+  const supabase = createServiceClient();
+
+  const packs = await fetchAllRows<{
+    id: string;
+    total_points: number | null;
+    correct_picks: number | null;
+    pack_types: { cards_per_pack: number } | null;
+    user_profiles: ProfileRow;
+  }>((from, to) => {
+    let query = supabase
+      .from('user_packs')
+      .select(`
+        id,
+        total_points,
+        correct_picks,
+        pack_types${scope?.packTypes ? '!inner' : ''} ( slug, cards_per_pack ),
+        user_profiles!inner (
+          id,
+          display_name,
+          anonymous_id
+        )
+      `)
+      .order('id')
+      .range(from, to);
+
+    if (range.start) query = query.gte('opened_at', range.start.toISOString());
+    if (range.end) query = query.lte('opened_at', range.end.toISOString());
+    if (scope?.profileIds) query = query.in('profile_id', scope.profileIds);
+    if (scope?.dailyDate) query = query.eq('daily_date', scope.dailyDate);
+    if (scope?.packTypes) query = query.in('pack_types.slug', scope.packTypes);
+
+    return query;
+  });
+  if (!packs) return null;
+
+  const totals = new Map<string, ProfileTotals>();
+  for (const pack of packs) {
+    addToTotals(
+      totals,
+      pack.user_profiles,
+      pack.id,
+      pack.total_points ?? 0,
+      pack.correct_picks ?? 0,
+      pack.pack_types?.cards_per_pack ?? 5
+    );
+  }
+
+  return totals;
+}
+
+/**
+ * Totals per profile from pick-level points on one category's events
+ * Pack bonuses span categories, so they aren't counted; void picks don't
+ * count towards accuracy.
+ */
+async function getCategoryTotals(
+  range: PeriodRange,
+  category: EventCategory
+): Promise<Map<string, ProfileTotals> | null> {
+  const supabase = createServiceClient();
+
+  const picks = await fetchAllRows<{
+    user_pack_id: string;
+    points_awarded: number | null;
+    is_correct: boolean | null;
+    is_void: boolean | null;
+    user_packs: { user_profiles: ProfileRow };
+  }>((from, to) => {
+    let query = supabase
+      .from('user_picks')
+      .select(`
+        user_pack_id,
+        points_awarded,
+        is_correct,
+        is_void,
+        events!inner ( category ),
+        user_packs!inner (
+          opened_at,
+          user_profiles!inner (
+            id,
+            display_name,
+            anonymous_id
+          )
+        )
+      `)
+      .eq('events.category', category)
+      .order('id')
+      .range(from, to);
+
+    if (range.start) query = query.gte('user_packs.opened_at', range.start.toISOString());
+    if (range.end) query = query.lte('user_packs.opened_at', range.end.toISOString());
+
+    return query;
+  });
+  if (!picks) return null;
+
+  const totals = new Map<string, ProfileTotals>();
+  for (const pick of picks) {
+    addToTotals(
+      totals,
+      pick.user_packs.user_profiles,
+      pick.user_pack_id,
+      pick.points_awarded ?? 0,
+      pick.is_correct ? 1 : 0,
+      pick.is_void ? 0 : 1
+    );
+  }
+
+  return totals;
+}
+
+interface RankedRow {
+  profile_id: string;
+  rank: number | null;
+  previous_rank: number | null;
+  total_points: number;
+  packs_opened: number;
+  accuracy_rate: number | null;
+  user_profiles: { display_name: string | null; anonymous_id: string | null };
+}
+
+/**
+ * Get a player's row on a weekly board (rank and points)
+ */
+async function getUserWeeklyRow(
+  board: WeeklyBoard,
+  anonymousId: string
+): Promise<{ rank?: number; points: number } | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from(board.is_finalized ? 'leaderboard_snapshots' : 'leaderboard_entries')
+    .select('rank, total_points, user_profiles!inner(anonymous_id)')
+    .eq('leaderboard_id', board.id)
+    .eq('user_profiles.anonymous_id', anonymousId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching user weekly rank:', error);
+    return null;
+  }
+
+  if (!data) return null;
+
+  return { rank: data.rank ?? undefined, points: Number(data.total_points) };
+}
+
+/**
+ * Get a page of a weekly board, plus the caller's rank
+ * Served from the materialised entries (or the snapshot once the week is
+ * closed): one query for the page and one for the caller's row.
+ */
+async function getWeeklyRankings(
+  weekStart: Date,
+  limit: number,
+  offset: number,
   anonymousId?: string
 ): Promise<LeaderboardResponse> {
   const supabase = createServiceClient();
 
-  // Get this week's time range
-  const weekStart = getCurrentWeekStart();
-  const weekEnd = getCurrentWeekEnd();
-
-  // Calculate stats from user_packs opened this week
-  // We aggregate from user_packs joined with user_profiles
-  const { data: weeklyStats, error: statsError } = await supabase
-    .from('user_packs')
-    .select(`
-      profile_id,
-      total_points,
-      correct_picks,
-      user_profiles!inner (
-        id,
-        display_name,
-        anonymous_id
-      )
-    `)
-    .gte('opened_at', weekStart.toISOString())
-    .lte('opened_at', weekEnd.toISOString());
-
-  if (statsError) {
-    console.error('Error fetching weekly stats:', statsError);
+  const board = await getWeeklyBoard(weekStart);
+  if (!board) {
     return { entries: [], totalPlayers: 0 };
   }
 
-  // Aggregate stats by profile
-  const profileStats = new Map<
-    string,
-    {
-      profileId: string;
-      displayName: string;
-      anonymousId: string;
-      totalPoints: number;
-      packsOpened: number;
-      correctPicks: number;
-      totalPicks: number;
-    }
-  >();
+  const table = board.is_finalized ? 'leaderboard_snapshots' : 'leaderboard_entries';
+  const columns = `
+    profile_id,
+    rank,
+    previous_rank,
+    total_points,
+    packs_opened,
+    accuracy_rate,
+    user_profiles!inner (
+      display_name,
+      anonymous_id
+    )
+  `;
+
+  // Players who joined since the last rank job have no rank yet - they go last
+  const { data, error } = await supabase
+    .from(table)
+    .select(columns)
+    .eq('leaderboard_id', board.id)
+    .order('rank', { ascending: true, nullsFirst: false })
+    .order('total_points', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error('Error fetching weekly rankings:', error);
+    return { entries: [], totalPlayers: 0 };
+  }
 
-  for (const pack of weeklyStats ?? []) {
-    const profile = pack.user_profiles as unknown as {
-      id: string;
-      display_name: string;
-      anonymous_id: string;
-    };
+  const rows = (data ?? []) as unknown as RankedRow[];
+  const entries: LeaderboardEntry[] = rows.map((row, index) => ({
+    rank: row.rank ?? offset + index + 1,
+    previousRank: row.previous_rank ?? undefined,
+    profileId: row.profile_id,
+    displayName: row.user_profiles.display_name || 'Anonymous',
+    totalPoints: Number(row.total_points),
+    packsOpened: row.packs_opened,
+    accuracy: Number(row.accuracy_rate ?? 0),
+    isCurrentUser: anonymousId ? row.user_profiles.anonymous_id === anonymousId : false,
+  }));
 
-    const existing = profileStats.get(profile.id);
-    if (existing) {
-      existing.totalPoints += pack.total_points ?? 0;
-      existing.packsOpened += 1;
-      existing.correctPicks += pack.correct_picks ?? 0;
-      existing.totalPicks += 5; // Assuming 5 picks per pack
-    } else {
-      profileStats.set(profile.id, {
-        profileId: profile.id,
-        displayName: profile.display_name || 'Anonymous',
-        anonymousId: profile.anonymous_id,
-        totalPoints: pack.total_points ?? 0,
-        packsOpened: 1,
-        correctPicks: pack.correct_picks ?? 0,
-        totalPicks: 5,
-      });
-    }
+  const userRow = anonymousId ? await getUserWeeklyRow(board, anonymousId) : null;
+
+  return {
+    entries,
+    totalPlayers: Math.max(board.player_count, offset + entries.length),
+    userRank: userRow?.rank,
+    userPoints: userRow?.points,
+  };
+}
+
+/**
+ * Get leaderboard entries for a period, optionally within one category
+ * Returns null if the period isn't valid (unknown, or a week that hasn't started).
+ */
+export async function getLeaderboard(
+  options: LeaderboardOptions = {}
+): Promise<LeaderboardResponse | null> {
+  const { category, limit = 10, offset = 0, anonymousId } = options;
+
+  const range = getPeriodRange(options.period ?? 'week');
+  if (!range) return null;
+
+  const periodInfo: Partial<LeaderboardResponse> = {
+    period: range.period,
+    category,
+  };
+  if (range.id) {
+    const nextWeekId = shiftWeekId(range.id, 1);
+    periodInfo.weekId = range.id;
+    periodInfo.previousWeekId = shiftWeekId(range.id, -1) ?? undefined;
+    periodInfo.nextWeekId =
+      nextWeekId && nextWeekId <= getCurrentWeekId() ? nextWeekId : undefined;
+  }
+
+  // Global weekly boards are materialised
+  if (!category && range.period === 'week' && range.start) {
+    const weekly = await getWeeklyRankings(range.start, limit, offset, anonymousId);
+    return { ...weekly, ...periodInfo };
+  }
+
+  const totals = category
+    ? await getCategoryTotals(range, category)
+    : await getPackTotals(range);
+
+  if (!totals) {
+    return { entries: [], totalPlayers: 0, ...periodInfo };
   }
 
+  const ranked = rankTotals(totals, limit, offset, (entry) =>
+    anonymousId ? entry.anonymousId === anonymousId : false
+  );
+  return { ...ranked, ...periodInfo };
+}
+
+/**
+ * Get a leaderboard for a date range scoped to some players and pack types
+ * Used by league and daily boards; ranks on pack-level points like the global board.
+ */
+export async function getScopedLeaderboard(
+  range: PeriodRange,
+  scope: LeaderboardScope,
+  options: { limit?: number; offset?: number; profileId?: string } = {}
+): Promise<LeaderboardResponse> {
+  const { limit = 50, offset = 0, profileId } = options;
+
+  if (scope.profileIds?.length === 0 || scope.packTypes?.length === 0) {
+    return { entries: [], totalPlayers: 0 };
+  }
+
+  const totals = await getPackTotals(range, scope);
+  if (!totals) {
+    return { entries: [], totalPlayers: 0 };
+  }
+
+  return rankTotals(totals, limit, offset, (entry) => entry.profileId === profileId);
+}
+
+/**
+ * Rank aggregated totals and take a page, plus the caller's rank
+ */
+function rankTotals(
+  totals: Map<string, ProfileTotals>,
+  limit: number,
+  offset: number,
+  isCurrentUser: (entry: ProfileTotals) => boolean
+): LeaderboardResponse {
   // Sort by total points descending
-  const sortedEntries = Array.from(profileStats.values()).sort(
+  const sortedEntries = Array.from(totals.values()).sort(
     (a, b) => b.totalPoints - a.totalPoints
   );
 
@@ -210,20 +752,18 @@ export async function getCurrentWeekLeaderboard(
     profileId: entry.profileId,
     displayName: entry.displayName,
     totalPoints: entry.totalPoints,
-    packsOpened: entry.packsOpened,
+    packsOpened: entry.packIds.size,
     accuracy: entry.totalPicks > 0 ? entry.correctPicks / entry.totalPicks : 0,
-    isCurrentUser: anonymousId ? entry.anonymousId === anonymousId : false,
+    isCurrentUser: isCurrentUser(entry),
   }));
 
   // Find user's rank and points
   let userRank: number | undefined;
   let userPoints: number | undefined;
-  if (anonymousId) {
-    const userEntry = rankedEntries.find((e) => e.isCurrentUser);
-    if (userEntry) {
-      userRank = userEntry.rank;
-      userPoints = userEntry.totalPoints;
-    }
+  const userEntry = rankedEntries.find((e) => e.isCurrentUser);
+  if (userEntry) {
+    userRank = userEntry.rank;
+    userPoints = userEntry.totalPoints;
   }
 
   // Apply pagination
@@ -238,93 +778,28 @@ export async function getCurrentWeekLeaderboard(
 }
 
 /**
- * Get a user's rank in the current week's leaderboard
+ * Get the current week's leaderboard entries
  */
-export async function getUserWeeklyRank(
-  anonymousId: string
-): Promise<{ rank: number; points: number } | null> {
-  const result = await getCurrentWeekLeaderboard(1000, 0, anonymousId);
-
-  if (result.userRank !== undefined && result.userPoints !== undefined) {
-    return {
-      rank: result.userRank,
-      points: result.userPoints,
-    };
-  }
-
-  return null;
+export async function getCurrentWeekLeaderboard(
+  limit: number = 10,
+  offset: number = 0,
+  anonymousId?: string
+): Promise<LeaderboardResponse> {
+  const result = await getLeaderboard({ period: 'week', limit, offset, anonymousId });
+  return result ?? { entries: [], totalPlayers: 0 };
 }
 
 /**
- * Update or create a leaderboard entry for a profile
- * This is called after a pack is completed
+ * Get a user's rank in the current week's leaderboard
  */
-export async function updateLeaderboardEntry(
-  profileId: string,
-  pointsToAdd: number,
-  packsToAdd: number = 1,
-  correctPicksToAdd: number = 0,
-  totalPicksToAdd: number = 5
-): Promise<boolean> {
-  const supabase = createServiceClient();
-
-  // Get or create the current week's leaderboard
-  const leaderboardId = await getOrCreateWeeklyLeaderboard();
-  if (!leaderboardId) {
-    console.error('Failed to get or create weekly leaderboard');
-    return false;
-  }
+export async function getUserWeeklyRank(
+  anonymousId: string
+): Promise<{ rank: number; points: number } | null> {
+  const board = await getWeeklyBoard(getCurrentWeekStart());
+  if (!board) return null;
 
-  // Check if entry exists
-  const { data: existing, error: selectError } = await supabase
-    .from('leaderboard_entries')
-    .select('*')
-    .eq('leaderboard_id', leaderboardId)
-    .eq('profile_id', profileId)
-    .single();
-
-  if (existing && !selectError) {
-    // Update existing entry
-    const { error: updateError } = await supabase
-      .from('leaderboard_entries')
-      .update({
-        total_points: (existing.total_points ?? 0) + pointsToAdd,
-        packs_opened: (existing.packs_opened ?? 0) + packsToAdd,
-        correct_picks: (existing.correct_picks ?? 0) + correctPicksToAdd,
-        picks_made: (existing.picks_made ?? 0) + totalPicksToAdd,
-        accuracy_rate:
-          ((existing.correct_picks ?? 0) + correctPicksToAdd) /
-          ((existing.picks_made ?? 0) + totalPicksToAdd),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', existing.id);
-
-    if (updateError) {
-      console.error('Error updating leaderboard entry:', updateError);
-      return false;
-    }
-  } else {
-    // Create new entry
-    const { error: insertError } = await supabase
-      .from('leaderboard_entries')
-      .insert({
-        leaderboard_id: leaderboardId,
-        profile_id: profileId,
-        total_points: pointsToAdd,
-        packs_opened: packsToAdd,
-        correct_picks: correctPicksToAdd,
-        picks_made: totalPicksToAdd,
-        accuracy_rate: totalPicksToAdd > 0 ? correctPicksToAdd / totalPicksToAdd : 0,
-        rank: 0, // Will be calculated later
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      });
-
-    if (insertError) {
-      console.error('Error creating leaderboard entry:', insertError);
-      return false;
-    }
-  }
+  const row = await getUserWeeklyRow(board, anonymousId);
+  if (row?.rank === undefined) return null;
 
-  return true;
+  return { rank: row.rank, points: row.points };
 }
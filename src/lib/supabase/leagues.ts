@@ -0,0 +1,407 @@
+/**
+ * Supabase League Functions
+ *
+ * Private friend leagues: membership by invite code, admin settings and
+ * the league leaderboard. League boards reuse the global pack aggregation
+ * (getScopedLeaderboard), scoped to the league's members, the pack types
+ * it counts and the dates of one of its seasons.
+ */
+
+import crypto from 'crypto';
+import { createServiceClient } from './server';
+import { getCurrentWeekStart, getScopedLeaderboard } from './leaderboard';
+import type { LeaderboardResponse } from './leaderboard';
+
+// ============================================
+// Constants
+// ============================================
+
+// Most members a league can have
+export const LEAGUE_MEMBER_LIMIT = 50;
+
+// Most leagues a profile can create
+export const LEAGUES_OWNED_LIMIT = 10;
+
+export const LEAGUE_NAME_MAX_LENGTH = 40;
+export const LEAGUE_SEASON_MAX_WEEKS = 52;
+
+// Invite codes: no 0/O or 1/I so they survive being read out loud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type LeagueRole = 'admin' | 'member';
+
+export interface League {
+  id: string;
+  name: string;
+  invite_code: string;
+  owner_profile_id: string;
+  /** pack_types.slug counted on the board; null = every pack type */
+  counted_pack_types: string[] | null;
+  season_length_weeks: number;
+  /** First season's Monday (YYYY-MM-DD) */
+  season_start: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeagueSummary extends League {
+  role: LeagueRole;
+  memberCount: number;
+}
+
+export interface LeagueMember {
+  profileId: string;
+  displayName: string;
+  role: LeagueRole;
+  joinedAt: string;
+}
+
+export interface LeagueSeason {
+  /** 1 for the league's first season */
+  number: number;
+  start: Date;
+  end: Date;
+}
+
+export interface LeaguePackType {
+  slug: string;
+  name: string;
+}
+
+export interface LeagueSettingsUpdate {
+  name?: string;
+  countedPackTypes?: string[] | null;
+  seasonLengthWeeks?: number;
+}
+
+export type JoinLeagueResult =
+  | { leagueId: string }
+  | { error: 'not_found' | 'full' };
+
+// ============================================
+// Invite Codes
+// ============================================
+
+/**
+ * Generate a random invite code
+ */
+function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes, (b) => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Normalise a code as typed or pasted by a player
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// ============================================
+// Leagues
+// ============================================
+
+/**
+ * Create a league with its creator as admin
+ * Returns null if the league couldn't be created.
+ */
+export async function createLeague(name: string, ownerProfileId: string): Promise<League | null> {
+  const supabase = createServiceClient();
+
+  // Retry on the (unlikely) invite code collision
+  let league: League | null = null;
+  for (let attempt = 0; attempt < 3 && !league; attempt++) {
+    const { data, error } = await supabase
+      .from('leagues')
+      .insert({
+        name,
+        invite_code: generateInviteCode(),
+        owner_profile_id: ownerProfileId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') continue;
+      console.error('Error creating league:', error);
+      return null;
+    }
+
+    league = data as League;
+  }
+
+  if (!league) {
+    console.error('Error creating league: no unique invite code');
+    return null;
+  }
+
+  const { error: memberError } = await supabase
+    .from('league_members')
+    .insert({ league_id: league.id, profile_id: ownerProfileId, role: 'admin' });
+
+  if (memberError) {
+    console.error('Error adding league owner:', league.id, memberError);
+    await supabase.from('leagues').delete().eq('id', league.id);
+    return null;
+  }
+
+  return league;
+}
+
+/**
+ * Count the leagues a profile owns
+ */
+export async function countOwnedLeagues(profileId: string): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const { count, error } = await supabase
+    .from('leagues')
+    .select('id', { count: 'exact', head: true })
+    .eq('owner_profile_id', profileId);
+
+  if (error) {
+    console.error('Error counting owned leagues:', profileId, error);
+    return null;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Join a league by invite code
+ * Joining a league you're already in succeeds. Returns null on error.
+ */
+export async function joinLeague(
+  inviteCode: string,
+  profileId: string
+): Promise<JoinLeagueResult | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('join_league', {
+    p_invite_code: normalizeInviteCode(inviteCode),
+    p_profile_id: profileId,
+    p_max_members: LEAGUE_MEMBER_LIMIT,
+  });
+
+  if (error) {
+    console.error('Error joining league:', error);
+    return null;
+  }
+
+  const row = (data as { league_id: string | null; reason: string | null }[] | null)?.[0];
+  if (!row) return null;
+
+  if (!row.league_id) {
+    return { error: row.reason === 'full' ? 'full' : 'not_found' };
+  }
+
+  return { leagueId: row.league_id };
+}
+
+/**
+ * Get a league by ID
+ */
+export async function getLeague(leagueId: string): Promise<League | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('leagues')
+    .select('*')
+    .eq('id', leagueId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching league:', leagueId, error);
+    return null;
+  }
+
+  return data as League | null;
+}
+
+/**
+ * Get the leagues a profile belongs to, newest first
+ */
+export async function getLeaguesForProfile(profileId: string): Promise<LeagueSummary[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('league_members')
+    .select('role, leagues!inner (*)')
+    .eq('profile_id', profileId);
+
+  if (error) {
+    console.error('Error fetching leagues for profile:', profileId, error);
+    return [];
+  }
+
+  const rows = (data ?? []) as unknown as { role: LeagueRole; leagues: League }[];
+  if (rows.length === 0) return [];
+
+  // Member counts for every league in one read
+  const { data: members, error: membersError } = await supabase
+    .from('league_members')
+    .select('league_id')
+    .in('league_id', rows.map((row) => row.leagues.id));
+
+  if (membersError) {
+    console.error('Error counting league members:', membersError);
+  }
+
+  const counts = new Map<string, number>();
+  for (const member of members ?? []) {
+    counts.set(member.league_id, (counts.get(member.league_id) ?? 0) + 1);
+  }
+
+  return rows
+    .map((row) => ({
+      ...row.leagues,
+      role: row.role,
+      memberCount: counts.get(row.leagues.id) ?? 0,
+    }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Update a league's settings (admins only - the caller checks)
+ */
+export async function updateLeagueSettings(
+  leagueId: string,
+  settings: LeagueSettingsUpdate
+): Promise<League | null> {
+  const supabase = createServiceClient();
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (settings.name !== undefined) update.name = settings.name;
+  if (settings.countedPackTypes !== undefined) update.counted_pack_types = settings.countedPackTypes;
+  if (settings.seasonLengthWeeks !== undefined) update.season_length_weeks = settings.seasonLengthWeeks;
+
+  const { data, error } = await supabase
+    .from('leagues')
+    .update(update)
+    .eq('id', leagueId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating league settings:', leagueId, error);
+    return null;
+  }
+
+  return data as League;
+}
+
+/**
+ * Get every pack type a league can count (slug and name)
+ */
+export async function getLeaguePackTypes(): Promise<LeaguePackType[] | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_types')
+    .select('slug, name')
+    .order('slug');
+
+  if (error) {
+    console.error('Error fetching pack types:', error);
+    return null;
+  }
+
+  return (data ?? []) as LeaguePackType[];
+}
+
+// ============================================
+// Members
+// ============================================
+
+/**
+ * Get a league's members, oldest first
+ */
+export async function getLeagueMembers(leagueId: string): Promise<LeagueMember[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('league_members')
+    .select(`
+      role,
+      joined_at,
+      user_profiles!inner (
+        id,
+        display_name
+      )
+    `)
+    .eq('league_id', leagueId)
+    .order('joined_at');
+
+  if (error) {
+    console.error('Error fetching league members:', leagueId, error);
+    return [];
+  }
+
+  const rows = (data ?? []) as unknown as {
+    role: LeagueRole;
+    joined_at: string;
+    user_profiles: { id: string; display_name: string | null };
+  }[];
+
+  return rows.map((row) => ({
+    profileId: row.user_profiles.id,
+    displayName: row.user_profiles.display_name || 'Anonymous',
+    role: row.role,
+    joinedAt: row.joined_at,
+  }));
+}
+
+// ============================================
+// Seasons & Leaderboard
+// ============================================
+
+/**
+ * Get a league season's dates
+ * offset 0 is the current season, -1 the one before, and so on.
+ * Returns null for seasons before the league's first.
+ */
+export function getLeagueSeason(league: League, offset = 0): LeagueSeason | null {
+  const firstStart = new Date(`${league.season_start}T00:00:00.000Z`);
+  const seasonMs = league.season_length_weeks * WEEK_MS;
+
+  const elapsed = getCurrentWeekStart().getTime() - firstStart.getTime();
+  const current = Math.max(0, Math.floor(elapsed / seasonMs));
+  const index = current + offset;
+  if (index < 0 || offset > 0) return null;
+
+  const start = new Date(firstStart.getTime() + index * seasonMs);
+  const end = new Date(start.getTime() + seasonMs - 1);
+
+  return { number: index + 1, start, end };
+}
+
+/**
+ * Get a league's leaderboard for one of its seasons
+ * Returns null for a season that doesn't exist.
+ */
+export async function getLeagueLeaderboard(
+  league: League,
+  members: LeagueMember[],
+  options: { season?: number; profileId?: string; limit?: number } = {}
+): Promise<(LeaderboardResponse & { season: LeagueSeason }) | null> {
+  const season = getLeagueSeason(league, options.season ?? 0);
+  if (!season) return null;
+
+  const board = await getScopedLeaderboard(
+    { period: 'week', start: season.start, end: season.end },
+    {
+      profileIds: members.map((m) => m.profileId),
+      packTypes: league.counted_pack_types ?? undefined,
+    },
+    { limit: options.limit ?? LEAGUE_MEMBER_LIMIT, profileId: options.profileId }
+  );
+
+  return { ...board, season };
+}
@@ -0,0 +1,309 @@
+/**
+ * Supabase Pack Seed Functions
+ *
+ * Provably fair pool packs (see lib/pools/fairness): a seed commitment -
+ * with a snapshot of the selection inputs - is created before the pack is
+ * dealt, claimed with the client seed when the pack is dealt, and revealed
+ * once its picks are committed.
+ */
+
+import { createServiceClient } from './server';
+import { getEligibleEventsForPackType, getEventsByIds } from '@/lib/pools';
+import { getPackTypeDropRates, parseSelectionConstraints } from '@/lib/pools/packTypes';
+import {
+  dealFairPack,
+  FAIR_RANDOM_STREAM,
+  generateSeed,
+  hashServerSeed,
+  hashPackInputs,
+  toFairPool,
+  type FairPackInputs,
+} from '@/lib/pools/fairness';
+import type { Event, PackType, Rarity } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// An unclaimed commitment is handed out again for this long, while its
+// pool snapshot is still current
+export const PACK_SEED_REUSE_MS = 10 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PackSeed {
+  /** The pack's ID */
+  id: string;
+  profile_id: string;
+  pack_type_slug: string;
+  /** Paid pack (null for commitments made before this was recorded) */
+  is_premium: boolean | null;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string | null;
+  /** Recorded at commit time (null for packs committed before inputs were) */
+  inputs: FairPackInputs | null;
+  inputs_hash: string | null;
+  event_ids: string[] | null;
+  dealt_at: string | null;
+  revealed_at: string | null;
+  created_at: string;
+}
+
+export interface PackSeedCommitment {
+  packId: string;
+  serverSeedHash: string;
+  inputsHash: string;
+}
+
+// ============================================
+// Commitments
+// ============================================
+
+/**
+ * Snapshot what a pack of this type would be dealt from right now: its
+ * eligible pool, drop table, selection constraints and pity guarantee
+ * Returns null if the pack type has too few eligible events.
+ */
+export async function snapshotPackInputs(
+  packType: Pick<
+    PackType,
+    'slug' | 'eligibility_filters' | 'cards_per_pack' | 'drop_rates' | 'selection_constraints'
+  >,
+  options: { guaranteeRarity?: Rarity } = {}
+): Promise<FairPackInputs | null> {
+  const eligibleEvents = await getEligibleEventsForPackType(packType, createServiceClient());
+  if (eligibleEvents.length === 0) return null;
+
+  return {
+    cardsPerPack: packType.cards_per_pack,
+    dropRates: getPackTypeDropRates(packType),
+    guaranteeRarity: options.guaranteeRarity ?? null,
+    constraints: parseSelectionConstraints(packType.selection_constraints),
+    stream: FAIR_RANDOM_STREAM,
+    pool: toFairPool(eligibleEvents),
+  };
+}
+
+/**
+ * Commit to a server seed and selection inputs for a pack that's about
+ * to be dealt (free or premium)
+ * Returns the pack ID to deal it under and the two hashes, null on error.
+ */
+export async function createPackSeed(
+  profileId: string,
+  packTypeSlug: string,
+  inputs: FairPackInputs,
+  isPremium = false
+): Promise<PackSeedCommitment | null> {
+  const supabase = createServiceClient();
+
+  const packId = crypto.randomUUID();
+  const serverSeed = generateSeed();
+  const [serverSeedHash, inputsHash] = await Promise.all([
+    hashServerSeed(serverSeed),
+    hashPackInputs(inputs),
+  ]);
+
+  const { error } = await supabase.from('pack_seeds').insert({
+    id: packId,
+    profile_id: profileId,
+    pack_type_slug: packTypeSlug,
+    is_premium: isPremium,
+    server_seed: serverSeed,
+    server_seed_hash: serverSeedHash,
+    inputs,
+    inputs_hash: inputsHash,
+  });
+
+  if (error) {
+    console.error('Error creating pack seed:', error);
+    return null;
+  }
+
+  return { packId, serverSeedHash, inputsHash };
+}
+
+/**
+ * Get a profile's latest unclaimed commitment for a pack type (of the same
+ * kind, free or premium) made since `since`, so repeated requests reuse it
+ * instead of piling up commitments
+ */
+export async function getOpenPackSeed(
+  profileId: string,
+  packTypeSlug: string,
+  isPremium: boolean,
+  since: Date
+): Promise<PackSeedCommitment | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_seeds')
+    .select('id, server_seed_hash, inputs_hash')
+    .eq('profile_id', profileId)
+    .eq('pack_type_slug', packTypeSlug)
+    .eq('is_premium', isPremium)
+    .is('client_seed', null)
+    .not('inputs_hash', 'is', null)
+    // Commitments made before the HMAC stream aren't dealt from again
+    .eq('inputs->>stream', FAIR_RANDOM_STREAM)
+    .gt('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching open pack seed:', profileId, error);
+    return null;
+  }
+
+  if (!data) return null;
+
+  return { packId: data.id, serverSeedHash: data.server_seed_hash, inputsHash: data.inputs_hash };
+}
+
+/**
+ * Get a pack's seed commitment
+ */
+export async function getPackSeed(packId: string): Promise<PackSeed | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_seeds')
+    .select('*')
+    .eq('id', packId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pack seed:', packId, error);
+    return null;
+  }
+
+  return data as PackSeed | null;
+}
+
+/**
+ * Claim a commitment to deal its pack, recording the client seed
+ * A commitment takes one client seed, for the profile and pack type it
+ * was made for. Until the pack is marked dealt it can be claimed again
+ * with the same client seed, so a deal that failed can be retried.
+ * Returns null if there's no such commitment.
+ */
+export async function claimPackSeed(
+  packId: string,
+  profileId: string,
+  packTypeSlug: string,
+  clientSeed: string
+): Promise<PackSeed | null> {
+  const seed = await getPackSeed(packId);
+  if (
+    !seed ||
+    seed.profile_id !== profileId ||
+    seed.pack_type_slug !== packTypeSlug ||
+    seed.dealt_at ||
+    !seed.inputs
+  ) {
+    return null;
+  }
+
+  if (seed.client_seed !== null) {
+    return seed.client_seed === clientSeed ? seed : null;
+  }
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_seeds')
+    .update({ client_seed: clientSeed })
+    .eq('id', packId)
+    .is('client_seed', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error claiming pack seed:', packId, error);
+    return null;
+  }
+
+  // A concurrent claim may have set it first - only the same seed stands
+  if (!data) {
+    const claimed = await getPackSeed(packId);
+    return claimed?.client_seed === clientSeed ? claimed : null;
+  }
+
+  return data as PackSeed;
+}
+
+/**
+ * Mark a claimed commitment dealt, recording the dealt event IDs
+ * Called once the pack's draft is stored; the pack can't be dealt again.
+ */
+export async function markPackSeedDealt(packId: string, eventIds: string[]): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('pack_seeds')
+    .update({
+      event_ids: eventIds,
+      dealt_at: new Date().toISOString(),
+    })
+    .eq('id', packId)
+    .is('dealt_at', null);
+
+  if (error) {
+    console.error('Error marking pack seed dealt:', packId, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Reveal a pack's server seed (once its picks are committed)
+ */
+export async function revealPackSeed(packId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('pack_seeds')
+    .update({ revealed_at: new Date().toISOString() })
+    .eq('id', packId)
+    .is('revealed_at', null);
+
+  if (error) {
+    console.error('Error revealing pack seed:', packId, error);
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================
+// Dealing
+// ============================================
+
+/**
+ * Deal a pack from a claimed commitment
+ * Replays the selection over the inputs recorded at commit time with the
+ * server and client seeds, then loads the dealt events. Writes nothing, so
+ * the same commitment always deals the same pack. Returns an empty list
+ * if the dealt events couldn't be loaded.
+ */
+export async function dealSeededPack(seed: PackSeed): Promise<Event[]> {
+  if (!seed.client_seed || !seed.inputs) return [];
+
+  const dealt = dealFairPack(seed.inputs, seed.server_seed, seed.client_seed);
+
+  const events = await getEventsByIds(dealt.map((e) => e.id), createServiceClient());
+  if (!events) return [];
+
+  // Keep the odds and rarity the cards were dealt at
+  return events.map((event, i) => ({
+    ...event,
+    outcome_a_probability: dealt[i].outcome_a_probability,
+    outcome_b_probability: dealt[i].outcome_b_probability,
+    rarityInfo: dealt[i].rarityInfo,
+  }));
+}
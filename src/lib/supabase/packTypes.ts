@@ -0,0 +1,106 @@
+/**
+ * Supabase Pack Type Functions
+ *
+ * Pack types are data: each pack_types row sets a pack's eligibility
+ * filters, cards per pack, availability window, drop table and pity
+ * threshold (see lib/pools/packTypes).
+ */
+
+import { createServiceClient } from './server';
+import { getPackTypeAvailability, type PackTypeAvailability } from '@/lib/pools/packTypes';
+import type { DropRates } from '@/lib/rarity';
+import type { PackType } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ListedPackType extends PackType {
+  availability: PackTypeAvailability;
+}
+
+export interface PackTypeOddsUpdate {
+  /** null = back to the default rates */
+  dropRates?: DropRates | null;
+  /** null = no pity timer */
+  pityThreshold?: number | null;
+}
+
+// ============================================
+// Pack Types
+// ============================================
+
+/**
+ * Get a pack type by slug
+ */
+export async function getPackType(slug: string): Promise<PackType | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_types')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pack type:', slug, error);
+    return null;
+  }
+
+  return data as PackType | null;
+}
+
+/**
+ * Get the pack types players can see, in display order
+ * Inactive and ended pack types are hidden; upcoming ones are listed
+ * so they can be shown as coming soon.
+ */
+export async function getListedPackTypes(now: Date = new Date()): Promise<ListedPackType[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_types')
+    .select('*')
+    .eq('is_active', true)
+    .order('display_order')
+    .order('slug');
+
+  if (error) {
+    console.error('Error fetching pack types:', error);
+    return [];
+  }
+
+  return ((data ?? []) as PackType[])
+    .map((packType) => ({ ...packType, availability: getPackTypeAvailability(packType, now) }))
+    .filter((packType) => packType.availability !== 'ended');
+}
+
+/**
+ * Update a pack type's drop table and pity threshold
+ * The drop table must already be validated (parseDropRates); the database
+ * checks it again. Returns the updated pack type, null on error.
+ */
+export async function updatePackTypeOdds(
+  slug: string,
+  update: PackTypeOddsUpdate
+): Promise<PackType | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_types')
+    .update({
+      ...(update.dropRates !== undefined && { drop_rates: update.dropRates }),
+      ...(update.pityThreshold !== undefined && { pity_threshold: update.pityThreshold }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('slug', slug)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating pack type odds:', slug, error);
+    return null;
+  }
+
+  return data as PackType | null;
+}
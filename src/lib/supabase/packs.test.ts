@@ -0,0 +1,217 @@
+/**
+ * Pack Draft Commit Tests
+ *
+ * A local HTTP server stands in for Supabase's REST API with in-memory
+ * tables, and a stand-in venue adapter serves live prices, so a commit
+ * refused for price drift can be followed through to the next deal.
+ *
+ * Run with `npm test`.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type * as Packs from './packs';
+import type { VenueAdapter } from '../adapters/types';
+import type { Event } from '@/types';
+
+// ============================================
+// Stand-in Supabase
+// ============================================
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+// PostgREST filters used by the code under test: eq, gt, in, is
+function matches(row: Row, params: URLSearchParams): boolean {
+  for (const [column, filter] of Array.from(params)) {
+    if (['select', 'order', 'limit', 'offset'].includes(column)) continue;
+
+    const [op, ...rest] = filter.split('.');
+    const value = rest.join('.');
+    const actual = row[column];
+
+    if (op === 'eq' && String(actual) !== value) return false;
+    if (op === 'gt' && !(String(actual) > value)) return false;
+    if (op === 'is' && !(value === 'null' ? actual === null || actual === undefined : String(actual) === value)) return false;
+    if (op === 'in' && !value.slice(1, -1).split(',').includes(String(actual))) return false;
+  }
+  return true;
+}
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const table = url.pathname.replace('/rest/v1/', '');
+    const rows = (tables[table] ??= []);
+    const selected = rows.filter((row) => matches(row, url.searchParams));
+    const wantsObject = String(req.headers.accept).includes('vnd.pgrst.object');
+
+    if (req.method === 'PATCH') {
+      const changes = JSON.parse(Buffer.concat(chunks).toString() || '{}') as Row;
+      for (const row of selected) Object.assign(row, changes);
+    } else if (req.method !== 'GET') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (wantsObject && selected.length !== 1) {
+      res.writeHead(406, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ code: 'PGRST116', message: 'Expected a single row' }));
+      return;
+    }
+
+    const limit = Number(url.searchParams.get('limit') ?? selected.length);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(wantsObject ? selected[0] : selected.slice(0, limit)));
+  });
+});
+
+// ============================================
+// Fixtures
+// ============================================
+
+const PROFILE_ID = 'profile-1';
+const PACK_TYPE = 'sports';
+
+// Dealt at 50%; the venue now says 80%, past any drift threshold
+const event = {
+  id: 'event-1',
+  venue: 'polymarket',
+  venue_event_id: 'market-1',
+  title: 'Team A vs Team B',
+  outcome_a_label: 'Team A',
+  outcome_b_label: 'Team B',
+  outcome_a_probability: 0.5,
+  outcome_b_probability: 0.5,
+  category: 'sports',
+  status: 'upcoming',
+} as Event;
+
+const liveAdapter = {
+  venueId: 'polymarket',
+  displayName: 'Stand-in venue',
+  fetchPrices: async () => [],
+  fetchMarket: async () => ({
+    outcomeAProbability: 0.8,
+    outcomeBProbability: 0.2,
+    supportsDraw: false,
+  }),
+} as unknown as VenueAdapter;
+
+function draftRow(id: string, isPremium = false): Row {
+  return {
+    id,
+    profile_id: PROFILE_ID,
+    pack_type_slug: PACK_TYPE,
+    is_premium: isPremium,
+    event_ids: [event.id],
+    events: [event],
+    status: 'pending',
+    expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+    challenge_id: null,
+    daily_date: null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function commit(packId: string, isPremium = false) {
+  return packs.createPackWithPicks(
+    {
+      id: packId,
+      profileId: PROFILE_ID,
+      packTypeSlug: PACK_TYPE,
+      openedAt: new Date().toISOString(),
+      isPremium,
+    },
+    [{
+      id: `${packId}-pick-1`,
+      eventId: event.id,
+      position: 1,
+      pickedOutcome: 'a',
+      pickedAt: new Date().toISOString(),
+    }]
+  );
+}
+
+// ============================================
+// Tests
+// ============================================
+
+let packs: typeof Packs;
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  // The modules read their config on import
+  process.env.NEXT_PUBLIC_SUPABASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key';
+  process.env.PRICE_DRIFT_POLICY = 'reject';
+
+  packs = await import('./packs');
+  const { venueRegistry } = await import('../adapters');
+  venueRegistry.register(liveAdapter);
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  for (const name of Object.keys(tables)) delete tables[name];
+  tables.pack_drafts = [draftRow('pack-1')];
+});
+
+describe('createPackWithPicks with PRICE_DRIFT_POLICY=reject', () => {
+  it('refuses a drifted commit and expires the draft', async () => {
+    const result = await commit('pack-1');
+
+    assert.ok('error' in result);
+    assert.equal(result.code, 'PRICE_DRIFT');
+    assert.equal(tables.pack_drafts[0].status, 'expired');
+  });
+
+  it('no longer resumes the refused draft, so the pack type can be dealt again', async () => {
+    await commit('pack-1');
+
+    assert.equal(await packs.getPendingPackDraft(PROFILE_ID, PACK_TYPE), null);
+
+    // A retried commit of the old manifest is refused outright
+    const retry = await commit('pack-1');
+    assert.ok('error' in retry);
+    assert.equal(retry.code, 'DRAFT_NOT_PENDING');
+
+    // The next deal is a fresh draft, and it's the one resumed from now on
+    tables.pack_drafts.push(draftRow('pack-2'));
+    assert.equal((await packs.getPendingPackDraft(PROFILE_ID, PACK_TYPE))?.id, 'pack-2');
+  });
+});
+
+describe('premium and free drafts', () => {
+  it('resumes only a draft of the same kind', async () => {
+    tables.pack_drafts = [draftRow('free-pack'), draftRow('paid-pack', true)];
+
+    assert.equal((await packs.getPendingPackDraft(PROFILE_ID, PACK_TYPE, false))?.id, 'free-pack');
+    assert.equal((await packs.getPendingPackDraft(PROFILE_ID, PACK_TYPE, true))?.id, 'paid-pack');
+  });
+
+  it('refuses to commit a paid draft as a free pack, and a free one as paid', async () => {
+    tables.pack_drafts = [draftRow('free-pack'), draftRow('paid-pack', true)];
+
+    const asFree = await commit('paid-pack', false);
+    assert.ok('error' in asFree);
+    assert.equal(asFree.code, 'PREMIUM_MISMATCH');
+
+    const asPaid = await commit('free-pack', true);
+    assert.ok('error' in asPaid);
+    assert.equal(asPaid.code, 'PREMIUM_MISMATCH');
+
+    // Both stay pending, to be committed from the right page
+    assert.deepEqual(tables.pack_drafts.map((d) => d.status), ['pending', 'pending']);
+  });
+});
@@ -5,7 +5,21 @@
  */
 
 import { createServiceClient } from './server';
-import type { UserPack, UserPick, Outcome } from '@/types';
+import { getProbabilitySnapshot } from '../scoring/calculator';
+import { resolveScoringRulesetId } from './scoring';
+import { getChallenge, getChallengeAvailability, linkChallengePack } from './challenges';
+import { getDailyEntry } from './daily';
+import { haveEventsStarted } from './events';
+import { recordPityPack } from './pity';
+import { revealPackSeed } from './packSeeds';
+import {
+  fetchLiveProbabilities,
+  PRICE_DRIFT_POLICY,
+  PRICE_DRIFT_THRESHOLD,
+  type LiveProbabilities,
+  type PriceDriftPolicy,
+} from './prices';
+import type { Event, UserPack, UserPick, Outcome } from '@/types';
 
 // ============================================
 // Constants
@@ -13,6 +27,9 @@ import type { UserPack, UserPick, Outcome } from '@/types';
 
 export const WEEKLY_PACK_LIMIT = 2;
 
+// How long a dealt pack stays claimable (covers the premium payment flow)
+export const PACK_DRAFT_TTL_MS = 30 * 60 * 1000;
+
 // ============================================
 // Week Calculations
 // ============================================
@@ -55,6 +72,9 @@ export interface CreatePackInput {
   paymentSignature?: string;
   paymentAmount?: number;
   buyerWallet?: string;
+  scoringRulesetId?: string | null;
+  /** UTC day of a daily pack entry (YYYY-MM-DD) */
+  dailyDate?: string | null;
 }
 
 export interface CreatePickInput {
@@ -67,6 +87,293 @@ export interface CreatePickInput {
   probabilitySnapshot: number;
   oppositeProbabilitySnapshot: number;
   drawProbabilitySnapshot?: number;
+  scoringRulesetId?: string | null;
+  // Live price check at commit
+  dealtProbability?: number;
+  liveProbability?: number;
+  livePriceCheckedAt?: string;
+  isRepriced?: boolean;
+}
+
+/**
+ * A pick as submitted by the client.
+ * Odds are never taken from the client - they come from the pack draft.
+ */
+export interface SubmittedPickInput {
+  id: string;
+  eventId: string;
+  position: number;
+  pickedOutcome: Outcome;
+  pickedAt: string;
+}
+
+export type PackDraftStatus = 'pending' | 'committed' | 'expired';
+
+export interface PackDraft {
+  id: string;
+  profile_id: string;
+  pack_type_slug: string;
+  event_ids: string[];
+  events: Event[];
+  status: PackDraftStatus;
+  /** Paid pack (null for drafts dealt before this was recorded) */
+  is_premium?: boolean | null;
+  expires_at: string;
+  committed_at?: string;
+  /** Set when dealt from a challenge (a "challenge" pack) */
+  challenge_id?: string | null;
+  /** UTC day the daily pack was dealt for (a "daily" pack) */
+  daily_date?: string | null;
+  created_at: string;
+}
+
+export type CreatePackErrorCode =
+  | 'DRAFT_NOT_FOUND'
+  | 'DRAFT_NOT_PENDING'
+  | 'DRAFT_EXPIRED'
+  | 'MANIFEST_MISMATCH'
+  | 'PRICE_DRIFT'
+  | 'DAILY_LIMIT_REACHED'
+  | 'CHALLENGE_CLOSED'
+  | 'DAILY_CLOSED'
+  | 'PREMIUM_MISMATCH';
+
+export type CreatePackResult =
+  | { packId: string }
+  | { error: string; code?: CreatePackErrorCode };
+
+// ============================================
+// Pack Drafts (server-dealt packs awaiting picks)
+// ============================================
+
+/**
+ * Store a freshly dealt pack so its picks can be validated on commit
+ */
+export async function createPackDraft(input: {
+  id: string;
+  profileId: string;
+  packTypeSlug: string;
+  events: Event[];
+  expiresAt: string;
+  isPremium?: boolean;
+  challengeId?: string;
+  dailyDate?: string;
+}): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.from('pack_drafts').insert({
+    id: input.id,
+    profile_id: input.profileId,
+    pack_type_slug: input.packTypeSlug,
+    event_ids: input.events.map((e) => e.id),
+    events: input.events,
+    status: 'pending',
+    is_premium: input.isPremium ?? false,
+    expires_at: input.expiresAt,
+    challenge_id: input.challengeId ?? null,
+    daily_date: input.dailyDate ?? null,
+  });
+
+  if (error) {
+    console.error('Error creating pack draft:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get a pack draft by pack ID
+ */
+export async function getPackDraft(packId: string): Promise<PackDraft | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_drafts')
+    .select('*')
+    .eq('id', packId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Error fetching pack draft:', error);
+    }
+    return null;
+  }
+
+  return data as PackDraft;
+}
+
+/**
+ * Get a profile's unexpired pending draft of a pack type and kind (free or
+ * premium), the latest
+ * A profile has at most one of each: it must be committed or expire before
+ * another pack of that type and kind is dealt.
+ */
+export async function getPendingPackDraft(
+  profileId: string,
+  packTypeSlug: string,
+  isPremium = false
+): Promise<PackDraft | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pack_drafts')
+    .select('*')
+    .eq('profile_id', profileId)
+    .eq('pack_type_slug', packTypeSlug)
+    .eq('is_premium', isPremium)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pending pack draft:', profileId, error);
+    return null;
+  }
+
+  return data as PackDraft | null;
+}
+
+/**
+ * Mark a pack draft as committed (its picks are now in user_picks)
+ */
+export async function markPackDraftCommitted(packId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('pack_drafts')
+    .update({
+      status: 'committed',
+      committed_at: new Date().toISOString(),
+    })
+    .eq('id', packId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error committing pack draft:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Mark a pending pack draft as expired (it can no longer be committed or
+ * resumed), so the pack type can be dealt again straight away
+ */
+export async function expirePackDraft(packId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('pack_drafts')
+    .update({ status: 'expired' })
+    .eq('id', packId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error expiring pack draft:', packId, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check submitted picks against the dealt events and attach server-side odds.
+ * Every dealt event must be picked exactly once, at the position it was dealt.
+ */
+export function buildPicksFromDraft(
+  draft: PackDraft,
+  picks: SubmittedPickInput[]
+): { picks: Omit<CreatePickInput, 'userPackId'>[] } | { error: string } {
+  if (picks.length !== draft.event_ids.length) {
+    return { error: `Expected ${draft.event_ids.length} picks, got ${picks.length}` };
+  }
+
+  const eventsById = new Map(draft.events.map((e) => [e.id, e]));
+  const result: Omit<CreatePickInput, 'userPackId'>[] = [];
+
+  for (const pick of picks) {
+    const expectedEventId = draft.event_ids[pick.position - 1];
+    if (!expectedEventId || expectedEventId !== pick.eventId) {
+      return { error: `Pick at position ${pick.position} does not match the dealt event` };
+    }
+
+    const event = eventsById.get(pick.eventId);
+    if (!event) {
+      return { error: `Event ${pick.eventId} missing from pack draft` };
+    }
+
+    if (pick.pickedOutcome === 'draw' && !event.supports_draw) {
+      return { error: `Event ${pick.eventId} does not support a draw pick` };
+    }
+
+    result.push({
+      id: pick.id,
+      eventId: pick.eventId,
+      position: pick.position,
+      pickedOutcome: pick.pickedOutcome,
+      pickedAt: pick.pickedAt,
+      ...getProbabilitySnapshot(event, pick.pickedOutcome),
+    });
+  }
+
+  return { picks: result };
+}
+
+/**
+ * Check picks against live venue prices
+ *
+ * Every pick records the odds it was dealt at and the live odds. When the
+ * picked outcome has moved more than PRICE_DRIFT_THRESHOLD, the pick is
+ * either repriced to the live odds or the commit is refused, depending on
+ * PRICE_DRIFT_POLICY. Picks whose venue can't be reached keep the dealt odds.
+ */
+export function applyLivePrices(
+  draft: PackDraft,
+  picks: Omit<CreatePickInput, 'userPackId'>[],
+  live: Map<string, LiveProbabilities>,
+  policy: PriceDriftPolicy = PRICE_DRIFT_POLICY
+): { picks: Omit<CreatePickInput, 'userPackId'>[] } | { error: string } {
+  const eventsById = new Map(draft.events.map((e) => [e.id, e]));
+  const result: Omit<CreatePickInput, 'userPackId'>[] = [];
+
+  for (const pick of picks) {
+    const event = eventsById.get(pick.eventId);
+    const liveProbabilities = live.get(pick.eventId);
+
+    if (!event || !liveProbabilities) {
+      result.push({ ...pick, dealtProbability: pick.probabilitySnapshot });
+      continue;
+    }
+
+    const liveSnapshot = getProbabilitySnapshot(
+      { ...event, ...liveProbabilities },
+      pick.pickedOutcome
+    );
+    const drift = Math.abs(liveSnapshot.probabilitySnapshot - pick.probabilitySnapshot);
+    const drifted = drift > PRICE_DRIFT_THRESHOLD;
+
+    if (drifted && policy === 'reject') {
+      return {
+        error: `Odds for event ${pick.eventId} moved ${(drift * 100).toFixed(1)} points since the pack was dealt`,
+      };
+    }
+
+    result.push({
+      ...pick,
+      ...(drifted && liveSnapshot),
+      dealtProbability: pick.probabilitySnapshot,
+      liveProbability: liveSnapshot.probabilitySnapshot,
+      livePriceCheckedAt: liveProbabilities.fetched_at,
+      isRepriced: drifted,
+    });
+  }
+
+  return { picks: result };
 }
 
 // ============================================
@@ -117,6 +424,8 @@ export async function createPack(input: CreatePackInput): Promise<{ id: string }
     current_reveal_index: 0,
     total_points: 0,
     correct_picks: 0,
+    scoring_ruleset_id: input.scoringRulesetId ?? null,
+    daily_date: input.dailyDate ?? null,
     created_at: input.openedAt,
     updated_at: input.openedAt,
   };
@@ -159,6 +468,11 @@ export async function createPicks(picks: CreatePickInput[]): Promise<{ success:
     probability_snapshot: pick.probabilitySnapshot,
     opposite_probability_snapshot: pick.oppositeProbabilitySnapshot,
     draw_probability_snapshot: pick.drawProbabilitySnapshot,
+    scoring_ruleset_id: pick.scoringRulesetId ?? null,
+    dealt_probability: pick.dealtProbability ?? pick.probabilitySnapshot,
+    live_probability: pick.liveProbability ?? null,
+    live_price_checked_at: pick.livePriceCheckedAt ?? null,
+    is_repriced: pick.isRepriced ?? false,
     is_resolved: false,
     points_awarded: 0,
     reveal_animation_played: false,
@@ -177,14 +491,115 @@ export async function createPicks(picks: CreatePickInput[]): Promise<{ success:
 }
 
 /**
- * Create a pack with all its picks in a single operation
+ * Create a pack with all its picks in a single operation.
+ * The pack must have been dealt by the server first (see pack_drafts);
+ * picks are validated against that draft and scored with its odds.
  */
 export async function createPackWithPicks(
   packInput: CreatePackInput,
-  picksInput: Omit<CreatePickInput, 'userPackId'>[]
-): Promise<{ packId: string } | { error: string }> {
+  picksInput: SubmittedPickInput[]
+): Promise<CreatePackResult> {
+  const draft = await getPackDraft(packInput.id);
+  if (!draft || draft.profile_id !== packInput.profileId) {
+    return { error: `No pack draft found for pack ${packInput.id}`, code: 'DRAFT_NOT_FOUND' };
+  }
+
+  if (draft.status !== 'pending') {
+    return { error: `Pack draft ${packInput.id} is ${draft.status}`, code: 'DRAFT_NOT_PENDING' };
+  }
+
+  if (new Date(draft.expires_at) < new Date()) {
+    return { error: `Pack draft ${packInput.id} expired`, code: 'DRAFT_EXPIRED' };
+  }
+
+  if (draft.pack_type_slug !== packInput.packTypeSlug) {
+    return { error: 'Pack type does not match the dealt pack', code: 'MANIFEST_MISMATCH' };
+  }
+
+  // A paid draft can't be committed as a free pack, nor a free one as paid
+  if (
+    draft.is_premium !== null &&
+    draft.is_premium !== undefined &&
+    draft.is_premium !== !!packInput.isPremium
+  ) {
+    return {
+      error: `Pack ${packInput.id} was dealt as a ${draft.is_premium ? 'premium' : 'free'} pack`,
+      code: 'PREMIUM_MISMATCH',
+    };
+  }
+
+  const validated = buildPicksFromDraft(draft, picksInput);
+  if ('error' in validated) {
+    return { error: validated.error, code: 'MANIFEST_MISMATCH' };
+  }
+
+  // Challenge packs are played at the challenger's odds and rules, so
+  // both packs are scored alike - no live price check
+  const challenge = draft.challenge_id ? await getChallenge(draft.challenge_id) : null;
+  if (
+    draft.challenge_id &&
+    (challenge?.opponent_profile_id !== packInput.profileId || challenge.opponent_pack_id)
+  ) {
+    return { error: `Challenge for pack ${packInput.id} is no longer available`, code: 'DRAFT_NOT_PENDING' };
+  }
+
+  // Without a live price check, the snapshot odds are only fair before the events start
+  if (challenge) {
+    const availability = await getChallengeAvailability(challenge);
+    if (!availability) {
+      return { error: `Failed to check challenge ${challenge.id}` };
+    }
+    if (availability !== 'open') {
+      return { error: `Challenge for pack ${packInput.id} is ${availability}`, code: 'CHALLENGE_CLOSED' };
+    }
+  }
+
+  // One daily entry per profile per day (the unique index backs this up)
+  if (draft.daily_date && await getDailyEntry(packInput.profileId, draft.daily_date)) {
+    return { error: `Daily pack for ${draft.daily_date} already played`, code: 'DAILY_LIMIT_REACHED' };
+  }
+
+  // Everyone drafts the daily pack before its events are in play
+  if (draft.daily_date) {
+    const started = await haveEventsStarted(draft.event_ids);
+    if (started === null) {
+      return { error: `Failed to check daily pack ${draft.daily_date}` };
+    }
+    if (started) {
+      return { error: `Daily pack for ${draft.daily_date} has closed`, code: 'DAILY_CLOSED' };
+    }
+  }
+
+  // Check the dealt odds against the venue. Premium packs are already paid
+  // for, so they're always repriced rather than refused.
+  let priced: { picks: Omit<CreatePickInput, 'userPackId'>[] } | { error: string } = validated;
+  if (!challenge) {
+    const live = await fetchLiveProbabilities(draft.events);
+    priced = applyLivePrices(
+      draft,
+      validated.picks,
+      live,
+      packInput.isPremium ? 'reprice' : PRICE_DRIFT_POLICY
+    );
+  }
+  if ('error' in priced) {
+    // The draft's odds are stale - retire it so the next deal is fresh
+    // rather than resuming the same refused manifest
+    await expirePackDraft(draft.id);
+    return { error: priced.error, code: 'PRICE_DRIFT' };
+  }
+
+  // Lock in the scoring rules in force now - later ruleset changes don't rescore this pack
+  const scoringRulesetId = challenge
+    ? challenge.scoring_ruleset_id
+    : await resolveScoringRulesetId(draft.pack_type_slug, draft.event_ids);
+
   // Create the pack first
-  const packResult = await createPack(packInput);
+  const packResult = await createPack({
+    ...packInput,
+    scoringRulesetId,
+    dailyDate: draft.daily_date ?? null,
+  });
   if ('error' in packResult) {
     return { error: `createPack failed: ${packResult.error}` };
   }
@@ -192,9 +607,10 @@ export async function createPackWithPicks(
   const packId = packResult.id;
 
   // Create the picks
-  const picksWithPackId = picksInput.map((pick) => ({
+  const picksWithPackId = priced.picks.map((pick) => ({
     ...pick,
     userPackId: packId,
+    scoringRulesetId,
   }));
 
   const picksResult = await createPicks(picksWithPackId);
@@ -202,6 +618,19 @@ export async function createPackWithPicks(
     return { error: `createPicks failed for pack ${packId}: ${picksResult.error}` };
   }
 
+  await markPackDraftCommitted(packId);
+
+  if (challenge) {
+    await linkChallengePack(challenge.id, packInput.profileId, packId);
+  }
+
+  // Pool packs count towards the pack type's pity timer, and their server
+  // seed can be revealed now the picks are locked in
+  if (!challenge && !draft.daily_date) {
+    await recordPityPack(packInput.profileId, draft.pack_type_slug, draft.events);
+    await revealPackSeed(packId);
+  }
+
   return { packId };
 }
 
@@ -253,6 +682,30 @@ export async function getPacksByProfileId(
   return (data as unknown as UserPack[]) ?? [];
 }
 
+/**
+ * Get packs (with picks) by ID
+ */
+export async function getPacksByIds(packIds: string[]): Promise<UserPack[]> {
+  if (packIds.length === 0) return [];
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('user_packs')
+    .select(`
+      *,
+      picks:user_picks(*)
+    `)
+    .in('id', packIds);
+
+  if (error) {
+    console.error('Error fetching packs by ID:', error);
+    return [];
+  }
+
+  return (data as unknown as UserPack[]) ?? [];
+}
+
 /**
  * Update pack resolution status
  */
@@ -327,17 +780,46 @@ export async function updatePickResolution(
 }
 
 /**
- * Mark a pick's reveal animation as played
+ * Mark a pick's reveal animation as played and advance the pack's reveal index.
+ * The index only moves from position - 1 to position, so a concurrent or
+ * replayed reveal can't skip ahead.
  */
-export async function markPickRevealed(pickId: string): Promise<boolean> {
+export async function markPickRevealed(
+  packId: string,
+  pickId: string,
+  position: number
+): Promise<boolean> {
   const supabase = createServiceClient();
 
+  const now = new Date().toISOString();
+
+  const { data: advanced, error: packError } = await supabase
+    .from('user_packs')
+    .update({
+      current_reveal_index: position,
+      last_reveal_at: now,
+      updated_at: now,
+    })
+    .eq('id', packId)
+    .eq('current_reveal_index', position - 1)
+    .select('id');
+
+  if (packError) {
+    console.error('Error advancing pack reveal index:', packError);
+    return false;
+  }
+
+  if (!advanced || advanced.length === 0) {
+    return false;
+  }
+
   const { error } = await supabase
     .from('user_picks')
     .update({
       reveal_animation_played: true,
     })
-    .eq('id', pickId);
+    .eq('id', pickId)
+    .eq('user_pack_id', packId);
 
   if (error) {
     console.error('Error marking pick revealed:', error);
@@ -412,6 +894,7 @@ export interface WeeklyPackStatus {
 
 /**
  * Count how many packs a profile has opened this week
+ * Daily packs have their own limit and don't count.
  */
 export async function countWeeklyPacks(profileId: string): Promise<number> {
   const supabase = createServiceClient();
@@ -423,6 +906,7 @@ export async function countWeeklyPacks(profileId: string): Promise<number> {
     .select('*', { count: 'exact', head: true })
     .eq('profile_id', profileId)
     .eq('is_premium', false)
+    .is('daily_date', null)
     .gte('opened_at', weekStart.toISOString())
     .lte('opened_at', weekEnd.toISOString());
 
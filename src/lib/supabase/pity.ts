@@ -0,0 +1,97 @@
+/**
+ * Supabase Pity Timer Functions
+ *
+ * Per profile and pack type, the number of committed packs in a row
+ * without a rare-or-better card. Once it reaches the pack type's
+ * pity_threshold, the next pack dealt is guaranteed one.
+ */
+
+import { createServiceClient } from './server';
+import { getEventRarity, isRarityAtLeast, PITY_MIN_RARITY } from '@/lib/rarity';
+import type { Event, PackType } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PityStatus {
+  /** Packs in a row without a rare-or-better card (null = no pity timer) */
+  threshold: number | null;
+  packsWithoutRare: number;
+  /** The next pack is guaranteed a rare-or-better card */
+  isDue: boolean;
+}
+
+// ============================================
+// Pity Timer
+// ============================================
+
+/**
+ * Get a profile's pity counter for a pack type
+ */
+export async function getPityCount(profileId: string, packTypeSlug: string): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('pity_counters')
+    .select('packs_without_rare')
+    .eq('profile_id', profileId)
+    .eq('pack_type_slug', packTypeSlug)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pity counter:', profileId, packTypeSlug, error);
+    return 0;
+  }
+
+  return data?.packs_without_rare ?? 0;
+}
+
+/**
+ * Get a profile's pity status for a pack type
+ */
+export async function getPityStatus(
+  profileId: string,
+  packType: Pick<PackType, 'slug' | 'pity_threshold'>
+): Promise<PityStatus> {
+  const threshold = packType.pity_threshold ?? null;
+  const packsWithoutRare = await getPityCount(profileId, packType.slug);
+
+  return {
+    threshold,
+    packsWithoutRare,
+    isDue: threshold !== null && packsWithoutRare >= threshold,
+  };
+}
+
+/**
+ * Record a committed pack's cards against the profile's pity counter
+ * Returns the new count, null on error.
+ */
+export async function recordPityPack(
+  profileId: string,
+  packTypeSlug: string,
+  events: Event[]
+): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const hadRare = events.some((event) =>
+    isRarityAtLeast(
+      getEventRarity(event.outcome_a_probability, event.outcome_b_probability),
+      PITY_MIN_RARITY
+    )
+  );
+
+  const { data, error } = await supabase.rpc('record_pity_pack', {
+    p_profile_id: profileId,
+    p_pack_type_slug: packTypeSlug,
+    p_had_rare: hadRare,
+  });
+
+  if (error) {
+    console.error('Error recording pity pack:', profileId, packTypeSlug, error);
+    return null;
+  }
+
+  return data as number;
+}
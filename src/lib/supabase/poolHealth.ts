@@ -0,0 +1,222 @@
+/**
+ * Supabase Pool Health Functions
+ *
+ * How well each active pool can keep honouring the drop rates: its
+ * dealable events per rarity bin, when it runs out as events start, and
+ * how often dealt cards fell back from the rarity they rolled because
+ * their bin was empty (rarity_roll_stats).
+ */
+
+import { createServiceClient } from './server';
+import { getActivePools } from './pools';
+import { getEventRarity, RARITY_ORDER } from '@/lib/rarity';
+import type { DBPool } from '@/lib/pools';
+import type { Event, Rarity } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// A pool with fewer than this many times min_events_required is running low
+const POOL_LOW_MULTIPLIER = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type PoolHealthStatus = 'healthy' | 'low' | 'depleted';
+
+export interface RarityBinHealth {
+  rarity: Rarity;
+  events: number;
+  /** When the bin's last event starts (null = empty, or holds undated events) */
+  emptiesAt: string | null;
+}
+
+export interface PoolHealth {
+  pool: DBPool;
+  status: PoolHealthStatus;
+  events: number;
+  bins: RarityBinHealth[];
+  emptyBins: Rarity[];
+  /** When starting events take the pool below min_events_required (null = never, without new events) */
+  depletesAt: string | null;
+  nextStartAt: string | null;
+  startingWithin24h: number;
+  startingWithin7d: number;
+}
+
+export interface RarityFallbackStats {
+  packTypeSlug: string;
+  rolls: number;
+  fallbacks: number;
+  byRarity: Partial<Record<Rarity, { rolls: number; fallbacks: number }>>;
+}
+
+type PoolEventRow = Pick<
+  Event,
+  'id' | 'outcome_a_probability' | 'outcome_b_probability' | 'event_start_at' | 'resolution_deadline_at'
+>;
+
+// ============================================
+// Pool Health
+// ============================================
+
+/**
+ * Work out a pool's health from its dealable (upcoming) events
+ * An event stops being dealable when it starts; events that have already
+ * started but not yet moved on count as leaving now.
+ */
+export function getPoolHealth(pool: DBPool, events: PoolEventRow[], now: Date = new Date()): PoolHealth {
+  const nowMs = now.getTime();
+  const leavesAt = (event: PoolEventRow) => {
+    const startsAt = event.event_start_at ?? event.resolution_deadline_at;
+    return startsAt ? Math.max(Date.parse(startsAt), nowMs) : Infinity;
+  };
+  const toIso = (ms: number | undefined) =>
+    ms === undefined || ms === Infinity ? null : new Date(ms).toISOString();
+
+  const leaving = events.map(leavesAt).sort((a, b) => a - b);
+
+  const bins = [...RARITY_ORDER].map((rarity) => {
+    const binEvents = events.filter(
+      (event) => getEventRarity(event.outcome_a_probability, event.outcome_b_probability) === rarity
+    );
+
+    return {
+      rarity,
+      events: binEvents.length,
+      emptiesAt: binEvents.length > 0 ? toIso(Math.max(...binEvents.map(leavesAt))) : null,
+    };
+  });
+  const emptyBins = bins.filter((bin) => bin.events === 0).map((bin) => bin.rarity);
+
+  // The pool drops below the minimum once (events - min + 1) have started
+  const min = pool.min_events_required;
+  const depletesAt =
+    events.length < min ? now.toISOString() : toIso(leaving[events.length - min]);
+
+  const status: PoolHealthStatus =
+    events.length < min
+      ? 'depleted'
+      : events.length < min * POOL_LOW_MULTIPLIER || emptyBins.length > 0
+        ? 'low'
+        : 'healthy';
+
+  const upcoming = leaving.filter((ms) => ms > nowMs && ms !== Infinity);
+
+  return {
+    pool,
+    status,
+    events: events.length,
+    bins,
+    emptyBins,
+    depletesAt,
+    nextStartAt: toIso(upcoming[0]),
+    startingWithin24h: upcoming.filter((ms) => ms <= nowMs + DAY_MS).length,
+    startingWithin7d: upcoming.filter((ms) => ms <= nowMs + 7 * DAY_MS).length,
+  };
+}
+
+/**
+ * Get every active pool's health
+ * Pools whose events couldn't be loaded are left out.
+ */
+export async function getPoolHealthReport(now: Date = new Date()): Promise<PoolHealth[]> {
+  const supabase = createServiceClient();
+  const pools = await getActivePools();
+
+  const report = await Promise.all(
+    pools.map(async (pool) => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, outcome_a_probability, outcome_b_probability, event_start_at, resolution_deadline_at')
+        .eq('pool_id', pool.id)
+        .eq('status', 'upcoming');
+
+      if (error) {
+        console.error('Error fetching pool events for health:', pool.slug, error);
+        return null;
+      }
+
+      return getPoolHealth(pool, (data ?? []) as PoolEventRow[], now);
+    })
+  );
+
+  return report.filter((health): health is PoolHealth => health !== null);
+}
+
+// ============================================
+// Rarity Fallbacks
+// ============================================
+
+/**
+ * Record a dealt pack's rarity rolls: the rarity each card rolled and
+ * the rarity it was dealt (different when its bin was empty)
+ */
+export async function recordRarityRolls(packTypeSlug: string, events: Event[]): Promise<boolean> {
+  const rolled = events.filter((event) => event.rarityInfo?.targetRarity);
+  if (rolled.length === 0) return true;
+
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.rpc('record_rarity_rolls', {
+    p_pack_type_slug: packTypeSlug,
+    p_target_rarities: rolled.map((event) => event.rarityInfo!.targetRarity),
+    p_dealt_rarities: rolled.map((event) => event.rarityInfo!.rarity),
+  });
+
+  if (error) {
+    console.error('Error recording rarity rolls:', packTypeSlug, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get rarity rolls and fallbacks per pack type over the last `days` days
+ */
+export async function getRarityFallbackStats(days: number = 7): Promise<RarityFallbackStats[]> {
+  const supabase = createServiceClient();
+  const since = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase
+    .from('rarity_roll_stats')
+    .select('pack_type_slug, target_rarity, rolls, fallbacks')
+    .gte('day', since);
+
+  if (error) {
+    console.error('Error fetching rarity roll stats:', error);
+    return [];
+  }
+
+  const byPackType = new Map<string, RarityFallbackStats>();
+
+  for (const row of (data ?? []) as {
+    pack_type_slug: string;
+    target_rarity: Rarity;
+    rolls: number;
+    fallbacks: number;
+  }[]) {
+    const stats = byPackType.get(row.pack_type_slug) ?? {
+      packTypeSlug: row.pack_type_slug,
+      rolls: 0,
+      fallbacks: 0,
+      byRarity: {},
+    };
+
+    const rarity = stats.byRarity[row.target_rarity] ?? { rolls: 0, fallbacks: 0 };
+    rarity.rolls += row.rolls;
+    rarity.fallbacks += row.fallbacks;
+    stats.byRarity[row.target_rarity] = rarity;
+    stats.rolls += row.rolls;
+    stats.fallbacks += row.fallbacks;
+
+    byPackType.set(row.pack_type_slug, stats);
+  }
+
+  return Array.from(byPackType.values()).sort((a, b) => a.packTypeSlug.localeCompare(b.packTypeSlug));
+}
@@ -0,0 +1,129 @@
+/**
+ * Supabase Pools Functions
+ *
+ * Server-side pool management: finding the active pools for a venue and
+ * assigning captured events to them.
+ */
+
+import { createServiceClient } from './server';
+import type { DBPool } from '@/lib/pools';
+import type { Event } from '@/types';
+
+// ============================================
+// Pool Queries
+// ============================================
+
+/**
+ * Get all active pools for a venue (every venue if omitted)
+ */
+export async function getActivePools(venue?: string): Promise<DBPool[]> {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from('pools')
+    .select('*')
+    .eq('is_active', true);
+
+  if (venue) {
+    query = query.eq('venue', venue);
+  }
+
+  const { data, error } = await query.order('starts_at', { ascending: false, nullsFirst: false });
+
+  if (error) {
+    console.error('Error fetching active pools:', error);
+    return [];
+  }
+
+  return (data ?? []) as DBPool[];
+}
+
+/**
+ * Find the pool an event belongs to.
+ * Matches pool pack_type against the event category, and requires the
+ * event's start (or resolution deadline) to fall inside the pool's window.
+ * Pools without a window accept any date.
+ */
+export function findPoolForEvent(
+  pools: DBPool[],
+  event: Pick<Event, 'category' | 'event_start_at' | 'resolution_deadline_at'>
+): DBPool | null {
+  if (!event.category) return null;
+
+  const eventDate = event.event_start_at ?? event.resolution_deadline_at;
+  const eventTime = eventDate ? new Date(eventDate).getTime() : null;
+
+  return (
+    pools.find((pool) => {
+      if (pool.pack_type !== event.category) return false;
+
+      if (pool.starts_at || pool.ends_at) {
+        if (eventTime === null) return false;
+        if (pool.starts_at && eventTime < new Date(pool.starts_at).getTime()) return false;
+        if (pool.ends_at && eventTime > new Date(pool.ends_at).getTime()) return false;
+      }
+
+      return true;
+    }) ?? null
+  );
+}
+
+/**
+ * Get captured upcoming events of a venue and category that aren't in a pool
+ */
+export async function getUnpooledEvents(
+  venue: string,
+  category: string
+): Promise<Event[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('venue', venue)
+    .eq('category', category)
+    .eq('status', 'upcoming')
+    .is('pool_id', null);
+
+  if (error) {
+    console.error('Error fetching unpooled events:', venue, category, error);
+    return [];
+  }
+
+  return (data ?? []) as Event[];
+}
+
+// ============================================
+// Pool Assignment
+// ============================================
+
+/**
+ * Assign events to a pool (and stamp the pool's period on them)
+ * Events that already belong to a pool are left untouched.
+ */
+export async function assignEventsToPool(
+  eventIds: string[],
+  pool: DBPool
+): Promise<number> {
+  if (eventIds.length === 0) return 0;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('events')
+    .update({
+      pool_id: pool.id,
+      period: pool.period,
+      updated_at: new Date().toISOString(),
+    })
+    .in('id', eventIds)
+    .is('pool_id', null)
+    .select('id');
+
+  if (error) {
+    console.error('Error assigning events to pool:', pool.slug, error);
+    return 0;
+  }
+
+  return data?.length ?? 0;
+}
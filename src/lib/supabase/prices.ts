@@ -0,0 +1,135 @@
+/**
+ * Supabase Live Price Functions
+ *
+ * Fresh venue prices for events at pick-commit time. Pool prices are only
+ * as fresh as the last sync-prices run, so committed picks are checked
+ * against the venue before they're stored.
+ */
+
+import { getVenueTokensForEvents } from './events';
+import { venueRegistry } from '../adapters';
+import type { Event, Outcome, VenueToken } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+export type PriceDriftPolicy = 'reprice' | 'reject';
+
+// Max absolute move in the picked outcome's probability before the drift policy applies
+const DEFAULT_PRICE_DRIFT_THRESHOLD = 0.05;
+const driftThreshold = Number(process.env.PRICE_DRIFT_THRESHOLD);
+export const PRICE_DRIFT_THRESHOLD =
+  Number.isFinite(driftThreshold) && driftThreshold > 0 ? driftThreshold : DEFAULT_PRICE_DRIFT_THRESHOLD;
+
+// 'reprice' scores drifted picks at the live odds; 'reject' refuses the commit
+export const PRICE_DRIFT_POLICY: PriceDriftPolicy =
+  process.env.PRICE_DRIFT_POLICY === 'reject' ? 'reject' : 'reprice';
+
+// ============================================
+// Types
+// ============================================
+
+export interface LiveProbabilities {
+  outcome_a_probability: number;
+  outcome_b_probability: number;
+  outcome_draw_probability?: number;
+  fetched_at: string;
+}
+
+// ============================================
+// Live Prices
+// ============================================
+
+/**
+ * Fetch current probabilities for events from their venues
+ * Uses the venue tokens when mapped (adapter.fetchPrices), falling back to
+ * the market endpoint. Events whose venue can't be reached are left out
+ * of the result.
+ */
+export async function fetchLiveProbabilities(
+  events: Event[]
+): Promise<Map<string, LiveProbabilities>> {
+  const result = new Map<string, LiveProbabilities>();
+  if (events.length === 0) return result;
+
+  const tokens = await getVenueTokensForEvents(events.map((e) => e.id));
+  const tokensByEvent = new Map<string, VenueToken[]>();
+  for (const token of tokens) {
+    tokensByEvent.set(token.event_id, [...(tokensByEvent.get(token.event_id) ?? []), token]);
+  }
+
+  const eventsByVenue = new Map<string, Event[]>();
+  for (const event of events) {
+    const venue = event.venue ?? 'polymarket';
+    eventsByVenue.set(venue, [...(eventsByVenue.get(venue) ?? []), event]);
+  }
+
+  for (const [venue, venueEvents] of Array.from(eventsByVenue)) {
+    const adapter = venueRegistry.getOrNull(venue);
+    if (!adapter) {
+      console.warn(`No adapter for venue ${venue} - skipping live price check`);
+      continue;
+    }
+
+    // 1. Token prices in one call per venue
+    const prices = new Map<string, number>();
+    const tokenIds = venueEvents.flatMap((e) =>
+      (tokensByEvent.get(e.id) ?? []).map((t) => t.venue_token_id)
+    );
+
+    if (tokenIds.length > 0) {
+      try {
+        const updates = await adapter.fetchPrices(tokenIds);
+        for (const update of updates) {
+          for (const tokenPrice of update.tokenPrices ?? []) {
+            prices.set(tokenPrice.tokenId, tokenPrice.price);
+          }
+        }
+      } catch (error) {
+        console.error(`[${venue}] Error fetching live token prices:`, error);
+      }
+    }
+
+    const fetchedAt = new Date().toISOString();
+
+    for (const event of venueEvents) {
+      const eventTokens = tokensByEvent.get(event.id) ?? [];
+      const priceFor = (outcome: Outcome) => {
+        const token = eventTokens.find((t) => t.outcome === outcome);
+        return token ? prices.get(token.venue_token_id) : undefined;
+      };
+
+      let probA = priceFor('a');
+      let probB = priceFor('b');
+      let probDraw = priceFor('draw');
+
+      // 2. Fall back to the market endpoint (no tokens mapped, or prices missing)
+      if (probA === undefined || probB === undefined) {
+        const marketId = event.venue_event_id ?? event.polymarket_market_id;
+        if (!marketId) continue;
+
+        try {
+          const market = await adapter.fetchMarket(marketId);
+          if (!market) continue;
+
+          probA = market.outcomeAProbability;
+          probB = market.outcomeBProbability;
+          probDraw = market.supportsDraw ? market.outcomeDrawProbability : undefined;
+        } catch (error) {
+          console.error(`[${venue}] Error fetching live market ${marketId}:`, error);
+          continue;
+        }
+      }
+
+      result.set(event.id, {
+        outcome_a_probability: probA,
+        outcome_b_probability: probB,
+        ...(event.supports_draw && probDraw !== undefined && { outcome_draw_probability: probDraw }),
+        fetched_at: fetchedAt,
+      });
+    }
+  }
+
+  return result;
+}
@@ -5,7 +5,7 @@
  */
 
 import { createServiceClient } from './server';
-import type { UserProfile } from '@/types';
+import type { NotificationPreferences, UserProfile } from '@/types';
 
 // ============================================
 // Random Name Generation
@@ -191,44 +191,25 @@ export async function fetchProfileByAnonymousId(
 }
 
 /**
- * Update profile stats after completing a pack
+ * Update profile display name
  */
-export async function updateProfileStats(
+export async function updateProfileDisplayName(
   profileId: string,
-  stats: {
-    pointsToAdd: number;
-    packsToAdd: number;
-    picksToAdd: number;
-    correctPicksToAdd: number;
-  }
+  displayName: string
 ): Promise<boolean> {
   const supabase = createServiceClient();
 
-  // Fetch current stats first
-  const { data: current, error: fetchError } = await supabase
-    .from('user_profiles')
-    .select('total_points, total_packs_opened, total_picks_made, total_correct_picks')
-    .eq('id', profileId)
-    .single();
-
-  if (fetchError) {
-    console.error('Error fetching profile for stats update:', fetchError);
-    return false;
-  }
-
-  const { error: updateError } = await supabase
+  const { error } = await supabase
     .from('user_profiles')
     .update({
-      total_points: (current.total_points ?? 0) + stats.pointsToAdd,
-      total_packs_opened: (current.total_packs_opened ?? 0) + stats.packsToAdd,
-      total_picks_made: (current.total_picks_made ?? 0) + stats.picksToAdd,
-      total_correct_picks: (current.total_correct_picks ?? 0) + stats.correctPicksToAdd,
+      display_name: displayName,
+      username: displayName.toLowerCase(),
       updated_at: new Date().toISOString(),
     })
     .eq('id', profileId);
 
-  if (updateError) {
-    console.error('Error updating profile stats:', updateError);
+  if (error) {
+    console.error('Error updating profile display name:', error);
     return false;
   }
 
@@ -236,86 +217,95 @@ export async function updateProfileStats(
 }
 
 /**
- * Update profile display name
+ * Update notification preferences (merged over the current ones)
  */
-export async function updateProfileDisplayName(
+export async function updateNotificationPreferences(
   profileId: string,
-  displayName: string
+  current: NotificationPreferences | undefined,
+  changes: Partial<NotificationPreferences>
 ): Promise<boolean> {
   const supabase = createServiceClient();
 
   const { error } = await supabase
     .from('user_profiles')
     .update({
-      display_name: displayName,
-      username: displayName.toLowerCase(),
+      notification_preferences: {
+        resolution: changes.resolution ?? current?.resolution ?? true,
+        leaderboard: changes.leaderboard ?? current?.leaderboard ?? true,
+      },
       updated_at: new Date().toISOString(),
     })
     .eq('id', profileId);
 
   if (error) {
-    console.error('Error updating profile display name:', error);
+    console.error('Error updating notification preferences:', error);
     return false;
   }
 
   return true;
 }
 
+// ============================================
+// Stats
+// ============================================
+
+// Profiles rebuilt per call - each call is one transaction
+const STATS_BATCH_SIZE = 200;
+
 /**
- * Increment streak on correct pick
+ * Rebuild profiles' totals, streaks and category stats from their picks
+ * Runs as one transaction per batch. Returns the number of profiles
+ * updated, or null on error.
  */
-export async function incrementStreak(profileId: string): Promise<boolean> {
+export async function refreshProfileStats(profileIds: string[]): Promise<number | null> {
   const supabase = createServiceClient();
+  let updated = 0;
 
-  const { data: current, error: fetchError } = await supabase
-    .from('user_profiles')
-    .select('current_streak, longest_streak')
-    .eq('id', profileId)
-    .single();
+  for (let i = 0; i < profileIds.length; i += STATS_BATCH_SIZE) {
+    const { data, error } = await supabase.rpc('refresh_profile_stats', {
+      p_profile_ids: profileIds.slice(i, i + STATS_BATCH_SIZE),
+    });
 
-  if (fetchError) {
-    console.error('Error fetching profile for streak:', fetchError);
-    return false;
-  }
-
-  const newStreak = (current.current_streak ?? 0) + 1;
-  const longestStreak = Math.max(newStreak, current.longest_streak ?? 0);
-
-  const { error: updateError } = await supabase
-    .from('user_profiles')
-    .update({
-      current_streak: newStreak,
-      longest_streak: longestStreak,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', profileId);
+    if (error) {
+      console.error('Error refreshing profile stats:', error);
+      return null;
+    }
 
-  if (updateError) {
-    console.error('Error updating streak:', updateError);
-    return false;
+    updated += (data as number) ?? 0;
   }
 
-  return true;
+  return updated;
 }
 
 /**
- * Reset streak on incorrect pick
+ * Backfill: rebuild stats for every profile, a batch at a time
+ * Returns the number of profiles updated, or null on error.
  */
-export async function resetStreak(profileId: string): Promise<boolean> {
+export async function rebuildAllProfileStats(): Promise<number | null> {
   const supabase = createServiceClient();
+  let updated = 0;
+
+  for (let from = 0; ; from += STATS_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id')
+      .order('id')
+      .range(from, from + STATS_BATCH_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching profiles for stats rebuild:', error);
+      return null;
+    }
 
-  const { error } = await supabase
-    .from('user_profiles')
-    .update({
-      current_streak: 0,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', profileId);
+    const ids = (data ?? []).map((profile) => profile.id as string);
+    if (ids.length === 0) break;
 
-  if (error) {
-    console.error('Error resetting streak:', error);
-    return false;
+    const count = await refreshProfileStats(ids);
+    if (count === null) return null;
+    updated += count;
+
+    if (ids.length < STATS_BATCH_SIZE) break;
   }
 
-  return true;
+  return updated;
 }
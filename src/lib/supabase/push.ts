@@ -0,0 +1,270 @@
+/**
+ * Supabase Push Subscription Functions
+ *
+ * Web Push subscriptions per profile, and delivery to every device of a
+ * profile that has the matching notification preference switched on.
+ */
+
+import { createServiceClient } from './server';
+import { sendWebPush, type WebPushSubscription } from '../push/webpush';
+import type { NotificationPreferences } from '@/types';
+
+// PostgREST `in` filters go in the URL - keep lookups to modest batches
+const PROFILE_BATCH_SIZE = 200;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PushSubscriptionRecord extends WebPushSubscription {
+  id: string;
+  profile_id: string;
+}
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  /** Page opened when the notification is clicked */
+  url: string;
+  /** Notifications with the same tag replace each other on the device */
+  tag?: string;
+}
+
+export interface PushDeliveryStats {
+  /** Profiles with at least one device that accepted the notification */
+  notifiedProfileIds: string[];
+  sent: number;
+  failed: number;
+  removed: number;
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+/**
+ * Save a subscription for a profile
+ * The endpoint is unique per browser install; re-subscribing moves it to
+ * the current profile and refreshes its keys.
+ */
+export async function savePushSubscription(
+  profileId: string,
+  subscription: WebPushSubscription,
+  userAgent?: string | null
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert(
+      {
+        profile_id: profileId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.p256dh,
+        auth: subscription.auth,
+        user_agent: userAgent ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'endpoint' }
+    );
+
+  if (error) {
+    console.error('Error saving push subscription:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete a profile's subscription by endpoint
+ */
+export async function deletePushSubscription(
+  profileId: string,
+  endpoint: string
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('profile_id', profileId)
+    .eq('endpoint', endpoint);
+
+  if (error) {
+    console.error('Error deleting push subscription:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the subscriptions of the profiles that want a kind of notification
+ * Profiles without stored preferences get everything (the column default).
+ */
+export async function getPushSubscriptionsForProfiles(
+  profileIds: string[],
+  preference: keyof NotificationPreferences
+): Promise<PushSubscriptionRecord[]> {
+  const supabase = createServiceClient();
+  const subscriptions: PushSubscriptionRecord[] = [];
+
+  for (let i = 0; i < profileIds.length; i += PROFILE_BATCH_SIZE) {
+    const batch = profileIds.slice(i, i + PROFILE_BATCH_SIZE);
+
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .select('id, profile_id, endpoint, p256dh, auth, user_profiles!inner(notification_preferences)')
+      .in('profile_id', batch);
+
+    if (error) {
+      console.error('Error fetching push subscriptions:', error);
+      continue;
+    }
+
+    for (const row of (data ?? []) as unknown as Array<
+      PushSubscriptionRecord & {
+        user_profiles: { notification_preferences: Partial<NotificationPreferences> | null };
+      }
+    >) {
+      if (row.user_profiles.notification_preferences?.[preference] === false) continue;
+
+      subscriptions.push({
+        id: row.id,
+        profile_id: row.profile_id,
+        endpoint: row.endpoint,
+        p256dh: row.p256dh,
+        auth: row.auth,
+      });
+    }
+  }
+
+  return subscriptions;
+}
+
+// ============================================
+// Weekly Rank Summary
+// ============================================
+
+/**
+ * Get which of the profiles were already sent the rank summary for a week
+ */
+export async function getRankSummaryRecipients(
+  profileIds: string[],
+  weekId: string
+): Promise<Set<string>> {
+  const supabase = createServiceClient();
+  const recipients = new Set<string>();
+
+  for (let i = 0; i < profileIds.length; i += PROFILE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id')
+      .in('id', profileIds.slice(i, i + PROFILE_BATCH_SIZE))
+      .eq('last_rank_summary_week', weekId);
+
+    if (error) {
+      console.error('Error fetching rank summary recipients:', error);
+      continue;
+    }
+
+    for (const row of data ?? []) {
+      recipients.add(row.id);
+    }
+  }
+
+  return recipients;
+}
+
+/**
+ * Record that profiles were sent the rank summary for a week
+ */
+export async function markRankSummarySent(
+  profileIds: string[],
+  weekId: string
+): Promise<boolean> {
+  const supabase = createServiceClient();
+  let ok = true;
+
+  for (let i = 0; i < profileIds.length; i += PROFILE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ last_rank_summary_week: weekId })
+      .in('id', profileIds.slice(i, i + PROFILE_BATCH_SIZE));
+
+    if (error) {
+      console.error('Error marking rank summary sent:', error);
+      ok = false;
+    }
+  }
+
+  return ok;
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * Send notifications to profiles, respecting their preferences
+ * Subscriptions the push service reports as gone are deleted.
+ */
+export async function sendPushToProfiles(
+  notifications: Map<string, PushNotification>,
+  preference: keyof NotificationPreferences
+): Promise<PushDeliveryStats> {
+  const stats: PushDeliveryStats = { notifiedProfileIds: [], sent: 0, failed: 0, removed: 0 };
+  if (notifications.size === 0) return stats;
+
+  const subscriptions = await getPushSubscriptionsForProfiles(
+    Array.from(notifications.keys()),
+    preference
+  );
+  if (subscriptions.length === 0) return stats;
+
+  const supabase = createServiceClient();
+  const notified = new Set<string>();
+  const delivered: string[] = [];
+  const gone: string[] = [];
+
+  for (const subscription of subscriptions) {
+    const notification = notifications.get(subscription.profile_id);
+    if (!notification) continue;
+
+    const result = await sendWebPush(subscription, notification);
+
+    if (result.ok) {
+      stats.sent++;
+      notified.add(subscription.profile_id);
+      delivered.push(subscription.id);
+    } else {
+      stats.failed++;
+      if (result.gone) gone.push(subscription.id);
+    }
+  }
+
+  if (delivered.length > 0) {
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .update({ last_sent_at: new Date().toISOString() })
+      .in('id', delivered);
+
+    if (error) {
+      console.error('Error updating push subscription send times:', error);
+    }
+  }
+
+  if (gone.length > 0) {
+    const { error } = await supabase.from('push_subscriptions').delete().in('id', gone);
+
+    if (error) {
+      console.error('Error removing expired push subscriptions:', error);
+    } else {
+      stats.removed = gone.length;
+    }
+  }
+
+  stats.notifiedProfileIds = Array.from(notified);
+  return stats;
+}
@@ -5,8 +5,30 @@
  */
 
 import { createServiceClient } from './server';
+import { getScoringRuleset } from './scoring';
+import { refreshProfileStats } from './profile';
+import { evaluateAchievements } from '../achievements/engine';
 import { calculatePoints, calculatePackBonus } from '../scoring/calculator';
-import type { Event, Outcome, UserPick } from '@/types';
+import type { ScoringRuleset } from '../scoring/rulesets';
+import type { Event, EventStatus, Outcome, ProvisionalOutcome, UserPick } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Premium packs with more than this share of voided picks are flagged for refund
+export const REFUND_VOID_THRESHOLD = 0.5;
+
+// Venue results stay provisional this long before picks are scored
+// (covers Polymarket's UMA challenge period). 0 settles immediately.
+// The resolve-events cron runs hourly, so a result is scored at most an
+// hour after its window closes.
+const DEFAULT_DISPUTE_WINDOW_MINUTES = 120;
+const disputeWindowMinutes = Number(process.env.RESOLUTION_DISPUTE_WINDOW_MINUTES);
+export const DISPUTE_WINDOW_MS =
+  (Number.isFinite(disputeWindowMinutes) && disputeWindowMinutes >= 0
+    ? disputeWindowMinutes
+    : DEFAULT_DISPUTE_WINDOW_MINUTES) * 60 * 1000;
 
 // ============================================
 // Types
@@ -21,11 +43,46 @@ interface PickWithPackInfo extends UserPick {
 
 interface ResolutionStats {
   picksResolved: number;
+  /** Picks left unresolved (no loadable ruleset, or the update failed) */
+  picksSkipped: number;
   packsUpdated: number;
   profilesUpdated: number;
   totalPointsAwarded: number;
 }
 
+interface PickResolutionState {
+  is_correct: boolean | null;
+  is_void: boolean;
+  points_awarded: number;
+}
+
+interface PickChange {
+  pick_id: string;
+  user_pack_id: string;
+  revealed: boolean;
+  before: PickResolutionState;
+  after: PickResolutionState;
+}
+
+export type ReResolveErrorCode =
+  | 'EVENT_NOT_FOUND'
+  | 'EVENT_NOT_RESOLVED'
+  | 'RULESET_NOT_FOUND'
+  | 'UPDATE_FAILED';
+
+export type ReResolveResult =
+  | {
+      eventId: string;
+      previousOutcome: ProvisionalOutcome | null;
+      newOutcome: ProvisionalOutcome;
+      picksAffected: number;
+      revealedPicksAffected: number;
+      /** Picks whose update failed - still at their previous state */
+      picksSkipped: number;
+      packsUpdated: number;
+    }
+  | { error: string; code: ReResolveErrorCode };
+
 // ============================================
 // Event Resolution
 // ============================================
@@ -45,6 +102,8 @@ export async function resolveEvent(
     .update({
       status: 'resolved',
       winning_outcome: winningOutcome,
+      provisional_outcome: null,
+      provisional_at: null,
       resolved_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
@@ -58,6 +117,98 @@ export async function resolveEvent(
   return true;
 }
 
+/**
+ * Mark an event as voided by its venue (status='cancelled', no winner)
+ */
+export async function voidEvent(eventId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('events')
+    .update({
+      status: 'cancelled',
+      winning_outcome: null,
+      provisional_outcome: null,
+      provisional_at: null,
+      resolved_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error voiding event:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================
+// Dispute Window
+// ============================================
+
+/**
+ * Record a venue-reported result without scoring picks yet
+ * The event moves to 'pending_resolution' and the dispute window (re)starts.
+ */
+export async function markEventProvisional(
+  eventId: string,
+  outcome: ProvisionalOutcome
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('events')
+    .update({
+      status: 'pending_resolution',
+      provisional_outcome: outcome,
+      provisional_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error marking event provisional:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Drop a provisional result (venue reopened the market, e.g. a dispute)
+ * The event goes back to 'active' and is checked again on the next run.
+ */
+export async function clearProvisionalResolution(eventId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('events')
+    .update({
+      status: 'active',
+      provisional_outcome: null,
+      provisional_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', eventId)
+    .eq('status', 'pending_resolution');
+
+  if (error) {
+    console.error('Error clearing provisional resolution:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether a provisional event is still inside its dispute window
+ */
+export function isDisputeWindowOpen(event: Event, now: number = Date.now()): boolean {
+  if (!event.provisional_at) return true;
+  return now - new Date(event.provisional_at).getTime() < DISPUTE_WINDOW_MS;
+}
+
 // ============================================
 // Pick Resolution
 // ============================================
@@ -90,9 +241,30 @@ export async function getUnresolvedPicksForEvent(
   return (data as unknown as PickWithPackInfo[]) ?? [];
 }
 
+/**
+ * Check resolution achievements for the owners of just-settled picks
+ * Runs after profile stats are refreshed (streak achievements read them).
+ */
+async function evaluateResolutionAchievements(picks: PickWithPackInfo[]): Promise<void> {
+  const picksByProfile = new Map<string, UserPick[]>();
+  for (const pick of picks) {
+    const profileId = pick.user_packs.profile_id;
+    picksByProfile.set(profileId, [...(picksByProfile.get(profileId) ?? []), pick]);
+  }
+
+  for (const [profileId, profilePicks] of Array.from(picksByProfile)) {
+    const unlocked = await evaluateAchievements(profileId, 'resolution', { picks: profilePicks });
+    if (unlocked.length > 0) {
+      console.log(`Profile ${profileId} unlocked: ${unlocked.map((a) => a.id).join(', ')}`);
+    }
+  }
+}
+
 /**
  * Resolve all picks for an event
- * Calculates is_correct and points_awarded for each pick
+ * Calculates is_correct and points_awarded for each pick. Picks that
+ * can't be scored are left unresolved and counted in picksSkipped - the
+ * caller must then leave the event unresolved so they're retried.
  */
 export async function resolvePicksForEvent(
   eventId: string,
@@ -101,6 +273,7 @@ export async function resolvePicksForEvent(
   const supabase = createServiceClient();
   const stats: ResolutionStats = {
     picksResolved: 0,
+    picksSkipped: 0,
     packsUpdated: 0,
     profilesUpdated: 0,
     totalPointsAwarded: 0,
@@ -116,15 +289,24 @@ export async function resolvePicksForEvent(
   // Process each pick
   const packIds = new Set<string>();
   const profileIds = new Set<string>();
+  const scoredPicks: PickWithPackInfo[] = [];
 
   for (const pick of picks) {
     const isCorrect = pick.picked_outcome === winningOutcome;
 
+    // Score under the ruleset the pick was committed with
+    const ruleset = await getScoringRuleset(pick.scoring_ruleset_id);
+    if (!ruleset) {
+      console.error('Skipping resolution of pick without a loadable ruleset:', pick.id);
+      stats.picksSkipped++;
+      continue;
+    }
+
     // Calculate points using the scoring calculator
     const scoringResult = calculatePoints({
       probabilityAtPick: pick.probability_snapshot,
       isCorrect,
-    });
+    }, ruleset);
 
     // Update the pick
     const { error } = await supabase
@@ -139,6 +321,7 @@ export async function resolvePicksForEvent(
 
     if (error) {
       console.error('Error updating pick resolution:', pick.id, error);
+      stats.picksSkipped++;
       continue;
     }
 
@@ -146,6 +329,12 @@ export async function resolvePicksForEvent(
     stats.totalPointsAwarded += scoringResult.points;
     packIds.add(pick.user_pack_id);
     profileIds.add(pick.user_packs.profile_id);
+    scoredPicks.push({
+      ...pick,
+      is_resolved: true,
+      is_correct: isCorrect,
+      points_awarded: scoringResult.points,
+    });
   }
 
   // Recalculate pack totals for affected packs
@@ -156,11 +345,282 @@ export async function resolvePicksForEvent(
     }
   }
 
-  stats.profilesUpdated = profileIds.size;
+  // Totals, streaks and category stats for the affected profiles
+  stats.profilesUpdated = (await refreshProfileStats(Array.from(profileIds))) ?? 0;
+
+  await evaluateResolutionAchievements(scoredPicks);
+
+  return stats;
+}
+
+/**
+ * Resolve all picks for a voided event
+ * Picks are closed out as void: zero points, neither correct nor a miss
+ */
+export async function voidPicksForEvent(eventId: string): Promise<ResolutionStats> {
+  const supabase = createServiceClient();
+  const stats: ResolutionStats = {
+    picksResolved: 0,
+    picksSkipped: 0,
+    packsUpdated: 0,
+    profilesUpdated: 0,
+    totalPointsAwarded: 0,
+  };
+
+  const picks = await getUnresolvedPicksForEvent(eventId);
+
+  if (picks.length === 0) {
+    return stats;
+  }
+
+  const { error } = await supabase
+    .from('user_picks')
+    .update({
+      is_resolved: true,
+      is_void: true,
+      is_correct: null,
+      points_awarded: 0,
+      resolved_at: new Date().toISOString(),
+    })
+    .in('id', picks.map((p) => p.id));
+
+  if (error) {
+    console.error('Error voiding picks for event:', eventId, error);
+    stats.picksSkipped = picks.length;
+    return stats;
+  }
+
+  stats.picksResolved = picks.length;
+
+  const packIds = new Set(picks.map((p) => p.user_pack_id));
+  for (const packId of Array.from(packIds)) {
+    const updated = await recalculatePackTotals(packId);
+    if (updated) {
+      stats.packsUpdated++;
+    }
+  }
+
+  const profileIds = new Set(picks.map((p) => p.user_packs.profile_id));
+  stats.profilesUpdated = (await refreshProfileStats(Array.from(profileIds))) ?? 0;
+
+  // A void can complete a pack whose other picks were all correct
+  await evaluateResolutionAchievements(
+    picks.map((pick) => ({
+      ...pick,
+      is_resolved: true,
+      is_void: true,
+      is_correct: undefined,
+      points_awarded: 0,
+    }))
+  );
 
   return stats;
 }
 
+// ============================================
+// Re-resolution (admin)
+// ============================================
+
+/**
+ * Score a pick against an outcome ('void' = zero points, not a miss)
+ */
+function scorePick(
+  pick: UserPick,
+  outcome: ProvisionalOutcome,
+  ruleset: ScoringRuleset
+): PickResolutionState {
+  if (outcome === 'void') {
+    return { is_correct: null, is_void: true, points_awarded: 0 };
+  }
+
+  const isCorrect = pick.picked_outcome === outcome;
+  const { points } = calculatePoints({
+    probabilityAtPick: pick.probability_snapshot,
+    isCorrect,
+  }, ruleset);
+
+  return { is_correct: isCorrect, is_void: false, points_awarded: points };
+}
+
+/**
+ * Re-resolve a settled event with a corrected outcome
+ *
+ * Rescores every pick on the event (revealed or not), recalculates the
+ * affected packs, checks resolution achievements for the rescored picks and
+ * writes a resolution_audits row with each pick's before/after state. Nothing changes if any pick's ruleset can't be loaded.
+ */
+export async function reResolveEvent(
+  eventId: string,
+  outcome: ProvisionalOutcome,
+  actor: string,
+  reason?: string
+): Promise<ReResolveResult> {
+  const supabase = createServiceClient();
+
+  const event = await getEventForResolution(eventId);
+  if (!event) {
+    return { error: `Event ${eventId} not found`, code: 'EVENT_NOT_FOUND' };
+  }
+
+  if (!['resolved', 'cancelled', 'pending_resolution'].includes(event.status)) {
+    return { error: `Event ${eventId} is ${event.status}`, code: 'EVENT_NOT_RESOLVED' };
+  }
+
+  const previousOutcome: ProvisionalOutcome | null =
+    event.status === 'cancelled'
+      ? 'void'
+      : event.status === 'pending_resolution'
+        ? event.provisional_outcome ?? null
+        : event.winning_outcome ?? null;
+
+  // 1. Load every pick on the event with its ruleset
+  const { data: picks, error: fetchError } = await supabase
+    .from('user_picks')
+    .select(`
+      *,
+      user_packs!inner (
+        id,
+        profile_id
+      )
+    `)
+    .eq('event_id', eventId);
+
+  if (fetchError) {
+    console.error('Error fetching picks for re-resolution:', eventId, fetchError);
+    return { error: 'Failed to fetch picks', code: 'UPDATE_FAILED' };
+  }
+
+  const rulesets = new Map<string, ScoringRuleset>();
+  for (const pick of (picks ?? []) as unknown as PickWithPackInfo[]) {
+    const ruleset = await getScoringRuleset(pick.scoring_ruleset_id);
+    if (!ruleset) {
+      return {
+        error: `Pick ${pick.id} has no loadable scoring ruleset`,
+        code: 'RULESET_NOT_FOUND',
+      };
+    }
+    rulesets.set(pick.id, ruleset);
+  }
+
+  // 2. Settle the event with the corrected outcome
+  const eventUpdated = outcome === 'void'
+    ? await voidEvent(eventId)
+    : await resolveEvent(eventId, outcome);
+
+  if (!eventUpdated) {
+    return { error: 'Failed to update event', code: 'UPDATE_FAILED' };
+  }
+
+  // 3. Rescore every pick on the event
+  const changes: PickChange[] = [];
+  const packIds = new Set<string>();
+  const profileIds = new Set<string>();
+  const rescoredPicks: PickWithPackInfo[] = [];
+  let picksSkipped = 0;
+
+  for (const pick of (picks ?? []) as unknown as PickWithPackInfo[]) {
+    const before: PickResolutionState = {
+      is_correct: pick.is_resolved ? pick.is_correct ?? null : null,
+      is_void: pick.is_void ?? false,
+      points_awarded: pick.points_awarded ?? 0,
+    };
+
+    const after = scorePick(pick, outcome, rulesets.get(pick.id)!);
+
+    const { error } = await supabase
+      .from('user_picks')
+      .update({
+        is_resolved: true,
+        ...after,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', pick.id);
+
+    if (error) {
+      console.error('Error re-resolving pick:', pick.id, error);
+      picksSkipped++;
+      continue;
+    }
+
+    packIds.add(pick.user_pack_id);
+    profileIds.add(pick.user_packs.profile_id);
+    rescoredPicks.push({
+      ...pick,
+      is_resolved: true,
+      is_correct: after.is_correct ?? undefined,
+      is_void: after.is_void,
+      points_awarded: after.points_awarded,
+    });
+
+    if (
+      !pick.is_resolved ||
+      before.is_correct !== after.is_correct ||
+      before.is_void !== after.is_void ||
+      before.points_awarded !== after.points_awarded
+    ) {
+      changes.push({
+        pick_id: pick.id,
+        user_pack_id: pick.user_pack_id,
+        revealed: pick.reveal_animation_played,
+        before,
+        after,
+      });
+    }
+  }
+
+  // 4. Recalculate the affected packs
+  let packsUpdated = 0;
+  for (const packId of Array.from(packIds)) {
+    if (await recalculatePackTotals(packId)) {
+      packsUpdated++;
+    }
+  }
+
+  // 5. Profile stats (streaks are rebuilt in resolution order), then the
+  // achievements a corrected outcome can unlock
+  await refreshProfileStats(Array.from(profileIds));
+  await evaluateResolutionAchievements(rescoredPicks);
+
+  // 6. Audit trail
+  const revealedPicksAffected = changes.filter((c) => c.revealed).length;
+  const newStatus: EventStatus = outcome === 'void' ? 'cancelled' : 'resolved';
+
+  const { error: auditError } = await supabase
+    .from('resolution_audits')
+    .insert({
+      event_id: eventId,
+      previous_status: event.status,
+      previous_outcome: previousOutcome,
+      new_status: newStatus,
+      new_outcome: outcome,
+      actor,
+      reason: reason ?? null,
+      picks_affected: changes.length,
+      revealed_picks_affected: revealedPicksAffected,
+      pick_changes: changes,
+    });
+
+  if (auditError) {
+    console.error('Error writing resolution audit:', eventId, auditError);
+  }
+
+  console.log(
+    `Event ${eventId} re-resolved ${previousOutcome ?? 'none'} -> ${outcome} by ${actor}: ` +
+    `${changes.length} picks changed (${revealedPicksAffected} already revealed)` +
+    (picksSkipped > 0 ? `, ${picksSkipped} failed to update` : '')
+  );
+
+  return {
+    eventId,
+    previousOutcome,
+    newOutcome: outcome,
+    picksAffected: changes.length,
+    revealedPicksAffected,
+    picksSkipped,
+    packsUpdated,
+  };
+}
+
 // ============================================
 // Pack Totals Recalculation
 // ============================================
@@ -189,6 +649,7 @@ export async function recalculatePackTotals(packId: string): Promise<boolean> {
 
   // Calculate totals
   const resolvedPicks = picks.filter((p) => p.is_resolved);
+  const voidedPicks = resolvedPicks.filter((p) => p.is_void);
   const correctPicks = resolvedPicks.filter((p) => p.is_correct);
   const totalPickPoints = resolvedPicks.reduce((sum, p) => sum + (p.points_awarded ?? 0), 0);
 
@@ -203,10 +664,22 @@ export async function recalculatePackTotals(packId: string): Promise<boolean> {
     resolutionStatus = 'partially_resolved';
   }
 
-  // Calculate pack bonus if fully resolved
+  // Calculate pack bonus if fully resolved (voided picks don't count)
   let packBonus = 0;
   if (allResolved) {
-    packBonus = calculatePackBonus(correctPicks.length, picks.length);
+    const { data: pack, error: packError } = await supabase
+      .from('user_packs')
+      .select('scoring_ruleset_id')
+      .eq('id', packId)
+      .single();
+
+    const ruleset = packError ? null : await getScoringRuleset(pack?.scoring_ruleset_id);
+    if (!ruleset) {
+      console.error('Error loading scoring ruleset for pack:', packId, packError);
+      return false;
+    }
+
+    packBonus = calculatePackBonus(correctPicks.length, picks.length - voidedPicks.length, ruleset);
   }
 
   const totalPoints = Math.round((totalPickPoints + packBonus) * 100) / 100;
@@ -216,6 +689,7 @@ export async function recalculatePackTotals(packId: string): Promise<boolean> {
     resolution_status: resolutionStatus,
     total_points: totalPoints,
     correct_picks: correctPicks.length,
+    voided_picks: voidedPicks.length,
     updated_at: new Date().toISOString(),
   };
 
@@ -233,6 +707,40 @@ export async function recalculatePackTotals(packId: string): Promise<boolean> {
     return false;
   }
 
+  if (voidedPicks.length / picks.length > REFUND_VOID_THRESHOLD) {
+    await flagPackForRefund(packId);
+  }
+
+  return true;
+}
+
+/**
+ * Flag a premium pack for refund (most of its markets were voided)
+ * Only premium packs without an existing refund status are flagged.
+ */
+export async function flagPackForRefund(packId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('user_packs')
+    .update({
+      refund_status: 'flagged',
+      refund_flagged_at: new Date().toISOString(),
+    })
+    .eq('id', packId)
+    .eq('is_premium', true)
+    .is('refund_status', null)
+    .select('id');
+
+  if (error) {
+    console.error('Error flagging pack for refund:', packId, error);
+    return false;
+  }
+
+  if (data && data.length > 0) {
+    console.log(`Premium pack ${packId} flagged for refund (voided markets)`);
+  }
+
   return true;
 }
 
@@ -242,6 +750,8 @@ export async function recalculatePackTotals(packId: string): Promise<boolean> {
 
 /**
  * Update event status to 'active' when event starts
+ * Upcoming events without a start time are moved on too - they can't be
+ * told apart from ones already under way, so they aren't dealt.
  */
 export async function updateActiveEvents(): Promise<number> {
   const supabase = createServiceClient();
@@ -255,7 +765,7 @@ export async function updateActiveEvents(): Promise<number> {
       updated_at: now,
     })
     .eq('status', 'upcoming')
-    .lte('event_start_at', now)
+    .or(`event_start_at.lte.${now},event_start_at.is.null`)
     .select('id');
 
   if (error) {
@@ -0,0 +1,101 @@
+/**
+ * Supabase Scoring Ruleset Functions
+ *
+ * Loading the ruleset a pick or pack was committed under, and choosing
+ * the ruleset for a new pack (pool override, then pack type).
+ */
+
+import { createServiceClient } from './server';
+import {
+  DEFAULT_SCORING_RULESET,
+  parseScoringRuleset,
+  type ScoringRuleset,
+} from '../scoring/rulesets';
+
+// Ruleset versions are immutable, so they can be cached for the life of the instance
+const rulesetCache = new Map<string, ScoringRuleset>();
+
+// ============================================
+// Ruleset Lookup
+// ============================================
+
+/**
+ * Get a scoring ruleset by ID
+ * A null ID (picks committed before rulesets existed) is the default ruleset.
+ * Returns null if the ruleset can't be loaded - callers should skip scoring
+ * rather than fall back to different rules.
+ */
+export async function getScoringRuleset(
+  rulesetId: string | null | undefined
+): Promise<ScoringRuleset | null> {
+  if (!rulesetId) return DEFAULT_SCORING_RULESET;
+
+  const cached = rulesetCache.get(rulesetId);
+  if (cached) return cached;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('scoring_rulesets')
+    .select('id, slug, version, config')
+    .eq('id', rulesetId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching scoring ruleset:', rulesetId, error);
+    return null;
+  }
+
+  const ruleset = parseScoringRuleset(data);
+  if (!ruleset) {
+    console.error('Malformed scoring ruleset config:', rulesetId);
+    return null;
+  }
+
+  rulesetCache.set(rulesetId, ruleset);
+  return ruleset;
+}
+
+/**
+ * Choose the ruleset for a new pack
+ * A ruleset on the events' pool wins over the pack type's; null = default.
+ */
+export async function resolveScoringRulesetId(
+  packTypeSlug: string,
+  eventIds: string[]
+): Promise<string | null> {
+  const supabase = createServiceClient();
+
+  if (eventIds.length > 0) {
+    const { data: events, error } = await supabase
+      .from('events')
+      .select('pool_id, pools(scoring_ruleset_id)')
+      .in('id', eventIds)
+      .not('pool_id', 'is', null);
+
+    if (error) {
+      console.error('Error fetching pool scoring rulesets:', error);
+    }
+
+    for (const event of (events ?? []) as unknown as Array<{
+      pools: { scoring_ruleset_id: string | null } | null;
+    }>) {
+      if (event.pools?.scoring_ruleset_id) {
+        return event.pools.scoring_ruleset_id;
+      }
+    }
+  }
+
+  const { data: packType, error } = await supabase
+    .from('pack_types')
+    .select('scoring_ruleset_id')
+    .eq('slug', packTypeSlug)
+    .single();
+
+  if (error) {
+    console.error('Error fetching pack type scoring ruleset:', packTypeSlug, error);
+    return null;
+  }
+
+  return packType?.scoring_ruleset_id ?? null;
+}
@@ -0,0 +1,305 @@
+/**
+ * Supabase Season Payout Functions
+ *
+ * The season_payouts ledger: prize allocation for finalized weekly boards
+ * and the pending -> sending -> paid transitions of each prize. Every
+ * transition is conditional on the row's current state, so concurrent or
+ * repeated runs can't pay a prize twice.
+ */
+
+import { createServiceClient } from './server';
+import { getWeekRange } from './leaderboard';
+
+// ============================================
+// Types
+// ============================================
+
+export type SeasonPayoutStatus = 'pending' | 'sending' | 'paid' | 'failed';
+
+export interface SeasonPayout {
+  id: string;
+  leaderboard_id: string;
+  profile_id: string;
+  wallet_address: string;
+  rank: number;
+  prize_position: number;
+  amount: number;
+  status: SeasonPayoutStatus;
+  signature: string | null;
+  last_valid_block_height: number | null;
+  attempts: number;
+  error: string | null;
+  created_at: string;
+  paid_at: string | null;
+}
+
+export interface SeasonBoard {
+  id: string;
+  week_start: string;
+  is_finalized: boolean;
+  payouts_allocated_at: string | null;
+}
+
+/** A payout table row: positions from..to (inclusive) each win amount PLAY */
+export interface PayoutTier {
+  from: number;
+  to: number;
+  amount: number;
+}
+
+// ============================================
+// Boards
+// ============================================
+
+/**
+ * Get the global board for a week ID (YYYY-WW), null if none
+ */
+export async function getSeasonBoard(weekId: string): Promise<SeasonBoard | null> {
+  const range = getWeekRange(weekId);
+  if (!range) return null;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('leaderboards')
+    .select('id, week_start, is_finalized, payouts_allocated_at')
+    .eq('week_start', range.start.toISOString().slice(0, 10))
+    .eq('leaderboard_type', 'global')
+    .is('category_filter', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching season board:', weekId, error);
+    return null;
+  }
+
+  return data as SeasonBoard | null;
+}
+
+/**
+ * Get finalized weekly boards whose prizes haven't been allocated
+ */
+export async function getBoardsAwaitingPayouts(): Promise<SeasonBoard[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('leaderboards')
+    .select('id, week_start, is_finalized, payouts_allocated_at')
+    .eq('leaderboard_type', 'global')
+    .is('category_filter', null)
+    .eq('is_finalized', true)
+    .is('payouts_allocated_at', null)
+    .order('week_start');
+
+  if (error) {
+    console.error('Error fetching boards awaiting payouts:', error);
+    return [];
+  }
+
+  return (data ?? []) as SeasonBoard[];
+}
+
+/**
+ * Allocate a finalized board's prizes into the ledger (once per board)
+ * Returns the number of prizes allocated (0 if already done), or null on error.
+ */
+export async function allocateSeasonPrizes(
+  leaderboardId: string,
+  tiers: PayoutTier[]
+): Promise<number | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('allocate_season_prizes', {
+    p_leaderboard_id: leaderboardId,
+    p_table: tiers,
+  });
+
+  if (error) {
+    console.error('Error allocating season prizes:', leaderboardId, error);
+    return null;
+  }
+
+  return (data as number) ?? 0;
+}
+
+// ============================================
+// Ledger
+// ============================================
+
+/**
+ * Get every prize on a board, by prize position
+ */
+export async function getPayoutsForBoard(leaderboardId: string): Promise<SeasonPayout[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('season_payouts')
+    .select('*')
+    .eq('leaderboard_id', leaderboardId)
+    .order('prize_position');
+
+  if (error) {
+    console.error('Error fetching season payouts:', leaderboardId, error);
+    return [];
+  }
+
+  return (data ?? []) as SeasonPayout[];
+}
+
+/**
+ * Get prizes in a given state, oldest first
+ */
+export async function getPayoutsByStatus(
+  status: SeasonPayoutStatus,
+  limit = 50
+): Promise<SeasonPayout[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('season_payouts')
+    .select('*')
+    .eq('status', status)
+    .order('created_at')
+    .order('prize_position')
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching season payouts by status:', status, error);
+    return [];
+  }
+
+  return (data ?? []) as SeasonPayout[];
+}
+
+/**
+ * Claim a pending prize for sending, recording the signed transfer's signature
+ * Returns false if another run got there first (or on error) - don't send.
+ */
+export async function claimPayout(
+  payout: SeasonPayout,
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('season_payouts')
+    .update({
+      status: 'sending',
+      signature,
+      last_valid_block_height: lastValidBlockHeight,
+      attempts: payout.attempts + 1,
+      error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payout.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    console.error('Error claiming season payout:', payout.id, error);
+    return false;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Mark a sending prize as paid by its signature
+ */
+export async function markPayoutPaid(payoutId: string, signature: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('season_payouts')
+    .update({
+      status: 'paid',
+      error: null,
+      paid_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payoutId)
+    .eq('status', 'sending')
+    .eq('signature', signature);
+
+  if (error) {
+    console.error('Error marking season payout paid:', payoutId, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Settle a sending prize whose transfer didn't land
+ * With retry it goes back to pending (signature cleared) for a fresh
+ * transfer; without, it's marked failed for someone to look at.
+ */
+export async function releasePayout(
+  payoutId: string,
+  signature: string,
+  reason: string,
+  retry: boolean
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('season_payouts')
+    .update({
+      status: retry ? 'pending' : 'failed',
+      signature: retry ? null : signature,
+      last_valid_block_height: retry ? null : undefined,
+      error: reason,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payoutId)
+    .eq('status', 'sending')
+    .eq('signature', signature);
+
+  if (error) {
+    console.error('Error releasing season payout:', payoutId, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Mark a pending prize failed before anything was sent (e.g. bad wallet)
+ */
+export async function failPendingPayout(payoutId: string, reason: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('season_payouts')
+    .update({
+      status: 'failed',
+      error: reason,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payoutId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error failing season payout:', payoutId, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Record why the latest send attempt went wrong (status unchanged)
+ */
+export async function recordPayoutError(payoutId: string, reason: string): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('season_payouts')
+    .update({ error: reason, updated_at: new Date().toISOString() })
+    .eq('id', payoutId);
+
+  if (error) {
+    console.error('Error recording season payout error:', payoutId, error);
+  }
+}
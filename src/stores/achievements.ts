@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Achievement } from '@/types';
+
+// ============================================
+// Achievement Toasts
+// ============================================
+
+interface AchievementToastState {
+  // Achievement IDs already toasted (persisted, so a toast shows once)
+  shownIds: string[];
+
+  // Unlocks waiting to be toasted, oldest first (not persisted)
+  queue: Achievement[];
+
+  // Actions
+  showUnlocks: (unlocks: Achievement[]) => void;
+  dismissToast: () => void;
+}
+
+export const useAchievementToastStore = create<AchievementToastState>()(
+  persist(
+    (set, get) => ({
+      shownIds: [],
+      queue: [],
+
+      // Queue unlocks that haven't been toasted yet
+      showUnlocks: (unlocks) => {
+        const { shownIds, queue } = get();
+        const fresh = unlocks.filter((unlock) => !shownIds.includes(unlock.id));
+        if (fresh.length === 0) return;
+
+        set({
+          shownIds: [...shownIds, ...fresh.map((unlock) => unlock.id)],
+          queue: [...queue, ...fresh],
+        });
+      },
+
+      // Drop the toast currently showing
+      dismissToast: () => {
+        set({ queue: get().queue.slice(1) });
+      },
+    }),
+    {
+      name: 'polydraft-achievement-toasts',
+      partialize: (state) => ({ shownIds: state.shownIds }),
+    }
+  )
+);
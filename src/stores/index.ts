@@ -3,3 +3,5 @@ export * from './session';
 export * from './currentPack';
 export * from './myPacks';
 export * from './explore';
+export * from './realtime';
+export * from './achievements';
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { UserPack, UserPick, Event } from '@/types';
+import type { Achievement, UserPack, UserPick, Event, PackResolutionStatus } from '@/types';
 
 // ============================================
 // Types
@@ -11,6 +11,7 @@ export interface StoredPack {
   picks: (UserPick & { event: Event })[];
   events: Event[];
   syncedToDb: boolean; // Flag to track if pack has been synced to database
+  achievements?: Achievement[]; // Unlocks this pack earned (from the server)
 }
 
 export interface PickPreview {
@@ -20,6 +21,7 @@ export interface PickPreview {
   isResolved: boolean;
   isRevealed: boolean;
   isCorrect: boolean | null;
+  isVoid: boolean;
 }
 
 export type PackStatus = 'drafting' | 'waiting' | 'has_reveals' | 'completed';
@@ -41,11 +43,25 @@ export interface PackSummary {
 // Store Interface
 // ============================================
 
-interface ResolvePickData {
-  winningOutcome: 'a' | 'b' | 'draw';
-  resolvedAt: string;
-  isCorrect: boolean;
+// Server-awarded state for one pick (from /api/events/sync)
+export interface ServerPickResolution {
+  eventId: string;
+  isResolved: boolean;
+  isCorrect: boolean | null;
+  isVoid: boolean;
   pointsAwarded: number;
+  resolvedAt: string | null;
+  probabilitySnapshot: number; // Odds the pick is scored at (may be repriced at commit)
+  winningOutcome: 'a' | 'b' | 'draw' | null; // null when the market was voided
+}
+
+// Server-awarded pack totals - points are never computed on the client
+export interface ReconcilePackData {
+  totalPoints: number; // Pick points + pack bonus
+  correctPicks: number;
+  resolutionStatus: PackResolutionStatus;
+  picks: ServerPickResolution[];
+  achievements?: Achievement[];
 }
 
 interface MyPacksState {
@@ -58,7 +74,7 @@ interface MyPacksState {
   updatePack: (packId: string, updates: Partial<UserPack>) => void;
   updatePick: (packId: string, pickId: string, updates: Partial<UserPick>) => void;
   removePack: (packId: string) => void;
-  resolvePicksForEvent: (packId: string, eventId: string, data: ResolvePickData) => void;
+  reconcilePack: (packId: string, data: ReconcilePackData) => void;
   markPackSynced: (packId: string) => void;
   getUnsyncedPacks: () => StoredPack[];
 
@@ -102,16 +118,16 @@ function computePickPreview(pick: UserPick & { event: Event }): PickPreview {
     pickedLabel,
     isResolved: pick.is_resolved,
     isRevealed: pick.reveal_animation_played,
-    isCorrect: pick.is_resolved ? (pick.is_correct ?? null) : null,
+    isCorrect: pick.is_resolved && !pick.is_void ? (pick.is_correct ?? null) : null,
+    isVoid: !!pick.is_void,
   };
 }
 
-function computePackSummary(storedPack: StoredPack): PackSummary {
+export function computePackSummary(storedPack: StoredPack): PackSummary {
   const { pack, picks } = storedPack;
 
   const resolvedCount = picks.filter((p) => p.is_resolved).length;
   const revealedCount = picks.filter((p) => p.reveal_animation_played).length;
-  const totalPoints = picks.reduce((sum, p) => sum + (p.points_awarded || 0), 0);
 
   return {
     id: pack.id,
@@ -120,7 +136,7 @@ function computePackSummary(storedPack: StoredPack): PackSummary {
     totalPicks: picks.length,
     resolvedCount,
     revealedCount,
-    totalPoints,
+    totalPoints: pack.total_points ?? 0,
     pickPreviews: picks
       .sort((a, b) => a.position - b.position)
       .map(computePickPreview),
@@ -187,12 +203,7 @@ export const useMyPacksStore = create<MyPacksState>()(
           pick.id === pickId ? { ...pick, ...updates } : pick
         );
 
-        // Compute new pack totals
-        const totalPoints = newPicks.reduce(
-          (sum, p) => sum + (p.points_awarded || 0),
-          0
-        );
-        const correctPicks = newPicks.filter((p) => p.is_correct).length;
+        // Pack totals come from the server (reconcilePack), not from local picks
         const allRevealed = newPicks.every((p) => p.reveal_animation_played);
 
         set({
@@ -203,8 +214,6 @@ export const useMyPacksStore = create<MyPacksState>()(
               picks: newPicks,
               pack: {
                 ...storedPack.pack,
-                total_points: totalPoints,
-                correct_picks: correctPicks,
                 resolution_status: allRevealed ? 'fully_resolved' : storedPack.pack.resolution_status,
                 fully_resolved_at: allRevealed ? new Date().toISOString() : storedPack.pack.fully_resolved_at,
               },
@@ -225,41 +234,42 @@ export const useMyPacksStore = create<MyPacksState>()(
         });
       },
 
-      // Resolve picks for a specific event
-      resolvePicksForEvent: (packId, eventId, data) => {
+      // Reconcile local picks and totals with the server-awarded values
+      reconcilePack: (packId, data) => {
         const { packs } = get();
         const storedPack = packs[packId];
 
         if (!storedPack) return;
 
-        // Find and update picks that match this event and are not yet resolved
+        const serverPicks = new Map(data.picks.map((p) => [p.eventId, p]));
+
         const newPicks = storedPack.picks.map((pick) => {
-          if (pick.event_id === eventId && !pick.is_resolved) {
-            return {
-              ...pick,
-              is_resolved: true,
-              is_correct: data.isCorrect,
-              resolved_at: data.resolvedAt,
-              points_awarded: data.pointsAwarded,
-              // Also update the event's winning outcome
-              event: {
-                ...pick.event,
-                status: 'resolved' as const,
-                winning_outcome: data.winningOutcome,
-                resolved_at: data.resolvedAt,
-              },
-            };
+          const serverPick = serverPicks.get(pick.event_id);
+          if (!serverPick) return pick;
+
+          if (!serverPick.isResolved) {
+            return { ...pick, probability_snapshot: serverPick.probabilitySnapshot };
           }
-          return pick;
-        });
 
-        // Compute new pack totals
-        const totalPoints = newPicks.reduce(
-          (sum, p) => sum + (p.points_awarded || 0),
-          0
-        );
-        const correctPicks = newPicks.filter((p) => p.is_correct).length;
-        const allResolved = newPicks.every((p) => p.is_resolved);
+          const resolvedAt = serverPick.resolvedAt ?? pick.resolved_at ?? new Date().toISOString();
+
+          return {
+            ...pick,
+            is_resolved: true,
+            is_correct: serverPick.isVoid ? undefined : serverPick.isCorrect ?? undefined,
+            is_void: serverPick.isVoid,
+            probability_snapshot: serverPick.probabilitySnapshot,
+            resolved_at: resolvedAt,
+            points_awarded: serverPick.pointsAwarded,
+            // Also update the event's winning outcome
+            event: {
+              ...pick.event,
+              status: serverPick.isVoid ? ('cancelled' as const) : ('resolved' as const),
+              winning_outcome: serverPick.winningOutcome ?? undefined,
+              resolved_at: resolvedAt,
+            },
+          };
+        });
 
         set({
           packs: {
@@ -267,11 +277,12 @@ export const useMyPacksStore = create<MyPacksState>()(
             [packId]: {
               ...storedPack,
               picks: newPicks,
+              achievements: data.achievements ?? storedPack.achievements,
               pack: {
                 ...storedPack.pack,
-                total_points: totalPoints,
-                correct_picks: correctPicks,
-                resolution_status: allResolved ? 'fully_resolved' : 'partially_resolved',
+                total_points: data.totalPoints,
+                correct_picks: data.correctPicks,
+                resolution_status: data.resolutionStatus,
               },
             },
           },
@@ -398,6 +409,7 @@ export interface ActivePickPreview {
   isResolved: boolean;
   isRevealed: boolean;
   isCorrect: boolean | null;
+  isVoid: boolean;
 }
 
 export const useActivePickPreviews = (limit: number = 2): { picks: ActivePickPreview[]; totalCount: number } => {
@@ -437,7 +449,8 @@ export const useActivePickPreviews = (limit: number = 2): { picks: ActivePickPre
         probabilitySnapshot: pick.probability_snapshot,
         isResolved: pick.is_resolved,
         isRevealed: pick.reveal_animation_played,
-        isCorrect: pick.is_resolved ? (pick.is_correct ?? null) : null,
+        isCorrect: pick.is_resolved && !pick.is_void ? (pick.is_correct ?? null) : null,
+        isVoid: !!pick.is_void,
       });
     }
   }
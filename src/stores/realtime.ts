@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+
+// ============================================
+// Realtime Connection State
+// ============================================
+
+// Not persisted - a fresh page load always starts disconnected
+interface RealtimeState {
+  // Whether the resolution push channel is subscribed
+  isResolutionPushLive: boolean;
+
+  setResolutionPushLive: (live: boolean) => void;
+}
+
+export const useRealtimeStore = create<RealtimeState>()((set) => ({
+  isResolutionPushLive: false,
+
+  setResolutionPushLive: (live) => set({ isResolutionPushLive: live }),
+}));
@@ -18,6 +18,8 @@ export interface RarityInfo {
 
 export type EventStatus = 'upcoming' | 'active' | 'pending_resolution' | 'resolved' | 'cancelled';
 export type Outcome = 'a' | 'b' | 'draw';
+/** Venue-reported result awaiting the dispute window ('void' = market cancelled) */
+export type ProvisionalOutcome = Outcome | 'void';
 export type EventCategory = 'sports' | 'politics' | 'crypto' | 'economy' | 'entertainment';
 
 /** Supported prediction market venues */
@@ -69,6 +71,10 @@ export interface Event {
   resolved_at?: string;
   winning_outcome?: Outcome;
 
+  // Dispute window (set while status = 'pending_resolution')
+  provisional_outcome?: ProvisionalOutcome;
+  provisional_at?: string;
+
   is_featured: boolean;
   priority_score: number;
 
@@ -95,6 +101,14 @@ export interface PackType {
 
   cards_per_pack: number;
   eligibility_filters: Record<string, unknown>;
+  scoring_ruleset_id?: string;
+
+  // Drop table by rarity, summing to 1 (null = default rates)
+  drop_rates?: Record<string, number> | null;
+  // Packs in a row without a rare-or-better card before one is guaranteed (null = no pity)
+  pity_threshold?: number | null;
+  // Limits on which events are dealt together (null = none)
+  selection_constraints?: Record<string, unknown> | null;
 
   is_active: boolean;
   available_from?: string;
@@ -111,10 +125,12 @@ export interface PackType {
 
 export type PackResolutionStatus = 'pending' | 'partially_resolved' | 'fully_resolved';
 export type PickStatus = 'pending' | 'resolved';
+export type PackRefundStatus = 'flagged' | 'refunded' | 'rejected';
 
 export interface UserPack {
   id: string;
   user_id: string;
+  profile_id?: string;
   pack_type_id: string;
   pack_type?: PackType;
 
@@ -125,6 +141,7 @@ export interface UserPack {
 
   total_points: number;
   correct_picks: number;
+  scoring_ruleset_id?: string; // Ruleset the pack was committed under (null = standard v1)
 
   fully_resolved_at?: string;
   created_at: string;
@@ -136,6 +153,11 @@ export interface UserPack {
   payment_amount?: number;
   buyer_wallet?: string;
 
+  // Voided markets
+  voided_picks?: number;
+  refund_status?: PackRefundStatus;
+  refund_flagged_at?: string;
+
   // Populated
   picks?: UserPick[];
 }
@@ -154,10 +176,18 @@ export interface UserPick {
   opposite_probability_snapshot: number;
   draw_probability_snapshot?: number; // For events that support draw
 
+  // Live price check at commit (probability_snapshot is what gets scored)
+  dealt_probability?: number;
+  live_probability?: number;
+  live_price_checked_at?: string;
+  is_repriced?: boolean;
+
   is_resolved: boolean;
   is_correct?: boolean;
+  is_void?: boolean; // Market was cancelled - no points, not a miss
   resolved_at?: string;
   points_awarded: number;
+  scoring_ruleset_id?: string; // Ruleset the pick is scored under (null = standard v1)
 
   reveal_animation_played: boolean;
   created_at: string;
@@ -170,6 +200,8 @@ export interface UserPick {
 export interface UserProfile {
   id: string;
   user_id: string;
+  anonymous_id?: string;
+  wallet_address?: string;
 
   username?: string;
   display_name?: string;
@@ -192,6 +224,7 @@ export interface UserProfile {
 
   favorite_pack_types?: string[];
   notification_preferences?: NotificationPreferences;
+  last_rank_summary_week?: string; // YYYY-WW of the last weekly rank push
 
   created_at: string;
   updated_at: string;
@@ -204,8 +237,10 @@ export interface CategoryStats {
 }
 
 export interface Achievement {
-  id: string;
+  id: string; // Catalogue ID (src/lib/achievements/catalogue.ts)
   unlocked_at: string;
+  pack_id?: string; // Pack / pick that earned it, for the reveal toast
+  pick_id?: string;
 }
 
 export interface NotificationPreferences {
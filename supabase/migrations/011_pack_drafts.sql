@@ -0,0 +1,32 @@
+-- ============================================
+-- Migration 011: Server-dealt Pack Drafts
+-- ============================================
+-- Packs are dealt by the server. The dealt events (with the odds shown to
+-- the user) are stored here until the user commits their picks, so the
+-- client can't choose its own events or rewrite probability snapshots.
+
+CREATE TABLE pack_drafts (
+  -- Becomes user_packs.id once picks are committed
+  id UUID PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  pack_type_slug TEXT NOT NULL,
+
+  -- Dealt events in position order, plus the full event rows at deal time
+  event_ids UUID[] NOT NULL,
+  events JSONB NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'committed', 'expired')),
+
+  expires_at TIMESTAMPTZ NOT NULL,
+  committed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_pack_drafts_profile ON pack_drafts(profile_id);
+CREATE INDEX idx_pack_drafts_pending ON pack_drafts(expires_at) WHERE status = 'pending';
+
+-- RLS: service role only (API routes use service client)
+ALTER TABLE pack_drafts ENABLE ROW LEVEL SECURITY;
+
+-- No public policies — only service role can access
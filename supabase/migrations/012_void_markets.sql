@@ -0,0 +1,51 @@
+-- ============================================
+-- Migration 012: Void / Cancelled Markets
+-- ============================================
+-- Markets can be voided by the venue (cancelled games, invalid questions).
+-- Picks on voided events resolve with zero points and don't count as misses;
+-- premium packs that lose most of their picks this way are flagged for refund.
+
+-- 1. Void flag on picks
+ALTER TABLE user_picks ADD COLUMN IF NOT EXISTS is_void BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Void count + refund tracking on packs
+ALTER TABLE user_packs ADD COLUMN IF NOT EXISTS voided_picks INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_packs ADD COLUMN IF NOT EXISTS refund_status TEXT
+  CHECK (refund_status IN ('flagged', 'refunded', 'rejected'));
+ALTER TABLE user_packs ADD COLUMN IF NOT EXISTS refund_flagged_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_user_packs_refund_status
+  ON user_packs(refund_status) WHERE refund_status IS NOT NULL;
+
+-- 3. Voided picks are not "picks made" for accuracy purposes
+CREATE OR REPLACE FUNCTION update_user_profile_stats(p_profile_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE user_profiles
+  SET
+    total_points = (
+      SELECT COALESCE(SUM(total_points), 0)
+      FROM user_packs
+      WHERE profile_id = p_profile_id
+    ),
+    total_packs_opened = (
+      SELECT COUNT(*)
+      FROM user_packs
+      WHERE profile_id = p_profile_id
+    ),
+    total_picks_made = (
+      SELECT COUNT(*)
+      FROM user_picks up
+      JOIN user_packs pack ON pack.id = up.user_pack_id
+      WHERE pack.profile_id = p_profile_id AND up.is_void = false
+    ),
+    total_correct_picks = (
+      SELECT COUNT(*)
+      FROM user_picks up
+      JOIN user_packs pack ON pack.id = up.user_pack_id
+      WHERE pack.profile_id = p_profile_id AND up.is_correct = true
+    ),
+    updated_at = now()
+  WHERE id = p_profile_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+-- ============================================
+-- Migration 013: Resolution Dispute Window & Re-resolution Audit
+-- ============================================
+-- Venues can reverse an outcome after first reporting it (UMA disputes,
+-- exchange corrections). Resolved events now sit in 'pending_resolution'
+-- with a provisional outcome until the dispute window has passed, and
+-- admin re-resolutions are recorded in an audit table.
+
+-- 1. Provisional outcome on events (set while status = 'pending_resolution')
+ALTER TABLE events ADD COLUMN IF NOT EXISTS provisional_outcome TEXT
+  CHECK (provisional_outcome IN ('a', 'b', 'draw', 'void'));
+ALTER TABLE events ADD COLUMN IF NOT EXISTS provisional_at TIMESTAMPTZ;
+
+-- 2. Audit trail for re-resolutions
+CREATE TABLE IF NOT EXISTS resolution_audits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  previous_status TEXT NOT NULL,
+  previous_outcome TEXT,
+  new_status TEXT NOT NULL,
+  new_outcome TEXT,
+
+  actor TEXT NOT NULL,          -- Admin wallet address
+  reason TEXT,
+
+  picks_affected INTEGER NOT NULL DEFAULT 0,
+  revealed_picks_affected INTEGER NOT NULL DEFAULT 0,
+  -- Per-pick before/after: [{ pick_id, user_pack_id, revealed, before: {...}, after: {...} }]
+  pick_changes JSONB NOT NULL DEFAULT '[]',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resolution_audits_event ON resolution_audits(event_id);
+CREATE INDEX IF NOT EXISTS idx_events_pending_resolution
+  ON events(provisional_at) WHERE status = 'pending_resolution';
+
+-- Service role only
+ALTER TABLE resolution_audits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,72 @@
+-- ============================================
+-- Migration 014: Versioned Scoring Rulesets
+-- ============================================
+-- Scoring rules (base stake, multiplier curve, tier bonuses, pack bonuses)
+-- live in versioned, immutable rows. Pack types and pools point at a
+-- ruleset; packs and picks record the one they were committed under, so
+-- publishing a new version never rescores historical packs.
+--
+-- Picks/packs with a NULL scoring_ruleset_id predate this migration and
+-- are scored with the built-in 'standard' v1 rules (same as the seed below).
+
+-- 1. Rulesets
+CREATE TABLE IF NOT EXISTS scoring_rulesets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  slug TEXT NOT NULL,                 -- e.g. "standard", "capped-longshots"
+  version INTEGER NOT NULL,
+  description TEXT,
+
+  -- { baseStake, multiplier: { curve, cap?, scale? }, tiers: [...], packBonuses: [...] }
+  config JSONB NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE (slug, version)
+);
+
+-- Versions are immutable: publish a new version instead of editing one
+CREATE OR REPLACE FUNCTION prevent_scoring_ruleset_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'scoring_rulesets rows are immutable; insert a new version instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS scoring_rulesets_immutable ON scoring_rulesets;
+CREATE TRIGGER scoring_rulesets_immutable
+  BEFORE UPDATE ON scoring_rulesets
+  FOR EACH ROW EXECUTE FUNCTION prevent_scoring_ruleset_update();
+
+-- 2. Attach rulesets to pack types and pools (pool overrides pack type)
+ALTER TABLE pack_types ADD COLUMN IF NOT EXISTS scoring_ruleset_id UUID REFERENCES scoring_rulesets(id);
+ALTER TABLE pools ADD COLUMN IF NOT EXISTS scoring_ruleset_id UUID REFERENCES scoring_rulesets(id);
+
+-- 3. Record the ruleset each pack/pick was committed under
+ALTER TABLE user_packs ADD COLUMN IF NOT EXISTS scoring_ruleset_id UUID REFERENCES scoring_rulesets(id);
+ALTER TABLE user_picks ADD COLUMN IF NOT EXISTS scoring_ruleset_id UUID REFERENCES scoring_rulesets(id);
+
+-- 4. Seed 'standard' v1 (the original hard-coded rules) and use it for sports
+INSERT INTO scoring_rulesets (slug, version, description, config) VALUES
+('standard', 1, '$1 stake, inverse-probability payout, underdog bonuses', '{
+  "baseStake": 1,
+  "multiplier": { "curve": "inverse" },
+  "tiers": [
+    { "tier": "longshot", "maxProbability": 0.1, "bonus": 0.5 },
+    { "tier": "underdog", "maxProbability": 0.25, "bonus": 0.25 },
+    { "tier": "slight_underdog", "maxProbability": 0.4, "bonus": 0.1 },
+    { "tier": "tossup", "maxProbability": 0.6, "bonus": 0 },
+    { "tier": "favorite", "maxProbability": 0.75, "bonus": 0 },
+    { "tier": "heavy_favorite", "maxProbability": 1, "bonus": 0 }
+  ],
+  "packBonuses": [5, 2, 1]
+}')
+ON CONFLICT (slug, version) DO NOTHING;
+
+UPDATE pack_types
+SET scoring_ruleset_id = (SELECT id FROM scoring_rulesets WHERE slug = 'standard' AND version = 1)
+WHERE scoring_ruleset_id IS NULL;
+
+-- 5. RLS - rulesets are public (players can see how they're scored)
+ALTER TABLE scoring_rulesets ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Scoring rulesets are viewable by everyone" ON scoring_rulesets FOR SELECT USING (true);
@@ -0,0 +1,14 @@
+-- ============================================
+-- Migration 015: Live Price Check at Pick Commit
+-- ============================================
+-- Picks are checked against a fresh venue price when the pack is committed.
+-- probability_snapshot stays the odds the pick is scored at; these columns
+-- keep both sides of the check so repricing is auditable.
+
+ALTER TABLE user_picks ADD COLUMN IF NOT EXISTS dealt_probability DECIMAL(5,4);      -- Odds as dealt (pool snapshot)
+ALTER TABLE user_picks ADD COLUMN IF NOT EXISTS live_probability DECIMAL(5,4);       -- Venue odds at commit
+ALTER TABLE user_picks ADD COLUMN IF NOT EXISTS live_price_checked_at TIMESTAMPTZ;
+ALTER TABLE user_picks ADD COLUMN IF NOT EXISTS is_repriced BOOLEAN NOT NULL DEFAULT false;
+
+-- Superseded by the commit-time check in the app (never called)
+DROP FUNCTION IF EXISTS create_pick_with_fresh_price(UUID, UUID, INTEGER, TEXT, DECIMAL, DECIMAL, DECIMAL);
@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration 016: Realtime Resolution Push
+-- ============================================
+-- Clients subscribe to updates on the events behind their unresolved
+-- picks (events are already publicly readable), so event rows need to be
+-- broadcast by Supabase Realtime.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE events;
+  END IF;
+END $$;
@@ -0,0 +1,31 @@
+-- ============================================
+-- Migration 017: Web Push Subscriptions
+-- ============================================
+-- Browser push subscriptions, one row per device, owned by a profile.
+-- The resolve-events cron sends "card ready to reveal" notifications and
+-- the weekly rank summary to them, respecting the profile's
+-- notification_preferences.
+
+-- 1. Subscriptions (endpoint is unique per browser install)
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,         -- Client public key (base64url)
+  auth TEXT NOT NULL,           -- Client auth secret (base64url)
+
+  user_agent TEXT,
+  last_sent_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_profile ON push_subscriptions(profile_id);
+
+-- Service role only
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- 2. Week the last rank summary was sent for (YYYY-WW), so cron re-runs don't repeat it
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS last_rank_summary_week TEXT;
@@ -0,0 +1,296 @@
+-- ============================================
+-- Migration 018: Materialised Weekly Leaderboard
+-- ============================================
+-- The weekly leaderboard was rebuilt from every user_packs row of the week
+-- on each request. Entries are now kept up to date incrementally by
+-- triggers on user_packs/user_picks (pack opened, picks resolved or
+-- re-resolved), ranked by the rank-leaderboards cron (which keeps
+-- previous_rank for movement), and frozen into leaderboard_snapshots when
+-- the week closes.
+--
+-- A pack counts towards the week it was opened in (UTC, Monday-Sunday).
+
+-- 1. One global board per week (category_filter is NULL, so the table's
+--    UNIQUE constraint doesn't apply to it)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leaderboards_global_week
+  ON leaderboards(week_start)
+  WHERE leaderboard_type = 'global' AND category_filter IS NULL;
+
+ALTER TABLE leaderboards ADD COLUMN IF NOT EXISTS player_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE leaderboards ADD COLUMN IF NOT EXISTS ranked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_board_rank
+  ON leaderboard_entries(leaderboard_id, rank);
+
+-- 2. Frozen standings at week close
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  leaderboard_id UUID NOT NULL REFERENCES leaderboards(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  rank INTEGER NOT NULL,
+  previous_rank INTEGER,
+  total_points DECIMAL(10,2) NOT NULL,
+  packs_opened INTEGER NOT NULL,
+  picks_made INTEGER NOT NULL,
+  correct_picks INTEGER NOT NULL,
+  accuracy_rate DECIMAL(5,4),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (leaderboard_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_rank
+  ON leaderboard_snapshots(leaderboard_id, rank);
+
+ALTER TABLE leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Leaderboard snapshots are viewable by everyone"
+ON leaderboard_snapshots FOR SELECT USING (true);
+
+-- 3. Get (or create) the global board for the week containing a timestamp
+CREATE OR REPLACE FUNCTION get_week_leaderboard(p_at TIMESTAMPTZ)
+RETURNS UUID AS $$
+DECLARE
+  v_week_start DATE;
+  v_leaderboard_id UUID;
+BEGIN
+  v_week_start := date_trunc('week', p_at AT TIME ZONE 'UTC')::DATE;
+
+  INSERT INTO leaderboards (week_start, week_end, leaderboard_type)
+  VALUES (v_week_start, v_week_start + 6, 'global')
+  ON CONFLICT (week_start) WHERE leaderboard_type = 'global' AND category_filter IS NULL
+  DO NOTHING;
+
+  SELECT id INTO v_leaderboard_id
+  FROM leaderboards
+  WHERE week_start = v_week_start
+    AND leaderboard_type = 'global'
+    AND category_filter IS NULL;
+
+  RETURN v_leaderboard_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Add to a profile's entry for the week (atomic, so concurrent
+--    resolutions can't lose updates)
+CREATE OR REPLACE FUNCTION apply_leaderboard_delta(
+  p_profile_id UUID,
+  p_opened_at TIMESTAMPTZ,
+  p_points DECIMAL,
+  p_packs INTEGER,
+  p_picks INTEGER,
+  p_correct INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_profile_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO leaderboard_entries AS e (
+    leaderboard_id, profile_id, total_points, packs_opened, picks_made, correct_picks,
+    accuracy_rate, updated_at
+  )
+  VALUES (
+    get_week_leaderboard(p_opened_at), p_profile_id, p_points, p_packs, p_picks, p_correct,
+    CASE WHEN p_picks > 0 THEN p_correct::DECIMAL / p_picks ELSE 0 END, now()
+  )
+  ON CONFLICT (leaderboard_id, profile_id) DO UPDATE SET
+    total_points = e.total_points + EXCLUDED.total_points,
+    packs_opened = e.packs_opened + EXCLUDED.packs_opened,
+    picks_made = e.picks_made + EXCLUDED.picks_made,
+    correct_picks = e.correct_picks + EXCLUDED.correct_picks,
+    accuracy_rate = CASE
+      WHEN e.picks_made + EXCLUDED.picks_made > 0
+      THEN (e.correct_picks + EXCLUDED.correct_picks)::DECIMAL / (e.picks_made + EXCLUDED.picks_made)
+      ELSE 0
+    END,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Triggers: packs carry points and correct picks, picks carry the
+--    (non-void) pick count used for accuracy
+CREATE OR REPLACE FUNCTION user_packs_leaderboard_delta()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM apply_leaderboard_delta(
+      NEW.profile_id, NEW.opened_at,
+      COALESCE(NEW.total_points, 0), 1, 0, COALESCE(NEW.correct_picks, 0)
+    );
+  ELSIF COALESCE(NEW.total_points, 0) <> COALESCE(OLD.total_points, 0)
+     OR COALESCE(NEW.correct_picks, 0) <> COALESCE(OLD.correct_picks, 0) THEN
+    PERFORM apply_leaderboard_delta(
+      NEW.profile_id, NEW.opened_at,
+      COALESCE(NEW.total_points, 0) - COALESCE(OLD.total_points, 0), 0, 0,
+      COALESCE(NEW.correct_picks, 0) - COALESCE(OLD.correct_picks, 0)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_packs_leaderboard ON user_packs;
+CREATE TRIGGER user_packs_leaderboard
+  AFTER INSERT OR UPDATE OF total_points, correct_picks ON user_packs
+  FOR EACH ROW EXECUTE FUNCTION user_packs_leaderboard_delta();
+
+CREATE OR REPLACE FUNCTION user_picks_leaderboard_delta()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delta INTEGER;
+  v_profile_id UUID;
+  v_opened_at TIMESTAMPTZ;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := CASE WHEN NEW.is_void THEN 0 ELSE 1 END;
+  ELSE
+    v_delta := (CASE WHEN NEW.is_void THEN 0 ELSE 1 END) - (CASE WHEN OLD.is_void THEN 0 ELSE 1 END);
+  END IF;
+
+  IF v_delta = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT profile_id, opened_at INTO v_profile_id, v_opened_at
+  FROM user_packs
+  WHERE id = NEW.user_pack_id;
+
+  PERFORM apply_leaderboard_delta(v_profile_id, v_opened_at, 0, 0, v_delta, 0);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_picks_leaderboard ON user_picks;
+CREATE TRIGGER user_picks_leaderboard
+  AFTER INSERT OR UPDATE OF is_void ON user_picks
+  FOR EACH ROW EXECUTE FUNCTION user_picks_leaderboard_delta();
+
+-- 6. Rank job: ordered by points (ties: more correct picks, then earliest
+--    to reach the score). previous_rank keeps the last different
+--    rank, so it shows movement rather than churning on every run.
+CREATE OR REPLACE FUNCTION rank_leaderboard(p_leaderboard_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE leaderboard_entries e
+  SET previous_rank = e.rank,
+      rank = ranked.new_rank
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      ORDER BY total_points DESC, correct_picks DESC, updated_at ASC, profile_id
+    )::INTEGER AS new_rank
+    FROM leaderboard_entries
+    WHERE leaderboard_id = p_leaderboard_id
+  ) ranked
+  WHERE e.id = ranked.id
+    AND e.rank IS DISTINCT FROM ranked.new_rank;
+
+  SELECT COUNT(*) INTO v_count
+  FROM leaderboard_entries
+  WHERE leaderboard_id = p_leaderboard_id;
+
+  UPDATE leaderboards
+  SET player_count = v_count, ranked_at = now()
+  WHERE id = p_leaderboard_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 7. Week close: final ranking, frozen snapshot, best weekly rank on profiles
+CREATE OR REPLACE FUNCTION finalize_leaderboard(p_leaderboard_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- Lock the board so two runs can't both finalize it
+  PERFORM 1 FROM leaderboards
+  WHERE id = p_leaderboard_id AND is_finalized = false
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_count := rank_leaderboard(p_leaderboard_id);
+
+  INSERT INTO leaderboard_snapshots (
+    leaderboard_id, profile_id, rank, previous_rank, total_points,
+    packs_opened, picks_made, correct_picks, accuracy_rate
+  )
+  SELECT leaderboard_id, profile_id, rank, previous_rank, total_points,
+    packs_opened, picks_made, correct_picks, accuracy_rate
+  FROM leaderboard_entries
+  WHERE leaderboard_id = p_leaderboard_id
+  ON CONFLICT (leaderboard_id, profile_id) DO NOTHING;
+
+  UPDATE user_profiles p
+  SET best_weekly_rank = LEAST(COALESCE(p.best_weekly_rank, e.rank), e.rank),
+      best_weekly_points = GREATEST(COALESCE(p.best_weekly_points, e.total_points), e.total_points),
+      updated_at = now()
+  FROM leaderboard_entries e
+  WHERE e.leaderboard_id = p_leaderboard_id
+    AND e.profile_id = p.id;
+
+  UPDATE leaderboards
+  SET is_finalized = true, finalized_at = now()
+  WHERE id = p_leaderboard_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 8. Backfill boards and entries from existing packs, then rank them
+INSERT INTO leaderboards (week_start, week_end, leaderboard_type)
+SELECT DISTINCT
+  date_trunc('week', opened_at AT TIME ZONE 'UTC')::DATE,
+  date_trunc('week', opened_at AT TIME ZONE 'UTC')::DATE + 6,
+  'global'
+FROM user_packs
+WHERE profile_id IS NOT NULL
+ON CONFLICT (week_start) WHERE leaderboard_type = 'global' AND category_filter IS NULL
+DO NOTHING;
+
+INSERT INTO leaderboard_entries (
+  leaderboard_id, profile_id, total_points, packs_opened, picks_made, correct_picks,
+  accuracy_rate, updated_at
+)
+SELECT
+  l.id,
+  pack.profile_id,
+  SUM(COALESCE(pack.total_points, 0)),
+  COUNT(*),
+  SUM(pick_counts.picks),
+  SUM(COALESCE(pack.correct_picks, 0)),
+  CASE WHEN SUM(pick_counts.picks) > 0
+    THEN SUM(COALESCE(pack.correct_picks, 0))::DECIMAL / SUM(pick_counts.picks)
+    ELSE 0
+  END,
+  now()
+FROM user_packs pack
+JOIN leaderboards l
+  ON l.week_start = date_trunc('week', pack.opened_at AT TIME ZONE 'UTC')::DATE
+  AND l.leaderboard_type = 'global'
+  AND l.category_filter IS NULL
+CROSS JOIN LATERAL (
+  SELECT COUNT(*) FILTER (WHERE NOT up.is_void) AS picks
+  FROM user_picks up
+  WHERE up.user_pack_id = pack.id
+) pick_counts
+WHERE pack.profile_id IS NOT NULL
+GROUP BY l.id, pack.profile_id
+ON CONFLICT (leaderboard_id, profile_id) DO UPDATE SET
+  total_points = EXCLUDED.total_points,
+  packs_opened = EXCLUDED.packs_opened,
+  picks_made = EXCLUDED.picks_made,
+  correct_picks = EXCLUDED.correct_picks,
+  accuracy_rate = EXCLUDED.accuracy_rate,
+  updated_at = now();
+
+SELECT rank_leaderboard(id)
+FROM leaderboards
+WHERE leaderboard_type = 'global' AND category_filter IS NULL;
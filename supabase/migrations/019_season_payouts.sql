@@ -0,0 +1,104 @@
+-- ============================================
+-- Migration 019: Season Payouts
+-- ============================================
+-- Weekly prizes paid in PLAY. When a week's board is finalized, the
+-- close-season cron allocates prizes from the payout table to the top
+-- wallet-linked players in the frozen snapshot, then pays each one with an
+-- SPL transfer from the treasury.
+--
+-- season_payouts is the ledger: one row per prize, so a prize can only be
+-- allocated once. A row's signature is stored before the transaction is
+-- sent, so a crashed run can tell whether the transfer landed before
+-- trying again.
+--
+-- Status flow:
+--   pending -> sending (signed, signature recorded) -> paid
+--   sending -> pending (blockhash expired without the transfer landing)
+--   sending -> failed  (transaction failed on-chain, needs a look)
+
+-- 1. Ledger
+CREATE TABLE IF NOT EXISTS season_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leaderboard_id UUID NOT NULL REFERENCES leaderboards(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  wallet_address TEXT NOT NULL,       -- Frozen at allocation
+  rank INTEGER NOT NULL,              -- Rank on the board
+  prize_position INTEGER NOT NULL,    -- Position among prize-eligible players
+  amount DECIMAL(20,6) NOT NULL CHECK (amount > 0),  -- PLAY (not raw units)
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'paid', 'failed')),
+  signature TEXT UNIQUE,
+  last_valid_block_height BIGINT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  paid_at TIMESTAMPTZ,
+
+  UNIQUE (leaderboard_id, profile_id),
+  UNIQUE (leaderboard_id, prize_position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_payouts_status
+  ON season_payouts(status)
+  WHERE status IN ('pending', 'sending');
+
+-- Service role only
+ALTER TABLE season_payouts ENABLE ROW LEVEL SECURITY;
+
+-- 2. When a board's prizes were allocated (NULL = not yet)
+ALTER TABLE leaderboards ADD COLUMN IF NOT EXISTS payouts_allocated_at TIMESTAMPTZ;
+
+-- 3. Allocate a finalized board's prizes
+-- p_table: [{ "from": 1, "to": 1, "amount": 1000 }, ...] (positions, PLAY)
+-- Players need a linked wallet and more than 0 points to be eligible; the
+-- rest are skipped, so prizes go to the next eligible player down.
+CREATE OR REPLACE FUNCTION allocate_season_prizes(
+  p_leaderboard_id UUID,
+  p_table JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- Lock the board so two runs can't both allocate it
+  PERFORM 1 FROM leaderboards
+  WHERE id = p_leaderboard_id
+    AND is_finalized = true
+    AND payouts_allocated_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO season_payouts (
+    leaderboard_id, profile_id, wallet_address, rank, prize_position, amount
+  )
+  SELECT p_leaderboard_id, e.profile_id, e.wallet_address, e.rank, e.position, t.amount
+  FROM (
+    SELECT s.profile_id, s.rank, p.wallet_address,
+      ROW_NUMBER() OVER (ORDER BY s.rank, s.profile_id) AS position
+    FROM leaderboard_snapshots s
+    JOIN user_profiles p ON p.id = s.profile_id
+    WHERE s.leaderboard_id = p_leaderboard_id
+      AND s.total_points > 0
+      AND p.wallet_address IS NOT NULL
+  ) e
+  JOIN jsonb_to_recordset(p_table) AS t("from" INTEGER, "to" INTEGER, amount DECIMAL)
+    ON e.position BETWEEN t."from" AND t."to"
+  WHERE t.amount > 0
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE leaderboards
+  SET payouts_allocated_at = now()
+  WHERE id = p_leaderboard_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,121 @@
+-- ============================================
+-- Migration 020: Profile Stats on Resolution
+-- ============================================
+-- Profile aggregates (totals, streaks, per-category stats) are rebuilt from
+-- a profile's picks whenever picks on an event are scored, voided or
+-- re-resolved. Rebuilding rather than incrementing keeps them right when a
+-- result is corrected, and makes re-runs harmless.
+--
+-- Streaks follow resolution order: each resolved pick extends the streak
+-- if correct and resets it if not. Void picks are skipped - they neither
+-- extend nor break a streak, and don't count as picks made.
+
+-- 1. Rebuild stats for a set of profiles (one transaction per call)
+CREATE OR REPLACE FUNCTION refresh_profile_stats(p_profile_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_profile_id UUID;
+  v_is_correct BOOLEAN;
+  v_current INTEGER;
+  v_longest INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  -- Lock the profiles (in a fixed order) so concurrent resolutions of
+  -- different events queue up instead of overwriting each other
+  FOR v_profile_id IN
+    SELECT id FROM user_profiles
+    WHERE id = ANY(p_profile_ids)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    v_current := 0;
+    v_longest := 0;
+
+    FOR v_is_correct IN
+      SELECT COALESCE(up.is_correct, false)
+      FROM user_picks up
+      JOIN user_packs pack ON pack.id = up.user_pack_id
+      JOIN events e ON e.id = up.event_id
+      WHERE pack.profile_id = v_profile_id
+        AND up.is_resolved = true
+        AND up.is_void = false
+      ORDER BY COALESCE(e.resolved_at, up.resolved_at), up.resolved_at, up.id
+    LOOP
+      IF v_is_correct THEN
+        v_current := v_current + 1;
+        v_longest := GREATEST(v_longest, v_current);
+      ELSE
+        v_current := 0;
+      END IF;
+    END LOOP;
+
+    UPDATE user_profiles
+    SET
+      total_points = (
+        SELECT COALESCE(SUM(total_points), 0)
+        FROM user_packs
+        WHERE profile_id = v_profile_id
+      ),
+      total_packs_opened = (
+        SELECT COUNT(*)
+        FROM user_packs
+        WHERE profile_id = v_profile_id
+      ),
+      total_picks_made = (
+        SELECT COUNT(*)
+        FROM user_picks up
+        JOIN user_packs pack ON pack.id = up.user_pack_id
+        WHERE pack.profile_id = v_profile_id
+          AND up.is_resolved = true
+          AND up.is_void = false
+      ),
+      total_correct_picks = (
+        SELECT COUNT(*)
+        FROM user_picks up
+        JOIN user_packs pack ON pack.id = up.user_pack_id
+        WHERE pack.profile_id = v_profile_id AND up.is_correct = true
+      ),
+      current_streak = v_current,
+      longest_streak = v_longest,
+      category_stats = COALESCE((
+        SELECT jsonb_object_agg(
+          c.category,
+          jsonb_build_object('points', c.points, 'picks', c.picks, 'correct', c.correct)
+        )
+        FROM (
+          SELECT
+            e.category,
+            SUM(COALESCE(up.points_awarded, 0)) AS points,
+            COUNT(*) AS picks,
+            COUNT(*) FILTER (WHERE up.is_correct = true) AS correct
+          FROM user_picks up
+          JOIN user_packs pack ON pack.id = up.user_pack_id
+          JOIN events e ON e.id = up.event_id
+          WHERE pack.profile_id = v_profile_id
+            AND up.is_resolved = true
+            AND up.is_void = false
+          GROUP BY e.category
+        ) c
+      ), '{}'::jsonb),
+      updated_at = now()
+    WHERE id = v_profile_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. The single-profile version now shares the same definition
+CREATE OR REPLACE FUNCTION update_user_profile_stats(p_profile_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM refresh_profile_stats(ARRAY[p_profile_id]);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Backfill every profile from existing picks
+-- Re-run at any time with: SELECT refresh_profile_stats(ARRAY(SELECT id FROM user_profiles));
+-- (or POST /api/admin/profiles/stats, which works through profiles in batches)
+SELECT refresh_profile_stats(ARRAY(SELECT id FROM user_profiles));
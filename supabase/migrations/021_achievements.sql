@@ -0,0 +1,53 @@
+-- ============================================
+-- Migration 021: Achievements
+-- ============================================
+-- Unlocks live in user_profiles.achievements (JSONB array, since 001):
+--   [{ "id": "perfect_pack", "unlocked_at": "...", "pack_id": "...", "pick_id": "..." }]
+-- The catalogue itself is code (src/lib/achievements/catalogue.ts); the
+-- engine evaluates it on pack commit and pick resolution and records
+-- unlocks through unlock_achievements.
+
+-- 1. Append unlocks a profile doesn't have yet (each achievement unlocks once)
+-- p_unlocks: [{ "id": "...", "pack_id"?: "...", "pick_id"?: "..." }]
+-- Returns the unlocks that were new, with their unlocked_at.
+CREATE OR REPLACE FUNCTION unlock_achievements(
+  p_profile_id UUID,
+  p_unlocks JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_existing JSONB;
+  v_new JSONB;
+BEGIN
+  -- Lock the profile so concurrent unlocks don't overwrite each other
+  SELECT COALESCE(achievements, '[]'::jsonb) INTO v_existing
+  FROM user_profiles
+  WHERE id = p_profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(u.unlock || jsonb_build_object('unlocked_at', now())), '[]'::jsonb)
+  INTO v_new
+  FROM (
+    SELECT DISTINCT ON (value->>'id') value AS unlock
+    FROM jsonb_array_elements(p_unlocks)
+    ORDER BY value->>'id'
+  ) u
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_existing) e
+    WHERE e->>'id' = u.unlock->>'id'
+  );
+
+  IF jsonb_array_length(v_new) > 0 THEN
+    UPDATE user_profiles
+    SET achievements = v_existing || v_new,
+        updated_at = now()
+    WHERE id = p_profile_id;
+  END IF;
+
+  RETURN v_new;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,91 @@
+-- ============================================
+-- Migration 022: Friend Leagues
+-- ============================================
+-- Private leagues: a player creates one, shares its invite code (or the
+-- /leagues/join/<code> link) and friends join. A league's leaderboard
+-- uses the same pack aggregation as the global boards, scoped to its
+-- members, the pack types it counts and its current season.
+--
+-- Seasons are consecutive blocks of season_length_weeks weeks, starting
+-- from season_start (the Monday of the week the league was created).
+
+-- 1. Leagues
+CREATE TABLE IF NOT EXISTS leagues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  invite_code TEXT NOT NULL UNIQUE,
+  owner_profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  -- Settings (league admins)
+  counted_pack_types TEXT[],     -- pack_types.slug; NULL = every pack type
+  season_length_weeks INTEGER NOT NULL DEFAULT 1
+    CHECK (season_length_weeks BETWEEN 1 AND 52),
+  season_start DATE NOT NULL DEFAULT date_trunc('week', now() AT TIME ZONE 'UTC')::DATE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- 2. Members
+CREATE TABLE IF NOT EXISTS league_members (
+  league_id UUID NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (league_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_members_profile ON league_members(profile_id);
+
+-- Service role only (leagues are private to their members)
+ALTER TABLE leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE league_members ENABLE ROW LEVEL SECURITY;
+
+-- 3. Join by invite code, up to p_max_members
+-- Returns the league ID, or NULL with a reason:
+--   'not_found' | 'full' (already a member is fine - returns the league)
+CREATE OR REPLACE FUNCTION join_league(
+  p_invite_code TEXT,
+  p_profile_id UUID,
+  p_max_members INTEGER
+)
+RETURNS TABLE (league_id UUID, reason TEXT) AS $$
+DECLARE
+  v_league_id UUID;
+  v_members INTEGER;
+BEGIN
+  -- Lock the league so concurrent joins can't overfill it
+  SELECT l.id INTO v_league_id
+  FROM leagues l
+  WHERE l.invite_code = upper(p_invite_code)
+  FOR UPDATE;
+
+  IF v_league_id IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM league_members m
+    WHERE m.league_id = v_league_id AND m.profile_id = p_profile_id
+  ) THEN
+    RETURN QUERY SELECT v_league_id, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_members
+  FROM league_members m
+  WHERE m.league_id = v_league_id;
+
+  IF v_members >= p_max_members THEN
+    RETURN QUERY SELECT NULL::UUID, 'full'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO league_members (league_id, profile_id)
+  VALUES (v_league_id, p_profile_id);
+
+  RETURN QUERY SELECT v_league_id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,50 @@
+-- ============================================
+-- Migration 023: Head-to-Head Challenges
+-- ============================================
+-- A player who has committed a pack challenges a friend with a share
+-- link. The friend drafts the exact same events at the same odds as a
+-- "challenge" pack - dealt from the challenge, not from a pool - and
+-- once everything resolves the two packs are compared pick by pick.
+--
+-- The first other player to deal the challenge becomes the opponent;
+-- the opponent's pack is linked when their picks are committed.
+
+-- 1. Challenge pack type (dealt only from a challenge, never listed)
+INSERT INTO pack_types (slug, name, description, eligibility_filters, pixel_art_theme, is_active)
+VALUES ('challenge', 'Challenge Pack', 'The same events a friend drafted, at the same odds', '{}', 'default', false)
+ON CONFLICT (slug) DO NOTHING;
+
+-- 2. Challenges
+CREATE TABLE IF NOT EXISTS challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  creator_profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  creator_pack_id UUID NOT NULL UNIQUE REFERENCES user_packs(id) ON DELETE CASCADE,
+
+  opponent_profile_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  opponent_pack_id UUID UNIQUE REFERENCES user_packs(id) ON DELETE SET NULL,
+
+  -- The creator's events in position order, at the odds the creator's
+  -- picks were committed at; the opponent is dealt exactly these
+  event_ids UUID[] NOT NULL,
+  events JSONB NOT NULL,
+
+  -- Both packs are scored under the creator's ruleset (null = standard v1)
+  scoring_ruleset_id UUID REFERENCES scoring_rulesets(id),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMPTZ,
+
+  CHECK (opponent_profile_id IS NULL OR opponent_profile_id <> creator_profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_creator ON challenges(creator_profile_id);
+CREATE INDEX IF NOT EXISTS idx_challenges_opponent ON challenges(opponent_profile_id);
+
+-- Service role only
+ALTER TABLE challenges ENABLE ROW LEVEL SECURITY;
+
+-- 3. Challenge drafts
+-- A draft dealt from a challenge; committing it links the opponent's pack
+ALTER TABLE pack_drafts
+  ADD COLUMN IF NOT EXISTS challenge_id UUID REFERENCES challenges(id) ON DELETE CASCADE;
@@ -0,0 +1,54 @@
+-- ============================================
+-- Migration 024: Daily Shared Pack
+-- ============================================
+-- Every UTC day one "daily" pack is selected from the pool with a seed
+-- derived from the date, and every player is dealt those same five
+-- events. Each profile gets one daily entry per day - separate from the
+-- weekly free pack limit - and the day's entries have their own
+-- leaderboard and a breakdown of how the community picked each event.
+
+-- 1. Daily pack type
+INSERT INTO pack_types (slug, name, description, eligibility_filters, pixel_art_theme, is_active)
+VALUES ('daily', 'Daily Pack', 'The same five events for everyone, new every UTC day', '{}', 'default', true)
+ON CONFLICT (slug) DO NOTHING;
+
+-- 2. Daily packs
+-- The first deal of the day selects and stores the events, so the pack
+-- stays the same for everyone even as the pool changes during the day
+CREATE TABLE IF NOT EXISTS daily_packs (
+  day DATE PRIMARY KEY,
+  seed TEXT NOT NULL,
+
+  -- Events in position order, at the odds they were selected at
+  event_ids UUID[] NOT NULL,
+  events JSONB NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Service role only
+ALTER TABLE daily_packs ENABLE ROW LEVEL SECURITY;
+
+-- 3. Daily entries
+-- A daily pack records the day it was dealt for; one entry per profile
+-- per day. Daily packs don't count towards the weekly limit.
+ALTER TABLE pack_drafts
+  ADD COLUMN IF NOT EXISTS daily_date DATE;
+
+ALTER TABLE user_packs
+  ADD COLUMN IF NOT EXISTS daily_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_packs_daily_entry
+  ON user_packs(profile_id, daily_date)
+  WHERE daily_date IS NOT NULL;
+
+-- 4. Pick distribution
+-- How the day's entries picked each event
+CREATE OR REPLACE FUNCTION get_daily_pick_distribution(p_day DATE)
+RETURNS TABLE (event_id UUID, picked_outcome TEXT, picks BIGINT) AS $$
+  SELECT up.event_id, up.picked_outcome, COUNT(*) AS picks
+  FROM user_picks up
+  JOIN user_packs p ON p.id = up.user_pack_id
+  WHERE p.daily_date = p_day
+  GROUP BY up.event_id, up.picked_outcome;
+$$ LANGUAGE sql STABLE;
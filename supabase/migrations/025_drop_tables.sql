@@ -0,0 +1,91 @@
+-- ============================================
+-- Migration 025: Drop Tables & Pity Timer
+-- ============================================
+-- Each pack type can publish its own drop table (the chance of each
+-- target rarity per card) instead of the default rates, e.g. a longshot
+-- pack boosting epic and legendary odds. Tables must cover every rarity
+-- and sum to 1.
+--
+-- A pack type can also set a pity timer: after N of a player's packs of
+-- that type in a row without a rare-or-better card, the next one is
+-- guaranteed one. Counters are kept per profile and pack type.
+
+-- 1. Drop table validation
+CREATE OR REPLACE FUNCTION is_valid_drop_table(p_table JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_rarities TEXT[] := ARRAY['common', 'uncommon', 'rare', 'epic', 'legendary'];
+  v_rarity TEXT;
+  v_rate NUMERIC;
+  v_total NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(p_table) IS DISTINCT FROM 'object' THEN
+    RETURN false;
+  END IF;
+
+  -- Exactly the five rarities
+  IF EXISTS (SELECT 1 FROM jsonb_object_keys(p_table) AS k WHERE k <> ALL(v_rarities)) THEN
+    RETURN false;
+  END IF;
+
+  FOREACH v_rarity IN ARRAY v_rarities LOOP
+    IF jsonb_typeof(p_table -> v_rarity) IS DISTINCT FROM 'number' THEN
+      RETURN false;
+    END IF;
+
+    v_rate := (p_table ->> v_rarity)::NUMERIC;
+    IF v_rate < 0 OR v_rate > 1 THEN
+      RETURN false;
+    END IF;
+
+    v_total := v_total + v_rate;
+  END LOOP;
+
+  RETURN abs(v_total - 1) <= 0.000001;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 2. Per pack type drop table and pity threshold (null = defaults / no pity)
+ALTER TABLE pack_types
+  ADD COLUMN IF NOT EXISTS drop_rates JSONB
+    CHECK (drop_rates IS NULL OR is_valid_drop_table(drop_rates)),
+  ADD COLUMN IF NOT EXISTS pity_threshold INTEGER
+    CHECK (pity_threshold IS NULL OR pity_threshold > 0);
+
+-- 3. Pity counters
+CREATE TABLE IF NOT EXISTS pity_counters (
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  pack_type_slug TEXT NOT NULL,
+
+  -- Committed packs in a row without a rare-or-better card
+  packs_without_rare INTEGER NOT NULL DEFAULT 0,
+
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (profile_id, pack_type_slug)
+);
+
+-- Service role only
+ALTER TABLE pity_counters ENABLE ROW LEVEL SECURITY;
+
+-- 4. Record a committed pack: a rare-or-better card resets the counter,
+-- otherwise it goes up by one. Returns the new count.
+CREATE OR REPLACE FUNCTION record_pity_pack(
+  p_profile_id UUID,
+  p_pack_type_slug TEXT,
+  p_had_rare BOOLEAN
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO pity_counters (profile_id, pack_type_slug, packs_without_rare)
+  VALUES (p_profile_id, p_pack_type_slug, CASE WHEN p_had_rare THEN 0 ELSE 1 END)
+  ON CONFLICT (profile_id, pack_type_slug) DO UPDATE
+    SET packs_without_rare = CASE WHEN p_had_rare THEN 0 ELSE pity_counters.packs_without_rare + 1 END,
+        updated_at = now()
+  RETURNING packs_without_rare INTO v_count;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
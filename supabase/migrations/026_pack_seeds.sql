@@ -0,0 +1,35 @@
+-- ============================================
+-- Migration 026: Provably Fair Pack Seeds
+-- ============================================
+-- Pool packs are dealt from a seeded random source (commit-reveal):
+-- the server commits to the SHA-256 hash of a secret server seed before
+-- the pack is dealt, deals it from the server seed combined with a client
+-- seed (the payment signature for premium packs), and reveals the server
+-- seed once the picks are committed. The recorded inputs let anyone
+-- replay the selection.
+
+-- 1. Seed commitments (id = the pack's ID)
+CREATE TABLE IF NOT EXISTS pack_seeds (
+  id UUID PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  pack_type_slug TEXT NOT NULL,
+
+  -- Secret until revealed_at
+  server_seed TEXT NOT NULL,
+  server_seed_hash TEXT NOT NULL,
+
+  -- Set when the pack is dealt
+  client_seed TEXT,
+  -- { cardsPerPack, dropRates, guaranteeRarity, pool: [{ id, title, outcome_a_probability, outcome_b_probability }] }
+  inputs JSONB,
+  event_ids TEXT[],
+  dealt_at TIMESTAMPTZ,
+
+  revealed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pack_seeds_profile ON pack_seeds(profile_id, created_at DESC);
+
+-- Service role only: server seeds must never be readable before they're revealed
+ALTER TABLE pack_seeds ENABLE ROW LEVEL SECURITY;
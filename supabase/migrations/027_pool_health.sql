@@ -0,0 +1,48 @@
+-- ============================================
+-- Migration 027: Pool Health
+-- ============================================
+-- Each card in a pack rolls a target rarity; when its pool has no event in
+-- that rarity bin a more common one is dealt instead (a fallback), so the
+-- published drop rates stop holding. Rolls and fallbacks are counted per
+-- day, pack type and target rarity for the pool health report
+-- (/api/admin/pools/health), alongside each pool's events per rarity bin.
+
+-- 1. Daily roll counts
+CREATE TABLE IF NOT EXISTS rarity_roll_stats (
+  day DATE NOT NULL,
+  pack_type_slug TEXT NOT NULL,
+  target_rarity TEXT NOT NULL CHECK (target_rarity IN ('common', 'uncommon', 'rare', 'epic', 'legendary')),
+
+  -- Cards that rolled this rarity, and how many of them were dealt another
+  rolls INTEGER NOT NULL DEFAULT 0,
+  fallbacks INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (day, pack_type_slug, target_rarity)
+);
+
+-- Service role only
+ALTER TABLE rarity_roll_stats ENABLE ROW LEVEL SECURITY;
+
+-- 2. Record a dealt pack's cards: the rarity each one rolled and the
+-- rarity it was dealt (parallel arrays)
+CREATE OR REPLACE FUNCTION record_rarity_rolls(
+  p_pack_type_slug TEXT,
+  p_target_rarities TEXT[],
+  p_dealt_rarities TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO rarity_roll_stats (day, pack_type_slug, target_rarity, rolls, fallbacks)
+  SELECT
+    (now() AT TIME ZONE 'UTC')::DATE,
+    p_pack_type_slug,
+    r.target_rarity,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r.dealt_rarity IS DISTINCT FROM r.target_rarity)
+  FROM unnest(p_target_rarities, p_dealt_rarities) AS r(target_rarity, dealt_rarity)
+  GROUP BY r.target_rarity
+  ON CONFLICT (day, pack_type_slug, target_rarity) DO UPDATE
+    SET rolls = rarity_roll_stats.rolls + EXCLUDED.rolls,
+        fallbacks = rarity_roll_stats.fallbacks + EXCLUDED.fallbacks;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,25 @@
+-- ============================================
+-- Migration 028: Selection Constraints
+-- ============================================
+-- Each pack type can constrain which events are dealt together, so a
+-- pack isn't five cards from one league or several markets on the same
+-- game (a moneyline and its draw market), and its reveals don't all land
+-- on the same night:
+--
+--   { "max_per_subcategory": 2, "max_per_league": 2,
+--     "distinct_start_times": true, "slug_prefix_segments": 4,
+--     "max_per_resolution_day": 3 }
+--
+-- Constraints are relaxed for a card only when the pool has no event
+-- that keeps to them.
+
+-- 1. Per pack type constraints (null = none)
+ALTER TABLE pack_types
+  ADD COLUMN IF NOT EXISTS selection_constraints JSONB
+    CHECK (selection_constraints IS NULL OR jsonb_typeof(selection_constraints) = 'object');
+
+-- 2. Pool packs: at most two cards per league, one market per game and
+-- three reveals per day
+UPDATE pack_types
+SET selection_constraints = '{"max_per_league": 2, "distinct_start_times": true, "slug_prefix_segments": 4, "max_per_resolution_day": 3}'
+WHERE slug IN ('sports', 'daily') AND selection_constraints IS NULL;
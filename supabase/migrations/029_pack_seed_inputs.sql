@@ -0,0 +1,15 @@
+-- ============================================
+-- Migration 029: Committed Pack Seed Inputs
+-- ============================================
+-- The selection inputs (eligible pool, drop table, pity guarantee and
+-- selection constraints) are now snapshotted when the seed is committed,
+-- before the client seed is known, and their SHA-256 hash is published
+-- alongside the server seed's. The pool can't be tailored to the client
+-- seed afterwards.
+--
+-- A seed is now marked dealt (dealt_at) only once the pack's draft is
+-- stored; until then the same client seed can retry a failed deal.
+
+-- 1. Hash of the canonical JSON of inputs (null for earlier commitments)
+ALTER TABLE pack_seeds
+  ADD COLUMN IF NOT EXISTS inputs_hash TEXT;
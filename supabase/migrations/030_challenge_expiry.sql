@@ -0,0 +1,20 @@
+-- ============================================
+-- Migration 030: Challenge Expiry
+-- ============================================
+-- A challenge can only be taken while it's fresh: it expires a fixed time
+-- after it's created, and is refused sooner once any of its events has
+-- started (checked against the live event rows when it's dealt or
+-- committed).
+
+-- 1. Expiry
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+-- Existing challenges get the same week to be taken
+UPDATE challenges
+SET expires_at = created_at + INTERVAL '7 days'
+WHERE expires_at IS NULL;
+
+ALTER TABLE challenges
+  ALTER COLUMN expires_at SET DEFAULT now() + INTERVAL '7 days',
+  ALTER COLUMN expires_at SET NOT NULL;
@@ -0,0 +1,25 @@
+-- ============================================
+-- Migration 031: Close Seasons Once Settled
+-- ============================================
+-- A week was frozen (and its prizes allocated) at the first close-season
+-- run after it ended, while picks in that week's packs were still waiting
+-- on their events - so prizes went out on incomplete standings.
+--
+-- The close-season cron now only finalizes a week once every pick in the
+-- packs opened that week is resolved (void picks count as resolved), or
+-- once a grace period after the week has passed (SEASON_CLOSE_GRACE_DAYS).
+-- Prizes are only allocated from finalized weeks, so they wait too.
+
+-- 1. Unresolved picks in the packs counting towards a board's week
+CREATE OR REPLACE FUNCTION count_unresolved_week_picks(p_leaderboard_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM leaderboards l
+  JOIN user_packs pack
+    ON pack.opened_at >= (l.week_start::TIMESTAMP AT TIME ZONE 'UTC')
+    AND pack.opened_at < ((l.week_end + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+  JOIN user_picks pick ON pick.user_pack_id = pack.id
+  WHERE l.id = p_leaderboard_id
+    AND pack.profile_id IS NOT NULL
+    AND pick.is_resolved = false;
+$$ LANGUAGE sql STABLE;
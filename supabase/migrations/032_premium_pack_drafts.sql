@@ -0,0 +1,21 @@
+-- ============================================
+-- Migration 032: Premium Pack Commitments and Drafts
+-- ============================================
+-- A pending draft was resumed whether or not it was paid for: a free
+-- draft opened from the premium page took its random client seed for the
+-- payment signature, and a paid draft opened from the free page was
+-- committed as a free pack.
+--
+-- Seeds and drafts now record whether they're premium. A profile has one
+-- pending pool pack per pack type and kind (free or premium), only the
+-- same kind is resumed or reused, and a commit must match its draft's kind.
+--
+-- NULL = made before this migration (kind unknown, not enforced).
+
+-- 1. Seed commitments
+ALTER TABLE pack_seeds
+  ADD COLUMN IF NOT EXISTS is_premium BOOLEAN;
+
+-- 2. Drafts
+ALTER TABLE pack_drafts
+  ADD COLUMN IF NOT EXISTS is_premium BOOLEAN;